@@ -0,0 +1,130 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Siren, CheckCircle, RefreshCw, AlertCircle } from 'lucide-react';
+import { AlertSummary } from "@shared/api";
+
+interface ActiveAlertsPanelProps {
+  authToken: string;
+  // Bumped by the dashboard's real-time listener whenever an alert is raised or acknowledged
+  refreshKey: number;
+}
+
+/**
+ * Unacknowledged urgent/emergency alerts with an acknowledge action.
+ * Acknowledging stops the secondary on-call admin from being paged.
+ */
+const ActiveAlertsPanel: React.FC<ActiveAlertsPanelProps> = ({ authToken, refreshKey }) => {
+  const [alerts, setAlerts] = useState<AlertSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [acknowledging, setAcknowledging] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const fetchAlerts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/admin/alerts?status=active", {
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok || !result.success) {
+        setError(result.error || "Unable to load alerts");
+        return;
+      }
+
+      setError("");
+      setAlerts(result.data || []);
+    } catch (err) {
+      console.error("Failed to load alerts:", err);
+      setError("Unable to load alerts. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [authToken]);
+
+  useEffect(() => {
+    fetchAlerts();
+  }, [fetchAlerts, refreshKey]);
+
+  const acknowledge = async (alert: AlertSummary) => {
+    setAcknowledging(alert.id);
+    try {
+      const response = await fetch(`/api/admin/alerts/${alert.id}/acknowledge`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${authToken}` },
+      });
+      const result = await response.json().catch(() => ({}));
+
+      // 409: someone else got there first - either way the alert is no longer active
+      if (!response.ok && response.status !== 409) {
+        setError(result.error || "Failed to acknowledge alert");
+        return;
+      }
+
+      setError(response.status === 409 ? result.error : "");
+      setAlerts((prev) => prev.filter((a) => a.id !== alert.id));
+    } catch (err) {
+      console.error("Failed to acknowledge alert:", err);
+      setError("Failed to acknowledge alert. Please try again.");
+    } finally {
+      setAcknowledging(null);
+    }
+  };
+
+  if (alerts.length === 0 && !error) return null;
+
+  return (
+    <Card className="mb-6 border-red-200">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Siren className="w-5 h-5 text-red-600" />
+            Active alerts
+            <Badge variant="destructive">{alerts.length}</Badge>
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={fetchAlerts} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <p className="flex items-center gap-2 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4" />
+            {error}
+          </p>
+        )}
+        {alerts.map((alert) => (
+          <div key={alert.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-md border p-3">
+            <div className="space-y-1">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant={alert.alertType === 'emergency' ? 'destructive' : 'secondary'}>
+                  {alert.alertType.toUpperCase()}
+                </Badge>
+                <span className="font-medium">{alert.message}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Alert {alert.shortId}
+                {alert.report_short_id && <> · Report {alert.report_short_id}</>}
+                {' · '}{new Date(alert.created_at).toLocaleString()}
+                {alert.paged.length > 0 && <> · Paged: {alert.paged.join(', ')}</>}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => acknowledge(alert)}
+              disabled={acknowledging === alert.id}
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              {acknowledging === alert.id ? "Acknowledging..." : "Acknowledge"}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActiveAlertsPanel;
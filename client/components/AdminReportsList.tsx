@@ -17,14 +17,22 @@ import {
   RefreshCw,
   AlertCircle,
   MapPin,
-  Lock
+  Lock,
+  ShieldCheck,
+  ShieldAlert,
+  ShieldQuestion,
+  FileCheck
 } from 'lucide-react';
 import LocationMapView from './LocationMapView';
 
 interface Report {
   id: string;
   shortId: string;
-  message: string;
+  message: string; // PII-redacted
+  pii?: {
+    types: string[];
+    count: number;
+  };
   status: 'pending' | 'in-progress' | 'resolved' | 'escalated' | 'reviewed' | 'flagged';
   priority: 'low' | 'medium' | 'high' | 'urgent';
   created_at: string;
@@ -55,6 +63,12 @@ interface Report {
       displayName: string;
       uploadDate: string;
       isEncrypted: boolean;
+      metadataRemoved?: string[];
+      captureLocation?: { latitude: number; longitude: number; altitude?: number; source: string } | null;
+      thumbnailUrl?: string;
+      scanVerdict?: 'clean' | 'infected' | 'error' | 'unscanned';
+      scanSignature?: string;
+      quarantined?: boolean;
       error?: string;
     }>;
     videos: Array<{
@@ -68,13 +82,50 @@ interface Report {
       uploadDate: string;
       duration?: number;
       isEncrypted: boolean;
+      metadataRemoved?: string[];
+      captureLocation?: { latitude: number; longitude: number; altitude?: number; source: string } | null;
+      thumbnailUrl?: string;
+      scanVerdict?: 'clean' | 'infected' | 'error' | 'unscanned';
+      scanSignature?: string;
+      quarantined?: boolean;
       error?: string;
     }>;
     totalCount: number;
     hasMedia: boolean;
   };
+  // Same shape as media; returned by the list/detail API (list entries are previews only)
+  mediaFiles?: Report['media'];
 }
 
+/**
+ * Thumbnail served by the authenticated thumbnail endpoint (img tags can't send the token)
+ */
+const MediaThumbnail: React.FC<{ url: string; alt: string; className?: string }> = ({ url, alt, className }) => {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let revoked = false;
+    let created: string | null = null;
+    const token = sessionStorage.getItem('adminToken') || localStorage.getItem('adminToken');
+
+    fetch(url, { headers: { 'Authorization': `Bearer ${token}` } })
+      .then((response) => (response.ok ? response.blob() : null))
+      .then((blob) => {
+        if (!blob || revoked) return;
+        created = URL.createObjectURL(blob);
+        setObjectUrl(created);
+      })
+      .catch((error) => console.warn('⚠️ Thumbnail load failed:', error));
+
+    return () => {
+      revoked = true;
+      if (created) URL.revokeObjectURL(created);
+    };
+  }, [url]);
+
+  return objectUrl ? <img src={objectUrl} alt={alt} className={className} /> : null;
+};
+
 interface AdminReportsListProps {
   reports: Report[];
   onUpdateReport?: (reportId: string, updates: Partial<Report>) => void;
@@ -88,6 +139,10 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
 }) => {
   const [selectedReport, setSelectedReport] = useState<Report | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Unredacted message, only after an explicit (audited) reveal
+  const [revealedMessage, setRevealedMessage] = useState<string | null>(null);
+  // Result of the last evidence integrity check on the open report
+  const [integrityResult, setIntegrityResult] = useState<{ verified: boolean; summary: string } | null>(null);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -131,8 +186,97 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
     }
   };
 
+  const revealOriginalMessage = async (reportId: string) => {
+    const reason = prompt('Reason for revealing personal information (recorded in the audit trail):');
+    if (reason === null) return;
+    try {
+      const adminToken = sessionStorage.getItem('adminToken') || localStorage.getItem('adminToken');
+      const res = await fetch(`/api/admin/reports/${reportId}/reveal-pii`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${adminToken}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ reason })
+      });
+      if (res.status === 403) {
+        alert('You do not have permission to view personal information');
+        return;
+      }
+      if (!res.ok) {
+        alert('Failed to reveal the original message');
+        return;
+      }
+      const json = await res.json();
+      setRevealedMessage(json.data?.message || '');
+    } catch (err) {
+      console.error('❌ Reveal error:', err);
+      alert('Reveal request failed');
+    }
+  };
+
+  const verifyEvidenceIntegrity = async (reportId: string) => {
+    try {
+      const adminToken = sessionStorage.getItem('adminToken') || localStorage.getItem('adminToken');
+      const res = await fetch(`/api/admin/reports/${reportId}/integrity`, {
+        headers: { 'Authorization': `Bearer ${adminToken}` }
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        alert(body?.error || 'Failed to verify evidence integrity');
+        return;
+      }
+      const { data } = await res.json();
+      const failures = [
+        !data.message?.match && 'message hash differs',
+        ...(data.media || [])
+          .filter((media: any) => media.status !== 'ok' && media.status !== 'quarantined')
+          .map((media: any) => `${media.field} ${media.status}`),
+        !data.chain?.valid && `custody log broken at entry ${data.chain?.broken_at} (${data.chain?.reason})`
+      ].filter(Boolean);
+      setIntegrityResult({
+        verified: !!data.verified,
+        summary: data.verified
+          ? `Hashes match, custody log intact (${data.chain.length} entries)`
+          : failures.join(', ') || 'No hashes recorded for this report'
+      });
+    } catch (err) {
+      console.error('❌ Integrity check error:', err);
+      alert('Integrity check request failed');
+    }
+  };
+
+  const downloadEvidenceCertificate = async (reportId: string, shortId: string) => {
+    try {
+      const adminToken = sessionStorage.getItem('adminToken') || localStorage.getItem('adminToken');
+      const res = await fetch(`/api/admin/reports/${reportId}/evidence-certificate`, {
+        headers: { 'Authorization': `Bearer ${adminToken}` }
+      });
+      if (res.status === 403) {
+        alert('You do not have permission to export evidence');
+        return;
+      }
+      if (!res.ok) {
+        const body = await res.json().catch(() => null);
+        alert(body?.error || 'Failed to download the evidence certificate');
+        return;
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `evidence-certificate-${shortId}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('❌ Certificate download error:', err);
+      alert('Certificate download failed');
+    }
+  };
+
   const fetchReportDetails = async (reportId: string) => {
     setIsLoading(true);
+    setRevealedMessage(null);
+    setIntegrityResult(null);
     try {
       console.log(`📊 Fetching report details for: ${reportId}`);
       
@@ -182,6 +326,75 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
     }
   };
 
+  // Thumbnails only - the list never downloads full-size media. Media whose preview
+  // hasn't been generated yet (or can't be) gets a placeholder tile.
+  const renderMediaPreviews = (report: Report) => {
+    const previews = [
+      ...(report.mediaFiles?.images || []).map((file) => ({ file, Icon: ImageIcon })),
+      ...(report.mediaFiles?.videos || []).map((file) => ({ file, Icon: Video }))
+    ];
+    if (previews.length === 0) return null;
+
+    return (
+      <div className="flex gap-2 mb-3">
+        {previews.map(({ file, Icon }) => file.thumbnailUrl ? (
+          <MediaThumbnail
+            key={file.id}
+            url={file.thumbnailUrl}
+            alt={file.displayName}
+            className="h-16 w-16 rounded object-cover border"
+          />
+        ) : (
+          <div
+            key={file.id}
+            title={file.displayName}
+            className="h-16 w-16 rounded border bg-gray-100 flex items-center justify-center text-gray-400"
+          >
+            <Icon className="w-6 h-6" />
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Worst malware scan verdict across a report's files, shown before any evidence is opened
+  const renderScanBadge = (media: Report['media']) => {
+    const files = [...(media?.images || []), ...(media?.videos || [])];
+    if (files.length === 0) return null;
+
+    const infected = files.filter((file) => file.scanVerdict === 'infected' || file.quarantined);
+    if (infected.length > 0) {
+      return (
+        <Badge variant="destructive" title={infected.map((file) => file.scanSignature).filter(Boolean).join(', ')}>
+          <ShieldAlert className="h-3 w-3 mr-1" />
+          Malware quarantined
+        </Badge>
+      );
+    }
+    if (files.some((file) => file.scanVerdict === 'error')) {
+      return (
+        <Badge variant="outline" className="border-orange-300 text-orange-700">
+          <ShieldQuestion className="h-3 w-3 mr-1" />
+          Scan failed
+        </Badge>
+      );
+    }
+    if (files.some((file) => !file.scanVerdict || file.scanVerdict === 'unscanned')) {
+      return (
+        <Badge variant="outline" className="text-gray-600">
+          <ShieldQuestion className="h-3 w-3 mr-1" />
+          Not scanned
+        </Badge>
+      );
+    }
+    return (
+      <Badge variant="outline" className="border-green-300 text-green-700">
+        <ShieldCheck className="h-3 w-3 mr-1" />
+        Scanned clean
+      </Badge>
+    );
+  };
+
   const renderMediaSection = (media: Report['media']) => {
     if (!media || !media.hasMedia) {
       return (
@@ -215,6 +428,8 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
                           e.currentTarget.src = '/placeholder.svg';
                         }}
                       />
+                    ) : image.thumbnailUrl ? (
+                      <MediaThumbnail url={image.thumbnailUrl} alt={image.displayName} className="w-full h-48 object-cover" />
                     ) : (
                       <div className="w-full h-48 bg-gray-200 flex items-center justify-center">
                         <div className="text-center">
@@ -241,6 +456,17 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
                           Encrypted
                         </Badge>
                       )}
+                      {image.metadataRemoved && image.metadataRemoved.length > 0 && (
+                        <Badge variant="outline" className="mt-1 ml-1" title={image.metadataRemoved.join(', ')}>
+                          Metadata stripped
+                        </Badge>
+                      )}
+                      {image.captureLocation && (
+                        <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                          <MapPin className="h-3 w-3" />
+                          Taken at {image.captureLocation.latitude.toFixed(5)}, {image.captureLocation.longitude.toFixed(5)}
+                        </p>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -269,6 +495,11 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
                           console.error('❌ Video load error:', e);
                         }}
                       />
+                    ) : video.thumbnailUrl ? (
+                      <div className="relative cursor-pointer" onClick={() => window.open(video.url, '_blank')}>
+                        <MediaThumbnail url={video.thumbnailUrl} alt={video.displayName} className="w-full h-48 object-cover" />
+                        <Video className="absolute inset-0 m-auto h-10 w-10 text-white drop-shadow" />
+                      </div>
                     ) : (
                       <div className="w-full h-48 bg-gray-200 flex items-center justify-center">
                         <div className="text-center">
@@ -298,6 +529,17 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
                           Encrypted
                         </Badge>
                       )}
+                      {video.metadataRemoved && video.metadataRemoved.length > 0 && (
+                        <Badge variant="outline" className="mt-1 ml-1" title={video.metadataRemoved.join(', ')}>
+                          Metadata stripped
+                        </Badge>
+                      )}
+                      {video.captureLocation && (
+                        <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                          <MapPin className="h-3 w-3" />
+                          Taken at {video.captureLocation.latitude.toFixed(5)}, {video.captureLocation.longitude.toFixed(5)}
+                        </p>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -329,18 +571,45 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
         <div className="mt-3">
           <h4 className="font-semibold">AI Classification History</h4>
           <div className="mt-2 space-y-2 text-sm text-gray-600">
-            {history.map((h: any, idx: number) => (
-              <div key={idx} className="flex items-center justify-between">
-                <div>
-                  <div className="font-medium">{h.label || h.primaryLabel || 'label'}</div>
-                  <div className="text-xs text-gray-500">{h.created_at ? new Date(h.created_at).toLocaleString() : ''}</div>
-                </div>
-                <div className="text-sm">
-                  {typeof h.score === 'number' ? Math.round(h.score) + '%' : ''}
-                  {h.flagged ? <span className="ml-2 text-red-600">⚑</span> : null}
+            {history.map((h: any, idx: number) => {
+              // Legacy entries stored label/score at the top level
+              const c = h.classification || h;
+              const at = h.at || h.created_at;
+              return (
+                <div key={idx} className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-medium">
+                        {c?.primaryLabel || h.label || 'label'}
+                        {h.action && <span className="ml-2 text-xs text-gray-500">{h.action}{c?.provider ? ` · ${c.provider}` : ''}</span>}
+                      </div>
+                      <div className="text-xs text-gray-500">{at ? new Date(at).toLocaleString() : ''}</div>
+                    </div>
+                    <div className="text-sm">
+                      {typeof c?.score === 'number' ? Math.round(c.score) + '%' : ''}
+                      {c?.flagged ? <span className="ml-2 text-red-600">⚑</span> : null}
+                    </div>
+                  </div>
+                  {Array.isArray(h.providers) && h.providers.length > 0 && (
+                    <div className="grid gap-1 pl-3 border-l text-xs" style={{ gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))' }}>
+                      {h.providers.map((p: any) => (
+                        <div key={p.provider} className="rounded bg-gray-50 px-2 py-1">
+                          <div className="font-medium">{p.provider}</div>
+                          {p.classification ? (
+                            <div>
+                              {p.classification.primaryLabel || 'other'} · {Math.round(p.classification.score)}%
+                              {p.classification.flagged ? <span className="ml-1 text-red-600">⚑</span> : null}
+                            </div>
+                          ) : (
+                            <div className="text-red-600">failed</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       );
@@ -471,6 +740,24 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
                             >
                               Unflag
                             </Button>
+
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => selectedReport && verifyEvidenceIntegrity(selectedReport.id)}
+                            >
+                              <ShieldCheck className="h-4 w-4 mr-1" />
+                              Verify integrity
+                            </Button>
+
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => selectedReport && downloadEvidenceCertificate(selectedReport.id, selectedReport.shortId)}
+                            >
+                              <FileCheck className="h-4 w-4 mr-1" />
+                              Certificate
+                            </Button>
                           </div>
                         </div>
                       </DialogHeader>
@@ -482,6 +769,13 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
                           </div>
                         ) : selectedReport ? (
                           <div className="space-y-6">
+                            {integrityResult && (
+                              <div className={`flex items-center gap-2 rounded border p-2 text-sm ${integrityResult.verified ? 'border-emerald-200 bg-emerald-50 text-emerald-800' : 'border-red-200 bg-red-50 text-red-800'}`}>
+                                {integrityResult.verified ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+                                <span className="font-medium">{integrityResult.verified ? 'Evidence intact' : 'Integrity check failed'}</span>
+                                <span>{integrityResult.summary}</span>
+                              </div>
+                            )}
                             {/* Report Info */}
                             <div className="grid grid-cols-2 gap-4">
                               <div>
@@ -509,8 +803,24 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
 
                             {/* Message */}
                             <div>
-                              <h3 className="font-semibold mb-2">Message</h3>
-                              <p className="text-gray-700 whitespace-pre-wrap">{selectedReport.message}</p>
+                              <div className="flex items-center justify-between mb-2">
+                                <h3 className="font-semibold flex items-center gap-2">
+                                  Message
+                                  {!!selectedReport.pii?.count && revealedMessage === null && (
+                                    <Badge className="text-xs bg-slate-100 text-slate-700" title={selectedReport.pii.types.join(', ')}>
+                                      <Lock className="h-3 w-3 mr-1" />
+                                      PII redacted
+                                    </Badge>
+                                  )}
+                                </h3>
+                                {!!selectedReport.pii?.count && revealedMessage === null && (
+                                  <Button variant="outline" size="sm" onClick={() => revealOriginalMessage(selectedReport.id)}>
+                                    <Eye className="h-4 w-4 mr-1" />
+                                    Reveal original
+                                  </Button>
+                                )}
+                              </div>
+                              <p className="text-gray-700 whitespace-pre-wrap">{revealedMessage ?? selectedReport.message}</p>
                             </div>
 
                             {/* Location */}
@@ -551,8 +861,12 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
 
                             {/* Media Files */}
                             <div>
-                              <h3 className="font-semibold mb-4">Attached Media</h3>
-                              {renderMediaSection(selectedReport.media)}
+                              <div className="flex items-center gap-2 mb-4">
+                                <h3 className="font-semibold">Attached Media</h3>
+                                {/* Verdicts come from the list entry: quarantined files can't be loaded here */}
+                                {renderScanBadge(report.mediaFiles || report.media)}
+                              </div>
+                              {renderMediaSection(selectedReport.mediaFiles || selectedReport.media)}
                             </div>
 
                             {/* Timestamps */}
@@ -576,6 +890,7 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
             </CardHeader>
             <CardContent>
               <p className="text-gray-700 text-sm line-clamp-2 mb-3">{report.message}</p>
+              {renderMediaPreviews(report)}
               <div className="flex justify-between items-center text-sm text-gray-500">
                 <div className="flex items-center gap-4">
                   <span className="flex items-center gap-1">
@@ -589,8 +904,9 @@ const AdminReportsList: React.FC<AdminReportsListProps> = ({
                     </span>
                   )}
                 </div>
-                <div className="flex gap-2">
-                  {report.media?.hasMedia && (
+                <div className="flex items-center gap-2">
+                  {renderScanBadge(report.mediaFiles || report.media)}
+                  {(report.mediaFiles || report.media)?.hasMedia && (
                     <div className="flex items-center gap-1 text-blue-600">
                       <ImageIcon className="h-4 w-4" />
                       <Video className="h-4 w-4" />
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Badge } from "./ui/badge";
+import { History, Flag, UserCheck, StickyNote, Send, ArrowUpDown, Eye } from 'lucide-react';
+import { ReportHistoryEntry, ReporterHistoryEntry } from "@shared/api";
+
+interface ReportHistoryTimelineProps {
+  // Full audit trail (admin) or redacted status timeline (reporter)
+  entries: Array<ReportHistoryEntry | ReporterHistoryEntry>;
+  emptyText?: string;
+}
+
+const actionConfig = {
+  created: { icon: Send, label: "Submitted" },
+  status: { icon: Flag, label: "Status" },
+  priority: { icon: ArrowUpDown, label: "Priority" },
+  assignment: { icon: UserCheck, label: "Assignment" },
+  note: { icon: StickyNote, label: "Notes" },
+  pii_revealed: { icon: Eye, label: "PII revealed" },
+};
+
+// Describe the change for either entry shape
+const describeEntry = (entry: ReportHistoryEntry | ReporterHistoryEntry): string => {
+  if ('status' in entry) {
+    return entry.action === 'created' ? `Report received (${entry.status})` : `Status changed to ${entry.status}`;
+  }
+
+  if (entry.action === 'created') return entry.comment || 'Report submitted';
+  if (entry.action === 'note') return entry.comment || 'Notes updated';
+  if (entry.action === 'pii_revealed') return entry.comment || 'Original message revealed';
+  if (entry.from && entry.to) return `${entry.from} → ${entry.to}`;
+  if (entry.to) return `Set to ${entry.to}`;
+  if (entry.from) return `Cleared (was ${entry.from})`;
+  return entry.comment || 'Updated';
+};
+
+/**
+ * Vertical timeline of report changes.
+ * Used in the admin report detail and (redacted) on the Check Status page.
+ */
+const ReportHistoryTimeline: React.FC<ReportHistoryTimelineProps> = ({ entries, emptyText = "No history recorded yet." }) => {
+  if (!entries || entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyText}</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-muted ml-2 space-y-4">
+      {entries.map((entry, index) => {
+        const config = actionConfig[entry.action] || { icon: History, label: entry.action };
+        const Icon = config.icon;
+        const adminEntry = 'status' in entry ? null : entry;
+
+        return (
+          <li key={`${entry.at}-${index}`} className="ml-4">
+            <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full bg-background border">
+              <Icon className="h-2.5 w-2.5 text-muted-foreground" />
+            </span>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline" className="text-xs">{config.label}</Badge>
+              <span>{describeEntry(entry)}</span>
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {new Date(entry.at).toLocaleString()}
+              {adminEntry?.admin_user && <> · by {adminEntry.admin_user}</>}
+            </div>
+            {adminEntry?.comment && adminEntry.action !== 'created' && adminEntry.action !== 'note' && (
+              <p className="text-xs text-muted-foreground mt-1 italic">{adminEntry.comment}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default ReportHistoryTimeline;
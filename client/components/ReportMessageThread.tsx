@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+import { ScrollArea } from "./ui/scroll-area";
+import { MessageSquare, Send, RefreshCw, AlertCircle } from 'lucide-react';
+import { ReportThreadMessage, ReportMessageSender } from "@shared/api";
+
+interface ReportMessageThreadProps {
+  // e.g. /api/reports/ABCD1234/messages or /api/admin/reports/ABCD1234/messages
+  endpoint: string;
+  // Auth headers: reporter secret for reporters, Bearer token for admins
+  headers: Record<string, string>;
+  // Whose perspective the thread is rendered from
+  viewer: ReportMessageSender;
+}
+
+/**
+ * Anonymous conversation thread between a reporter and the admin team.
+ * Used on the Check Status page and in the admin report detail dialog.
+ */
+const ReportMessageThread: React.FC<ReportMessageThreadProps> = ({ endpoint, headers, viewer }) => {
+  const [messages, setMessages] = useState<ReportThreadMessage[]>([]);
+  const [draft, setDraft] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState("");
+
+  // Serialize headers so a new object literal on each render doesn't refetch
+  const headersKey = JSON.stringify(headers);
+
+  const fetchMessages = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const response = await fetch(endpoint, { headers: JSON.parse(headersKey) });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok || !result.success) {
+        setError(result.error || "Unable to load messages");
+        return;
+      }
+
+      setMessages(result.data?.messages || []);
+    } catch (err) {
+      console.error("Failed to load report messages:", err);
+      setError("Unable to load messages. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  }, [endpoint, headersKey]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  const sendMessage = async () => {
+    const text = draft.trim();
+    if (!text) return;
+
+    setSending(true);
+    setError("");
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { ...JSON.parse(headersKey), "Content-Type": "application/json" },
+        body: JSON.stringify({ message: text }),
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok || !result.success) {
+        setError(result.error || "Failed to send message");
+        return;
+      }
+
+      setMessages((prev) => [...prev, result.data]);
+      setDraft("");
+    } catch (err) {
+      console.error("Failed to send report message:", err);
+      setError("Failed to send message. Please try again.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const senderLabel = (message: ReportThreadMessage) => {
+    if (message.sender === viewer) return "You";
+    if (message.sender === "admin") return message.admin_user ? `Admin (${message.admin_user})` : "Admin team";
+    return "Reporter";
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <MessageSquare className="h-4 w-4" />
+            {viewer === "reporter" ? "Messages with the admin team" : "Conversation with reporter"}
+          </span>
+          <Button variant="ghost" size="sm" onClick={fetchMessages} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        <ScrollArea className="h-64 rounded-md border p-3">
+          {messages.length === 0 && !loading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No messages yet.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {messages.map((message) => {
+                const own = message.sender === viewer;
+                return (
+                  <div key={message.id} className={`flex ${own ? "justify-end" : "justify-start"}`}>
+                    <div
+                      className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                        own ? "bg-primary text-primary-foreground" : "bg-muted"
+                      }`}
+                    >
+                      <div className="text-xs opacity-75 mb-1">
+                        {senderLabel(message)} · {new Date(message.created_at).toLocaleString()}
+                      </div>
+                      <p className="whitespace-pre-wrap break-words">{message.message}</p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </ScrollArea>
+
+        <div className="space-y-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={viewer === "reporter" ? "Reply anonymously to the admin team..." : "Ask the reporter a follow-up question..."}
+            rows={3}
+            maxLength={2000}
+          />
+          <div className="flex justify-end">
+            <Button onClick={sendMessage} disabled={sending || !draft.trim()} size="sm">
+              <Send className="h-4 w-4 mr-2" />
+              {sending ? "Sending..." : "Send"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReportMessageThread;
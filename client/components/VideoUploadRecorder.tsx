@@ -32,6 +32,8 @@ import {
   SwitchCamera,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { scrubVideoFile } from "@/lib/media-scrubber";
+import { ResumableUpload, ResumableUploadState } from "@/lib/resumable-upload";
 
 export interface VideoUploadConfig {
   maxSizeMB: number;
@@ -47,6 +49,9 @@ export interface VideoFile {
   size: number;
   format: string;
   isRecorded: boolean;
+  metadataRemoved?: string[]; // Stripped in the browser before upload
+  metadataScrubbed?: boolean; // false when only the server pass will strip metadata
+  upload?: ResumableUpload; // Large videos are sent ahead in chunks; finalized on submit
 }
 
 interface VideoUploadRecorderProps {
@@ -62,6 +67,9 @@ const DEFAULT_CONFIG: VideoUploadConfig = {
   chunkSizeMB: 10,
 };
 
+// Videos above this size are uploaded in resumable chunks while the report is written
+const RESUMABLE_UPLOAD_THRESHOLD_MB = 10;
+
 export default function VideoUploadRecorder({
   onVideoChange,
   config = {},
@@ -74,7 +82,8 @@ export default function VideoUploadRecorder({
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState("");
   const [uploadProgress, setUploadProgress] = useState(0);
-  const [isUploading, setIsUploading] = useState(false);
+  const [uploadState, setUploadState] = useState<ResumableUploadState>("idle");
+  const [uploadError, setUploadError] = useState("");
   const [cameraPermission, setCameraPermission] = useState<boolean | null>(
     null,
   );
@@ -86,6 +95,7 @@ export default function VideoUploadRecorder({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
   const chunksRef = useRef<Blob[]>([]);
+  const uploadRef = useRef<ResumableUpload | null>(null);
 
   const fullConfig = { ...DEFAULT_CONFIG, ...config };
 
@@ -125,6 +135,34 @@ export default function VideoUploadRecorder({
     checkCameraPermission();
   }, []);
 
+  // Pick a failed upload back up as soon as the connection returns
+  useEffect(() => {
+    const handleOnline = () => {
+      if (uploadRef.current?.currentState === "failed") {
+        uploadRef.current.resume();
+      }
+    };
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, []);
+
+  // Start sending a large video in the background so a dropped connection only costs one chunk
+  const withResumableUpload = (video: VideoFile): VideoFile => {
+    if (video.size <= RESUMABLE_UPLOAD_THRESHOLD_MB * 1024 * 1024) return video;
+
+    const upload = new ResumableUpload(video.file, {
+      onProgress: (uploaded, total) => setUploadProgress((uploaded / total) * 100),
+      onStateChange: (state, stateError) => {
+        setUploadState(state);
+        setUploadError(stateError || "");
+      },
+    });
+    uploadRef.current = upload;
+    setUploadProgress(0);
+    upload.start();
+    return { ...video, upload };
+  };
+
   // Format time display
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -183,19 +221,29 @@ export default function VideoUploadRecorder({
       return;
     }
 
+    let scrubbed;
+    try {
+      scrubbed = await scrubVideoFile(file);
+    } catch (scrubError) {
+      setError(scrubError instanceof Error ? scrubError.message : "Could not remove metadata from this video");
+      return;
+    }
+
     // Create video element to get metadata
     const video = document.createElement("video");
-    video.src = URL.createObjectURL(file);
+    video.src = URL.createObjectURL(scrubbed.file);
 
     video.onloadedmetadata = () => {
-      const videoFile: VideoFile = {
-        file,
+      const videoFile = withResumableUpload({
+        file: scrubbed.file,
         url: video.src,
         duration: video.duration,
-        size: file.size,
+        size: scrubbed.file.size,
         format: file.type,
         isRecorded: false,
-      };
+        metadataRemoved: scrubbed.removed,
+        metadataScrubbed: scrubbed.scrubbed,
+      });
 
       setCurrentVideo(videoFile);
       onVideoChange(videoFile);
@@ -336,26 +384,41 @@ export default function VideoUploadRecorder({
         setIsProcessing(true);
 
         // Small delay to show processing state
-        setTimeout(() => {
+        setTimeout(async () => {
           const blob = new Blob(chunksRef.current, { type: "video/webm" });
-          const file = new File([blob], `recording-${Date.now()}.webm`, {
+          const recorded = new File([blob], `recording-${Date.now()}.webm`, {
             type: "video/webm",
           });
 
+          // Strip the recording app/date from the container before it leaves the device
+          let scrubbed;
+          try {
+            scrubbed = await scrubVideoFile(recorded);
+          } catch (scrubError) {
+            console.error("Failed to scrub recording metadata:", scrubError);
+            setError("Could not remove metadata from the recording. Please record again.");
+            setIsProcessing(false);
+            cleanup();
+            return;
+          }
+          const file = scrubbed.file;
+
           console.log("Video recorded:", {
             size: `${(blob.size / 1024 / 1024).toFixed(2)}MB`,
             duration: `${recordingTime}s`,
             chunks: chunksRef.current.length,
           });
 
-          const videoFile: VideoFile = {
+          const videoFile = withResumableUpload({
             file,
-            url: URL.createObjectURL(blob),
+            url: URL.createObjectURL(file),
             duration: recordingTime,
-            size: blob.size,
+            size: file.size,
             format: "video/webm",
             isRecorded: true,
-          };
+            metadataRemoved: scrubbed.removed,
+            metadataScrubbed: scrubbed.scrubbed,
+          });
 
           setCurrentVideo(videoFile);
           onVideoChange(videoFile);
@@ -410,44 +473,90 @@ export default function VideoUploadRecorder({
     if (currentVideo?.url) {
       URL.revokeObjectURL(currentVideo.url);
     }
+    // Drop the chunks already on the server
+    uploadRef.current?.cancel();
+    uploadRef.current = null;
     setCurrentVideo(null);
     onVideoChange(null);
     setError("");
     setUploadProgress(0);
+    setUploadState("idle");
+    setUploadError("");
     cleanup();
   };
 
-  // Simulate resumable upload (in production, integrate with resumable upload service)
-  const simulateResumableUpload = async (file: File) => {
-    setIsUploading(true);
-    setUploadProgress(0);
-
-    const chunkSize = fullConfig.chunkSizeMB * 1024 * 1024;
-    const totalChunks = Math.ceil(file.size / chunkSize);
-
-    for (let i = 0; i < totalChunks; i++) {
-      // Simulate network delay
-      await new Promise((resolve) => setTimeout(resolve, 200));
+  const isLargeFile = !!currentVideo?.upload;
+  const maxDurationReached =
+    recordingTime >= fullConfig.maxDurationMinutes * 60;
 
-      const progress = ((i + 1) / totalChunks) * 100;
-      setUploadProgress(progress);
-    }
+  // Resumable upload status with pause/resume controls
+  const renderUploadProgress = () => {
+    const upload = uploadRef.current;
+    const statusText: Record<ResumableUploadState, string> = {
+      idle: "Preparing upload...",
+      uploading: "Uploading in chunks - you can keep writing your report",
+      paused: "Upload paused",
+      complete: "Upload complete",
+      failed: uploadError || "Upload interrupted",
+    };
 
-    setIsUploading(false);
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Upload Progress</span>
+          <div className="flex items-center gap-2">
+            <span>{Math.round(uploadProgress)}%</span>
+            {uploadState === "uploading" && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => upload?.pause()}
+                disabled={disabled}
+              >
+                <Pause className="w-3 h-3 mr-1" />
+                Pause
+              </Button>
+            )}
+            {uploadState === "paused" && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => upload?.resume()}
+                disabled={disabled}
+              >
+                <Play className="w-3 h-3 mr-1" />
+                Resume
+              </Button>
+            )}
+            {uploadState === "failed" && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => upload?.resume()}
+                disabled={disabled}
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Retry
+              </Button>
+            )}
+          </div>
+        </div>
+        <Progress value={uploadProgress} className="h-2" />
+        <p
+          className={cn(
+            "text-xs",
+            uploadState === "failed" ? "text-destructive" : "text-muted-foreground",
+          )}
+        >
+          {statusText[uploadState]}
+        </p>
+      </div>
+    );
   };
 
-  // Start upload if video is large
-  useEffect(() => {
-    if (currentVideo && currentVideo.size > 10 * 1024 * 1024) {
-      // > 10MB
-      simulateResumableUpload(currentVideo.file);
-    }
-  }, [currentVideo]);
-
-  const isLargeFile = currentVideo && currentVideo.size > 10 * 1024 * 1024;
-  const maxDurationReached =
-    recordingTime >= fullConfig.maxDurationMinutes * 60;
-
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -481,12 +590,14 @@ export default function VideoUploadRecorder({
                         ` • ${formatTime(Math.floor(currentVideo.duration))}`}
                       {currentVideo.isRecorded && " • Recorded"}
                     </p>
-                    <div className="flex items-center gap-1 mt-1">
-                      <CheckCircle className="w-3 h-3 text-green-600" />
-                      <span className="text-xs text-green-600 font-medium">
-                        Ready for submission
-                      </span>
-                    </div>
+                    {(!isLargeFile || uploadState === "complete") && (
+                      <div className="flex items-center gap-1 mt-1">
+                        <CheckCircle className="w-3 h-3 text-green-600" />
+                        <span className="text-xs text-green-600 font-medium">
+                          Ready for submission
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
                 <Button
@@ -507,22 +618,7 @@ export default function VideoUploadRecorder({
                 poster="data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgZmlsbD0iIzAwMCIvPjx0ZXh0IHg9IjUwIiB5PSI1MCIgZm9udC1mYW1pbHk9IkFyaWFsIiBmb250LXNpemU9IjEyIiBmaWxsPSIjZmZmIiB0ZXh0LWFuY2hvcj0ibWlkZGxlIiBkeT0iLjNlbSI+VmlkZW88L3RleHQ+PC9zdmc+"
               />
 
-              {isLargeFile && (
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span className="text-muted-foreground">
-                      Upload Progress
-                    </span>
-                    <span>{Math.round(uploadProgress)}%</span>
-                  </div>
-                  <Progress value={uploadProgress} className="h-2" />
-                  {isUploading && (
-                    <p className="text-xs text-muted-foreground">
-                      Using resumable upload for large file...
-                    </p>
-                  )}
-                </div>
-              )}
+              {isLargeFile && renderUploadProgress()}
             </div>
           </CardContent>
         </Card>
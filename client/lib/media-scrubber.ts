@@ -0,0 +1,91 @@
+import {
+  MediaGps,
+  METADATA_FIELD_LABELS,
+  findJpegExif,
+  readExifMetadata,
+  stripWebmMetadata,
+} from "@shared/media-metadata";
+
+/**
+ * Browser-side Media Scrubbing
+ * Removes identifying metadata from photos and recorded videos before they leave
+ * the reporter's device (and before encryptFileSecurely / upload). Photos are
+ * re-encoded through a canvas, which drops EXIF, XMP, IPTC and comments entirely;
+ * WebM recordings have their container metadata blanked in place. The server runs
+ * its own sanitization pass on everything it receives.
+ */
+
+export interface ScrubbedMedia {
+  file: File;
+  removed: string[]; // Field keys, see describeRemovedMetadata
+  gps?: MediaGps; // Embedded location, only sent if the reporter consents
+  scrubbed: boolean; // false when the format is left to the server pass
+}
+
+const IMAGE_OUTPUT_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const JPEG_QUALITY = 0.92;
+
+const extensionFor = (type: string) => type.split("/")[1].replace("jpeg", "jpg");
+
+/**
+ * Re-encode an image through a canvas, keeping the pixels (orientation applied) and nothing else
+ */
+export async function scrubImageFile(file: File): Promise<ScrubbedMedia> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const exif = findJpegExif(bytes);
+  const summary = exif ? readExifMetadata(exif, true) : null;
+
+  // Orientation is baked into the pixels, so nothing needs to be carried over
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    throw new Error("Could not process the photo in this browser");
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  // GIFs and other formats are flattened to PNG
+  const type = IMAGE_OUTPUT_TYPES.includes(file.type) ? file.type : "image/png";
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, JPEG_QUALITY));
+  if (!blob) {
+    throw new Error("Could not process the photo in this browser");
+  }
+
+  const removed = summary ? summary.fields : [];
+  return {
+    // A generic name, since camera file names carry the capture date
+    file: new File([blob], `photo.${extensionFor(blob.type || type)}`, { type: blob.type || type }),
+    removed: [...removed, "filename"],
+    gps: summary?.gps,
+    scrubbed: true,
+  };
+}
+
+/**
+ * Blank the container metadata of a WebM video; other formats are left to the server pass
+ */
+export async function scrubVideoFile(file: File): Promise<ScrubbedMedia> {
+  if (!file.type.startsWith("video/webm")) {
+    return { file, removed: [], scrubbed: false };
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const removed = stripWebmMetadata(bytes);
+
+  return {
+    file: new File([bytes], `video.webm`, { type: "video/webm" }),
+    removed: [...removed, "filename"],
+    scrubbed: true,
+  };
+}
+
+/**
+ * Reporter-facing labels for removed fields, without duplicates
+ */
+export function describeRemovedMetadata(removed: string[]): string[] {
+  return Array.from(new Set(removed.map((field) => METADATA_FIELD_LABELS[field] || field)));
+}
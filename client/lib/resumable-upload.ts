@@ -0,0 +1,202 @@
+/**
+ * Resumable Uploads
+ * Sends large evidence files to /api/upload-sessions in checksummed chunks. Network
+ * failures are retried with backoff from the offset the server reports, and the
+ * reporter can pause and resume at any point; only the chunk in flight is re-sent.
+ */
+
+export type ResumableUploadState = "idle" | "uploading" | "paused" | "complete" | "failed";
+
+export interface ResumableUploadCallbacks {
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+  onStateChange?: (state: ResumableUploadState, error?: string) => void;
+}
+
+interface UploadSessionResponse {
+  upload_id: string;
+  status: string;
+  offset: number;
+  total_size: number;
+  chunk_size: number;
+}
+
+const API_BASE = "/api/upload-sessions";
+const MAX_RETRIES = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+class UploadRejectedError extends Error {}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const readResponse = async (response: Response): Promise<UploadSessionResponse> => {
+  const result = await response.json().catch(() => null);
+  // 409 carries the server's offset, which is all the uploader needs to continue
+  if (response.ok || (response.status === 409 && result?.data)) {
+    return result.data;
+  }
+  const message = result?.error || `Upload failed (${response.status})`;
+  // Server errors may be transient; anything else won't succeed on retry
+  if (response.status >= 500) throw new Error(message);
+  throw new UploadRejectedError(message);
+};
+
+export class ResumableUpload {
+  readonly file: File;
+  private callbacks: ResumableUploadCallbacks;
+  private uploadId: string | null = null;
+  private offset = 0;
+  private chunkSize = 0;
+  private state: ResumableUploadState = "idle";
+  private controller: AbortController | null = null;
+
+  constructor(file: File, callbacks: ResumableUploadCallbacks = {}) {
+    this.file = file;
+    this.callbacks = callbacks;
+  }
+
+  get id(): string | null {
+    return this.uploadId;
+  }
+
+  get currentState(): ResumableUploadState {
+    return this.state;
+  }
+
+  /**
+   * Start (or continue) sending chunks until the file is complete, paused or rejected
+   */
+  async start(): Promise<void> {
+    if (this.state === "uploading" || this.state === "complete") return;
+    this.setState("uploading");
+
+    let retries = 0;
+    while (this.isActive()) {
+      try {
+        await this.sendNext();
+        retries = 0;
+      } catch (error) {
+        if (!this.isActive()) return; // Paused or cancelled mid-chunk
+        const message = error instanceof Error ? error.message : "Upload failed";
+
+        if (error instanceof UploadRejectedError || retries >= MAX_RETRIES) {
+          this.setState("failed", message);
+          return;
+        }
+        retries++;
+        await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (retries - 1)));
+        // Ask the server where to continue from, in case a chunk landed before the connection dropped
+        await this.syncOffset().catch(() => undefined);
+      }
+    }
+  }
+
+  pause(): void {
+    if (this.state !== "uploading") return;
+    this.setState("paused");
+    this.controller?.abort();
+  }
+
+  resume(): Promise<void> {
+    if (this.state !== "paused" && this.state !== "failed") return Promise.resolve();
+    return this.syncOffset()
+      .catch((error) => {
+        // The session expired while paused: start the upload over
+        if (error instanceof UploadRejectedError) {
+          this.uploadId = null;
+          this.updateOffset(0);
+        }
+      })
+      .then(() => this.start());
+  }
+
+  /**
+   * Stop uploading and drop the chunks stored on the server
+   */
+  async cancel(): Promise<void> {
+    this.setState("idle");
+    this.controller?.abort();
+    if (this.uploadId) {
+      await fetch(`${API_BASE}/${this.uploadId}`, { method: "DELETE" }).catch(() => undefined);
+      this.uploadId = null;
+    }
+  }
+
+  /**
+   * Write the completed upload to storage; the returned upload id is then sent with the report
+   */
+  async finalize(options: { mediaLocationConsent?: boolean } = {}): Promise<string> {
+    if (this.state !== "complete" || !this.uploadId) {
+      throw new Error("The video is still uploading");
+    }
+    const response = await fetch(`${API_BASE}/${this.uploadId}/finalize`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ media_location_consent: !!options.mediaLocationConsent }),
+    });
+    await readResponse(response);
+    return this.uploadId;
+  }
+
+  private async sendNext(): Promise<void> {
+    if (!this.uploadId) {
+      const session = await this.request(API_BASE, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ filename: this.file.name, mime_type: this.file.type, total_size: this.file.size }),
+      });
+      this.uploadId = session.upload_id;
+      this.chunkSize = session.chunk_size;
+      this.offset = session.offset;
+    }
+
+    if (this.offset >= this.file.size) {
+      this.setState("complete");
+      return;
+    }
+
+    const chunk = await this.file.slice(this.offset, this.offset + this.chunkSize).arrayBuffer();
+    const checksum = toHex(await crypto.subtle.digest("SHA-256", chunk));
+    const session = await this.request(`${API_BASE}/${this.uploadId}/chunks`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Upload-Offset": String(this.offset),
+        "X-Chunk-SHA256": checksum,
+      },
+      body: chunk,
+    });
+    // A 409 that doesn't move the offset means the server won't take this chunk
+    if (session.offset === this.offset) {
+      throw new UploadRejectedError("The server rejected part of the video, please upload it again");
+    }
+    this.updateOffset(session.offset);
+  }
+
+  private async syncOffset(): Promise<void> {
+    if (!this.uploadId) return;
+    const session = await this.request(`${API_BASE}/${this.uploadId}`, { method: "GET" });
+    this.updateOffset(session.offset);
+  }
+
+  private async request(url: string, init: RequestInit): Promise<UploadSessionResponse> {
+    this.controller = new AbortController();
+    const response = await fetch(url, { ...init, signal: this.controller.signal });
+    return readResponse(response);
+  }
+
+  // Re-read on every loop turn: pause() and cancel() change the state from outside
+  private isActive(): boolean {
+    return this.state === "uploading";
+  }
+
+  private updateOffset(offset: number) {
+    this.offset = offset;
+    this.callbacks.onProgress?.(offset, this.file.size);
+  }
+
+  private setState(state: ResumableUploadState, error?: string) {
+    this.state = state;
+    this.callbacks.onStateChange?.(state, error);
+  }
+}
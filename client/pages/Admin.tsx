@@ -48,6 +48,8 @@ import {
   MapPin,
   Bell,
   Wifi,
+  UserCheck,
+  UserX,
 } from "lucide-react";
 import { Link } from "react-router-dom";
 import {
@@ -59,6 +61,9 @@ import {
 import { decryptReportData } from "@/lib/encryption";
 import { notificationService } from "@/lib/notifications";
 import AdminReportsList from "@/components/AdminReportsList";
+import ReportMessageThread from "@/components/ReportMessageThread";
+import ReportHistoryTimeline from "@/components/ReportHistoryTimeline";
+import ActiveAlertsPanel from "@/components/ActiveAlertsPanel";
 // Enhanced AdminReportsList component with comprehensive media display (no geographic map)
 // import { formatLocation } from "@/lib/geolocation";
 
@@ -76,6 +81,8 @@ export default function Admin() {
   const [selectedReport, setSelectedReport] = useState<Report | null>(null);
   const [adminResponse, setAdminResponse] = useState("");
   const [statusFilter, setStatusFilter] = useState<ReportStatus | "all">("all");
+  const [assignmentFilter, setAssignmentFilter] = useState<"any" | "me" | "unassigned">("any");
+  const [assignmentError, setAssignmentError] = useState("");
   const [authToken, setAuthToken] = useState<string>(""); // Store JWT token dynamically
   
   // Real-time notification states
@@ -83,6 +90,7 @@ export default function Admin() {
   const [isConnected, setIsConnected] = useState(false); // Start as disconnected, will be set to true when connection is established
   const [connectionMethod, setConnectionMethod] = useState<'socket' | 'polling' | 'none'>('none');
   const [unreadCount, setUnreadCount] = useState(0);
+  const [alertsRefreshKey, setAlertsRefreshKey] = useState(0);
 
   // Check for stored auth token on component mount
   useEffect(() => {
@@ -327,6 +335,39 @@ export default function Admin() {
               }
             });
 
+            socketInstance.on('reporter_message_notification', (notification) => {
+              console.log('💬 Reporter message notification:', notification);
+
+              setNotifications(prev => [notification, ...prev.slice(0, 9)]);
+              setUnreadCount(prev => prev + 1);
+
+              if ('Notification' in window && Notification.permission === 'granted') {
+                new Notification(`💬 Reporter Reply: ${notification.data.shortId}`, {
+                  body: notification.data.message,
+                  icon: '/favicon.ico',
+                  tag: `message_${notification.data.shortId}`
+                });
+              }
+            });
+
+            socketInstance.on('report_assigned', (notification) => {
+              console.log('👤 Report assignment notification:', notification);
+
+              setNotifications(prev => [notification, ...prev.slice(0, 9)]);
+              fetchReports();
+              setSelectedReport(prev => prev && prev.shortId === notification.data.shortId
+                ? { ...prev, assigned_to: notification.data.assignedTo, assigned_to_name: notification.data.assignedToName }
+                : prev);
+            });
+
+            socketInstance.on('alert_update', (notification) => {
+              console.log('🚨 Alert update:', notification);
+
+              setNotifications(prev => [notification, ...prev.slice(0, 9)]);
+              setAlertsRefreshKey(prev => prev + 1);
+              if (notification.data.action === 'created') setUnreadCount(prev => prev + 1);
+            });
+
             socketInstance.on('connection_status_update', (statusUpdate) => {
               console.log('📡 Connection status update:', statusUpdate);
               setIsConnected(statusUpdate.data.isOnline);
@@ -447,6 +488,9 @@ export default function Admin() {
       if (statusFilter !== "all") {
         params.append("status", statusFilter);
       }
+      if (assignmentFilter !== "any") {
+        params.append("assigned", assignmentFilter);
+      }
 
       console.log("📊 Fetching admin reports...");
       // Use the admin-specific endpoint for better data retrieval
@@ -483,7 +527,7 @@ export default function Admin() {
     } finally {
       setLoading(false);
     }
-  }, [authToken, statusFilter]);
+  }, [authToken, statusFilter, assignmentFilter]);
 
   // Fetch reports when auth token changes
   useEffect(() => {
@@ -562,6 +606,33 @@ export default function Admin() {
     }
   };
 
+  const changeAssignment = async (action: "claim" | "unassign") => {
+    if (!selectedReport) return;
+    setAssignmentError("");
+    try {
+      const res = await fetch(`/api/admin/reports/${selectedReport.shortId || selectedReport.id}/${action}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+      });
+      const result = await res.json().catch(() => ({}));
+
+      if (!res.ok || !result.success) {
+        setAssignmentError(result.error || result.message || "Failed to update assignment");
+        return;
+      }
+
+      const { assigned_to, assigned_to_name, assigned_at, history } = result.data || {};
+      setSelectedReport(prev => prev ? { ...prev, assigned_to, assigned_to_name, assigned_at, history: history || prev.history } : prev);
+      fetchReports();
+    } catch (error) {
+      console.error("Error updating assignment:", error);
+      setAssignmentError("Failed to update assignment");
+    }
+  };
+
   const updateReportStatus = async (
     reportId: string,
     status: ReportStatus,
@@ -572,39 +643,25 @@ export default function Admin() {
       if (response) {
         updateData.admin_response = response; // Use admin_response as defined in the interface
       }
-      // Prefer public PATCH endpoint by shortId (keeps route simple for clients)
-      // If selectedReport has a shortId use it; otherwise fallback to admin endpoint
+      // Admin update accepts either shortId or internal id and records the audit trail
       const shortId = selectedReport?.shortId || undefined;
-      let res: Response;
-
-      if (shortId) {
-        res = await fetch(`/api/reports/${shortId}/status`, {
-          method: 'PATCH',
-          headers: { 
-            'Content-Type': 'application/json',
-            ...(authToken ? { Authorization: `Bearer ${authToken}` } : {})
-          },
-          body: JSON.stringify({ status })
-        });
-      } else {
-        // Fall back to admin update when we only have internal id
-        res = await fetch(`/api/admin/reports/${reportId}`, {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${authToken}`,
-          },
-          body: JSON.stringify(updateData),
-        });
-      }
+      const res = await fetch(`/api/admin/reports/${shortId || reportId}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
+        },
+        body: JSON.stringify(updateData),
+      });
 
       if (res.ok) {
         const result = await res.json();
         console.log('✅ Report status updated:', result);
 
         // Optimistically update UI: update reports list and selectedReport
-        setReports(prev => prev.map(r => r.shortId === (result.data?.shortId || selectedReport?.shortId) ? { ...r, status: result.data?.status || status } : r));
-        if (selectedReport) setSelectedReport(prev => prev ? { ...prev, status } : prev);
+        const updated = result.report || result.data;
+        setReports(prev => prev.map(r => r.shortId === (updated?.shortId || selectedReport?.shortId) ? { ...r, status: updated?.status || status } : r));
+        if (selectedReport) setSelectedReport(prev => prev ? { ...prev, status, history: updated?.history || prev.history } : prev);
 
         // Keep server-side sync as well
         fetchReports();
@@ -627,7 +684,7 @@ export default function Admin() {
     if (isAuthenticated) {
       fetchReports();
     }
-  }, [statusFilter, isAuthenticated]);
+  }, [statusFilter, assignmentFilter, isAuthenticated]);
 
   const getCategoryBadge = (category: string) => {
     const categoryConfig = {
@@ -905,6 +962,8 @@ export default function Admin() {
       {/* Dashboard Content */}
       <div className="py-8 px-4">
         <div className="container mx-auto max-w-6xl">
+          <ActiveAlertsPanel authToken={authToken} refreshKey={alertsRefreshKey} />
+
           {/* Stats and Filters */}
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
             <div>
@@ -936,6 +995,23 @@ export default function Admin() {
                 </SelectContent>
               </Select>
 
+              <Select
+                value={assignmentFilter}
+                onValueChange={(value) =>
+                  setAssignmentFilter(value as "any" | "me" | "unassigned")
+                }
+              >
+                <SelectTrigger className="w-[160px]">
+                  <UserCheck className="w-4 h-4 mr-2" />
+                  <SelectValue placeholder="Assignment" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">All Cases</SelectItem>
+                  <SelectItem value="me">My Cases</SelectItem>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                </SelectContent>
+              </Select>
+
               <Button
                 onClick={async () => {
                   await fetchReports();
@@ -1186,6 +1262,12 @@ export default function Admin() {
                             📱 Offline Sync
                           </Badge>
                         )}
+                        {report.assigned_to && (
+                          <Badge variant="outline">
+                            <UserCheck className="w-3 h-3 mr-1" />
+                            {report.assigned_to_name || "Assigned"}
+                          </Badge>
+                        )}
                       </div>
                       {getStatusBadge(report.status)}
                     </div>
@@ -1783,6 +1865,51 @@ export default function Admin() {
                                   Mark as Resolved
                                 </Button>
                               </div>
+
+                              {/* Case assignment */}
+                              <div>
+                                <Label className="text-sm font-medium">
+                                  Assignment
+                                </Label>
+                                <div className="mt-2 flex flex-wrap items-center gap-3">
+                                  <span className="text-sm">
+                                    {selectedReport.assigned_to
+                                      ? <>Assigned to <strong>{selectedReport.assigned_to_name || selectedReport.assigned_to}</strong></>
+                                      : <span className="text-muted-foreground">Unassigned</span>}
+                                  </span>
+                                  {selectedReport.assigned_to ? (
+                                    <Button size="sm" variant="outline" onClick={() => changeAssignment("unassign")}>
+                                      <UserX className="w-4 h-4 mr-2" />
+                                      Unassign
+                                    </Button>
+                                  ) : (
+                                    <Button size="sm" variant="outline" onClick={() => changeAssignment("claim")}>
+                                      <UserCheck className="w-4 h-4 mr-2" />
+                                      Claim
+                                    </Button>
+                                  )}
+                                </div>
+                                {assignmentError && (
+                                  <p className="text-xs text-destructive mt-2">{assignmentError}</p>
+                                )}
+                              </div>
+
+                              {/* Audit trail */}
+                              <div>
+                                <Label className="text-sm font-medium">
+                                  History
+                                </Label>
+                                <div className="mt-3">
+                                  <ReportHistoryTimeline entries={selectedReport.history || []} />
+                                </div>
+                              </div>
+
+                              {/* Anonymous conversation with the reporter */}
+                              <ReportMessageThread
+                                endpoint={`/api/admin/reports/${selectedReport.shortId || selectedReport.id}/messages`}
+                                headers={{ Authorization: `Bearer ${authToken}` }}
+                                viewer="admin"
+                              />
                             </div>
                           )}
                         </DialogContent>
@@ -11,6 +11,16 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   MessageSquare,
   ArrowLeft,
@@ -20,9 +30,44 @@ import {
   CheckCircle,
   AlertCircle,
   Lock,
+  ShieldCheck,
+  BellRing,
+  Activity,
+  RefreshCw,
 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { toast } from "@/components/ui/use-toast";
+import {
+  DeliveryLogEntry,
+  NotificationChannel,
+  NotificationLocale,
+  NotificationPreferences,
+  PrivacyBudgetUsage,
+  PrivacyPeriod,
+  PrivacySettings,
+  ProviderHealth,
+  ProviderHealthStatus,
+  QuietHours,
+  ReportCategory,
+  ReportSeverity,
+} from "@shared/api";
+
+const getAdminToken = () => sessionStorage.getItem('adminToken') || localStorage.getItem('adminToken');
+
+const REPORT_TYPE_LABELS: Record<ReportCategory, string> = {
+  harassment: "Harassment",
+  medical: "Medical",
+  emergency: "Emergency",
+  safety: "Safety",
+  feedback: "Feedback",
+};
+
+const PROVIDER_STATUS_STYLES: Record<ProviderHealthStatus, string> = {
+  unknown: "bg-gray-100 text-gray-800",
+  healthy: "bg-green-100 text-green-800",
+  degraded: "bg-yellow-100 text-yellow-800",
+  down: "bg-red-100 text-red-800",
+};
 
 export default function AdminSettings() {
   const [emailSettings, setEmailSettings] = useState({
@@ -35,12 +80,191 @@ export default function AdminSettings() {
   >("unknown");
   const [testingEmail, setTestingEmail] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [privacySettings, setPrivacySettings] = useState<PrivacySettings | null>(null);
+  const [privacyUsage, setPrivacyUsage] = useState<PrivacyBudgetUsage[]>([]);
+  const [savingPrivacy, setSavingPrivacy] = useState(false);
+  const [alertPreferences, setAlertPreferences] = useState<NotificationPreferences | null>(null);
+  const [savingAlertPreferences, setSavingAlertPreferences] = useState(false);
+  const [deliveryProviders, setDeliveryProviders] = useState<ProviderHealth[] | null>(null);
+  const [failedDeliveries, setFailedDeliveries] = useState<DeliveryLogEntry[]>([]);
   // Remove toast hook since we're using the direct import
 
   useEffect(() => {
     fetchSettings();
+    fetchPrivacySettings();
+    fetchAlertPreferences();
+    fetchDeliveryHealth();
   }, []);
 
+  // Only admins who can configure the system get provider health; others don't see the card
+  const fetchDeliveryHealth = async () => {
+    const token = getAdminToken();
+    if (!token) return;
+
+    try {
+      const headers = { 'Authorization': `Bearer ${token}` };
+      const [providersResponse, logResponse] = await Promise.all([
+        fetch("/api/admin/delivery/providers", { headers }),
+        fetch("/api/admin/delivery/log?status=failed&limit=10", { headers }),
+      ]);
+      if (providersResponse.ok) {
+        setDeliveryProviders((await providersResponse.json()).data);
+      }
+      if (logResponse.ok) {
+        setFailedDeliveries((await logResponse.json()).data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch delivery health:", error);
+    }
+  };
+
+  const fetchAlertPreferences = async () => {
+    const token = getAdminToken();
+    if (!token) return;
+
+    try {
+      const response = await fetch("/api/admin/notification-preferences", {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const result = await response.json();
+        setAlertPreferences(result.data);
+      }
+    } catch (error) {
+      console.error("Failed to fetch notification preferences:", error);
+    }
+  };
+
+  const saveAlertPreferences = async () => {
+    if (!alertPreferences) return;
+    setSavingAlertPreferences(true);
+    try {
+      const response = await fetch("/api/admin/notification-preferences", {
+        method: "PUT",
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${getAdminToken()}`
+        },
+        // Empty strings clear the delivery overrides
+        body: JSON.stringify({
+          ...alertPreferences,
+          email: alertPreferences.email || "",
+          phone: alertPreferences.phone || "",
+          locale: alertPreferences.locale || ""
+        })
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setAlertPreferences(result.data);
+        toast({
+          title: "✅ Alert Preferences Saved",
+          description: result.data.channels.length
+            ? `You will get ${result.data.min_priority} and higher priority alerts by ${result.data.channels.join(" and ")}`
+            : "You will not receive email or SMS alerts",
+        });
+      } else {
+        toast({
+          title: "❌ Could Not Save Alert Preferences",
+          description: result.error || "Failed to save notification preferences",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Notification preferences error:', error);
+      toast({
+        title: "❌ Could Not Save Alert Preferences",
+        description: "Failed to connect to the server",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingAlertPreferences(false);
+    }
+  };
+
+  const toggleAlertChannel = (channel: NotificationChannel, enabled: boolean) => {
+    if (!alertPreferences) return;
+    const channels = alertPreferences.channels.filter((c) => c !== channel);
+    setAlertPreferences({ ...alertPreferences, channels: enabled ? [...channels, channel] : channels });
+  };
+
+  const toggleAlertReportType = (type: ReportCategory, enabled: boolean) => {
+    if (!alertPreferences) return;
+    const types = alertPreferences.report_types.filter((t) => t !== type);
+    setAlertPreferences({ ...alertPreferences, report_types: enabled ? [...types, type] : types });
+  };
+
+  const updateQuietHours = (field: keyof QuietHours, value: string | boolean) => {
+    if (!alertPreferences) return;
+    setAlertPreferences({ ...alertPreferences, quiet_hours: { ...alertPreferences.quiet_hours, [field]: value } });
+  };
+
+  const fetchPrivacySettings = async () => {
+    const token = getAdminToken();
+    if (!token) return;
+
+    try {
+      const response = await fetch("/api/admin/privacy/settings", {
+        headers: { 'Authorization': `Bearer ${token}` }
+      });
+      if (response.ok) {
+        const result = await response.json();
+        setPrivacySettings(result.data.settings);
+        setPrivacyUsage(result.data.usage);
+      }
+    } catch (error) {
+      console.error("Failed to fetch privacy settings:", error);
+    }
+  };
+
+  const savePrivacySettings = async () => {
+    if (!privacySettings) return;
+    setSavingPrivacy(true);
+    try {
+      const response = await fetch("/api/admin/privacy/settings", {
+        method: "PUT",
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${getAdminToken()}`
+        },
+        body: JSON.stringify(privacySettings)
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setPrivacySettings(result.data.settings);
+        setPrivacyUsage(result.data.usage);
+        toast({
+          title: "✅ Privacy Settings Saved",
+          description: `Public statistics now use epsilon ${result.data.settings.epsilon_public}`,
+        });
+      } else {
+        toast({
+          title: "❌ Could Not Save Privacy Settings",
+          description: result.error || "Access denied - system configuration permission required",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Privacy settings error:', error);
+      toast({
+        title: "❌ Could Not Save Privacy Settings",
+        description: "Failed to connect to the server",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingPrivacy(false);
+    }
+  };
+
+  const updatePrivacyField = (field: keyof PrivacySettings, value: string | boolean) => {
+    if (!privacySettings) return;
+    setPrivacySettings({
+      ...privacySettings,
+      [field]: typeof value === 'string' && field !== 'period' ? parseFloat(value) : value,
+    });
+  };
+
   const fetchSettings = async () => {
     try {
       const response = await fetch("/api/notifications/settings");
@@ -281,6 +505,357 @@ export default function AdminSettings() {
             </CardContent>
           </Card>
 
+          {/* Personal alert routing */}
+          {alertPreferences && (
+            <Card className="mb-6">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <BellRing className="w-6 h-6 text-primary" />
+                  <div>
+                    <CardTitle>My Alert Preferences</CardTitle>
+                    <CardDescription>
+                      Which new reports are sent to you, and how
+                    </CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="flex items-center justify-between rounded-md border p-3">
+                    <div>
+                      <Label htmlFor="alert-email">Email alerts</Label>
+                      <p className="text-sm text-muted-foreground">Sent to your account email unless overridden</p>
+                    </div>
+                    <Switch
+                      id="alert-email"
+                      checked={alertPreferences.channels.includes("email")}
+                      onCheckedChange={(checked) => toggleAlertChannel("email", checked)}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between rounded-md border p-3">
+                    <div>
+                      <Label htmlFor="alert-sms">SMS alerts</Label>
+                      <p className="text-sm text-muted-foreground">Requires a phone number below</p>
+                    </div>
+                    <Switch
+                      id="alert-sms"
+                      checked={alertPreferences.channels.includes("sms")}
+                      onCheckedChange={(checked) => toggleAlertChannel("sms", checked)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="alert-email-address">Alert email address</Label>
+                    <Input
+                      id="alert-email-address"
+                      type="email"
+                      placeholder="Account email"
+                      value={alertPreferences.email || ""}
+                      onChange={(e) => setAlertPreferences({ ...alertPreferences, email: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="alert-phone">Phone number</Label>
+                    <Input
+                      id="alert-phone"
+                      type="tel"
+                      placeholder="+1234567890"
+                      value={alertPreferences.phone || ""}
+                      onChange={(e) => setAlertPreferences({ ...alertPreferences, phone: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Minimum priority</Label>
+                    <Select
+                      value={alertPreferences.min_priority}
+                      onValueChange={(value) => setAlertPreferences({ ...alertPreferences, min_priority: value as ReportSeverity })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="low">Low and above</SelectItem>
+                        <SelectItem value="medium">Medium and above</SelectItem>
+                        <SelectItem value="high">High and above</SelectItem>
+                        <SelectItem value="urgent">Urgent only</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Alert language</Label>
+                    <Select
+                      value={alertPreferences.locale || "default"}
+                      onValueChange={(value) => setAlertPreferences({
+                        ...alertPreferences,
+                        locale: value === "default" ? undefined : value as NotificationLocale
+                      })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="default">Organization default</SelectItem>
+                        <SelectItem value="en">English</SelectItem>
+                        <SelectItem value="es">Español</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Report types</Label>
+                    <div className="flex flex-wrap gap-3">
+                      {(Object.keys(REPORT_TYPE_LABELS) as ReportCategory[]).map((type) => (
+                        <label key={type} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={alertPreferences.report_types.includes(type)}
+                            onCheckedChange={(checked) => toggleAlertReportType(type, checked === true)}
+                          />
+                          {REPORT_TYPE_LABELS[type]}
+                        </label>
+                      ))}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Leave all unchecked to receive every type
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-4 rounded-md border p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="quiet-hours">Quiet hours</Label>
+                      <p className="text-sm text-muted-foreground">No email or SMS alerts during this window</p>
+                    </div>
+                    <Switch
+                      id="quiet-hours"
+                      checked={alertPreferences.quiet_hours.enabled}
+                      onCheckedChange={(checked) => updateQuietHours('enabled', checked)}
+                    />
+                  </div>
+                  {alertPreferences.quiet_hours.enabled && (
+                    <div className="grid gap-4 md:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="quiet-start">From</Label>
+                        <Input
+                          id="quiet-start"
+                          type="time"
+                          value={alertPreferences.quiet_hours.start}
+                          onChange={(e) => updateQuietHours('start', e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="quiet-end">Until</Label>
+                        <Input
+                          id="quiet-end"
+                          type="time"
+                          value={alertPreferences.quiet_hours.end}
+                          onChange={(e) => updateQuietHours('end', e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="quiet-timezone">Timezone</Label>
+                        <Input
+                          id="quiet-timezone"
+                          placeholder="Europe/London"
+                          value={alertPreferences.quiet_hours.timezone}
+                          onChange={(e) => updateQuietHours('timezone', e.target.value)}
+                        />
+                      </div>
+                      <div className="flex items-center gap-3 md:col-span-3">
+                        <Switch
+                          id="urgent-override"
+                          checked={alertPreferences.quiet_hours.urgent_override}
+                          onCheckedChange={(checked) => updateQuietHours('urgent_override', checked)}
+                        />
+                        <Label htmlFor="urgent-override">Still send urgent reports during quiet hours</Label>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex gap-3">
+                  <Button onClick={saveAlertPreferences} disabled={savingAlertPreferences}>
+                    {savingAlertPreferences ? "Saving..." : "Save Alert Preferences"}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateQuietHours('timezone', Intl.DateTimeFormat().resolvedOptions().timeZone)}
+                  >
+                    Use my timezone
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Message Delivery */}
+          {deliveryProviders && (
+            <Card className="mb-6">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <Activity className="w-6 h-6 text-primary" />
+                    <div>
+                      <CardTitle>Message Delivery</CardTitle>
+                      <CardDescription>
+                        SMS and email providers in failover order, and recent failed sends
+                      </CardDescription>
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={fetchDeliveryHealth}>
+                    <RefreshCw className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  {deliveryProviders.map((provider) => (
+                    <div
+                      key={`${provider.channel}:${provider.provider}`}
+                      className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md border p-3 text-sm"
+                    >
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{provider.provider}</span>
+                          <Badge variant="outline">{provider.channel.toUpperCase()}</Badge>
+                          {provider.configured ? (
+                            <Badge variant="secondary" className={PROVIDER_STATUS_STYLES[provider.status]}>
+                              {provider.status}
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline">not configured</Badge>
+                          )}
+                        </div>
+                        {provider.last_error && provider.status !== "healthy" && (
+                          <p className="text-xs text-red-600">{provider.last_error}</p>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {provider.total_sent} sent · {provider.total_failed} failed
+                        {provider.last_success_at && <> · last success {new Date(provider.last_success_at).toLocaleString()}</>}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Recent failed sends</Label>
+                  {failedDeliveries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No failed sends recorded</p>
+                  ) : (
+                    failedDeliveries.map((entry) => (
+                      <p key={entry.id} className="text-xs text-muted-foreground">
+                        {new Date(entry.created_at).toLocaleString()} · {entry.channel.toUpperCase()} via {entry.provider} to {entry.recipient}
+                        {entry.reference && <> ({entry.reference})</>}: <span className="text-red-600">{entry.error}</span>
+                      </p>
+                    ))
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Differential Privacy */}
+          {privacySettings && (
+            <Card className="mb-6">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <ShieldCheck className="w-6 h-6 text-primary" />
+                    <div>
+                      <CardTitle>Differential Privacy</CardTitle>
+                      <CardDescription>
+                        Noise added to public statistics and aggregate exports
+                      </CardDescription>
+                    </div>
+                  </div>
+                  <Switch
+                    checked={privacySettings.enabled}
+                    onCheckedChange={(checked) => updatePrivacyField('enabled', checked)}
+                  />
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="epsilon-public">Epsilon per public release</Label>
+                    <Input
+                      id="epsilon-public"
+                      type="number"
+                      step="0.1"
+                      min="0.01"
+                      max="10"
+                      value={privacySettings.epsilon_public}
+                      onChange={(e) => updatePrivacyField('epsilon_public', e.target.value)}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Lower values add more noise to the public dashboard
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="epsilon-export">Epsilon per aggregate export</Label>
+                    <Input
+                      id="epsilon-export"
+                      type="number"
+                      step="0.1"
+                      min="0.01"
+                      max="10"
+                      value={privacySettings.epsilon_export}
+                      onChange={(e) => updatePrivacyField('epsilon_export', e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="period-budget">Budget per period</Label>
+                    <Input
+                      id="period-budget"
+                      type="number"
+                      step="0.5"
+                      min="0.01"
+                      value={privacySettings.period_budget}
+                      onChange={(e) => updatePrivacyField('period_budget', e.target.value)}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Once spent, the last release is served until the next period
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Budget period</Label>
+                    <Select
+                      value={privacySettings.period}
+                      onValueChange={(value) => updatePrivacyField('period', value as PrivacyPeriod)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="day">Daily</SelectItem>
+                        <SelectItem value="week">Weekly</SelectItem>
+                        <SelectItem value="month">Monthly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-3">
+                  {privacyUsage.map((usage) => (
+                    <div key={usage.scope} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="capitalize">{usage.scope} budget ({usage.period})</span>
+                        <span className="text-muted-foreground">
+                          {usage.spent.toFixed(2)} / {usage.budget} · {usage.releases} releases
+                        </span>
+                      </div>
+                      <Progress value={usage.budget > 0 ? Math.min((usage.spent / usage.budget) * 100, 100) : 0} />
+                    </div>
+                  ))}
+                </div>
+
+                <Button onClick={savePrivacySettings} disabled={savingPrivacy}>
+                  {savingPrivacy ? "Saving..." : "Save Privacy Settings"}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
           {/* E2EE Status */}
           <Card className="mb-6">
             <CardHeader>
@@ -22,12 +22,17 @@ import {
   Calendar,
   AlertCircle,
   Shield,
+  Lock,
 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { ReportStatusResponse, ReportStatus } from "@shared/api";
+import ReportMessageThread from "@/components/ReportMessageThread";
+import ReportHistoryTimeline from "@/components/ReportHistoryTimeline";
 
 export default function CheckStatus() {
   const [reportId, setReportId] = useState("");
+  const [reporterSecret, setReporterSecret] = useState("");
+  const [threadSecret, setThreadSecret] = useState("");
   const [reportStatus, setReportStatus] = useState<ReportStatusResponse | null>(
     null,
   );
@@ -45,10 +50,14 @@ export default function CheckStatus() {
     setLoading(true);
     setError("");
     setReportStatus(null);
+    setThreadSecret("");
 
     try {
       console.log(`🔍 Checking status for report ID: ${reportId.trim()}`);
-      const response = await fetch(`/api/reports/${reportId.trim()}/status`);
+      const secret = reporterSecret.trim();
+      const response = await fetch(`/api/reports/${reportId.trim()}/status`, {
+        headers: secret ? { "X-Reporter-Secret": secret } : {},
+      });
 
       if (response.ok) {
         const result = await response.json();
@@ -67,9 +76,13 @@ export default function CheckStatus() {
             category: result.data.category,
             severity: result.data.severity,
             location: result.data.location,
-            is_encrypted: result.data.is_encrypted
+            is_encrypted: result.data.is_encrypted,
+            details_locked: result.data.details_locked,
+            history: result.data.history
           };
           setReportStatus(statusData);
+          // The conversation is only available once the secret has been accepted
+          setThreadSecret(statusData.details_locked ? "" : secret);
         } else {
           setError("Invalid response format from server.");
         }
@@ -207,6 +220,22 @@ export default function CheckStatus() {
                   </p>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="reporterSecret">Reporter Secret</Label>
+                  <Input
+                    id="reporterSecret"
+                    type="password"
+                    placeholder="e.g., K7QM-2XHD-P9TW-AC4R"
+                    value={reporterSecret}
+                    onChange={(e) => setReporterSecret(e.target.value)}
+                    className="font-mono"
+                    autoComplete="off"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Required to view report details and message the admin team. Without it only the status is shown
+                  </p>
+                </div>
+
                 {error && (
                   <Alert variant="destructive">
                     <AlertCircle className="h-4 w-4" />
@@ -247,6 +276,17 @@ export default function CheckStatus() {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
+                {reportStatus.details_locked && (
+                  <Alert>
+                    <Lock className="h-4 w-4" />
+                    <AlertDescription>
+                      {reporterSecret.trim()
+                        ? "The reporter secret was not accepted. Only the report status is shown."
+                        : "Enter your reporter secret to view report details and messages. Only the report status is shown."}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 {/* Report Details */}
                 {reportStatus.message && (
                   <div>
@@ -305,6 +345,16 @@ export default function CheckStatus() {
                   </div>
                 </div>
 
+                {/* Status Timeline */}
+                {reportStatus.history && reportStatus.history.length > 0 && (
+                  <div>
+                    <Label className="text-sm font-medium mb-3 block">
+                      Status Timeline
+                    </Label>
+                    <ReportHistoryTimeline entries={reportStatus.history} />
+                  </div>
+                )}
+
                 {/* Submission Date */}
                 <div>
                   <Label className="text-sm font-medium mb-2 block">
@@ -349,6 +399,15 @@ export default function CheckStatus() {
                   </div>
                 )}
 
+                {/* Anonymous conversation with the admin team */}
+                {threadSecret && (
+                  <ReportMessageThread
+                    endpoint={`/api/reports/${reportStatus.id}/messages`}
+                    headers={{ "X-Reporter-Secret": threadSecret }}
+                    viewer="reporter"
+                  />
+                )}
+
                 {/* Privacy Notice */}
                 <Alert>
                   <Shield className="h-4 w-4" />
@@ -379,6 +438,10 @@ export default function CheckStatus() {
                   • If you've lost your report ID, you'll need to submit a new
                   report
                 </p>
+                <p>
+                  • Your reporter secret cannot be recovered - never share it
+                  together with your report ID
+                </p>
                 <p>• For urgent matters, contact local authorities directly</p>
               </div>
               <div className="flex gap-3 mt-4">
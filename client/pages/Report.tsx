@@ -1,4 +1,4 @@
-﻿import { useState, useEffect } from "react";
+﻿import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -36,10 +36,14 @@ import {
   MapPin,
   Loader2,
   Video,
+  EyeOff,
 } from "lucide-react";
 import { Link } from "react-router-dom";
 import VideoUploadRecorder, { VideoFile } from "@/components/VideoUploadRecorder";
 import IPGeolocationPicker from "@/components/IPGeolocationPicker";
+import { getModerationMessage, moderateContent } from "@shared/moderation";
+import { MediaGps } from "@shared/media-metadata";
+import { describeRemovedMetadata, scrubImageFile } from "@/lib/media-scrubber";
 
 // Simplified types for demo
 type ReportCategory = "harassment" | "emergency" | "safety" | "feedback" | "other";
@@ -77,17 +81,25 @@ interface CreateReportResponse {
 
 export default function Report() {
   const [message, setMessage] = useState("");
+  // Preview of the server-side moderation verdict (same shared engine)
+  const moderationPreview = useMemo(() => moderateContent(message), [message]);
   const [category, setCategory] = useState<ReportCategory>("harassment");
   const [severity, setSeverity] = useState<ReportSeverity>("medium");
   const [photoFile, setPhotoFile] = useState<File | null>(null);
+  // What was scrubbed from the photo in the browser (GPS is only sent with consent)
+  const [photoMetadata, setPhotoMetadata] = useState<{ removed: string[]; gps?: MediaGps } | null>(null);
+  const [processingPhoto, setProcessingPhoto] = useState(false);
   const [videoFile, setVideoFile] = useState<VideoFile | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
   const [reportId, setReportId] = useState<string>("");
+  const [reporterSecret, setReporterSecret] = useState<string>("");
   const [error, setError] = useState<string>("");
   
   // Location state
   const [shareLocation, setShareLocation] = useState(false);
+  // Keep the GPS position embedded in the photo/video (admins only); stripped otherwise
+  const [shareMediaLocation, setShareMediaLocation] = useState(false);
   const [location, setLocation] = useState<GeolocationPosition | null>(null);
   const [ipGeolocation, setIPGeolocation] = useState<LocationData | null>(null);
   const [locationError, setLocationError] = useState<string>("");
@@ -184,7 +196,7 @@ export default function Report() {
     { value: "urgent" as ReportSeverity, label: "Urgent", color: "text-red-600" },
   ];
 
-  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       // Check file size (max 5MB)
@@ -199,11 +211,31 @@ export default function Report() {
         return;
       }
 
-      setPhotoFile(file);
-      setError("");
+      // Strip EXIF/location data before the photo leaves the device
+      setProcessingPhoto(true);
+      try {
+        const scrubbed = await scrubImageFile(file);
+        setPhotoFile(scrubbed.file);
+        setPhotoMetadata({ removed: scrubbed.removed, gps: scrubbed.gps });
+        setError("");
+      } catch (scrubError) {
+        setError(scrubError instanceof Error ? scrubError.message : "Could not process the photo");
+      } finally {
+        setProcessingPhoto(false);
+      }
     }
   };
 
+  const removePhoto = () => {
+    setPhotoFile(null);
+    setPhotoMetadata(null);
+  };
+
+  const removedMetadataLabels = describeRemovedMetadata([
+    ...(photoMetadata?.removed || []),
+    ...(videoFile?.metadataRemoved || []),
+  ]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -222,6 +254,11 @@ export default function Report() {
       return;
     }
 
+    if (videoFile?.upload && videoFile.upload.currentState !== "complete") {
+      setError("Please wait for the video to finish uploading");
+      return;
+    }
+
     setIsSubmitting(true);
     setError("");
 
@@ -252,15 +289,28 @@ export default function Report() {
         formData.append('image', photoFile);  // Backend expects 'image' not 'photo'
       }
 
-      // Add video file if available
+      if (photoFile || videoFile) {
+        formData.append('media_location_consent', shareMediaLocation.toString());
+      }
+      // The photo's EXIF is stripped in the browser, so a consented location travels separately
+      if (photoFile && shareMediaLocation && photoMetadata?.gps) {
+        formData.append('image_location', JSON.stringify(photoMetadata.gps));
+      }
+
+      // Add video file if available - large videos were already sent in chunks and are attached by upload id
       if (videoFile) {
-        formData.append('video', videoFile.file);
+        if (videoFile.upload) {
+          const uploadId = await videoFile.upload.finalize({ mediaLocationConsent: shareMediaLocation });
+          formData.append('video_upload_id', uploadId);
+        } else {
+          formData.append('video', videoFile.file);
+        }
         formData.append('video_metadata', JSON.stringify({
           duration: videoFile.duration || 0,
           size: videoFile.size,
           format: videoFile.format,
           isRecorded: videoFile.isRecorded,
-          uploadMethod: "direct"
+          uploadMethod: videoFile.upload ? "resumable" : "direct"
         }));
       }
 
@@ -300,6 +350,7 @@ export default function Report() {
       if (result && result.data && (result.data.shortId || result.data.id)) {
         // Prefer shortId if available, fallback to id for backward compatibility
         setReportId(result.data.shortId || result.data.id);
+        setReporterSecret(result.data.reporterSecret || "");
         setSubmitted(true);
       } else {
         console.error("❌ Unexpected response structure:", result);
@@ -371,6 +422,28 @@ export default function Report() {
               </CardContent>
             </Card>
 
+            {reporterSecret && (
+              <Card className="text-left mb-8">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Lock className="w-5 h-5 text-primary" />
+                    Your Reporter Secret
+                  </CardTitle>
+                  <CardDescription>
+                    This secret is shown only once and cannot be recovered. Save it together with your report ID.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="bg-muted p-4 rounded-lg">
+                    <code className="text-lg font-mono">{reporterSecret}</code>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    🔑 Enter it with your report ID on the "Check Status" page to view your report and message the admin team. Anyone with only your report ID sees just the status.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
             <Alert className="mb-8">
               <Lock className="h-4 w-4" />
               <AlertDescription>
@@ -388,8 +461,9 @@ export default function Report() {
                 onClick={() => {
                   setSubmitted(false);
                   setMessage("");
-                  setPhotoFile(null);
+                  removePhoto();
                   setReportId("");
+                  setReporterSecret("");
                 }}
               >
                 Submit Another Report
@@ -525,6 +599,11 @@ export default function Report() {
                   <p className="text-xs text-muted-foreground">
                     {message.length}/1000 characters
                   </p>
+                  {moderationPreview.isFlagged && (
+                    <p className={`text-xs ${moderationPreview.severity === 'high' ? 'text-red-600' : 'text-amber-600'}`}>
+                      {getModerationMessage(moderationPreview)}
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -543,7 +622,7 @@ export default function Report() {
                           type="button"
                           variant="outline"
                           size="sm"
-                          onClick={() => setPhotoFile(null)}
+                          onClick={removePhoto}
                         >
                           Remove
                         </Button>
@@ -564,6 +643,7 @@ export default function Report() {
                       type="file"
                       accept="image/*"
                       onChange={handlePhotoChange}
+                      disabled={processingPhoto}
                       className="mt-2"
                     />
                   </div>
@@ -602,6 +682,39 @@ export default function Report() {
                   </Card>
                 </div>
 
+                {(photoFile || videoFile) && (
+                  <div className="space-y-1 p-4 border rounded-lg">
+                    <div className="flex items-start gap-2 text-sm">
+                      <EyeOff className="w-4 h-4 mt-0.5 text-green-600" />
+                      <div>
+                        <p className="font-medium">Metadata removed</p>
+                        <p className="text-xs text-muted-foreground">
+                          {removedMetadataLabels.length > 0
+                            ? `Removed from your files before upload: ${removedMetadataLabels.join(", ")}.`
+                            : "No identifying metadata was found in your files."}
+                          {videoFile && videoFile.metadataScrubbed === false &&
+                            " Camera details in the video are removed by the server when it is uploaded."}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2 pt-2">
+                      <Checkbox
+                        id="share-media-location"
+                        checked={shareMediaLocation}
+                        onCheckedChange={(checked) => setShareMediaLocation(checked as boolean)}
+                      />
+                      <Label htmlFor="share-media-location" className="flex items-center gap-2 cursor-pointer">
+                        <MapPin className="w-4 h-4" />
+                        Share where the photo/video was taken (optional)
+                      </Label>
+                    </div>
+                    <p className="ml-6 text-xs text-muted-foreground">
+                      Camera details, timestamps and other metadata are always removed. If checked, the embedded GPS position is kept encrypted and visible only to administrators.
+                      {photoFile && !photoMetadata?.gps && " Your photo has no embedded location."}
+                    </p>
+                  </div>
+                )}
+
                 {/* Location Sharing Section */}
                 <div className="space-y-4 p-4 border rounded-lg">
                   <div className="flex items-center space-x-2">
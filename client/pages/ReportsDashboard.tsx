@@ -23,20 +23,15 @@ import {
   Eye,
 } from "lucide-react";
 import { Link } from "react-router-dom";
+import { PublicReportStats, ResolutionTimeBucket } from "@shared/api";
 
-interface PublicReportStats {
-  total: number;
-  pending: number;
-  resolved: number;
-  urgent: number;
-  categories: {
-    [key: string]: number;
-  };
-  recentActivity: {
-    date: string;
-    count: number;
-  }[];
-}
+const resolutionLabels: Record<ResolutionTimeBucket, string> = {
+  under_1d: "Under 1 day",
+  "1d_3d": "1-3 days",
+  "3d_7d": "3-7 days",
+  "1w_4w": "1-4 weeks",
+  over_4w: "Over 4 weeks",
+};
 
 export default function ReportsDashboard() {
   const [stats, setStats] = useState<PublicReportStats | null>(null);
@@ -50,8 +45,8 @@ export default function ReportsDashboard() {
       const response = await fetch('/api/reports/public-stats');
       
       if (response.ok) {
-        const data = await response.json();
-        setStats(data);
+        const result = await response.json();
+        setStats(result.data);
         setLastUpdated(new Date());
         setError("");
       } else {
@@ -86,6 +81,13 @@ export default function ReportsDashboard() {
     }
   };
 
+  // Counts below the k-anonymity threshold are suppressed by the server
+  const formatCount = (count: number | null | undefined) =>
+    count === null || count === undefined ? `<${stats?.kAnonymityThreshold ?? 5}` : count;
+
+  const percentOf = (count: number | null | undefined, total: number | null | undefined) =>
+    count && total ? Math.round((count / total) * 100) : 0;
+
   const getCategoryIcon = (category: string) => {
     switch (category.toLowerCase()) {
       case 'harassment':
@@ -160,7 +162,7 @@ export default function ReportsDashboard() {
                   <Users className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{stats.total}</div>
+                  <div className="text-2xl font-bold">{formatCount(stats.total)}</div>
                   <p className="text-xs text-muted-foreground">
                     Community submissions
                   </p>
@@ -173,7 +175,7 @@ export default function ReportsDashboard() {
                   <Clock className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{stats.pending}</div>
+                  <div className="text-2xl font-bold">{formatCount(stats.pending)}</div>
                   <p className="text-xs text-muted-foreground">
                     Being processed
                   </p>
@@ -186,7 +188,7 @@ export default function ReportsDashboard() {
                   <CheckCircle className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{stats.resolved}</div>
+                  <div className="text-2xl font-bold">{formatCount(stats.resolved)}</div>
                   <p className="text-xs text-muted-foreground">
                     Action taken
                   </p>
@@ -199,7 +201,7 @@ export default function ReportsDashboard() {
                   <AlertTriangle className="h-4 w-4 text-muted-foreground" />
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold text-red-600">{stats.urgent}</div>
+                  <div className="text-2xl font-bold text-red-600">{formatCount(stats.urgent)}</div>
                   <p className="text-xs text-muted-foreground">
                     High priority
                   </p>
@@ -220,7 +222,7 @@ export default function ReportsDashboard() {
                   <div className="space-y-4">
                     {Object.entries(stats.categories).map(([category, count]) => {
                       const Icon = getCategoryIcon(category);
-                      const percentage = stats.total > 0 ? Math.round((count / stats.total) * 100) : 0;
+                      const percentage = percentOf(count, stats.total);
                       
                       return (
                         <div key={category} className="flex items-center justify-between">
@@ -252,14 +254,14 @@ export default function ReportsDashboard() {
                       <div className="flex justify-between">
                         <span>Resolution Rate</span>
                         <span className="font-bold">
-                          {stats.total > 0 ? Math.round((stats.resolved / stats.total) * 100) : 0}%
+                          {percentOf(stats.resolved, stats.total)}%
                         </span>
                       </div>
                       <div className="w-full bg-gray-200 rounded-full h-2">
                         <div
                           className="bg-green-600 h-2 rounded-full"
                           style={{
-                            width: `${stats.total > 0 ? (stats.resolved / stats.total) * 100 : 0}%`,
+                            width: `${percentOf(stats.resolved, stats.total)}%`,
                           }}
                         ></div>
                       </div>
@@ -268,11 +270,11 @@ export default function ReportsDashboard() {
                     <div className="text-sm text-muted-foreground">
                       <div className="flex items-center gap-2">
                         <div className="w-3 h-3 bg-green-600 rounded-full"></div>
-                        Resolved: {stats.resolved}
+                        Resolved: {formatCount(stats.resolved)}
                       </div>
                       <div className="flex items-center gap-2">
                         <div className="w-3 h-3 bg-yellow-500 rounded-full"></div>
-                        Pending: {stats.pending}
+                        Pending: {formatCount(stats.pending)}
                       </div>
                     </div>
                   </div>
@@ -280,6 +282,64 @@ export default function ReportsDashboard() {
               </Card>
             </div>
 
+            {/* Resolution Time & Weekly Trend */}
+            <div className="grid md:grid-cols-2 gap-6 mb-8">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Time to Resolution</CardTitle>
+                  <CardDescription>
+                    How long resolved reports took to close
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {(Object.keys(resolutionLabels) as ResolutionTimeBucket[]).map((bucket) => (
+                      <div key={bucket} className="flex items-center justify-between">
+                        <span className="text-sm">{resolutionLabels[bucket]}</span>
+                        <Badge variant="outline">{formatCount(stats.resolutionTime[bucket] ?? 0)}</Badge>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="w-5 h-5" />
+                    Weekly Trend
+                  </CardTitle>
+                  <CardDescription>
+                    New reports per week (last {stats.weeklyTrend.length} weeks)
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {(() => {
+                    const max = Math.max(...stats.weeklyTrend.map((point) => point.count ?? stats.kAnonymityThreshold), 1);
+                    return (
+                      <div className="flex items-end gap-1 h-32">
+                        {stats.weeklyTrend.map((point) => (
+                          <div
+                            key={point.weekStart}
+                            className="flex-1 flex flex-col justify-end h-full"
+                            title={`Week of ${new Date(point.weekStart).toLocaleDateString()}: ${formatCount(point.count)}`}
+                          >
+                            <div
+                              className={`rounded-t ${point.count === null ? 'bg-gray-300' : 'bg-blue-500'}`}
+                              style={{ height: `${((point.count ?? stats.kAnonymityThreshold / 2) / max) * 100}%` }}
+                            ></div>
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })()}
+                  <p className="text-xs text-muted-foreground mt-3">
+                    Grey bars are weeks with fewer than {stats.kAnonymityThreshold} reports
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
             {/* Actions */}
             <div className="grid md:grid-cols-2 gap-6">
               <Card>
@@ -336,7 +396,8 @@ export default function ReportsDashboard() {
                 Data refreshes automatically every 5 minutes
               </p>
               <p className="mt-2">
-                🔒 All statistics are anonymized and do not contain personal information
+                🔒 All statistics are anonymized - groups with fewer than {stats.kAnonymityThreshold} reports are hidden
+                {stats.differentialPrivacy && " and counts include random noise, so totals are approximate"}
               </p>
             </div>
           </>
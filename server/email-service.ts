@@ -1,61 +1,20 @@
-import nodemailer from 'nodemailer';
 import { IAlert } from '../shared/models/Alert';
 import { IReport } from '../shared/models/report';
+import { getDeliveryProviders, sendEmail, verifyEmailProviders } from './utils/delivery';
 
 /**
  * Enhanced Email Service for Whistle App
- * Sends alert notifications for urgent/emergency reports
+ * Sends alert notifications for urgent/emergency reports through the configured
+ * email providers (SMTP, HTTP webhook) - see utils/delivery.ts
  */
 
-interface EmailConfig {
-  host: string;
-  port: number;
-  secure: boolean;
-  auth: {
-    user: string;
-    pass: string;
-  };
-}
-
 class EmailService {
-  private transporter: nodemailer.Transporter | null = null;
-  private isConfigured: boolean = false;
-
-  constructor() {
-    this.initializeTransporter();
-  }
-
-  private initializeTransporter() {
-    const {
-      SMTP_HOST,
-      SMTP_PORT,
-      SMTP_USER,
-      SMTP_PASS
-    } = process.env;
-
-    if (!SMTP_HOST || !SMTP_PORT || !SMTP_USER || !SMTP_PASS) {
-      console.warn('✉️ Email service not configured. Missing SMTP environment variables.');
-      return;
-    }
-
-    const emailConfig: EmailConfig = {
-      host: SMTP_HOST,
-      port: parseInt(SMTP_PORT),
-      secure: parseInt(SMTP_PORT) === 465,
-      auth: {
-        user: SMTP_USER,
-        pass: SMTP_PASS
-      }
-    };
-
-    this.transporter = nodemailer.createTransport(emailConfig);
-    this.isConfigured = true;
-
-    console.log('✉️ Email service initialized');
+  private get isConfigured(): boolean {
+    return getDeliveryProviders('email').some((provider) => provider.isConfigured());
   }
 
   async sendAlertNotification(alert: IAlert, report?: IReport): Promise<boolean> {
-    if (!this.isConfigured || !this.transporter) {
+    if (!this.isConfigured) {
       console.warn('Email service not configured. Skipping notification.');
       return false;
     }
@@ -67,9 +26,6 @@ class EmailService {
         return false;
       }
 
-      const fromEmail = process.env.FROM_EMAIL || process.env.SMTP_USER;
-      const fromName = process.env.FROM_NAME || 'Whistle Security';
-      
       const urgencyBadge = alert.alertType === 'emergency' ? 'EMERGENCY' : 'URGENT';
       const urgencyColor = alert.alertType === 'emergency' ? '#dc3545' : '#fd7e14';
 
@@ -107,17 +63,16 @@ class EmailService {
         </div>
       `;
 
-      const mailOptions = {
-        from: `${fromName} <${fromEmail}>`,
-        to: adminEmail,
+      const result = await sendEmail({
+        to: [adminEmail],
         subject: `🚨 ${urgencyBadge} Alert - Whistle Security`,
+        text: `${urgencyBadge} ALERT\n\n${alert.message}\n\nOpen the admin panel to review.`,
         html: htmlContent,
-        priority: (alert.alertType === 'emergency' ? 'high' : 'normal') as 'high' | 'normal' | 'low'
-      };
-
-      const result = await this.transporter.sendMail(mailOptions);
+        priority: alert.alertType === 'emergency' ? 'high' : 'normal'
+      }, { reference: alert.shortId ? `alert:${alert.shortId}` : undefined });
       
-      console.log(`✉️ Alert email sent: ${alert.alertType} to ${adminEmail}`);
+      if (!result) return false;
+      console.log(`✉️ Alert email sent: ${alert.alertType} to ${adminEmail} via ${result.provider}`);
       return true;
     } catch (error) {
       console.error('Failed to send alert email:', error);
@@ -130,14 +85,12 @@ class EmailService {
       return false;
     }
 
-    try {
-      await this.transporter?.verify();
+    if (await verifyEmailProviders()) {
       console.log('✅ Email service connection test passed');
       return true;
-    } catch (error) {
-      console.log('❌ Email service connection test failed');
-      return false;
     }
+    console.log('❌ Email service connection test failed');
+    return false;
   }
 }
 
@@ -4,7 +4,6 @@ import path from "path";
 import { fileURLToPath } from 'url';
 import { createServer as createHTTPServer, Server as HTTPServer } from 'http';
 import { initializeSocketIO } from "./utils/realtime";
-import { sendUrgentReportNotifications } from "./utils/notifications";
 import { DataEncryption } from "./utils/encryption";
 import { handleDemo } from "./routes/demo";
 import { handleUploadError } from "./utils/fileUpload";
@@ -26,8 +25,30 @@ import {
 } from "./routes/admin-reports";
 import {
   getAdminReportsWithMedia,
-  getAdminReportDetailsWithMedia
+  getAdminReportDetailsWithMedia,
+  getReportMediaThumbnail
 } from "./routes/admin-reports-enhanced-media";
+import adminReportsRoutes from "./routes/admin-reports-enhanced";
+import adminSlaRoutes from "./routes/admin-sla";
+import adminJobsRoutes from "./routes/admin-jobs";
+import adminPrivacyRoutes from "./routes/admin-privacy";
+import adminClassifierRoutes from "./routes/admin-classifier";
+import adminModerationRulesRoutes from "./routes/admin-moderation-rules";
+import adminEvidenceRoutes from "./routes/admin-evidence";
+import adminNotificationPreferencesRoutes from "./routes/admin-notification-preferences";
+import adminOnCallRoutes from "./routes/admin-on-call";
+import adminAlertsRoutes from "./routes/admin-alerts";
+import adminNotificationTemplatesRoutes from "./routes/admin-notification-templates";
+import adminDeliveryRoutes from "./routes/admin-delivery";
+import uploadRoutes from "./routes/uploads";
+import { getPublicReportStats } from "./routes/public-stats";
+import { handleInboundSmsWebhook } from "./routes/sms-webhook";
+import {
+  getReporterMessages,
+  postReporterMessage,
+  getAdminReportMessages,
+  postAdminReportMessage
+} from "./routes/report-messages";
 import {
   testEmailNotification,
   sendSMSNotification,
@@ -274,9 +295,14 @@ export function createServer() {
   // Public report routes (API prefix handled by Vite middleware)
   app.post("/reports", createReport); // Unified report creation - /api/reports
   app.post("/reports/with-files", createReportWithGridFS); // Report creation with GridFS file uploads - /api/reports/with-files
+  app.get("/reports/public-stats", getPublicReportStats); // Aggregated, k-anonymous public dashboard statistics - must precede /reports/:id
   app.get("/reports/:id", getReportById); // Get single report by ID - /api/reports/:id
   app.get("/reports/:id/status", getReportByShortId); // Get report by ID (shortId or ObjectId) for status check - /api/reports/:id/status
   app.get("/reports/status/:shortId", getReportByShortId); // Alternative route for backward compatibility
+  app.get("/reports/:id/messages", getReporterMessages); // Reporter conversation thread (reporter secret required) - /api/reports/:id/messages
+  app.post("/reports/:id/messages", postReporterMessage); // Reporter follow-up message (reporter secret required)
+  app.use("/upload-sessions", uploadRoutes); // Resumable chunked uploads for large evidence files - /api/upload-sessions
+  app.post("/sms/inbound", handleInboundSmsWebhook); // Twilio inbound SMS ("ACK <ID>" replies, signature verified) - /api/sms/inbound
   
   // GridFS file serving routes  
   app.get("/files/:fileId", getGridFSFile); // Serve GridFS files - /api/files/:fileId
@@ -290,7 +316,24 @@ export function createServer() {
   app.get("/reports", requireAuth, requireAdmin, getAdminReportsWithMedia); // Enhanced reports with full media
   app.get("/admin/reports", requireAuth, requireAdmin, getAdminReportsWithMedia); // Enhanced admin route
   app.get("/admin/reports/:id", requireAuth, requireAdmin, getAdminReportDetailsWithMedia); // Enhanced detailed report
+  app.get("/admin/reports/:id/thumbnails/:kind", requireAuth, requireAdmin, getReportMediaThumbnail); // Encrypted media previews
   app.put("/admin/reports/:id", requireAuth, requireAdmin, updateReportStatus); // Update report status
+  app.get("/admin/reports/:id/messages", requireAuth, requireAdmin, getAdminReportMessages); // Reporter conversation thread
+  app.post("/admin/reports/:id/messages", requireAuth, requireAdmin, postAdminReportMessage); // Message the anonymous reporter
+
+  // Permission-gated admin routes (assignment, reclassify, export, stats) - routes above take precedence
+  app.use("/admin", adminReportsRoutes);
+  app.use("/admin", adminSlaRoutes); // SLA policy management
+  app.use("/admin", adminJobsRoutes); // Background job inspection and re-runs
+  app.use("/admin", adminPrivacyRoutes); // Differential privacy settings
+  app.use("/admin", adminClassifierRoutes); // Classifier metrics and retraining
+  app.use("/admin", adminModerationRulesRoutes); // Moderation and classification rules
+  app.use("/admin", adminEvidenceRoutes); // Evidence custody log, integrity checks and certificates
+  app.use("/admin", adminNotificationPreferencesRoutes); // Per-admin alert routing preferences
+  app.use("/admin", adminOnCallRoutes); // On-call rotations and overrides for urgent paging
+  app.use("/admin", adminAlertsRoutes); // Active alerts and acknowledgement
+  app.use("/admin", adminNotificationTemplatesRoutes); // Localized notification template previews
+  app.use("/admin", adminDeliveryRoutes); // SMS/email provider health and delivery log
 
   // Protected notification routes (JWT required) - Socket.io only (SSE removed)
   app.get("/notifications/poll", requireAuth, requireAdmin, pollNotifications); // Polling fallback
@@ -2,6 +2,8 @@ import jwt from 'jsonwebtoken';
 import bcrypt from 'bcrypt';
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
+import mongoose from 'mongoose';
+import DatabaseAdminModel from '../models/admin';
 
 const getJWTSecret = () => process.env.JWT_SECRET || 'whistle-default-jwt-secret-32-characters-minimum';
 const getJWTExpiresIn = () => process.env.JWT_EXPIRES_IN || '24h';
@@ -30,6 +32,7 @@ export interface AuthRequest extends Request {
 export interface IAdmin {
   _id: any;
   email: string;
+  name?: string;
   role?: string;
   is_active?: boolean;
   isLocked?: boolean;
@@ -37,10 +40,45 @@ export interface IAdmin {
   hasPermission?: (perm: string) => boolean;
 }
 
-// Minimal AdminModel placeholder for type checking (DB model is provided at runtime)
-const AdminModel: any = (global as any).AdminModel || {
-  findById: async (id: any) => null
-};
+// Admin accounts live in MongoDB; a model can still be injected via global for tooling
+const AdminModel: any = (global as any).AdminModel || DatabaseAdminModel;
+
+/**
+ * Stable admin id for the environment-configured admin account (see adminLogin)
+ */
+export const getEnvironmentAdminId = (username: string): string =>
+  'admin-' + Buffer.from(username).toString('base64').slice(0, 8);
+
+/**
+ * Id and display name of the environment-configured admin account
+ */
+export const getEnvironmentAdminProfile = (): { id: string; username: string } => ({
+  id: getEnvironmentAdminId(getAdminUsername()),
+  username: getAdminUsername()
+});
+
+/**
+ * The environment-configured admin has no database record. Its tokens resolve to an
+ * in-memory super admin so permission-gated routes work without seeding the admins collection.
+ */
+const buildEnvironmentAdmin = (username: string): IAdmin => ({
+  _id: getEnvironmentAdminId(username),
+  email: username,
+  name: username,
+  role: 'super_admin',
+  is_active: true,
+  isLocked: false,
+  permissions: {
+    can_view_reports: true,
+    can_resolve_reports: true,
+    can_escalate_reports: true,
+    can_manage_admins: true,
+    can_export_data: true,
+    can_configure_system: true,
+    can_view_pii: true
+  },
+  hasPermission: () => true
+});
 
 export interface EncryptedData {
   encryptedData: string;
@@ -242,7 +280,12 @@ export const authenticateAdmin = async (req: AuthRequest, res: Response, next: N
     const decoded = jwt.verify(token, getJWTSecret()) as AuthTokenPayload;
     
     // Fetch admin from database to ensure they're still active
-    const admin = await AdminModel.findById(decoded.adminId).select('+permissions');
+    let admin: any = null;
+    if (decoded.username === getAdminUsername() && decoded.adminId === getEnvironmentAdminId(decoded.username)) {
+      admin = buildEnvironmentAdmin(decoded.username);
+    } else if (mongoose.Types.ObjectId.isValid(decoded.adminId)) {
+      admin = await AdminModel.findById(decoded.adminId).select('+permissions');
+    }
     
     if (!admin || !admin.is_active) {
       return res.status(403).json({ 
@@ -1,5 +1,6 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { NotificationPreferences } from '../../shared/api';
 
 /**
  * Enhanced Admin Interface for Whistle
@@ -17,12 +18,14 @@ export interface IAdmin extends Document {
     can_manage_admins: boolean;
     can_export_data: boolean;
     can_configure_system: boolean;
+    can_view_pii: boolean; // Reveal unredacted report messages
   };
   last_login: Date;
   login_attempts: number;
   locked_until: Date;
   is_active: boolean;
   isLocked: boolean; // Add the missing property
+  notification_preferences?: NotificationPreferences;
   created_by: mongoose.Types.ObjectId;
   created_at: Date;
   updated_at: Date;
@@ -95,6 +98,10 @@ const adminSchema = new Schema<IAdmin>({
     can_configure_system: {
       type: Boolean,
       default: false
+    },
+    can_view_pii: {
+      type: Boolean,
+      default: false
     }
   },
 
@@ -120,6 +127,44 @@ const adminSchema = new Schema<IAdmin>({
   created_by: {
     type: Schema.Types.ObjectId,
     ref: 'Admin'
+  },
+
+  // Which report alerts this admin receives (see server/utils/notification-routing.ts)
+  notification_preferences: {
+    channels: {
+      type: [{ type: String, enum: ['email', 'sms'] }],
+      default: ['email']
+    },
+    min_priority: {
+      type: String,
+      enum: ['low', 'medium', 'high', 'urgent'],
+      default: 'medium'
+    },
+    report_types: [{
+      type: String,
+      enum: ['harassment', 'medical', 'emergency', 'safety', 'feedback']
+    }],
+    quiet_hours: {
+      enabled: { type: Boolean, default: false },
+      start: { type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/, default: '22:00' },
+      end: { type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/, default: '07:00' },
+      timezone: { type: String, default: 'UTC' },
+      urgent_override: { type: Boolean, default: true }
+    },
+    email: {
+      type: String,
+      lowercase: true,
+      trim: true
+    },
+    phone: {
+      type: String,
+      trim: true,
+      match: [/^\+[1-9]\d{6,14}$/, 'Phone number must be in international format (+1234567890)']
+    },
+    locale: {
+      type: String,
+      enum: ['en', 'es']
+    }
   }
 
 }, {
@@ -173,7 +218,8 @@ adminSchema.pre('save', function(next) {
           can_escalate_reports: true,
           can_manage_admins: true,
           can_export_data: true,
-          can_configure_system: true
+          can_configure_system: true,
+          can_view_pii: true
         };
         break;
       case 'admin':
@@ -183,7 +229,8 @@ adminSchema.pre('save', function(next) {
           can_escalate_reports: true,
           can_manage_admins: false,
           can_export_data: true,
-          can_configure_system: false
+          can_configure_system: false,
+          can_view_pii: true
         };
         break;
       case 'moderator':
@@ -193,7 +240,8 @@ adminSchema.pre('save', function(next) {
           can_escalate_reports: false,
           can_manage_admins: false,
           can_export_data: false,
-          can_configure_system: false
+          can_configure_system: false,
+          can_view_pii: false
         };
         break;
     }
@@ -3,7 +3,7 @@ import { createServer } from "./index";
 import * as express from "express";
 import connectDB from "../shared/db";
 import dotenv from "dotenv";
-import { initializeEscalationMonitoring } from "./utils/escalation";
+import { initializeBackgroundJobs } from "./utils/background-jobs";
 
 dotenv.config();
 
@@ -38,9 +38,9 @@ async function startServer() {
     initializeSocketIO(server);
     console.log("✅ Real-time notifications initialized");
     
-    // Initialize automated escalation monitoring
-    initializeEscalationMonitoring();
-    console.log("✅ Escalation monitoring initialized");
+    // Initialize the job queue (escalations, notification retries, media cleanup)
+    initializeBackgroundJobs();
+    console.log("✅ Background jobs initialized");
     
     console.log("🎯 All enhanced features activated!");
   });
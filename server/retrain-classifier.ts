@@ -0,0 +1,48 @@
+/**
+ * Classifier Retraining Script
+ *
+ * Rebuilds the feedback dataset from admin corrections, retrains the local
+ * naive Bayes model and prints precision/recall per provider.
+ * Run with: npm run retrain:classifier
+ */
+import dotenv from 'dotenv';
+import connectDB, { disconnectDB } from '../shared/db.js';
+import { buildFeedbackDataset, evaluateFeedback, retrainClassifier } from './utils/classifier-feedback.js';
+
+dotenv.config();
+
+async function retrain() {
+  try {
+    await connectDB();
+
+    const examples = await buildFeedbackDataset();
+    console.log(`📚 ${examples.length} labeled examples from admin feedback\n`);
+
+    console.log('📊 Providers against admin feedback:');
+    for (const [provider, evaluation] of Object.entries(evaluateFeedback(examples))) {
+      console.log(`\n${provider} (${evaluation.examples} examples, accuracy ${evaluation.accuracy ?? 'n/a'})`);
+      console.table({ ...evaluation.labels, '(flagged)': evaluation.flagged });
+    }
+
+    const summary = await retrainClassifier();
+    if (!summary) {
+      console.log('\n⏭️ Not enough data to retrain yet');
+    } else {
+      console.log(`\n✅ Model retrained on ${summary.samples} samples`);
+      if (summary.holdout) {
+        console.log('📊 Retrained model on held-out feedback:');
+        console.table({ ...summary.holdout.labels, '(flagged)': summary.holdout.flagged });
+      }
+      if (summary.mutedTerms.length) {
+        console.log(`🔇 Muted keywords: ${summary.mutedTerms.join(', ')}`);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Classifier retraining failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await disconnectDB();
+  }
+}
+
+retrain();
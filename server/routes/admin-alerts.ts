@@ -0,0 +1,69 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import { authenticateAdmin, requirePermission, AuthRequest } from '../middleware/authMiddleware.js';
+import { getHistoryActor } from '../utils/report-history.js';
+import { acknowledgeAlert, listAlerts, toAlertSummary } from '../utils/alerts.js';
+
+const router = express.Router();
+
+/**
+ * Alert Routes
+ * List urgent/emergency alerts and acknowledge them from the dashboard.
+ * Alerts can also be acknowledged by SMS (see routes/sms-webhook.ts).
+ */
+
+/**
+ * List alerts, newest first
+ * GET /api/admin/alerts?status=active|all&limit=50
+ */
+router.get('/alerts',
+  authenticateAdmin,
+  requirePermission('can_view_reports'),
+  async (req, res) => {
+    try {
+      const alerts = await listAlerts({
+        active: req.query.status !== 'all',
+        limit: parseInt(req.query.limit as string) || undefined
+      });
+      res.json({ success: true, data: alerts });
+    } catch (error) {
+      console.error('❌ Error fetching alerts:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch alerts' });
+    }
+  }
+);
+
+/**
+ * Acknowledge an alert (stops the secondary on-call page)
+ * POST /api/admin/alerts/:id/acknowledge
+ */
+router.post('/alerts/:id/acknowledge',
+  authenticateAdmin,
+  requirePermission('can_view_reports'),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+        return res.status(404).json({ success: false, error: 'Alert not found' });
+      }
+
+      const result = await acknowledgeAlert(req.params.id, getHistoryActor(req).admin_user, 'dashboard');
+      if (!result) {
+        return res.status(404).json({ success: false, error: 'Alert not found' });
+      }
+      if (!result.acknowledged) {
+        return res.status(409).json({
+          success: false,
+          error: `Alert was already acknowledged by ${result.alert.acknowledged_by}`,
+          data: toAlertSummary(result.alert)
+        });
+      }
+
+      res.json({ success: true, data: toAlertSummary(result.alert), message: 'Alert acknowledged' });
+    } catch (error) {
+      console.error('❌ Error acknowledging alert:', error);
+      res.status(500).json({ success: false, error: 'Failed to acknowledge alert' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,84 @@
+import express from 'express';
+import JobModel from '../../shared/models/Job.js';
+import { authenticateAdmin, requirePermission, AuthRequest } from '../middleware/authMiddleware.js';
+import { getHistoryActor } from '../utils/report-history.js';
+import { enqueueJob } from '../utils/job-queue.js';
+import {
+  CLASSIFIER_TRAIN_JOB,
+  buildFeedbackDataset,
+  evaluateFeedback,
+  getClassifierTrainingSummary,
+} from '../utils/classifier-feedback.js';
+
+const router = express.Router();
+
+/**
+ * Classifier Evaluation Routes
+ * Precision/recall of each classifier provider against admin corrections,
+ * and on-demand retraining of the local model.
+ */
+
+/**
+ * Per-provider precision/recall against admin feedback
+ * GET /api/admin/classifier/metrics?days=90
+ */
+router.get('/classifier/metrics',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string);
+      const since = days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined;
+
+      const [examples, training] = await Promise.all([
+        buildFeedbackDataset(since),
+        getClassifierTrainingSummary()
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          examples: examples.length,
+          since: since || null,
+          providers: evaluateFeedback(examples),
+          training
+        }
+      });
+    } catch (error) {
+      console.error('❌ Error computing classifier metrics:', error);
+      res.status(500).json({ success: false, error: 'Failed to compute classifier metrics' });
+    }
+  }
+);
+
+/**
+ * Queue a retraining run on resolved reports and admin feedback
+ * POST /api/admin/classifier/retrain
+ */
+router.post('/classifier/retrain',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      // One run at a time - retraining reads every resolved report
+      const queued = await JobModel.exists({ name: CLASSIFIER_TRAIN_JOB, status: { $in: ['pending', 'running'] } });
+      if (queued) {
+        return res.status(409).json({ success: false, error: 'A retraining run is already queued' });
+      }
+
+      const job = await enqueueJob(CLASSIFIER_TRAIN_JOB);
+
+      console.log(`🧠 Classifier retraining queued by ${getHistoryActor(req).admin_user}`);
+      res.status(202).json({
+        success: true,
+        data: { jobId: job?._id },
+        message: 'Retraining queued'
+      });
+    } catch (error) {
+      console.error('❌ Error queueing classifier retraining:', error);
+      res.status(500).json({ success: false, error: 'Failed to queue retraining' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,54 @@
+import express from 'express';
+import { authenticateAdmin, requirePermission } from '../middleware/authMiddleware.js';
+import { getProviderHealth, listDeliveryLog, refreshProviderHealth } from '../utils/delivery.js';
+import { DeliveryStatus, NotificationChannel } from '../../shared/api.js';
+
+const router = express.Router();
+
+/**
+ * Delivery Routes
+ * SMS/email provider health (failover order) and the delivery log of every send attempt.
+ */
+
+const CHANNELS: NotificationChannel[] = ['sms', 'email'];
+const STATUSES: DeliveryStatus[] = ['sent', 'failed'];
+
+/**
+ * Health of every SMS and email provider, in failover order
+ * GET /api/admin/delivery/providers
+ */
+router.get('/delivery/providers',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req, res) => {
+    // Include what the other server instances have seen
+    await refreshProviderHealth(true);
+    res.json({ success: true, data: getProviderHealth() });
+  }
+);
+
+/**
+ * Delivery log, newest first
+ * GET /api/admin/delivery/log?channel=sms&status=failed&limit=50
+ */
+router.get('/delivery/log',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req, res) => {
+    try {
+      const channel = req.query.channel as NotificationChannel;
+      const status = req.query.status as DeliveryStatus;
+      const entries = await listDeliveryLog({
+        channel: CHANNELS.includes(channel) ? channel : undefined,
+        status: STATUSES.includes(status) ? status : undefined,
+        limit: parseInt(req.query.limit as string) || undefined
+      });
+      res.json({ success: true, data: entries });
+    } catch (error) {
+      console.error('❌ Error fetching delivery log:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch delivery log' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,122 @@
+import express from 'express';
+import ReportModel from '../../shared/models/report.js';
+import { authenticateAdmin, requirePermission, AuthRequest } from '../middleware/authMiddleware.js';
+import { getHistoryActor } from '../utils/report-history.js';
+import {
+  appendEvidenceLog,
+  buildEvidenceCertificate,
+  EvidenceKeyError,
+  getEvidenceLog,
+  verifyReportIntegrity
+} from '../utils/evidence-log.js';
+
+const router = express.Router();
+
+/**
+ * Evidence Integrity Routes
+ * Custody log, integrity verification and signed evidence certificates for a report.
+ * Verifications and certificate downloads are themselves recorded in the custody log.
+ */
+
+// Helper to load a report (ObjectId or shortId) with the encrypted message needed for hashing
+const findReportForVerification = (id: string) =>
+  ReportModel.findOne(/^[0-9a-fA-F]{24}$/.test(id) ? { _id: id } : { shortId: id.toUpperCase() })
+    .select('+message_encrypted +message_iv +message_salt +encrypted_message +encryption_iv +encryption_auth_tag');
+
+// Without EVIDENCE_SIGNING_KEY the log can't be checked and certificates can't be signed
+const respondKeyMissing = (res: express.Response) =>
+  res.status(503).json({ success: false, error: 'Evidence signing is not configured (EVIDENCE_SIGNING_KEY)' });
+
+/**
+ * Get a report's custody log
+ * GET /api/admin/reports/:id/evidence-log
+ */
+router.get('/reports/:id/evidence-log',
+  authenticateAdmin,
+  requirePermission('can_view_reports'),
+  async (req, res) => {
+    try {
+      const report = await findReportForVerification(req.params.id);
+      if (!report) return res.status(404).json({ success: false, error: 'Report not found' });
+
+      const entries = await getEvidenceLog(report._id);
+      res.json({
+        success: true,
+        data: entries.map(({ seq, action, actor, details, at, prev_hash, hash }) => ({ seq, action, actor, details, at, prev_hash, hash }))
+      });
+    } catch (error) {
+      console.error('❌ Error fetching evidence log:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch evidence log' });
+    }
+  }
+);
+
+/**
+ * Recompute the report's hashes and check its custody log
+ * GET /api/admin/reports/:id/integrity
+ */
+router.get('/reports/:id/integrity',
+  authenticateAdmin,
+  requirePermission('can_view_reports'),
+  async (req: AuthRequest, res) => {
+    try {
+      const report = await findReportForVerification(req.params.id);
+      if (!report) return res.status(404).json({ success: false, error: 'Report not found' });
+
+      const verification = await verifyReportIntegrity(report);
+      const actor = getHistoryActor(req);
+      await appendEvidenceLog(report, 'verify', actor, {
+        verified: verification.verified,
+        chain_head: verification.chain.head
+      });
+
+      console.log(`🔏 Integrity of ${report.shortId} verified by ${actor.admin_user}: ${verification.verified ? 'intact' : 'FAILED'}`);
+
+      res.json({
+        success: true,
+        data: verification,
+        message: verification.verified ? 'Evidence is intact' : 'Evidence integrity check failed'
+      });
+    } catch (error) {
+      if (error instanceof EvidenceKeyError) return respondKeyMissing(res);
+      console.error('❌ Error verifying evidence integrity:', error);
+      res.status(500).json({ success: false, error: 'Failed to verify evidence integrity' });
+    }
+  }
+);
+
+/**
+ * Download a signed evidence certificate
+ * GET /api/admin/reports/:id/evidence-certificate
+ */
+router.get('/reports/:id/evidence-certificate',
+  authenticateAdmin,
+  requirePermission('can_export_data'),
+  async (req: AuthRequest, res) => {
+    try {
+      const report = await findReportForVerification(req.params.id);
+      if (!report) return res.status(404).json({ success: false, error: 'Report not found' });
+
+      const verification = await verifyReportIntegrity(report);
+      const actor = getHistoryActor(req);
+      const certificate = buildEvidenceCertificate(report, verification, actor);
+      await appendEvidenceLog(report, 'certificate', actor, {
+        verified: verification.verified,
+        chain_head: verification.chain.head,
+        signature: certificate.signature.value
+      });
+
+      console.log(`📜 Evidence certificate for ${report.shortId} issued to ${actor.admin_user}`);
+
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Content-Disposition', `attachment; filename="evidence-certificate-${report.shortId}.json"`);
+      res.send(JSON.stringify(certificate, null, 2));
+    } catch (error) {
+      if (error instanceof EvidenceKeyError) return respondKeyMissing(res);
+      console.error('❌ Error issuing evidence certificate:', error);
+      res.status(500).json({ success: false, error: 'Failed to issue evidence certificate' });
+    }
+  }
+);
+
+export default router;
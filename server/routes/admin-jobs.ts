@@ -0,0 +1,126 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import JobModel from '../../shared/models/Job.js';
+import { authenticateAdmin, requirePermission, AuthRequest } from '../middleware/authMiddleware.js';
+import { getHistoryActor } from '../utils/report-history.js';
+import { getJobQueueStats, retryJob } from '../utils/job-queue.js';
+
+const router = express.Router();
+
+/**
+ * Background Job Routes
+ * Inspect the durable job queue and re-run dead-lettered jobs.
+ */
+
+const JOB_STATUSES = ['pending', 'running', 'completed', 'dead'];
+
+/**
+ * List jobs with queue statistics
+ * GET /api/admin/jobs?status=dead&name=notification:email&page=1&limit=20
+ */
+router.get('/jobs',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req, res) => {
+    try {
+      const { status, name } = req.query;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+      const filter: any = {};
+      if (status && JOB_STATUSES.includes(status as string)) filter.status = status;
+      if (name) filter.name = name;
+
+      const [jobs, total, stats] = await Promise.all([
+        JobModel.find(filter)
+          .select('-payload -result')
+          .sort({ updatedAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean(),
+        JobModel.countDocuments(filter),
+        getJobQueueStats()
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          jobs,
+          stats,
+          pagination: {
+            page,
+            limit,
+            total,
+            pages: Math.ceil(total / limit)
+          }
+        }
+      });
+    } catch (error) {
+      console.error('❌ Error listing jobs:', error);
+      res.status(500).json({ success: false, error: 'Failed to list jobs' });
+    }
+  }
+);
+
+/**
+ * Get a single job including payload, result and attempt errors
+ * GET /api/admin/jobs/:id
+ */
+router.get('/jobs/:id',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req, res) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+        return res.status(404).json({ success: false, error: 'Job not found' });
+      }
+
+      const job = await JobModel.findById(req.params.id).lean();
+      if (!job) {
+        return res.status(404).json({ success: false, error: 'Job not found' });
+      }
+
+      res.json({ success: true, data: job });
+    } catch (error) {
+      console.error('❌ Error fetching job:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch job' });
+    }
+  }
+);
+
+/**
+ * Re-run a dead-lettered job with a fresh set of attempts
+ * POST /api/admin/jobs/:id/retry
+ */
+router.post('/jobs/:id/retry',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+        return res.status(404).json({ success: false, error: 'Job not found' });
+      }
+
+      const job = await retryJob(req.params.id);
+      if (!job) {
+        const exists = await JobModel.exists({ _id: req.params.id });
+        return exists
+          ? res.status(409).json({ success: false, error: 'Only dead-lettered jobs can be re-run' })
+          : res.status(404).json({ success: false, error: 'Job not found' });
+      }
+
+      console.log(`🔁 Job ${job.name} (${job._id}) re-queued by ${getHistoryActor(req).admin_user}`);
+
+      res.json({
+        success: true,
+        data: job,
+        message: 'Job re-queued'
+      });
+    } catch (error) {
+      console.error('❌ Error re-running job:', error);
+      res.status(500).json({ success: false, error: 'Failed to re-run job' });
+    }
+  }
+);
+
+export default router;
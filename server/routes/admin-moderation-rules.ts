@@ -0,0 +1,238 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import ModerationRuleModel from '../../shared/models/ModerationRule.js';
+import { authenticateAdmin, requirePermission, AuthRequest } from '../middleware/authMiddleware.js';
+import { getHistoryActor } from '../utils/report-history.js';
+import {
+  compileModerationRules,
+  evaluateModerationRules,
+  reloadModerationRules,
+  seedDefaultModerationRules
+} from '../utils/moderation-rules.js';
+
+const router = express.Router();
+
+/**
+ * Moderation Rule Routes
+ * Manage the term lists, weights, labels and actions used for moderation and keyword
+ * classification. Every change reloads the rules, so edits apply without a restart.
+ */
+
+// Fields admins are allowed to set on a rule
+const EDITABLE_FIELDS = [
+  'name',
+  'description',
+  'terms',
+  'severity',
+  'labels',
+  'weight',
+  'actions',
+  'is_active'
+];
+
+const MAX_TEST_TEXT_LENGTH = 5000;
+
+const pickRuleFields = (body: any) => {
+  const data: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) data[field] = body[field];
+  }
+  return data;
+};
+
+// Map mongoose validation / duplicate key errors to 400/409 responses
+const handleRuleError = (error: any, res: express.Response, action: string) => {
+  if (error?.code === 11000) {
+    return res.status(409).json({
+      success: false,
+      error: 'A moderation rule with this name already exists'
+    });
+  }
+  if (error instanceof mongoose.Error.ValidationError || error instanceof mongoose.Error.CastError) {
+    return res.status(400).json({
+      success: false,
+      error: error instanceof mongoose.Error.ValidationError
+        ? Object.values(error.errors).map((e) => e.message).join(', ')
+        : error.message
+    });
+  }
+
+  console.error(`❌ Failed to ${action} moderation rule:`, error);
+  return res.status(500).json({
+    success: false,
+    error: `Failed to ${action} moderation rule`
+  });
+};
+
+// A failed reload must not fail the write - other instances pick the change up on their next sync
+const reloadQuietly = async () => {
+  try {
+    await reloadModerationRules();
+  } catch (error) {
+    console.warn('⚠️ Failed to reload moderation rules:', error);
+  }
+};
+
+/**
+ * List moderation rules (seeding the defaults on first use)
+ * GET /api/admin/moderation-rules
+ */
+router.get('/moderation-rules',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req, res) => {
+    try {
+      await seedDefaultModerationRules();
+      const rules = await ModerationRuleModel.find().sort({ name: 1 }).lean();
+
+      res.json({
+        success: true,
+        data: rules
+      });
+    } catch (error) {
+      handleRuleError(error, res, 'list');
+    }
+  }
+);
+
+/**
+ * Test sample text against a draft rule, or against every active rule
+ * POST /api/admin/moderation-rules/test
+ * Body: { text: string, rule?: { name, terms, severity, labels, weight, actions } }
+ */
+router.post('/moderation-rules/test',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req, res) => {
+    try {
+      const { text, rule } = req.body || {};
+      if (typeof text !== 'string' || !text.trim()) {
+        return res.status(400).json({ success: false, error: 'Sample text is required' });
+      }
+      if (text.length > MAX_TEST_TEXT_LENGTH) {
+        return res.status(400).json({
+          success: false,
+          error: `Sample text must be at most ${MAX_TEST_TEXT_LENGTH} characters`
+        });
+      }
+
+      let evaluation;
+      if (rule) {
+        // Validate the draft with the model so the test sees exactly what would be saved
+        const draft = new ModerationRuleModel({ name: 'Draft rule', ...pickRuleFields(rule), is_active: true });
+        await draft.validate();
+        const { name, terms, severity, labels, weight, actions } = draft.toObject();
+        evaluation = compileModerationRules([{ name, terms, severity, labels, weight, actions }])(text);
+      } else {
+        evaluation = await evaluateModerationRules(text);
+      }
+
+      res.json({
+        success: true,
+        data: evaluation
+      });
+    } catch (error) {
+      handleRuleError(error, res, 'test');
+    }
+  }
+);
+
+/**
+ * Create a moderation rule
+ * POST /api/admin/moderation-rules
+ */
+router.post('/moderation-rules',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      const actor = getHistoryActor(req);
+      const rule = await ModerationRuleModel.create({
+        ...pickRuleFields(req.body),
+        created_by: actor.admin_user,
+        updated_by: actor.admin_user
+      });
+      await reloadQuietly();
+
+      console.log(`🛡️ Moderation rule "${rule.name}" created by ${actor.admin_user}`);
+
+      res.status(201).json({
+        success: true,
+        data: rule,
+        message: 'Moderation rule created'
+      });
+    } catch (error) {
+      handleRuleError(error, res, 'create');
+    }
+  }
+);
+
+/**
+ * Update a moderation rule
+ * PUT /api/admin/moderation-rules/:id
+ */
+router.put('/moderation-rules/:id',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+        return res.status(404).json({ success: false, error: 'Moderation rule not found' });
+      }
+
+      // Load and save (rather than findByIdAndUpdate) so the term validation runs
+      const rule = await ModerationRuleModel.findById(req.params.id);
+      if (!rule) {
+        return res.status(404).json({ success: false, error: 'Moderation rule not found' });
+      }
+
+      const actor = getHistoryActor(req);
+      rule.set({ ...pickRuleFields(req.body), updated_by: actor.admin_user });
+      await rule.save();
+      await reloadQuietly();
+
+      console.log(`🛡️ Moderation rule "${rule.name}" updated by ${actor.admin_user}`);
+
+      res.json({
+        success: true,
+        data: rule,
+        message: 'Moderation rule updated'
+      });
+    } catch (error) {
+      handleRuleError(error, res, 'update');
+    }
+  }
+);
+
+/**
+ * Delete a moderation rule
+ * DELETE /api/admin/moderation-rules/:id
+ */
+router.delete('/moderation-rules/:id',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+        return res.status(404).json({ success: false, error: 'Moderation rule not found' });
+      }
+
+      const rule = await ModerationRuleModel.findByIdAndDelete(req.params.id);
+      if (!rule) {
+        return res.status(404).json({ success: false, error: 'Moderation rule not found' });
+      }
+      await reloadQuietly();
+
+      console.log(`🗑️ Moderation rule "${rule.name}" deleted by ${getHistoryActor(req).admin_user}`);
+
+      res.json({
+        success: true,
+        message: 'Moderation rule deleted'
+      });
+    } catch (error) {
+      handleRuleError(error, res, 'delete');
+    }
+  }
+);
+
+export default router;
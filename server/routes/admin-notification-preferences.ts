@@ -0,0 +1,63 @@
+import express from 'express';
+import { authenticateAdmin, requirePermission, AuthRequest } from '../middleware/authMiddleware.js';
+import { getHistoryActor } from '../utils/report-history.js';
+import {
+  getNotificationPreferences,
+  saveNotificationPreferences,
+  validateNotificationPreferences
+} from '../utils/notification-routing.js';
+
+const router = express.Router();
+
+/**
+ * Notification Preference Routes
+ * Each admin chooses which report alerts reach them: channels, minimum priority,
+ * report types and quiet hours.
+ */
+
+/**
+ * Get the current admin's notification preferences
+ * GET /api/admin/notification-preferences
+ */
+router.get('/notification-preferences',
+  authenticateAdmin,
+  requirePermission('can_view_reports'),
+  async (req: AuthRequest, res) => {
+    try {
+      const { admin_id } = getHistoryActor(req);
+      res.json({ success: true, data: await getNotificationPreferences(admin_id) });
+    } catch (error) {
+      console.error('❌ Error fetching notification preferences:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch notification preferences' });
+    }
+  }
+);
+
+/**
+ * Update the current admin's notification preferences
+ * PUT /api/admin/notification-preferences
+ */
+router.put('/notification-preferences',
+  authenticateAdmin,
+  requirePermission('can_view_reports'),
+  async (req: AuthRequest, res) => {
+    try {
+      const actor = getHistoryActor(req);
+      const current = await getNotificationPreferences(actor.admin_id);
+      const { preferences, errors } = validateNotificationPreferences(req.body || {}, current);
+      if (errors.length > 0) {
+        return res.status(400).json({ success: false, error: errors.join(', ') });
+      }
+
+      await saveNotificationPreferences(actor.admin_id, preferences);
+      console.log(`🔔 Notification preferences updated by ${actor.admin_user}: ${preferences.channels.join('+') || 'no channels'}, ${preferences.min_priority}+`);
+
+      res.json({ success: true, data: preferences, message: 'Notification preferences saved' });
+    } catch (error) {
+      console.error('❌ Error saving notification preferences:', error);
+      res.status(500).json({ success: false, error: 'Failed to save notification preferences' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,67 @@
+import express from 'express';
+import { authenticateAdmin, requirePermission } from '../middleware/authMiddleware.js';
+import {
+  getDefaultLocale,
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_LOCALES,
+  NotificationEvent,
+  renderNotification,
+  SAMPLE_TEMPLATE_VARIABLES
+} from '../utils/notification-templates.js';
+import { NotificationLocale } from '../../shared/api.js';
+
+const router = express.Router();
+
+/**
+ * Notification Template Routes
+ * Lists the templated notification events and previews how each one renders,
+ * per locale, against a sample report.
+ */
+
+/**
+ * List notification events and supported locales
+ * GET /api/admin/notification-templates
+ */
+router.get('/notification-templates',
+  authenticateAdmin,
+  requirePermission('can_view_reports'),
+  (req, res) => {
+    res.json({
+      success: true,
+      data: {
+        events: NOTIFICATION_EVENTS,
+        locales: NOTIFICATION_LOCALES,
+        default_locale: getDefaultLocale()
+      }
+    });
+  }
+);
+
+/**
+ * Render an event's email (subject, HTML, plain text) and SMS against a sample report
+ * GET /api/admin/notification-templates/:event/preview?locale=es
+ */
+router.get('/notification-templates/:event/preview',
+  authenticateAdmin,
+  requirePermission('can_view_reports'),
+  (req, res) => {
+    const event = req.params.event as NotificationEvent;
+    const locale = req.query.locale as NotificationLocale | undefined;
+
+    if (!NOTIFICATION_EVENTS.includes(event)) {
+      return res.status(400).json({ success: false, error: `Unknown notification event. Use one of: ${NOTIFICATION_EVENTS.join(', ')}` });
+    }
+    if (locale !== undefined && !NOTIFICATION_LOCALES.includes(locale)) {
+      return res.status(400).json({ success: false, error: `Unsupported locale. Use one of: ${NOTIFICATION_LOCALES.join(', ')}` });
+    }
+
+    try {
+      res.json({ success: true, data: renderNotification(event, SAMPLE_TEMPLATE_VARIABLES, locale) });
+    } catch (error) {
+      console.error('❌ Error rendering notification preview:', error);
+      res.status(500).json({ success: false, error: 'Failed to render notification preview' });
+    }
+  }
+);
+
+export default router;
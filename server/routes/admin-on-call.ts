@@ -0,0 +1,292 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import OnCallScheduleModel from '../../shared/models/OnCallSchedule.js';
+import { authenticateAdmin, requirePermission, AuthRequest } from '../middleware/authMiddleware.js';
+import { getHistoryActor } from '../utils/report-history.js';
+import { getCurrentOnCall, resolveOnCall, resolveParticipants } from '../utils/on-call.js';
+
+const router = express.Router();
+
+/**
+ * On-Call Schedule Routes
+ * Manage rotations, handoff times and overrides for urgent alert paging.
+ * Schedules are read whenever an alert is paged, so changes apply immediately.
+ */
+
+// Fields admins are allowed to set on a schedule (participants are resolved separately)
+const EDITABLE_FIELDS = [
+  'name',
+  'timezone',
+  'handoff_time',
+  'shift_days',
+  'rotation_start',
+  'ack_timeout_minutes',
+  'is_active'
+];
+
+const pickScheduleFields = (body: any) => {
+  const data: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) data[field] = body[field];
+  }
+  return data;
+};
+
+// Map mongoose validation errors to 400 responses
+const handleScheduleError = (error: any, res: express.Response, action: string) => {
+  if (error instanceof mongoose.Error.ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: Object.values(error.errors).map((e) => e.message).join(', ')
+    });
+  }
+
+  console.error(`❌ Failed to ${action} on-call schedule:`, error);
+  return res.status(500).json({
+    success: false,
+    error: `Failed to ${action} on-call schedule`
+  });
+};
+
+// Participants are sent as an ordered list of admin ids
+const participantsFromBody = async (body: any, res: express.Response) => {
+  if (body.participants === undefined) return undefined;
+  if (!Array.isArray(body.participants)) {
+    res.status(400).json({ success: false, error: 'participants must be a list of admin ids' });
+    return null;
+  }
+  const { participants, unknown } = await resolveParticipants(body.participants);
+  if (unknown.length > 0) {
+    res.status(400).json({ success: false, error: `Unknown or inactive admins: ${unknown.join(', ')}` });
+    return null;
+  }
+  return participants;
+};
+
+/**
+ * Who is on call right now, per active schedule
+ * GET /api/admin/on-call
+ */
+router.get('/on-call',
+  authenticateAdmin,
+  requirePermission('can_view_reports'),
+  async (req, res) => {
+    try {
+      res.json({ success: true, data: await getCurrentOnCall() });
+    } catch (error) {
+      console.error('❌ Error fetching on-call state:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch on-call state' });
+    }
+  }
+);
+
+/**
+ * List on-call schedules with who is currently on call
+ * GET /api/admin/on-call/schedules
+ */
+router.get('/on-call/schedules',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req, res) => {
+    try {
+      const schedules = await OnCallScheduleModel.find().sort({ name: 1 }).lean();
+
+      res.json({
+        success: true,
+        data: schedules.map((schedule) => ({ ...schedule, current: resolveOnCall(schedule) }))
+      });
+    } catch (error) {
+      handleScheduleError(error, res, 'list');
+    }
+  }
+);
+
+/**
+ * Create an on-call schedule
+ * POST /api/admin/on-call/schedules
+ */
+router.post('/on-call/schedules',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      const participants = await participantsFromBody(req.body, res);
+      if (participants === null) return;
+
+      const actor = getHistoryActor(req);
+      const schedule = await OnCallScheduleModel.create({
+        ...pickScheduleFields(req.body),
+        participants: participants || [],
+        created_by: actor.admin_user,
+        updated_by: actor.admin_user
+      });
+
+      console.log(`📟 On-call schedule "${schedule.name}" created by ${actor.admin_user} (${schedule.participants.length} participants)`);
+
+      res.status(201).json({
+        success: true,
+        data: schedule,
+        message: 'On-call schedule created'
+      });
+    } catch (error) {
+      handleScheduleError(error, res, 'create');
+    }
+  }
+);
+
+/**
+ * Update an on-call schedule
+ * PUT /api/admin/on-call/schedules/:id
+ */
+router.put('/on-call/schedules/:id',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+        return res.status(404).json({ success: false, error: 'On-call schedule not found' });
+      }
+
+      const participants = await participantsFromBody(req.body, res);
+      if (participants === null) return;
+
+      const actor = getHistoryActor(req);
+      const update = { ...pickScheduleFields(req.body), updated_by: actor.admin_user };
+      const schedule = await OnCallScheduleModel.findByIdAndUpdate(
+        req.params.id,
+        { $set: participants ? { ...update, participants } : update },
+        { new: true, runValidators: true }
+      );
+
+      if (!schedule) {
+        return res.status(404).json({ success: false, error: 'On-call schedule not found' });
+      }
+
+      console.log(`📟 On-call schedule "${schedule.name}" updated by ${actor.admin_user}`);
+
+      res.json({
+        success: true,
+        data: schedule,
+        message: 'On-call schedule updated'
+      });
+    } catch (error) {
+      handleScheduleError(error, res, 'update');
+    }
+  }
+);
+
+/**
+ * Delete an on-call schedule
+ * DELETE /api/admin/on-call/schedules/:id
+ */
+router.delete('/on-call/schedules/:id',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+        return res.status(404).json({ success: false, error: 'On-call schedule not found' });
+      }
+
+      const schedule = await OnCallScheduleModel.findByIdAndDelete(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ success: false, error: 'On-call schedule not found' });
+      }
+
+      console.log(`🗑️ On-call schedule "${schedule.name}" deleted by ${getHistoryActor(req).admin_user}`);
+
+      res.json({
+        success: true,
+        message: 'On-call schedule deleted'
+      });
+    } catch (error) {
+      handleScheduleError(error, res, 'delete');
+    }
+  }
+);
+
+/**
+ * Add an override (someone covers the primary or secondary role for a time window)
+ * POST /api/admin/on-call/schedules/:id/overrides
+ */
+router.post('/on-call/schedules/:id/overrides',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      const schedule = mongoose.Types.ObjectId.isValid(req.params.id)
+        ? await OnCallScheduleModel.findById(req.params.id)
+        : null;
+      if (!schedule) {
+        return res.status(404).json({ success: false, error: 'On-call schedule not found' });
+      }
+
+      const { role = 'primary', admin_id, start_at, end_at, reason } = req.body || {};
+      const { participants, unknown } = await resolveParticipants(admin_id ? [admin_id] : []);
+      if (participants.length === 0) {
+        return res.status(400).json({ success: false, error: unknown.length ? `Unknown or inactive admin: ${admin_id}` : 'admin_id is required' });
+      }
+
+      const actor = getHistoryActor(req);
+      schedule.overrides.push({
+        role,
+        admin_id: participants[0].admin_id,
+        name: participants[0].name,
+        start_at: start_at ? new Date(start_at) : new Date(),
+        end_at: end_at ? new Date(end_at) : undefined,
+        reason,
+        created_by: actor.admin_user
+      } as any);
+      schedule.updated_by = actor.admin_user;
+      await schedule.save();
+
+      console.log(`📟 ${participants[0].name} covers ${role} on "${schedule.name}" (override by ${actor.admin_user})`);
+
+      res.status(201).json({
+        success: true,
+        data: { schedule, current: resolveOnCall(schedule) },
+        message: 'On-call override added'
+      });
+    } catch (error) {
+      handleScheduleError(error, res, 'update');
+    }
+  }
+);
+
+/**
+ * Remove an override
+ * DELETE /api/admin/on-call/schedules/:id/overrides/:overrideId
+ */
+router.delete('/on-call/schedules/:id/overrides/:overrideId',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(req.params.id) || !mongoose.Types.ObjectId.isValid(req.params.overrideId)) {
+        return res.status(404).json({ success: false, error: 'On-call override not found' });
+      }
+
+      const actor = getHistoryActor(req);
+      const schedule = await OnCallScheduleModel.findOneAndUpdate(
+        { _id: req.params.id, 'overrides._id': req.params.overrideId },
+        { $pull: { overrides: { _id: req.params.overrideId } }, $set: { updated_by: actor.admin_user } },
+        { new: true }
+      );
+      if (!schedule) {
+        return res.status(404).json({ success: false, error: 'On-call override not found' });
+      }
+
+      console.log(`🗑️ On-call override removed from "${schedule.name}" by ${actor.admin_user}`);
+
+      res.json({
+        success: true,
+        data: { schedule, current: resolveOnCall(schedule) },
+        message: 'On-call override removed'
+      });
+    } catch (error) {
+      handleScheduleError(error, res, 'update');
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,73 @@
+import express from 'express';
+import { authenticateAdmin, requirePermission, AuthRequest } from '../middleware/authMiddleware.js';
+import { getHistoryActor } from '../utils/report-history.js';
+import {
+  getPrivacyBudgetUsage,
+  getPrivacySettings,
+  savePrivacySettings,
+  validatePrivacySettings,
+} from '../utils/differential-privacy.js';
+
+const router = express.Router();
+
+/**
+ * Differential Privacy Settings Routes
+ * Tune epsilon and the per-period budget for public statistics and aggregate exports.
+ */
+
+/**
+ * Get privacy settings and current budget usage
+ * GET /api/admin/privacy/settings
+ */
+router.get('/privacy/settings',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req, res) => {
+    try {
+      const settings = await getPrivacySettings();
+      const usage = await getPrivacyBudgetUsage(settings);
+
+      res.json({
+        success: true,
+        data: { settings, usage }
+      });
+    } catch (error) {
+      console.error('❌ Error fetching privacy settings:', error);
+      res.status(500).json({ success: false, error: 'Failed to fetch privacy settings' });
+    }
+  }
+);
+
+/**
+ * Update privacy settings
+ * PUT /api/admin/privacy/settings
+ */
+router.put('/privacy/settings',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      const { settings, errors } = validatePrivacySettings(req.body || {}, await getPrivacySettings());
+      if (errors.length > 0) {
+        return res.status(400).json({ success: false, error: errors.join(', ') });
+      }
+
+      const actor = getHistoryActor(req);
+      await savePrivacySettings(settings, actor.admin_user);
+      const usage = await getPrivacyBudgetUsage(settings);
+
+      console.log(`🔒 Privacy settings updated by ${actor.admin_user}: epsilon public=${settings.epsilon_public}, export=${settings.epsilon_export}, budget=${settings.period_budget}/${settings.period}`);
+
+      res.json({
+        success: true,
+        data: { settings, usage },
+        message: 'Privacy settings updated'
+      });
+    } catch (error) {
+      console.error('❌ Error updating privacy settings:', error);
+      res.status(500).json({ success: false, error: 'Failed to update privacy settings' });
+    }
+  }
+);
+
+export default router;
@@ -8,7 +8,11 @@ import {
 import ReportModel from "../../shared/models/report";
 import { DataEncryption } from "../utils/encryption";
 import { AuthRequest } from "../middleware/authMiddleware";
-import { getFile, getDecryptedFile } from "../utils/gridfs";
+import { getFile, getDecryptedFile, getFileInfo, getMediaLocation } from "../utils/gridfs";
+import { getHistoryActor, toAdminHistory } from "../utils/report-history";
+import { logEvidenceEvent } from "../utils/evidence-log";
+import { redactPII, redactText } from "../utils/pii";
+import { ScanVerdict } from "../utils/malware-scanner";
 
 /**
  * ENHANCED ADMIN REPORTS MANAGEMENT WITH COMPREHENSIVE GRIDFS MEDIA SUPPORT
@@ -56,6 +60,86 @@ const mapLocationToAPILocation = (location: any) => {
   };
 };
 
+type MediaCaptureLocation = ReturnType<typeof getMediaLocation>;
+
+// What was stripped on upload, plus the capture location when the reporter shared it
+const getMediaPrivacyFields = (metadata: any) => ({
+  metadataRemoved: metadata?.sanitization?.removed || [],
+  captureLocation: getMediaLocation(metadata)
+});
+
+// Malware scan verdict recorded at upload; quarantined files are never served
+const getMediaScanFields = (metadata: any) => ({
+  scanVerdict: (metadata?.scan?.verdict || 'unscanned') as ScanVerdict,
+  scanSignature: metadata?.scan?.signature as string | undefined,
+  quarantined: !!metadata?.quarantined
+});
+
+type ThumbnailKind = 'photo' | 'video';
+
+const THUMBNAIL_FIELDS: Record<ThumbnailKind, string> = {
+  photo: 'photo_thumbnail_id',
+  video: 'video_thumbnail_id'
+};
+
+const getThumbnailUrl = (report: any, kind: ThumbnailKind): string | undefined =>
+  report[THUMBNAIL_FIELDS[kind]] ? `/api/admin/reports/${report.shortId}/thumbnails/${kind}` : undefined;
+
+/**
+ * LIST-VIEW MEDIA PREVIEWS
+ * Same shape as getComprehensiveMediaFiles, but built from GridFS file info only -
+ * nothing is downloaded or decrypted. Images and videos link to their thumbnail
+ * endpoint; full files load when a report is opened.
+ */
+async function getMediaPreviews(report: any) {
+  const previews = {
+    images: [] as Awaited<ReturnType<typeof getComprehensiveMediaFiles>>['images'],
+    videos: [] as Awaited<ReturnType<typeof getComprehensiveMediaFiles>>['videos'],
+    totalCount: 0,
+    hasMedia: false
+  };
+
+  const sources: Array<{ fileId: string; thumbnail?: ThumbnailKind; displayName: string }> = [];
+  if (report.photo_file_id) sources.push({ fileId: report.photo_file_id.toString(), thumbnail: 'photo', displayName: 'Photo Evidence' });
+  if (report.video_file_id) sources.push({ fileId: report.video_file_id.toString(), thumbnail: 'video', displayName: 'Video Evidence' });
+  [...(report.imageFileIds || []), ...(report.videoFileIds || []), ...(report.additional_media || [])].forEach((id: any, i: number) =>
+    sources.push({ fileId: id.toString(), displayName: `Media ${i + 1}` })
+  );
+
+  for (const source of sources) {
+    try {
+      const fileInfo: any = await getFileInfo(source.fileId);
+      const contentType = fileInfo.metadata?.mimeType || 'application/octet-stream';
+      const scanFields = getMediaScanFields(fileInfo.metadata);
+      const entry = {
+        id: source.fileId,
+        filename: fileInfo.filename,
+        contentType,
+        size: fileInfo.length,
+        base64Data: '',
+        url: scanFields.quarantined ? '' : `/api/files/${source.fileId}`,
+        thumbnailUrl: source.thumbnail && !scanFields.quarantined ? getThumbnailUrl(report, source.thumbnail) : undefined,
+        displayName: source.displayName,
+        uploadDate: fileInfo.metadata?.uploadDate?.toISOString() || fileInfo.uploadDate?.toISOString() || new Date().toISOString(),
+        isEncrypted: fileInfo.metadata?.encrypted || false,
+        ...scanFields
+      };
+
+      if (contentType.startsWith('video/')) {
+        previews.videos.push(entry);
+      } else {
+        previews.images.push(entry);
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not load media info ${source.fileId} for ${report.shortId}:`, error.message);
+    }
+  }
+
+  previews.totalCount = previews.images.length + previews.videos.length;
+  previews.hasMedia = previews.totalCount > 0;
+  return previews;
+}
+
 /**
  * COMPREHENSIVE GRIDFS MEDIA RETRIEVAL FUNCTION
  * 
@@ -78,6 +162,12 @@ async function getComprehensiveMediaFiles(report: any) {
       displayName: string;
       uploadDate: string;
       isEncrypted: boolean;
+      metadataRemoved?: string[];
+      captureLocation?: MediaCaptureLocation | null;
+      thumbnailUrl?: string;
+      scanVerdict?: ScanVerdict;
+      scanSignature?: string;
+      quarantined?: boolean;
     }>,
     videos: [] as Array<{
       id: string;
@@ -90,6 +180,12 @@ async function getComprehensiveMediaFiles(report: any) {
       uploadDate: string;
       duration?: number;
       isEncrypted: boolean;
+      metadataRemoved?: string[];
+      captureLocation?: MediaCaptureLocation | null;
+      thumbnailUrl?: string;
+      scanVerdict?: ScanVerdict;
+      scanSignature?: string;
+      quarantined?: boolean;
     }>,
     totalCount: 0,
     hasMedia: false
@@ -136,7 +232,9 @@ async function getComprehensiveMediaFiles(report: any) {
             url: `/api/files/images/${fileId}`,
             displayName: `Image ${i + 1}`,
             uploadDate: fileInfo.metadata?.uploadDate?.toISOString() || new Date().toISOString(),
-            isEncrypted: metadata?.encrypted || false
+            isEncrypted: metadata?.encrypted || false,
+            ...getMediaPrivacyFields(metadata),
+            ...getMediaScanFields(metadata)
           });
 
           console.log(`✅ Image ${i + 1} processed: ${filename} (${buffer.length} bytes)`);
@@ -191,9 +289,12 @@ async function getComprehensiveMediaFiles(report: any) {
           size: buffer.length,
           base64Data,
           url: `/api/files/${fileId}`,
+          thumbnailUrl: getThumbnailUrl(report, 'photo'),
           displayName: 'Photo Evidence',
           uploadDate: fileInfo.metadata?.uploadDate?.toISOString() || new Date().toISOString(),
-          isEncrypted: metadata?.encrypted || false
+          isEncrypted: metadata?.encrypted || false,
+          ...getMediaPrivacyFields(metadata),
+          ...getMediaScanFields(metadata)
         });
 
         console.log(`✅ Single photo processed: ${filename} (${buffer.length} bytes)`);
@@ -231,7 +332,9 @@ async function getComprehensiveMediaFiles(report: any) {
               url: `/api/files/${fileId}`,
               displayName: `Media Image ${i + 1}`,
               uploadDate: fileInfo.metadata?.uploadDate?.toISOString() || new Date().toISOString(),
-              isEncrypted: metadata?.encrypted || false
+              isEncrypted: metadata?.encrypted || false,
+              ...getMediaPrivacyFields(metadata),
+              ...getMediaScanFields(metadata)
             });
 
             console.log(`✅ Additional media image processed: ${filename} (${buffer.length} bytes)`);
@@ -251,7 +354,9 @@ async function getComprehensiveMediaFiles(report: any) {
               displayName: `Media Video ${i + 1}`,
               uploadDate: fileInfo.metadata?.uploadDate?.toISOString() || new Date().toISOString(),
               duration: metadata?.duration,
-              isEncrypted: metadata?.encrypted || false
+              isEncrypted: metadata?.encrypted || false,
+              ...getMediaPrivacyFields(metadata),
+              ...getMediaScanFields(metadata)
             });
 
             console.log(`✅ Additional media video processed: ${filename} (${buffer.length} bytes)`);
@@ -288,7 +393,9 @@ async function getComprehensiveMediaFiles(report: any) {
             displayName: `Video ${i + 1}`,
             uploadDate: fileInfo.metadata?.uploadDate?.toISOString() || new Date().toISOString(),
             duration: metadata?.duration,
-            isEncrypted: metadata?.encrypted || false
+            isEncrypted: metadata?.encrypted || false,
+            ...getMediaPrivacyFields(metadata),
+            ...getMediaScanFields(metadata)
           });
 
           console.log(`✅ Video ${i + 1} processed: ${filename} (${buffer.length} bytes)`);
@@ -331,10 +438,13 @@ async function getComprehensiveMediaFiles(report: any) {
           size: buffer.length,
           base64Data,
           url: `/api/files/${fileId}`,
+          thumbnailUrl: getThumbnailUrl(report, 'video'),
           displayName: 'Video Evidence',
           uploadDate: fileInfo.metadata?.uploadDate?.toISOString() || new Date().toISOString(),
           duration: metadata?.duration,
-          isEncrypted: metadata?.encrypted || false
+          isEncrypted: metadata?.encrypted || false,
+          ...getMediaPrivacyFields(metadata),
+          ...getMediaScanFields(metadata)
         });
 
         console.log(`✅ Single video processed: ${filename} (${buffer.length} bytes)`);
@@ -380,6 +490,19 @@ export const getAdminReportsWithMedia: RequestHandler = async (req: AuthRequest,
       const internalStatus = mapAPIStatusToInternalStatus(statusFilter as ReportStatus);
       filterQuery.status = internalStatus;
     }
+
+    // Assignment filter: "me" = My cases, "unassigned" = open queue
+    const assignedFilter = req.query.assigned as string;
+    if (assignedFilter === "me") {
+      const adminId = req.admin?.adminId || req.user?.adminId;
+      if (!adminId) {
+        return res.status(401).json({ error: "Unable to determine current admin for My cases filter" });
+      }
+      filterQuery.assigned_to = adminId;
+    } else if (assignedFilter === "unassigned") {
+      filterQuery.assigned_to = null;
+    }
+    console.log("👤 Assignment filter applied:", assignedFilter || "any");
     
     // Get reports with all encrypted fields
     const reports = await ReportModel.find(filterQuery)
@@ -411,15 +534,17 @@ export const getAdminReportsWithMedia: RequestHandler = async (req: AuthRequest,
           decryptedReport = report;
         }
         
-        // Get comprehensive media files from GridFS
-        const mediaFiles = await getComprehensiveMediaFiles(report);
+        // Previews only - full media is fetched when a report is opened
+        const mediaFiles = await getMediaPreviews(report);
 
         // Build enhanced report response
         return {
           id: report.shortId,
           _id: report._id.toString(),
           shortId: report.shortId,
-          message: decryptedReport.message || '[NO MESSAGE]',
+          // PII redacted - admins with can_view_pii reveal the original on demand
+          message: redactText(decryptedReport.message) || '[NO MESSAGE]',
+          pii: report.pii,
           category: (report.category || report.type || 'feedback') as ReportCategory,
           severity: (report.severity || report.priority || 'medium') as ReportSeverity,
           status: mapStatusToAPIStatus(report.status || 'pending'),
@@ -444,7 +569,7 @@ export const getAdminReportsWithMedia: RequestHandler = async (req: AuthRequest,
               size: mediaFiles.images[0].size,
               uploadDate: mediaFiles.images[0].uploadDate,
               url: mediaFiles.images[0].url,
-              base64Data: mediaFiles.images[0].base64Data
+              thumbnailUrl: mediaFiles.images[0].thumbnailUrl
             } : undefined,
             video: mediaFiles.videos[0] ? {
               id: mediaFiles.videos[0].id,
@@ -453,7 +578,7 @@ export const getAdminReportsWithMedia: RequestHandler = async (req: AuthRequest,
               size: mediaFiles.videos[0].size,
               uploadDate: mediaFiles.videos[0].uploadDate,
               url: mediaFiles.videos[0].url,
-              base64Data: mediaFiles.videos[0].base64Data
+              thumbnailUrl: mediaFiles.videos[0].thumbnailUrl
             } : undefined
           },
           
@@ -467,6 +592,10 @@ export const getAdminReportsWithMedia: RequestHandler = async (req: AuthRequest,
           escalated_at: report.escalated_at?.toISOString(),
           moderation_result: report.moderation_result,
           reporterEmail: decryptedReport.reporterEmail,
+          history: toAdminHistory(report.history),
+          assigned_to: report.assigned_to || null,
+          assigned_to_name: report.assigned_to_name,
+          assigned_at: report.assigned_at?.toISOString(),
           
           // Media summary for quick reference
           mediaSummary: {
@@ -486,7 +615,7 @@ export const getAdminReportsWithMedia: RequestHandler = async (req: AuthRequest,
           id: report.shortId || report._id.toString(),
           _id: report._id.toString(),
           shortId: report.shortId || report._id.toString(),
-          message: report.message || "[Processing error]",
+          message: redactText(report.message) || "[Processing error]",
           category: (report.category || 'feedback') as ReportCategory,
           severity: (report.severity || 'medium') as ReportSeverity,
           status: mapStatusToAPIStatus(report.status || 'pending'),
@@ -568,12 +697,20 @@ export const getAdminReportDetailsWithMedia: RequestHandler = async (req: AuthRe
     // Get comprehensive media files
     const mediaFiles = await getComprehensiveMediaFiles(report);
 
+    await logEvidenceEvent(report, 'read', getHistoryActor(req));
+
+    // PII redacted - admins with can_view_pii reveal the original on demand
+    const redaction = redactPII(decryptedReport.message || '');
+
     // Build detailed response
     const detailedReport = {
       ...decryptedReport,
+      message: redaction.text,
+      pii: { types: redaction.types, count: redaction.count },
       id: report.shortId,
       _id: report._id.toString(),
       shortId: report.shortId,
+      history: toAdminHistory(report.history),
       
       // Enhanced media files with all data
       mediaFiles: mediaFiles,
@@ -616,4 +753,40 @@ export const getAdminReportDetailsWithMedia: RequestHandler = async (req: AuthRe
       message: error.message
     });
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Serve a report's encrypted photo thumbnail or video poster frame
+ * GET /api/admin/reports/:id/thumbnails/:kind (kind: photo | video)
+ */
+export const getReportMediaThumbnail: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const { id, kind } = req.params;
+    const field = THUMBNAIL_FIELDS[kind as ThumbnailKind];
+    if (!field) {
+      return res.status(400).json({ success: false, error: "Thumbnail kind must be 'photo' or 'video'" });
+    }
+
+    const report: any = id.length === 8
+      ? await ReportModel.findOne({ shortId: id }).select(field).lean()
+      : await ReportModel.findById(id).select(field).lean();
+    if (!report?.[field]) {
+      return res.status(404).json({ success: false, error: "Thumbnail not found" });
+    }
+
+    const { buffer, contentType } = await getDecryptedFile(report[field]);
+
+    res.set({
+      'Content-Type': contentType,
+      'Content-Length': buffer.length.toString(),
+      'Cache-Control': 'private, max-age=3600'
+    });
+    res.send(buffer);
+  } catch (error) {
+    console.error("❌ Error serving report thumbnail:", error);
+    res.status(500).json({
+      success: false,
+      error: "Failed to load thumbnail"
+    });
+  }
+};
@@ -1,9 +1,17 @@
 import express from 'express';
 import mongoose from 'mongoose';
-import { GridFSBucket } from 'mongodb';
-import ReportModel from '../../shared/models/report.js';
+import ReportModel, { REPORT_PRIORITIES, REPORT_STATUSES, REPORT_TYPES } from '../../shared/models/report.js';
 import AdminModel from '../models/admin.js';
-import { authenticateAdmin, requirePermission, requireRole, AuthRequest } from '../middleware/authMiddleware.js';
+import { authenticateAdmin, requirePermission, requireRole, AuthRequest, getEnvironmentAdminProfile } from '../middleware/authMiddleware.js';
+import { buildHistoryEntry, getHistoryActor, toAdminHistory } from '../utils/report-history.js';
+import { notifyReportAssigned } from '../utils/realtime.js';
+import { getSlaBreachReport } from '../utils/sla.js';
+import { getPrivacySettings, privatizeHistograms, spendPrivacyBudget } from '../utils/differential-privacy.js';
+import { redactPII, redactText } from '../utils/pii.js';
+import { serveGridFSFile } from '../utils/gridfs.js';
+import { logEvidenceEvent } from '../utils/evidence-log.js';
+import { queueReportUpdateNotifications } from '../utils/notificationHelpers.js';
+import { AssignableAdmin, AssignReportRequest } from '../../shared/api.js';
 
 const router = express.Router();
 
@@ -11,14 +19,6 @@ const router = express.Router();
  * Enhanced Admin Reports Management with GridFS Support
  */
 
-// Initialize GridFS
-let gfsBucket: GridFSBucket;
-mongoose.connection.once('open', () => {
-  gfsBucket = new GridFSBucket(mongoose.connection.db, {
-    bucketName: 'uploads'
-  });
-});
-
 /**
  * Get all reports with advanced filtering and pagination
  * GET /api/admin/reports
@@ -76,17 +76,17 @@ router.get('/reports',
       // Background: ensure legacy reports have ai_classification.score persisted
       (async () => {
         try {
-          const { classifyReport } = await import('../utils/ai-classifier.js');
+          const { buildAiHistoryEntry, classifyReport, toStoredClassification } = await import('../utils/ai-classifier.js');
           const toProcess = reports.filter((r: any) => !(r.ai_classification && typeof r.ai_classification.score === 'number'));
           if (toProcess.length === 0) return;
           console.log(`🔁 Backfilling AI classification for ${toProcess.length} legacy reports`);
           for (const r of toProcess) {
             try {
               const message = typeof r.getDecryptedMessage === 'function' ? r.getDecryptedMessage() : r.message;
-              const classification = await classifyReport({ message, category: r.category, priority: r.priority });
+              const outcome = await classifyReport({ message, category: r.category, priority: r.priority });
               await ReportModel.findByIdAndUpdate(r._id, {
-                $set: { ai_classification: classification },
-                $push: { ai_history: { at: new Date(), by: 'system', action: 'backfill', classification } }
+                $set: { ai_classification: toStoredClassification(outcome) },
+                $push: { ai_history: buildAiHistoryEntry('backfill', 'system', outcome) }
               }).catch(err => console.warn('Backfill update failed for', r._id, err));
             } catch (err) {
               console.warn('Failed to classify legacy report', r._id, err);
@@ -119,7 +119,11 @@ router.get('/reports',
       res.json({
         success: true,
         data: {
-          reports,
+          // Dashboard views show the redacted message; see POST /reports/:id/reveal-pii
+          reports: reports.map((report) => ({
+            ...report.toJSON(),
+            message: redactText(report.message)
+          })),
           pagination: {
             currentPage: pageNum,
             totalPages,
@@ -162,13 +166,16 @@ router.get('/reports/:id',
         });
       }
 
-      // Get decrypted message
-      const decryptedMessage = report.getDecryptedMessage();
+      // Decrypted message with PII redacted - the original needs POST /reports/:id/reveal-pii
+      const redaction = redactPII(report.getDecryptedMessage());
       
       // Prepare response with decrypted content
       const reportData = {
         ...report.toJSON(),
-        decryptedMessage,
+        history: toAdminHistory(report.history),
+        message: redaction.text,
+        decryptedMessage: redaction.text,
+        pii: { types: redaction.types, count: redaction.count },
         hasMedia: !!(report.photo_file_id || report.video_file_id)
       };
 
@@ -228,13 +235,36 @@ router.put('/reports/:id',
         updateData.escalated_at = new Date();
       }
 
+      // Record audit trail entries for the changes
+      const actor = getHistoryActor(req);
+      const historyEntries = [];
+      if (updateData.status && updateData.status !== report.status) {
+        historyEntries.push(buildHistoryEntry('status', actor, { from: report.status, to: updateData.status }));
+      }
+      if (updateData.admin_notes) {
+        historyEntries.push(buildHistoryEntry('note', actor, { comment: 'Admin notes updated' }));
+      }
+
+      // First admin action stops the first-response SLA clock
+      if (Object.keys(updateData).length > 0 && !report.sla?.first_response_at) {
+        updateData['sla.first_response_at'] = new Date();
+      }
+
       // Update the report
       const updatedReport = await ReportModel.findByIdAndUpdate(
         req.params.id,
-        updateData,
+        {
+          $set: updateData,
+          ...(historyEntries.length ? { $push: { history: { $each: historyEntries } } } : {})
+        },
         { new: true, runValidators: true }
       );
 
+      if (updatedReport && updateData.status && updateData.status !== report.status) {
+        await logEvidenceEvent(report, 'status', actor, { from: report.status, to: updateData.status });
+        await queueReportUpdateNotifications('status_update', updatedReport, `${report.status}:${updatedReport.status}:${Date.now()}`, actor.admin_id);
+      }
+
       console.log(`✅ Report ${report.shortId} updated by ${adminUser?.email}`);
 
       res.json({
@@ -254,7 +284,9 @@ router.put('/reports/:id',
 );
 
 /**
- * Re-run AI classification for a report and persist results
+ * Re-run AI classification for a report and persist results.
+ * With { label, flagged } in the body the admin overrides the classification
+ * instead; the override is kept in ai_history as a training label.
  * POST /api/admin/reports/:id/reclassify
  */
 router.post('/reports/:id/reclassify',
@@ -267,19 +299,63 @@ router.post('/reports/:id/reclassify',
         return res.status(404).json({ success: false, error: 'Report not found' });
       }
 
+      const { label, flagged } = req.body || {};
+      if (label !== undefined || flagged !== undefined) {
+        if (label !== undefined && !(REPORT_TYPES as readonly string[]).includes(label)) {
+          return res.status(400).json({ success: false, error: `label must be one of: ${REPORT_TYPES.join(', ')}` });
+        }
+        if (flagged !== undefined && typeof flagged !== 'boolean') {
+          return res.status(400).json({ success: false, error: 'flagged must be a boolean' });
+        }
+
+        const current: any = report.ai_classification || {};
+        const feedback = { label, flagged };
+        const classification = {
+          labels: label ? [label, ...(current.labels || []).filter((l: string) => l !== label)] : current.labels || [],
+          primaryLabel: label ?? current.primaryLabel,
+          confidence: 1,
+          score: current.score ?? 0,
+          flagged: flagged ?? !!current.flagged,
+          reasons: [`admin:${req.adminUser?.email || 'admin'}`],
+          provider: 'admin'
+        };
+
+        report.ai_history = report.ai_history || [];
+        report.ai_history.push({ at: new Date(), by: req.adminUser?.email || 'admin', action: 'reclassify', classification, feedback });
+        report.ai_classification = classification as any;
+        await report.save();
+
+        return res.json({ success: true, data: report });
+      }
+
       // Lazy import classifier to avoid circular deps
-      const { classifyReport } = await import('../utils/ai-classifier.js');
+      const { buildAiHistoryEntry, classifyReport, toStoredClassification } = await import('../utils/ai-classifier.js');
 
       const message = report.getDecryptedMessage ? report.getDecryptedMessage() : report.message;
-      const classification = await classifyReport({ message, category: report.category, priority: report.priority });
+      const outcome = await classifyReport({ message, category: report.category, priority: report.priority });
+      const classification = toStoredClassification(outcome);
 
-      // Append to ai_history
+      // Append to ai_history, including each provider's output
       report.ai_history = report.ai_history || [];
-      report.ai_history.push({ at: new Date(), by: req.adminUser?.email || 'admin', action: 'reclassify', classification });
+      report.ai_history.push(buildAiHistoryEntry('reclassify', req.adminUser?.email || 'admin', outcome));
       report.ai_classification = classification as any;
-      if ((classification as any).flagged) report.status = 'flagged';
+      const previousStatus = report.status;
+      if (classification.flagged && previousStatus !== 'flagged') {
+        report.addHistory(buildHistoryEntry('status', getHistoryActor(req), {
+          from: previousStatus,
+          to: 'flagged',
+          comment: 'AI reclassification flagged the report'
+        }));
+        report.status = 'flagged';
+      }
       await report.save();
 
+      if (report.status !== previousStatus) {
+        const actor = getHistoryActor(req);
+        await logEvidenceEvent(report, 'status', actor, { from: previousStatus, to: report.status, reason: 'reclassify' });
+        await queueReportUpdateNotifications('status_update', report, `${previousStatus}:${report.status}:${Date.now()}`, actor.admin_id);
+      }
+
       res.json({ success: true, data: report });
     } catch (error) {
       console.error('❌ Reclassification failed:', error);
@@ -300,12 +376,32 @@ router.post('/reports/:id/unflag',
       const report = await ReportModel.findById(req.params.id);
       if (!report) return res.status(404).json({ success: false, error: 'Report not found' });
 
+      const previousStatus = report.status;
+      if (previousStatus !== 'in-progress') {
+        report.addHistory(buildHistoryEntry('status', getHistoryActor(req), {
+          from: previousStatus,
+          to: 'in-progress',
+          comment: 'Unflagged by admin'
+        }));
+      }
       report.status = 'in-progress';
       report.ai_history = report.ai_history || [];
-      report.ai_history.push({ at: new Date(), by: req.adminUser?.email || 'admin', action: 'unflag', classification: report.ai_classification || null });
+      report.ai_history.push({
+        at: new Date(),
+        by: req.adminUser?.email || 'admin',
+        action: 'unflag',
+        classification: report.ai_classification || null,
+        feedback: { flagged: false }
+      });
       if (report.ai_classification) report.ai_classification.flagged = false;
       await report.save();
 
+      if (previousStatus !== 'in-progress') {
+        const actor = getHistoryActor(req);
+        await logEvidenceEvent(report, 'status', actor, { from: previousStatus, to: 'in-progress', reason: 'unflag' });
+        await queueReportUpdateNotifications('status_update', report, `${previousStatus}:in-progress:${Date.now()}`, actor.admin_id);
+      }
+
       res.json({ success: true, data: report });
     } catch (err) {
       console.error('❌ Unflag failed:', err);
@@ -314,6 +410,227 @@ router.post('/reports/:id/unflag',
   }
 );
 
+// =======================================
+// CASE ASSIGNMENT
+// =======================================
+
+interface Assignee {
+  id: string;
+  name: string;
+}
+
+// Helper to build a report lookup filter from an ObjectId or shortId
+const reportLookupFilter = (id: string) =>
+  /^[0-9a-fA-F]{24}$/.test(id) ? { _id: id } : { shortId: id.toUpperCase() };
+
+// Helper to resolve an admin id to an active assignee (database admins or the environment admin)
+const resolveAssignee = async (adminId: string): Promise<Assignee | null> => {
+  const envAdmin = getEnvironmentAdminProfile();
+  if (adminId === envAdmin.id) {
+    return { id: envAdmin.id, name: envAdmin.username };
+  }
+
+  if (mongoose.Types.ObjectId.isValid(adminId)) {
+    const admin = await AdminModel.findById(adminId);
+    if (admin && admin.is_active) {
+      return { id: admin._id.toString(), name: admin.name || admin.email };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Atomically change the assignee of a report. The update only applies if the
+ * assignee is still the one we read, so two admins claiming at once can't both win.
+ */
+const changeAssignment = async (
+  req: AuthRequest,
+  res: express.Response,
+  action: 'assign' | 'claim' | 'unassign',
+  assignee: Assignee | null
+) => {
+  const report = await ReportModel.findOne(reportLookupFilter(req.params.id))
+    .select('shortId assigned_to assigned_to_name');
+
+  if (!report) {
+    return res.status(404).json({ success: false, error: 'Report not found' });
+  }
+
+  const actor = getHistoryActor(req);
+  const currentAssignee = report.assigned_to || null;
+
+  if (action === 'claim' && currentAssignee && currentAssignee !== actor.admin_id) {
+    return res.status(409).json({
+      success: false,
+      error: `Report is already assigned to ${report.assigned_to_name || currentAssignee}`
+    });
+  }
+
+  if (action === 'unassign' && currentAssignee && currentAssignee !== actor.admin_id &&
+      !req.adminUser?.hasPermission('can_escalate_reports')) {
+    return res.status(403).json({
+      success: false,
+      error: 'Only the assignee or an admin with escalation permission can unassign this report'
+    });
+  }
+
+  if ((assignee?.id || null) === currentAssignee) {
+    return res.json({
+      success: true,
+      message: 'Assignment unchanged',
+      data: { shortId: report.shortId, assigned_to: currentAssignee, assigned_to_name: report.assigned_to_name }
+    });
+  }
+
+  const historyEntry = buildHistoryEntry('assignment', actor, {
+    from: report.assigned_to_name || currentAssignee || undefined,
+    to: assignee?.name,
+    comment: action === 'claim' ? 'Claimed' : action === 'unassign' ? 'Unassigned' : 'Assigned'
+  });
+
+  const updated = await ReportModel.findOneAndUpdate(
+    { _id: report._id, assigned_to: currentAssignee },
+    {
+      $set: {
+        assigned_to: assignee?.id || null,
+        assigned_to_name: assignee?.name || null,
+        assigned_by: actor.admin_id,
+        assigned_at: assignee ? new Date() : null
+      },
+      $push: { history: historyEntry }
+    },
+    { new: true }
+  );
+
+  if (!updated) {
+    return res.status(409).json({
+      success: false,
+      error: 'Report assignment changed in the meantime, please refresh and try again'
+    });
+  }
+
+  console.log(`👤 Report ${updated.shortId} ${action} by ${actor.admin_user} → ${assignee?.name || 'unassigned'}`);
+
+  try {
+    notifyReportAssigned({
+      shortId: updated.shortId,
+      reportId: updated._id.toString(),
+      assignedTo: updated.assigned_to || null,
+      assignedToName: updated.assigned_to_name,
+      assignedBy: actor.admin_user,
+      action,
+      timestamp: new Date().toISOString()
+    });
+  } catch (notificationError) {
+    console.error('❌ Failed to send assignment notification:', notificationError);
+  }
+
+  res.json({
+    success: true,
+    message: assignee ? `Report assigned to ${assignee.name}` : 'Report unassigned',
+    data: {
+      shortId: updated.shortId,
+      assigned_to: updated.assigned_to || null,
+      assigned_to_name: updated.assigned_to_name,
+      assigned_at: updated.assigned_at,
+      history: toAdminHistory(updated.history)
+    }
+  });
+};
+
+/**
+ * List admins that reports can be assigned to
+ * GET /api/admin/assignees
+ */
+router.get('/assignees',
+  authenticateAdmin,
+  requirePermission('can_escalate_reports'),
+  async (req: AuthRequest, res) => {
+    try {
+      const admins = await AdminModel.find({ is_active: true }).select('name email role').lean();
+      const envAdmin = getEnvironmentAdminProfile();
+
+      const assignees: AssignableAdmin[] = [
+        { id: envAdmin.id, name: envAdmin.username, email: envAdmin.username, role: 'super_admin' },
+        ...admins.map((admin: any) => ({
+          id: admin._id.toString(),
+          name: admin.name || admin.email,
+          email: admin.email,
+          role: admin.role
+        }))
+      ];
+
+      res.json({ success: true, data: assignees });
+    } catch (error) {
+      console.error('❌ Error listing assignees:', error);
+      res.status(500).json({ success: false, error: 'Failed to list assignees' });
+    }
+  }
+);
+
+/**
+ * Assign a report to a specific admin
+ * POST /api/admin/reports/:id/assign  { adminId }
+ */
+router.post('/reports/:id/assign',
+  authenticateAdmin,
+  requirePermission('can_escalate_reports'),
+  async (req: AuthRequest, res) => {
+    try {
+      const { adminId } = req.body as AssignReportRequest;
+      if (!adminId) {
+        return res.status(400).json({ success: false, error: 'adminId is required' });
+      }
+
+      const assignee = await resolveAssignee(String(adminId));
+      if (!assignee) {
+        return res.status(400).json({ success: false, error: 'Assignee not found or inactive' });
+      }
+
+      await changeAssignment(req, res, 'assign', assignee);
+    } catch (error) {
+      console.error('❌ Report assignment failed:', error);
+      res.status(500).json({ success: false, error: 'Report assignment failed' });
+    }
+  }
+);
+
+/**
+ * Claim an unassigned report for the current admin
+ * POST /api/admin/reports/:id/claim
+ */
+router.post('/reports/:id/claim',
+  authenticateAdmin,
+  requirePermission('can_view_reports'),
+  async (req: AuthRequest, res) => {
+    try {
+      const actor = getHistoryActor(req);
+      await changeAssignment(req, res, 'claim', { id: actor.admin_id, name: req.adminUser?.name || actor.admin_user });
+    } catch (error) {
+      console.error('❌ Report claim failed:', error);
+      res.status(500).json({ success: false, error: 'Report claim failed' });
+    }
+  }
+);
+
+/**
+ * Remove the current assignee from a report
+ * POST /api/admin/reports/:id/unassign
+ */
+router.post('/reports/:id/unassign',
+  authenticateAdmin,
+  requirePermission('can_view_reports'),
+  async (req: AuthRequest, res) => {
+    try {
+      await changeAssignment(req, res, 'unassign', null);
+    } catch (error) {
+      console.error('❌ Report unassign failed:', error);
+      res.status(500).json({ success: false, error: 'Report unassign failed' });
+    }
+  }
+);
+
 /**
  * Get report media file (photo/video)
  * GET /api/admin/reports/:id/media/:type
@@ -348,27 +665,23 @@ router.get('/reports/:id/media/:type',
         });
       }
 
-      // Stream file from GridFS
-      const downloadStream = gfsBucket.openDownloadStream(
-        new mongoose.Types.ObjectId(fileId)
-      );
-
-      downloadStream.on('error', (error) => {
-        console.error(`❌ Error streaming ${type}:`, error);
-        res.status(404).json({
-          error: 'Media not found',
-          message: 'The requested media file could not be found'
-        });
-      });
+      // Stream (and decrypt) from GridFS, honoring Range requests for video seeking
+      const { range } = await serveGridFSFile(req, res, new mongoose.Types.ObjectId(fileId));
 
-      // Set appropriate content type
-      const contentType = type === 'photo' ? 'image/jpeg' : 'video/mp4';
-      res.set('Content-Type', contentType);
-      
-      downloadStream.pipe(res);
+      // One entry per viewing - players follow up with ranges further into the file
+      if (res.statusCode < 400 && (!range || range.start === 0)) {
+        await logEvidenceEvent(report, 'media_read', getHistoryActor(req as AuthRequest), { file_id: fileId.toString(), type });
+      }
 
     } catch (error) {
       console.error('❌ Error fetching media:', error);
+      if (res.headersSent) return;
+      if (error.message?.includes('File not found')) {
+        return res.status(404).json({
+          error: 'Media not found',
+          message: 'The requested media file could not be found'
+        });
+      }
       res.status(500).json({
         error: 'Failed to fetch media',
         message: 'An error occurred while fetching the media file'
@@ -377,9 +690,51 @@ router.get('/reports/:id/media/:type',
   }
 );
 
+// =======================================
+// PII
+// =======================================
+
+/**
+ * Reveal the original, unredacted message (recorded in the report's audit trail)
+ * POST /api/admin/reports/:id/reveal-pii
+ * Body: { reason?: string }
+ */
+router.post('/reports/:id/reveal-pii',
+  authenticateAdmin,
+  requirePermission('can_view_pii'),
+  async (req: AuthRequest, res) => {
+    try {
+      const report = await ReportModel.findOne(reportLookupFilter(req.params.id))
+        .select('+encrypted_data +encryption_iv +encryption_auth_tag');
+      if (!report) return res.status(404).json({ success: false, error: 'Report not found' });
+
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+      report.addHistory(buildHistoryEntry('pii_revealed', getHistoryActor(req), {
+        comment: reason ? `Original message revealed: ${reason}` : 'Original message revealed'
+      }));
+      await report.save();
+      await logEvidenceEvent(report, 'read', getHistoryActor(req), { pii_revealed: true });
+
+      console.log(`👁️ PII revealed on report ${report.shortId} by ${getHistoryActor(req).admin_user}`);
+
+      res.json({
+        success: true,
+        data: {
+          message: report.getDecryptedMessage(),
+          admin_notes: report.admin_notes
+        }
+      });
+    } catch (error) {
+      console.error('❌ Failed to reveal report message:', error);
+      res.status(500).json({ success: false, error: 'Failed to reveal report message' });
+    }
+  }
+);
+
 /**
  * Export reports data
  * GET /api/admin/reports/export
+ * PII is redacted unless ?reveal_pii=true is passed by an admin with can_view_pii
  */
 router.get('/export',
   authenticateAdmin,
@@ -388,6 +743,15 @@ router.get('/export',
     try {
       const { format = 'csv', dateFrom, dateTo } = req.query;
 
+      const revealPII = req.query.reveal_pii === 'true';
+      if (revealPII && !req.adminUser?.hasPermission?.('can_view_pii')) {
+        return res.status(403).json({
+          error: 'Insufficient permissions',
+          message: 'Exporting unredacted messages requires can view pii permission'
+        });
+      }
+      const exportText = (text?: string) => (revealPII ? text || '' : redactText(text));
+
       // Build filter for export
       const filter: any = {};
       if (dateFrom) filter.createdAt = { $gte: new Date(dateFrom as string) };
@@ -400,6 +764,12 @@ router.get('/export',
         .select('-encrypted_data -encryption_iv -encryption_auth_tag')
         .sort({ createdAt: -1 });
 
+      // Every exported report gets a custody entry
+      const exportActor = getHistoryActor(req);
+      for (const report of reports) {
+        await logEvidenceEvent(report, 'export', exportActor, { format: String(format), pii_revealed: revealPII });
+      }
+
       if (format === 'csv') {
         // Generate CSV
         const csvHeaders = [
@@ -413,10 +783,10 @@ router.get('/export',
           report.type,
           report.priority,
           report.status,
-          report.message?.replace(/"/g, '""') || '',
+          exportText(report.message).replace(/"/g, '""'),
           report.location ? `${report.location.lat},${report.location.lng}` : '',
           report.createdAt?.toISOString(),
-          report.admin_notes?.replace(/"/g, '""') || '',
+          exportText(report.admin_notes).replace(/"/g, '""'),
           report.resolved_at?.toISOString() || ''
         ]);
 
@@ -433,14 +803,18 @@ router.get('/export',
         res.json({
           success: true,
           data: {
-            reports,
+            reports: reports.map((report) => ({
+              ...report.toJSON(),
+              message: exportText(report.message),
+              admin_notes: exportText(report.admin_notes)
+            })),
             exportDate: new Date().toISOString(),
             totalCount: reports.length
           }
         });
       }
 
-      console.log(`✅ Reports exported by ${req.adminUser?.email}`);
+      console.log(`✅ Reports exported by ${req.adminUser?.email}${revealPII ? ' (PII revealed)' : ''}`);
 
     } catch (error) {
       console.error('❌ Error exporting reports:', error);
@@ -452,6 +826,96 @@ router.get('/export',
   }
 );
 
+/**
+ * Export aggregate counts with differential-privacy noise (for sharing outside the admin team)
+ * GET /api/admin/export/aggregates?format=csv&dateFrom=&dateTo=
+ */
+router.get('/export/aggregates',
+  authenticateAdmin,
+  requirePermission('can_export_data'),
+  async (req: AuthRequest, res) => {
+    try {
+      const { format = 'csv', dateFrom, dateTo } = req.query;
+
+      const revealPII = req.query.reveal_pii === 'true';
+      if (revealPII && !req.adminUser?.hasPermission?.('can_view_pii')) {
+        return res.status(403).json({
+          error: 'Insufficient permissions',
+          message: 'Exporting unredacted messages requires can view pii permission'
+        });
+      }
+      const exportText = (text?: string) => (revealPII ? text || '' : redactText(text));
+
+      const filter: any = {};
+      if (dateFrom) filter.createdAt = { $gte: new Date(dateFrom as string) };
+      if (dateTo) {
+        filter.createdAt = filter.createdAt || {};
+        filter.createdAt.$lte = new Date(dateTo as string);
+      }
+
+      const settings = await getPrivacySettings();
+      if (settings.enabled && !(await spendPrivacyBudget('export', settings.epsilon_export, settings))) {
+        return res.status(429).json({
+          success: false,
+          error: 'Privacy budget for aggregate exports is exhausted for this period'
+        });
+      }
+
+      const groupBy = (field: string) => ReportModel.aggregate([
+        { $match: filter },
+        { $group: { _id: `$${field}`, count: { $sum: 1 } } }
+      ]);
+      const [byType, byPriority, byStatus] = await Promise.all([groupBy('type'), groupBy('priority'), groupBy('status')]);
+
+      // Every enum value is included so empty buckets get noise too
+      const toHistogram = (rows: any[], values: readonly string[]) => {
+        const histogram: Record<string, number> = {};
+        for (const value of values) histogram[value] = 0;
+        for (const row of rows) histogram[row._id || 'unknown'] = (histogram[row._id || 'unknown'] || 0) + row.count;
+        return histogram;
+      };
+      const exact = {
+        type: toHistogram(byType, REPORT_TYPES),
+        priority: toHistogram(byPriority, REPORT_PRIORITIES),
+        status: toHistogram(byStatus, REPORT_STATUSES)
+      };
+      const histograms = settings.enabled ? privatizeHistograms(exact, settings.epsilon_export) : exact;
+
+      if (format === 'csv') {
+        const csvRows = Object.entries(histograms).flatMap(([dimension, counts]) =>
+          Object.entries(counts).map(([value, count]) => [dimension, value, count])
+        );
+        const csvContent = [
+          'Dimension,Value,Count',
+          ...csvRows.map(row => row.map(field => `"${field}"`).join(','))
+        ].join('\n');
+
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="report-aggregates-${new Date().toISOString().split('T')[0]}.csv"`);
+        res.send(csvContent);
+      } else {
+        res.json({
+          success: true,
+          data: {
+            aggregates: histograms,
+            differentialPrivacy: settings.enabled ? { mechanism: 'laplace', epsilon: settings.epsilon_export } : null,
+            exportDate: new Date().toISOString()
+          }
+        });
+      }
+
+      console.log(`✅ Aggregate export by ${req.adminUser?.email} (epsilon: ${settings.enabled ? settings.epsilon_export : 'exact'})`);
+
+    } catch (error) {
+      console.error('❌ Error exporting aggregates:', error);
+      res.status(500).json({
+        error: 'Export failed',
+        message: 'An error occurred while exporting aggregates'
+      });
+    }
+  }
+);
+
 /**
  * Get dashboard statistics
  * GET /api/admin/dashboard/stats
@@ -490,8 +954,11 @@ router.get('/dashboard/stats',
         ])
       ]);
 
-      // Get reports needing escalation
-      const escalationNeeded = await ReportModel.findNeedingEscalation();
+      // Get reports needing escalation and the SLA breach report
+      const [escalationNeeded, sla] = await Promise.all([
+        ReportModel.findNeedingEscalation(),
+        getSlaBreachReport(thisMonth)
+      ]);
 
       res.json({
         success: true,
@@ -516,7 +983,8 @@ router.get('/dashboard/stats',
             priority: report.priority,
             ageInHours: report.ageInHours,
             createdAt: report.createdAt
-          }))
+          })),
+          sla
         }
       });
 
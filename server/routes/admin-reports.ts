@@ -3,8 +3,9 @@ import { GetReportsResponse, UpdateReportRequest, ReportStatus, ReportCategory,
 import ReportModel from "../../shared/models/report";
 import { AuthRequest, requireAdmin } from "../middleware/authMiddleware";
 import { DataEncryption } from "../utils/encryption";
-import { notifyReportUpdate } from "../utils/notificationHelpers";
-import { clearEscalationHistory } from "../utils/escalation";
+import { notifyReportUpdate, queueReportUpdateNotifications } from "../utils/notificationHelpers";
+import { buildHistoryEntry, getHistoryActor, toAdminHistory } from "../utils/report-history";
+import { logEvidenceEvent } from "../utils/evidence-log";
 
 /**
  * Admin-specific report management routes with status filtering
@@ -238,34 +239,40 @@ export const updateReportStatus: RequestHandler = async (req: AuthRequest, res)
 
     console.log(`✅ Found report: ${report.shortId} (${report._id})`);
 
+    const actor = getHistoryActor(req);
+    const previousStatus = report.status;
+
     // Update fields if provided
     if (updateData.status) {
       const internalStatus = mapAPIStatusToInternalStatus(updateData.status);
+      if (internalStatus !== previousStatus) {
+        report.addHistory(buildHistoryEntry('status', actor, { from: previousStatus, to: internalStatus }));
+      }
       report.status = internalStatus;
       console.log(`📝 Status updated: ${updateData.status} -> ${internalStatus}`);
     }
     
     if (updateData.admin_response) {
       report.admin_notes = updateData.admin_response;
+      report.addHistory(buildHistoryEntry('note', actor, { comment: 'Admin response updated' }));
       console.log(`📝 Admin response added: ${updateData.admin_response}`);
     }
 
     await report.save();
 
-    // Clear escalation history when report is processed (no longer pending)
-    if (updateData.status && updateData.status !== 'pending') {
-      clearEscalationHistory(report.shortId);
-      console.log(`🧹 Cleared escalation history for processed report: ${report.shortId}`);
+    if (report.status !== previousStatus) {
+      await logEvidenceEvent(report, 'status', actor, { from: previousStatus, to: report.status });
+      await queueReportUpdateNotifications('status_update', report, `${previousStatus}:${report.status}:${Date.now()}`, actor.admin_id);
     }
 
     // Send notification about status update
     notifyReportUpdate(report._id.toString(), {
       shortId: report.shortId,
       _id: report._id.toString(),
-      oldStatus: report.status,
+      oldStatus: previousStatus,
       newStatus: updateData.status || report.status as any,
       adminComment: updateData.admin_response,
-      adminUser: req.user?.username || "Unknown Admin"
+      adminUser: actor.admin_user
     });
 
     console.log(`✅ Report ${id} updated successfully`);
@@ -278,7 +285,8 @@ export const updateReportStatus: RequestHandler = async (req: AuthRequest, res)
         shortId: report.shortId,
         status: mapStatusToAPIStatus(report.status),
         admin_notes: report.admin_notes,
-        updated_at: report.updatedAt?.toISOString()
+        updated_at: report.updatedAt?.toISOString(),
+        history: toAdminHistory(report.history)
       }
     });
   } catch (error) {
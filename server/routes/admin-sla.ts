@@ -0,0 +1,178 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import SlaPolicyModel from '../../shared/models/SlaPolicy.js';
+import { authenticateAdmin, requirePermission, AuthRequest } from '../middleware/authMiddleware.js';
+import { getHistoryActor } from '../utils/report-history.js';
+import { DEFAULT_SLA_POLICY } from '../utils/sla.js';
+
+const router = express.Router();
+
+/**
+ * SLA Policy Routes
+ * Manage first-response/resolution targets and escalation ladders per report type and priority.
+ * Policies are loaded by the escalation monitor on every run, so changes apply without a restart.
+ */
+
+// Fields admins are allowed to set on a policy
+const EDITABLE_FIELDS = [
+  'name',
+  'type',
+  'priority',
+  'first_response_minutes',
+  'resolution_minutes',
+  'first_response_ladder',
+  'resolution_ladder',
+  'is_active'
+];
+
+const pickPolicyFields = (body: any) => {
+  const data: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) data[field] = body[field];
+  }
+  return data;
+};
+
+// Map mongoose validation / duplicate key errors to 400/409 responses
+const handlePolicyError = (error: any, res: express.Response, action: string) => {
+  if (error?.code === 11000) {
+    return res.status(409).json({
+      success: false,
+      error: 'A policy already exists for this type and priority'
+    });
+  }
+  if (error instanceof mongoose.Error.ValidationError) {
+    return res.status(400).json({
+      success: false,
+      error: Object.values(error.errors).map((e) => e.message).join(', ')
+    });
+  }
+
+  console.error(`❌ Failed to ${action} SLA policy:`, error);
+  return res.status(500).json({
+    success: false,
+    error: `Failed to ${action} SLA policy`
+  });
+};
+
+/**
+ * List SLA policies (plus the built-in fallback policy)
+ * GET /api/admin/sla-policies
+ */
+router.get('/sla-policies',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req, res) => {
+    try {
+      const policies = await SlaPolicyModel.find().sort({ type: 1, priority: 1 }).lean();
+
+      res.json({
+        success: true,
+        data: {
+          policies,
+          defaultPolicy: DEFAULT_SLA_POLICY
+        }
+      });
+    } catch (error) {
+      handlePolicyError(error, res, 'list');
+    }
+  }
+);
+
+/**
+ * Create an SLA policy
+ * POST /api/admin/sla-policies
+ */
+router.post('/sla-policies',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      const actor = getHistoryActor(req);
+      const policy = await SlaPolicyModel.create({
+        ...pickPolicyFields(req.body),
+        created_by: actor.admin_user,
+        updated_by: actor.admin_user
+      });
+
+      console.log(`⏱️ SLA policy "${policy.name}" (${policy.type}/${policy.priority}) created by ${actor.admin_user}`);
+
+      res.status(201).json({
+        success: true,
+        data: policy,
+        message: 'SLA policy created'
+      });
+    } catch (error) {
+      handlePolicyError(error, res, 'create');
+    }
+  }
+);
+
+/**
+ * Update an SLA policy
+ * PUT /api/admin/sla-policies/:id
+ */
+router.put('/sla-policies/:id',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+        return res.status(404).json({ success: false, error: 'SLA policy not found' });
+      }
+
+      const actor = getHistoryActor(req);
+      const policy = await SlaPolicyModel.findByIdAndUpdate(
+        req.params.id,
+        { $set: { ...pickPolicyFields(req.body), updated_by: actor.admin_user } },
+        { new: true, runValidators: true }
+      );
+
+      if (!policy) {
+        return res.status(404).json({ success: false, error: 'SLA policy not found' });
+      }
+
+      console.log(`⏱️ SLA policy "${policy.name}" updated by ${actor.admin_user}`);
+
+      res.json({
+        success: true,
+        data: policy,
+        message: 'SLA policy updated'
+      });
+    } catch (error) {
+      handlePolicyError(error, res, 'update');
+    }
+  }
+);
+
+/**
+ * Delete an SLA policy (matching reports fall back to a broader policy)
+ * DELETE /api/admin/sla-policies/:id
+ */
+router.delete('/sla-policies/:id',
+  authenticateAdmin,
+  requirePermission('can_configure_system'),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+        return res.status(404).json({ success: false, error: 'SLA policy not found' });
+      }
+
+      const policy = await SlaPolicyModel.findByIdAndDelete(req.params.id);
+      if (!policy) {
+        return res.status(404).json({ success: false, error: 'SLA policy not found' });
+      }
+
+      console.log(`🗑️ SLA policy "${policy.name}" deleted by ${getHistoryActor(req).admin_user}`);
+
+      res.json({
+        success: true,
+        message: 'SLA policy deleted'
+      });
+    } catch (error) {
+      handlePolicyError(error, res, 'delete');
+    }
+  }
+);
+
+export default router;
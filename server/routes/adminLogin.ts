@@ -4,7 +4,8 @@ import {
   generateAccessToken,
   generateRefreshToken,
   AuthRequest,
-  LoginCredentials
+  LoginCredentials,
+  getEnvironmentAdminId
 } from '../middleware/authMiddleware';
 
 /**
@@ -65,7 +66,7 @@ export const adminLogin = async (req: Request, res: Response): Promise<void> =>
     }
     
     // Generate admin ID (in production, this would come from database)
-    const adminId = 'admin-' + Buffer.from(username).toString('base64').slice(0, 8);
+    const adminId = getEnvironmentAdminId(username);
     
     // Generate JWT tokens
     const accessToken = generateAccessToken({
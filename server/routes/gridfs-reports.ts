@@ -7,41 +7,33 @@ import {
 } from "../../shared/api";
 import ReportModel from "../../shared/models/report";
 import AlertModel from "../../shared/models/Alert";
-import { uploadFields, getFile, getDecryptedFile } from "../utils/gridfs";
+import { uploadFields, serveGridFSFile } from "../utils/gridfs";
+import { queueReportPreviews } from "../utils/media-previews";
 import { notifyNewReport } from "../utils/realtime"; // Use Socket.io instead of SSE
 import { processLocationData } from "../utils/location-processor";
-import { sendUrgentReportNotifications } from "../utils/notifications";
+import { pageOnCallForAlert } from "../utils/on-call";
+import { announceAlert } from "../utils/alerts";
+import { processReportNotification, queueEmailNotification } from "../utils/notificationHelpers";
+import { applyRuleActions, evaluateModerationRules } from "../utils/moderation-rules";
+import { redactPII } from "../utils/pii";
 import { broadcastToAdmins } from "../utils/realtime";
-import { classifyReport } from "../utils/ai-classifier";
+import { buildAiHistoryEntry, classifyReport, toStoredClassification } from "../utils/ai-classifier";
+import { generateReporterSecret, hashReporterSecret } from "../utils/reporter-secret";
+import { buildHistoryEntry, SYSTEM_ACTOR } from "../utils/report-history";
+import {
+  buildReportIntegrity,
+  getReportMedia,
+  logEvidenceEvent,
+  logMediaRead,
+  REPORTER_ACTOR,
+  UNAUTHENTICATED_ACTOR
+} from "../utils/evidence-log";
 
 /**
  * GridFS Report Creation Handler
  * Handles multipart/form-data with file uploads to GridFS
  */
 
-// Simple AI moderation
-function moderateContent(text: string) {
-  const offensiveTerms = ["fuck", "shit", "kill", "die", "hate", "threat"];
-  const lowercaseText = text.toLowerCase();
-  const detectedTerms: string[] = [];
-
-  offensiveTerms.forEach((term) => {
-    if (lowercaseText.includes(term)) {
-      detectedTerms.push(term);
-    }
-  });
-
-  const isFlagged = detectedTerms.length > 0;
-  const confidence = Math.min(detectedTerms.length * 0.3, 1);
-
-  return {
-    isFlagged,
-    reason: isFlagged ? "Potentially inappropriate content detected" : undefined,
-    confidence,
-    detectedTerms,
-  };
-}
-
 export const createReportWithGridFS: RequestHandler = async (req, res) => {
   // Handle file upload with GridFS
   uploadFields(req, res, async (uploadError) => {
@@ -122,8 +114,10 @@ export const createReportWithGridFS: RequestHandler = async (req, res) => {
         }
       }
 
-      // Apply AI moderation
-      const moderation = moderateContent(message);
+      // Apply the admin-managed moderation rules
+      const ruleVerdict = await evaluateModerationRules(message);
+      // Previews and alerts only ever carry the PII-redacted message
+      const piiRedaction = redactPII(message.trim());
 
       // Normalize priority (support incoming 'priority' or legacy 'severity')
       const normalizedPriority = (incomingPriority || severity || 'medium').toString().toLowerCase();
@@ -141,31 +135,61 @@ export const createReportWithGridFS: RequestHandler = async (req, res) => {
         video_file_id: videoFileIds.length > 0 ? videoFileIds[0] : undefined, // Primary video
         additional_media: [...imageFileIds.slice(1), ...videoFileIds.slice(1)], // Additional files
         location: processedLocation,
-        moderation,
+        moderation: ruleVerdict.moderation,
+        pii: { types: piiRedaction.types, count: piiRedaction.count },
         is_offline_sync: is_offline_sync === 'true',
         status: "pending" as const,
         created_at: new Date(),
         updated_at: new Date(),
-        history: [{
-          status: "pending" as const,
-          updated_at: new Date(),
+        history: [buildHistoryEntry('created', SYSTEM_ACTOR, {
+          to: "pending",
           comment: "Report submitted"
-        }]
+        })]
       };
 
+      const ruleComment = applyRuleActions(reportData, ruleVerdict);
+      if (ruleComment) {
+        reportData.history.push(buildHistoryEntry('status', SYSTEM_ACTOR, {
+          from: 'pending',
+          to: 'flagged',
+          comment: ruleComment
+        }));
+      }
+
       // Run AI classification synchronously so high-risk reports are flagged immediately
       try {
-        const classification = await classifyReport({ message, category: reportData.category, priority: reportData.priority });
+        const outcome = await classifyReport({ message, category: reportData.category, priority: reportData.priority });
+        const classification = toStoredClassification(outcome);
         reportData.ai_classification = classification;
-        if (classification.flagged) reportData.status = 'flagged';
+        reportData.ai_history = [buildAiHistoryEntry('classify', 'system', outcome)];
+        if (classification.flagged && reportData.status !== 'flagged') {
+          reportData.status = 'flagged';
+          reportData.history.push(buildHistoryEntry('status', SYSTEM_ACTOR, {
+            from: 'pending',
+            to: 'flagged',
+            comment: 'AI classification flagged the report'
+          }));
+        }
         console.log('🧠 AI classification (pre-save) for GridFS report:', classification);
       } catch (aiErr) {
         console.warn('⚠️ AI classification failed (pre-save) for GridFS report:', aiErr);
       }
 
+      // Issue the reporter secret - only its hash is persisted
+      const reporterSecret = generateReporterSecret();
+      reportData.reporter_secret_hash = hashReporterSecret(reporterSecret);
+
+      // Evidence hashes are fixed at creation and can't be changed afterwards
+      reportData.integrity = await buildReportIntegrity(reportData.message, getReportMedia(reportData));
+
       // Save to database
       const report = new ReportModel(reportData);
       const savedReport = await report.save();
+      await logEvidenceEvent(savedReport, 'created', REPORTER_ACTOR, {
+        status: savedReport.status,
+        message_sha256: reportData.integrity.message_sha256,
+        media: reportData.integrity.media
+      });
 
       console.log("✅ Report saved with GridFS files:", {
         reportId: savedReport._id,
@@ -174,6 +198,29 @@ export const createReportWithGridFS: RequestHandler = async (req, res) => {
         videoFiles: videoFileIds.length,
       });
 
+      // List-view thumbnails / poster frames are rendered from the stored media in the background
+      if (savedReport.photo_file_id || savedReport.video_file_id) {
+        queueReportPreviews(savedReport._id.toString()).catch((previewError) =>
+          console.error("❌ Failed to queue media previews:", previewError)
+        );
+      }
+
+      // Rules with the notify action alert the admins by email
+      if (ruleVerdict.actions.includes('notify')) {
+        try {
+          await queueEmailNotification({
+            reportId: savedReport._id.toString(),
+            shortId: savedReport.shortId,
+            message: `Moderation rules matched: ${ruleVerdict.matches.map((m) => m.name).join(', ')}`,
+            category: savedReport.category,
+            priority: reportData.priority,
+            timestamp: new Date()
+          }, undefined, `rules:${savedReport._id}:notify`);
+        } catch (notifyError) {
+          console.error("❌ Failed to queue moderation rule notification:", notifyError);
+        }
+      }
+
       // Create alert for urgent reports
     if (['urgent', 'high'].includes(reportData.priority) || 
       category === "medical" || 
@@ -190,23 +237,31 @@ export const createReportWithGridFS: RequestHandler = async (req, res) => {
 
         await alert.save();
         console.log("🚨 Alert created for urgent report");
+        announceAlert(alert, savedReport.shortId);
 
-        // Send urgent notifications via email/SMS
+        // Page the on-call rotation (the secondary is paged if nobody acknowledges in time)
         try {
-          await sendUrgentReportNotifications({
-            _id: savedReport._id.toString(),
-            shortId: savedReport.shortId,
-            category,
-            severity: reportData.priority || "high",
-            message: savedReport.message,
-            location: reportData.location || undefined,
-            timestamp: new Date()
-          });
-          console.log("📧 Urgent/high notifications sent successfully for GridFS report");
-        } catch (notifyError) {
-          console.error("❌ Failed to send urgent/high notifications:", notifyError);
+          await pageOnCallForAlert(alert);
+        } catch (pageError) {
+          console.error("❌ Failed to page on-call admins:", pageError);
         }
 
+        // Email/SMS the admins whose notification preferences match (never throws)
+        await processReportNotification({
+          reportId: savedReport._id.toString(),
+          shortId: savedReport.shortId,
+          message: piiRedaction.text,
+          category,
+          priority: reportData.priority,
+          timestamp: new Date(),
+          hasMedia: !!(savedReport.photo_file_id || savedReport.video_file_id),
+          location: processedLocation ? {
+            lat: processedLocation.lat,
+            lng: processedLocation.lng,
+            address: processedLocation.address
+          } : undefined
+        });
+
         // Broadcast to admin dashboard in real-time
         try {
           broadcastToAdmins('urgent-report', {
@@ -214,7 +269,7 @@ export const createReportWithGridFS: RequestHandler = async (req, res) => {
             shortId: savedReport.shortId,
             category,
             severity: reportData.priority || "high",
-            message: savedReport.message,
+            message: piiRedaction.text,
             ai_classification: savedReport.ai_classification || reportData.ai_classification || null,
             created_at: new Date().toISOString()
           });
@@ -229,7 +284,7 @@ export const createReportWithGridFS: RequestHandler = async (req, res) => {
           const reportForNotification = {
             id: savedReport._id.toString(),
             shortId: savedReport.shortId,
-            message: savedReport.message,
+            message: piiRedaction.text,
             category: savedReport.category,
             severity: savedReport.priority || savedReport.severity,
             status: savedReport.status,
@@ -258,6 +313,7 @@ export const createReportWithGridFS: RequestHandler = async (req, res) => {
           id: savedReport._id.toString(), // For backward compatibility
           shortId: savedReport.shortId,
           is_encrypted: savedReport.is_encrypted,
+          reporterSecret,
           imageFiles: imageFileIds.length,
           videoFiles: videoFileIds.length,
           locationAccuracy: savedReport.location?.accuracy
@@ -265,11 +321,16 @@ export const createReportWithGridFS: RequestHandler = async (req, res) => {
         message: "Report submitted successfully",
       });
 
-      // Background AI classification - non-blocking
+      // Background AI classification - non-blocking, only when the pre-save one failed
       setImmediate(async () => {
+        if (reportData.ai_classification) return;
         try {
-          const classification = await classifyReport({ message: message || savedReport.message, category, priority: reportData.priority });
-          await ReportModel.findByIdAndUpdate(savedReport._id, { $set: { ai_classification: classification } }).exec();
+          const outcome = await classifyReport({ message: message || savedReport.message, category, priority: reportData.priority });
+          const classification = toStoredClassification(outcome);
+          await ReportModel.findByIdAndUpdate(savedReport._id, {
+            $set: { ai_classification: classification },
+            $push: { ai_history: buildAiHistoryEntry('classify', 'system', outcome) }
+          }).exec();
           console.log('🧠 AI classification saved for GridFS report', savedReport.shortId, classification);
         } catch (err) {
           console.error('❌ Failed to classify/persist GridFS report:', err);
@@ -288,36 +349,30 @@ export const createReportWithGridFS: RequestHandler = async (req, res) => {
 
 /**
  * Get file from GridFS by ID with automatic decryption
+ * Supports Range requests (206 Partial Content) for seeking in videos
  */
 export const getGridFSFile: RequestHandler = async (req, res) => {
   try {
     const { fileId } = req.params;
-    console.log(`📁 Serving file: ${fileId}`);
-    
-    // Get decrypted file content
-    const { buffer, metadata, filename, contentType } = await getDecryptedFile(fileId);
+    console.log(`📁 Serving file: ${fileId}${req.headers.range ? ` (${req.headers.range})` : ''}`);
     
-    // Set headers for file streaming
-    res.set({
-      'Content-Type': contentType,
-      'Content-Disposition': `inline; filename="${filename}"`,
-      'Cache-Control': 'private, max-age=3600',
-      'Content-Length': buffer.length.toString(),
-    });
+    // Streams (and decrypts) only the requested range, so seeking in large videos is cheap
+    const { size, range } = await serveGridFSFile(req, res, fileId);
 
-    // Send decrypted file buffer
-    res.send(buffer);
+    // Evidence files read through here are logged against their report, once per viewing
+    if (res.statusCode < 400 && (!range || range.start === 0)) {
+      await logMediaRead(fileId, UNAUTHENTICATED_ACTOR);
+    }
     
     console.log("📤 Decrypted file served:", {
       fileId,
-      filename,
-      contentType,
-      size: buffer.length,
-      encrypted: metadata?.encrypted || false
+      size,
+      range: range ? `${range.start}-${range.end}` : 'full'
     });
 
   } catch (error) {
     console.error("❌ File retrieval error:", error);
+    if (res.headersSent) return;
     
     if (error.message.includes("File not found")) {
       res.status(404).json({
@@ -3,7 +3,7 @@ import ReportModel from '../../shared/models/report';
 import AlertModel from '../../shared/models/Alert';
 import { initializeGridFS, gridfsUpload, getFileById, deleteFileById } from '../utils/gridfsStorage';
 import { ReportCategory, ReportSeverity, LocationData } from '../../shared/api';
-import { moderateContent, ModerationResult } from '../../client/lib/ai-moderation';
+import { moderateContent, ModerationResult } from '../../shared/moderation';
 import { ObjectId } from 'mongodb';
 
 /**
@@ -0,0 +1,27 @@
+import { RequestHandler } from "express";
+import { ApiError } from "../middleware/errorHandler";
+import { getPublicStats, getPublicStatsCacheTtlSeconds } from "../utils/public-stats";
+
+/**
+ * Public dashboard statistics (no authentication)
+ * GET /api/reports/public-stats
+ */
+export const getPublicReportStats: RequestHandler = async (req, res) => {
+  try {
+    const stats = await getPublicStats();
+
+    // Let browsers/proxies reuse the response for the rest of the cache window
+    res.set('Cache-Control', `public, max-age=${getPublicStatsCacheTtlSeconds()}`);
+    res.json({
+      success: true,
+      data: stats,
+    });
+  } catch (error) {
+    console.error("❌ Error building public statistics:", error);
+    const status = error instanceof ApiError ? error.status : 500;
+    res.status(status).json({
+      success: false,
+      error: error instanceof ApiError ? error.message : "Failed to load statistics",
+    });
+  }
+};
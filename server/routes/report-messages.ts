@@ -0,0 +1,209 @@
+import { RequestHandler } from "express";
+import {
+  ReportMessagesResponse,
+  ReportThreadMessage,
+  SendReportMessageRequest,
+} from "../../shared/api";
+import ReportModel from "../../shared/models/report";
+import ReportMessageModel, { IReportMessage } from "../../shared/models/ReportMessage";
+import { AuthRequest } from "../middleware/authMiddleware";
+import { REPORTER_SECRET_HEADER, verifyReporterSecret } from "../utils/reporter-secret";
+import { notifyReporterMessage } from "../utils/realtime";
+import { queueReportUpdateNotifications } from "../utils/notificationHelpers";
+import { recordFirstResponse } from "../utils/sla";
+
+/**
+ * Two-way anonymous messaging between reporters and admins
+ * Reporters authenticate with shortId + reporter secret, admins with JWT
+ */
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+// Helper to find a report by MongoDB ObjectId or shortId
+const findReportByIdOrShortId = async (id: string, withSecret = false) => {
+  const query = id.match(/^[0-9a-fA-F]{24}$/)
+    ? ReportModel.findById(id)
+    : ReportModel.findOne({ shortId: id.toUpperCase() });
+
+  return withSecret ? query.select('+reporter_secret_hash') : query;
+};
+
+// Helper to convert a stored message to the API shape
+const toThreadMessage = (doc: IReportMessage, includeAdminUser: boolean): ReportThreadMessage => ({
+  id: doc._id.toString(),
+  sender: doc.sender,
+  message: doc.getDecryptedMessage(),
+  admin_user: includeAdminUser ? doc.admin_user : undefined,
+  created_at: doc.createdAt?.toISOString() || new Date().toISOString(),
+});
+
+// Helper to validate an incoming message body
+const validateMessageBody = (body: SendReportMessageRequest): string | null => {
+  const message = typeof body?.message === 'string' ? body.message.trim() : '';
+  if (!message) return "Message is required";
+  if (message.length > MAX_MESSAGE_LENGTH) return `Message must be ${MAX_MESSAGE_LENGTH} characters or less`;
+  return null;
+};
+
+/**
+ * Get the conversation thread for a report (reporter side)
+ * GET /api/reports/:id/messages  (header: X-Reporter-Secret)
+ */
+export const getReporterMessages: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const secret = req.get(REPORTER_SECRET_HEADER);
+
+    const report = await findReportByIdOrShortId(id, true);
+    if (!report || !verifyReporterSecret(secret, report.reporter_secret_hash)) {
+      // Same response for unknown report and wrong secret to avoid shortId probing
+      return res.status(403).json({ success: false, error: "Invalid report ID or reporter secret" });
+    }
+
+    const messages = await ReportMessageModel.findThread(report._id);
+
+    // Mark admin messages as read by the reporter
+    await ReportMessageModel.updateMany(
+      { reportId: report._id, sender: 'admin', read_by_reporter: false },
+      { $set: { read_by_reporter: true } }
+    );
+
+    const response: ReportMessagesResponse = {
+      shortId: report.shortId,
+      messages: messages.map((m) => toThreadMessage(m, false)),
+    };
+
+    res.json({ success: true, data: response });
+  } catch (error) {
+    console.error("❌ Error fetching reporter messages:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch messages" });
+  }
+};
+
+/**
+ * Post a follow-up message to the admin team (reporter side)
+ * POST /api/reports/:id/messages  (header: X-Reporter-Secret)
+ */
+export const postReporterMessage: RequestHandler = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const secret = req.get(REPORTER_SECRET_HEADER);
+
+    const validationError = validateMessageBody(req.body);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const report = await findReportByIdOrShortId(id, true);
+    if (!report || !verifyReporterSecret(secret, report.reporter_secret_hash)) {
+      return res.status(403).json({ success: false, error: "Invalid report ID or reporter secret" });
+    }
+
+    const saved = await new ReportMessageModel({
+      reportId: report._id,
+      shortId: report.shortId,
+      sender: 'reporter',
+      message: req.body.message.trim(),
+      read_by_reporter: true,
+    }).save();
+
+    console.log(`💬 Reporter message added to report ${report.shortId}`);
+
+    try {
+      notifyReporterMessage({
+        shortId: report.shortId,
+        reportId: report._id.toString(),
+        messageId: saved._id.toString(),
+        timestamp: saved.createdAt?.toISOString() || new Date().toISOString(),
+      });
+    } catch (notificationError) {
+      console.error("❌ Failed to send reporter message notification:", notificationError);
+    }
+    // Email/SMS admins as well; the reply itself is only readable in the dashboard
+    await queueReportUpdateNotifications('reporter_reply', report, saved._id.toString());
+
+    res.status(201).json({
+      success: true,
+      data: toThreadMessage(saved, false),
+      message: "Message sent",
+    });
+  } catch (error) {
+    console.error("❌ Error posting reporter message:", error);
+    res.status(500).json({ success: false, error: "Failed to send message" });
+  }
+};
+
+/**
+ * Get the conversation thread for a report (admin side)
+ * GET /api/admin/reports/:id/messages
+ */
+export const getAdminReportMessages: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const report = await findReportByIdOrShortId(id);
+    if (!report) {
+      return res.status(404).json({ success: false, error: "Report not found" });
+    }
+
+    const messages = await ReportMessageModel.findThread(report._id);
+
+    await ReportMessageModel.updateMany(
+      { reportId: report._id, sender: 'reporter', read_by_admin: false },
+      { $set: { read_by_admin: true } }
+    );
+
+    const response: ReportMessagesResponse = {
+      shortId: report.shortId,
+      messages: messages.map((m) => toThreadMessage(m, true)),
+    };
+
+    res.json({ success: true, data: response });
+  } catch (error) {
+    console.error("❌ Error fetching admin report messages:", error);
+    res.status(500).json({ success: false, error: "Failed to fetch messages" });
+  }
+};
+
+/**
+ * Send a message to the anonymous reporter (admin side)
+ * POST /api/admin/reports/:id/messages
+ */
+export const postAdminReportMessage: RequestHandler = async (req: AuthRequest, res) => {
+  try {
+    const { id } = req.params;
+
+    const validationError = validateMessageBody(req.body);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const report = await findReportByIdOrShortId(id);
+    if (!report) {
+      return res.status(404).json({ success: false, error: "Report not found" });
+    }
+
+    const saved = await new ReportMessageModel({
+      reportId: report._id,
+      shortId: report.shortId,
+      sender: 'admin',
+      admin_user: req.user?.username || req.admin?.username || "Admin",
+      message: req.body.message.trim(),
+      read_by_admin: true,
+    }).save();
+
+    // Replying to the reporter counts as the first admin response for SLA tracking
+    await recordFirstResponse(report._id);
+
+    console.log(`💬 Admin message added to report ${report.shortId}`);
+
+    res.status(201).json({
+      success: true,
+      data: toThreadMessage(saved, true),
+      message: "Message sent",
+    });
+  } catch (error) {
+    console.error("❌ Error posting admin report message:", error);
+    res.status(500).json({ success: false, error: "Failed to send message" });
+  }
+};
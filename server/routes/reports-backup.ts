@@ -18,6 +18,7 @@ import {
   ModerationResult,
 } from "@shared/api";
 import ReportModel from "../../shared/models/report";
+import { moderateContent } from "@shared/moderation";
 import AlertModel from "../../shared/models/Alert";
 import { notifyNewReport } from "../utils/realtime"; // Use Socket.io instead of SSE
 import { AuthService, AuthRequest } from "../utils/auth";
@@ -27,31 +28,6 @@ import { DataEncryption } from "../utils/encryption";
 const ADMIN_USERNAME = process.env.ADMIN_USERNAME || "admin";
 const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || "admin123";
 
-// Simple AI moderation (server-side backup)
-function moderateContent(text: string): ModerationResult {
-  const offensiveTerms = ["fuck", "shit", "kill", "die", "hate", "threat"];
-  const lowercaseText = text.toLowerCase();
-  const detectedTerms: string[] = [];
-
-  offensiveTerms.forEach((term) => {
-    if (lowercaseText.includes(term)) {
-      detectedTerms.push(term);
-    }
-  });
-
-  const isFlagged = detectedTerms.length > 0;
-  const confidence = Math.min(detectedTerms.length * 0.3, 1);
-
-  return {
-    isFlagged,
-    reason: isFlagged
-      ? "Potentially inappropriate content detected"
-      : undefined,
-    confidence,
-    detectedTerms,
-  };
-}
-
 export const createReport: RequestHandler = async (req, res) => {
   try {
     console.log("Received report submission with enhanced features"); // Debug log (no sensitive data)
@@ -14,31 +14,6 @@ import ReportModel from "../../shared/models/report";
 import { notifyNewReport } from "../utils/realtime"; // Use Socket.io instead of SSE
 import { AuthService } from "../utils/auth";
 
-// Simple AI moderation (server-side backup)
-function moderateContent(text: string): ModerationResult {
-  const offensiveTerms = ["fuck", "shit", "kill", "die", "hate", "threat"];
-  const lowercaseText = text.toLowerCase();
-  const detectedTerms: string[] = [];
-
-  offensiveTerms.forEach((term) => {
-    if (lowercaseText.includes(term)) {
-      detectedTerms.push(term);
-    }
-  });
-
-  const isFlagged = detectedTerms.length > 0;
-  const confidence = Math.min(detectedTerms.length * 0.3, 1);
-
-  return {
-    isFlagged,
-    reason: isFlagged
-      ? "Potentially inappropriate content detected"
-      : undefined,
-    confidence,
-    detectedTerms,
-  };
-}
-
 export const getReports: RequestHandler = async (req, res) => {
   try {
     const { status } = req.query;
@@ -2,21 +2,36 @@ import { RequestHandler } from "express";
 import ReportModel from "../../shared/models/report";
 import AlertModel from "../../shared/models/Alert";
 import { uploadFields } from "../utils/gridfs";
+import { queueReportPreviews } from "../utils/media-previews";
 import { DataEncryption } from "../utils/encryption";
 import { 
   encryptSensitiveData,
   decryptSensitiveData,
   EncryptedData,
-  verifyToken
+  verifyToken,
+  AuthRequest
 } from "../middleware/authMiddleware";
 import { 
   processReportNotification, 
+  queueEmailNotification,
+  queueReportUpdateNotifications,
   NotificationData 
 } from "../utils/notificationHelpers";
-import { sendUrgentReportNotifications } from "../utils/notifications";
+import { pageOnCallForAlert } from "../utils/on-call";
+import { announceAlert } from "../utils/alerts";
 import { broadcastToAdmins, notifyNewReport } from "../utils/realtime";
 import mongoose from "mongoose";
-import { classifyReport } from "../utils/ai-classifier";
+import { buildAiHistoryEntry, classifyReport, toStoredClassification } from "../utils/ai-classifier";
+import { applyRuleActions, evaluateModerationRules } from "../utils/moderation-rules";
+import { redactPII, redactText } from "../utils/pii";
+import {
+  generateReporterSecret,
+  hashReporterSecret,
+  verifyReporterSecret,
+  REPORTER_SECRET_HEADER
+} from "../utils/reporter-secret";
+import { buildHistoryEntry, getHistoryActor, SYSTEM_ACTOR, toReporterHistory } from "../utils/report-history";
+import { buildReportIntegrity, getReportMedia, logEvidenceEvent, REPORTER_ACTOR } from "../utils/evidence-log";
 
 /**
  * Universal Report Creation Handler
@@ -79,13 +94,21 @@ async function processReportCreation(req: any, res: any) {
     const allowedPriorities = ['low', 'medium', 'high', 'urgent'];
     const finalPriority = allowedPriorities.includes(normalizedPriority) ? normalizedPriority : 'medium';
 
+    // Admin-managed moderation rules, run on the plaintext message
+    const ruleVerdict = await evaluateModerationRules(message);
+    // Previews and alerts only ever carry the PII-redacted message
+    const piiRedaction = redactPII(message.trim());
+
     const reportData: any = {
       category: category || 'feedback',
       // store both for compatibility
       priority: finalPriority,
       severity: finalPriority,
       is_encrypted: is_encrypted === 'true' || is_encrypted === true,
-      share_location: share_location === 'true' || share_location === true
+      share_location: share_location === 'true' || share_location === true,
+      // Same engine as the report form preview
+      moderation: ruleVerdict.moderation,
+      pii: { types: piiRedaction.types, count: piiRedaction.count }
     };
     
     // Handle encryption
@@ -157,25 +180,57 @@ async function processReportCreation(req: any, res: any) {
       }
     }
     
+    // Rule actions (flag / raise priority) apply before classification
+    let flagComment = applyRuleActions(reportData, ruleVerdict);
+
     // Run AI classification synchronously on the plaintext message so flagged reports
     // are persisted and visible immediately in the dashboard.
     try {
-      const classification = await classifyReport({ message, category: reportData.category, priority: reportData.priority });
+      const outcome = await classifyReport({ message, category: reportData.category, priority: reportData.priority });
+      const classification = toStoredClassification(outcome);
       reportData.ai_classification = classification;
+      reportData.ai_history = [buildAiHistoryEntry('classify', 'system', outcome)];
       // Persist top-level convenience fields for legacy compatibility and easy querying
       if (typeof classification.score === 'number') reportData.confidentialityScore = classification.score;
-      if (typeof classification.flagged === 'boolean') reportData.flagged = classification.flagged;
-      if (classification.flagged) {
+      if (typeof classification.flagged === 'boolean') reportData.flagged = reportData.flagged || classification.flagged;
+      if (classification.flagged && !flagComment) {
         reportData.status = 'flagged';
+        flagComment = 'AI classification flagged the report';
       }
       console.log('🧠 AI classification (pre-save):', classification);
     } catch (aiErr) {
       console.warn('⚠️ AI classification failed (pre-save):', aiErr);
     }
 
+    // Issue the reporter secret - only its hash is persisted
+    const reporterSecret = generateReporterSecret();
+    reportData.reporter_secret_hash = hashReporterSecret(reporterSecret);
+
+    // Start the audit trail with the submission itself
+    reportData.history = [buildHistoryEntry('created', SYSTEM_ACTOR, {
+      to: 'pending',
+      comment: 'Report submitted'
+    })];
+    if (flagComment) {
+      reportData.history.push(buildHistoryEntry('status', SYSTEM_ACTOR, {
+        from: 'pending',
+        to: 'flagged',
+        comment: flagComment
+      }));
+    }
+
+    // Evidence hashes are fixed at creation and can't be changed afterwards. The reporter's
+    // text is hashed, since an encrypted report only keeps a placeholder in `message`.
+    reportData.integrity = await buildReportIntegrity(message.trim(), getReportMedia(reportData));
+
     console.log("💾 Saving report to MongoDB...");
     const report = new ReportModel(reportData);
     const savedReport = await report.save();
+    await logEvidenceEvent(savedReport, 'created', REPORTER_ACTOR, {
+      status: savedReport.status,
+      message_sha256: reportData.integrity.message_sha256,
+      media: reportData.integrity.media
+    });
     
     console.log("✅ Report saved successfully:", {
       id: savedReport._id.toString(),
@@ -185,6 +240,29 @@ async function processReportCreation(req: any, res: any) {
       hasFiles: !!(savedReport.photo_file_id || savedReport.video_file_id)
     });
 
+    // List-view thumbnails / poster frames are rendered from the stored media in the background
+    if (savedReport.photo_file_id || savedReport.video_file_id) {
+      queueReportPreviews(savedReport._id.toString()).catch((previewError) =>
+        console.error("❌ Failed to queue media previews:", previewError)
+      );
+    }
+
+    // Rules with the notify action alert the admins by email
+    if (ruleVerdict.actions.includes('notify')) {
+      try {
+        await queueEmailNotification({
+          reportId: savedReport._id.toString(),
+          shortId: savedReport.shortId,
+          message: `Moderation rules matched: ${ruleVerdict.matches.map((m) => m.name).join(', ')}`,
+          category: reportData.category,
+          priority: reportData.priority,
+          timestamp: new Date()
+        }, undefined, `rules:${savedReport._id}:notify`);
+      } catch (notifyError) {
+        console.error("❌ Failed to queue moderation rule notification:", notifyError);
+      }
+    }
+
     // =======================================
     // REAL-TIME DASHBOARD NOTIFICATION - INSTANT DELIVERY
     // =======================================
@@ -206,7 +284,7 @@ async function processReportCreation(req: any, res: any) {
         address: reportData.location.address
       } : undefined,
       hasMedia: !!(savedReport.photo_file_id || savedReport.video_file_id),
-      message: reportData.is_encrypted ? "New encrypted report" : message.substring(0, 100),
+      message: reportData.is_encrypted ? "New encrypted report" : piiRedaction.text.substring(0, 100),
       ai_classification: savedReport.ai_classification || reportData.ai_classification || null
     };
     
@@ -234,23 +312,17 @@ async function processReportCreation(req: any, res: any) {
 
       await alert.save();
       console.log("🚨 Alert created for urgent report");
+      announceAlert(alert, savedReport.shortId);
 
-      // Send urgent notifications via email/SMS
+      // Page the on-call rotation (the secondary is paged if nobody acknowledges in time)
       try {
-        await sendUrgentReportNotifications({
-          _id: savedReport._id.toString(),
-          shortId: savedReport.shortId,
-          category: reportData.category,
-          severity: reportData.priority || "high",
-          message: reportData.is_encrypted ? "New encrypted urgent/high report received" : reportData.message,
-          location: reportData.location || undefined,
-          timestamp: new Date()
-        });
-        console.log("📧 Urgent/high notifications sent successfully");
-      } catch (notifyError) {
-        console.error("❌ Failed to send urgent/high notifications:", notifyError);
+        await pageOnCallForAlert(alert);
+      } catch (pageError) {
+        console.error("❌ Failed to page on-call admins:", pageError);
       }
 
+      // Email/SMS alerts are routed to the admins below, with the rest of the report notifications
+
       // Broadcast to admin dashboard in real-time
       try {
         broadcastToAdmins('urgent-report', {
@@ -258,7 +330,7 @@ async function processReportCreation(req: any, res: any) {
           shortId: savedReport.shortId,
           category: reportData.category,
           severity: reportData.priority || "high",
-          message: reportData.is_encrypted ? "New encrypted urgent/high report received" : reportData.message,
+          message: reportData.is_encrypted ? "New encrypted urgent/high report received" : piiRedaction.text,
           ai_classification: savedReport.ai_classification || reportData.ai_classification || null,
           created_at: new Date().toISOString()
         });
@@ -277,6 +349,7 @@ async function processReportCreation(req: any, res: any) {
         id: savedReport._id.toString(),
         shortId: savedReport.shortId,
         is_encrypted: savedReport.is_encrypted,
+        reporterSecret,
         imageFiles: req.files?.image ? req.files.image.length : 0,
         videoFiles: req.files?.video ? req.files.video.length : 0,
         locationAccuracy: reportData.location?.accuracy
@@ -291,7 +364,7 @@ async function processReportCreation(req: any, res: any) {
         const notificationData: NotificationData = {
           reportId: savedReport._id.toString(),
           shortId: savedReport.shortId,
-          message: reportData.is_encrypted ? "New encrypted report received" : message.substring(0, 100),
+          message: reportData.is_encrypted ? "New encrypted report received" : piiRedaction.text.substring(0, 100),
           category: reportData.category,
           priority: reportData.severity === 'urgent' ? 'urgent' : 
                    reportData.severity === 'high' ? 'high' : 'medium',
@@ -313,20 +386,20 @@ async function processReportCreation(req: any, res: any) {
       }
     });
 
-    // 🔍 BACKGROUND AI CLASSIFICATION (non-blocking)
+    // 🔍 BACKGROUND AI CLASSIFICATION (non-blocking) - retries when the pre-save one failed
     setImmediate(async () => {
+      if (reportData.ai_classification) return;
       try {
-        const classification = await classifyReport({ message: message || savedReport.message, category: reportData.category, priority: reportData.priority });
+        const outcome = await classifyReport({ message: message || savedReport.message, category: reportData.category, priority: reportData.priority });
+        const classification = toStoredClassification(outcome);
         // Persist classification to the saved report document
         try {
-          // Save ai_classification plus convenience fields confidentialityScore/flagged
-          const update: any = { ai_classification: classification };
-          if (typeof classification.score === 'number') update.confidentialityScore = classification.score;
-          if (typeof classification.flagged === 'boolean') update.flagged = classification.flagged;
-          // Also keep an ai_history array (push new entry)
-          update.$push = { ai_history: { $each: [{ label: classification.primaryLabel || (classification.labels && classification.labels[0]) || null, score: classification.score, flagged: classification.flagged, created_at: new Date() }], $position: 0 } };
-
-          await ReportModel.findByIdAndUpdate(savedReport._id, { $set: { ai_classification: classification, confidentialityScore: update.confidentialityScore, flagged: update.flagged }, $push: update.$push }).exec();
+          // Save ai_classification plus convenience fields confidentialityScore/flagged,
+          // and keep every provider's output in ai_history
+          await ReportModel.findByIdAndUpdate(savedReport._id, {
+            $set: { ai_classification: classification, confidentialityScore: classification.score, flagged: classification.flagged },
+            $push: { ai_history: buildAiHistoryEntry('classify', 'system', outcome) }
+          }).exec();
           console.log('🧠 AI classification saved for report', savedReport.shortId, classification);
         } catch (persistErr) {
           console.error('❌ Failed to persist AI classification:', persistErr);
@@ -453,6 +526,7 @@ export const patchReportStatus: RequestHandler = async (req, res) => {
       if (!decoded || !decoded.isAdmin) {
         return res.status(403).json({ success: false, error: 'Admin privileges required' });
       }
+      (req as AuthRequest).admin = decoded;
     } catch (authErr) {
       console.warn('⚠️ Unauthorized attempt to change report status:', authErr);
       return res.status(401).json({ success: false, error: 'Invalid or missing token' });
@@ -468,10 +542,20 @@ export const patchReportStatus: RequestHandler = async (req, res) => {
     const report = await ReportModel.findOne({ shortId });
     if (!report) return res.status(404).json({ success: false, error: 'Report not found' });
 
+    const previousStatus = report.status;
+    if (previousStatus !== status) {
+      report.addHistory(buildHistoryEntry('status', getHistoryActor(req as AuthRequest), { from: previousStatus, to: status }));
+    }
     report.status = status as any;
     if (status === 'resolved') report.resolved_at = new Date();
     await report.save();
 
+    if (previousStatus !== status) {
+      const actor = getHistoryActor(req as AuthRequest);
+      await logEvidenceEvent(report, 'status', actor, { from: previousStatus, to: status });
+      await queueReportUpdateNotifications('status_update', report, `${previousStatus}:${status}:${Date.now()}`, actor.admin_id);
+    }
+
     // Emit update to admin clients
     try {
       broadcastToAdmins('update-report', {
@@ -484,23 +568,6 @@ export const patchReportStatus: RequestHandler = async (req, res) => {
       console.warn('⚠️ Failed to emit update-report:', emitErr);
     }
 
-    // Notify admins by email/SMS for flagged/resolved events using existing template
-    if (['flagged', 'resolved'].includes(status)) {
-      try {
-        await sendUrgentReportNotifications({
-          _id: report._id.toString(),
-          shortId: report.shortId,
-          category: report.category || 'report',
-          severity: (report.priority || report.severity) || 'medium',
-          message: report.message || (report.encrypted_message ? 'Encrypted content' : ''),
-          location: report.location ? { latitude: (report.location as any).latitude || (report.location as any).lat, longitude: (report.location as any).longitude || (report.location as any).lng, city: (report.location as any).city, country: (report.location as any).country } : undefined,
-          timestamp: new Date()
-        });
-      } catch (notifyErr) {
-        console.warn('⚠️ Failed to send status-change notifications:', notifyErr);
-      }
-    }
-
     res.json({ success: true, data: { shortId: report.shortId, status: report.status } });
   } catch (error) {
     console.error('❌ Error updating report status:', error);
@@ -508,6 +575,11 @@ export const patchReportStatus: RequestHandler = async (req, res) => {
   }
 };
 
+/**
+ * GET /api/reports/:id/status
+ * Public status lookup. Without a valid reporter secret (X-Reporter-Secret header)
+ * only the bare status is returned - the shortId alone never unlocks report content.
+ */
 export const getReportByShortId: RequestHandler = async (req, res) => {
   try {
     // Handle both parameter names: :id and :shortId
@@ -516,14 +588,14 @@ export const getReportByShortId: RequestHandler = async (req, res) => {
     
     // Try to find by shortId first, then by MongoDB ObjectId
     let report = await ReportModel.findOne({ shortId: reportId })
-      .select('+message_encrypted +message_iv +message_salt +location_encrypted +location_iv +location_salt +reporterEmail_encrypted +reporterEmail_iv +reporterEmail_salt +admin_notes_encrypted +admin_notes_iv +admin_notes_salt +encrypted_message +encryption_iv +encryption_auth_tag +encrypted_data')
+      .select('+message_encrypted +message_iv +message_salt +location_encrypted +location_iv +location_salt +reporterEmail_encrypted +reporterEmail_iv +reporterEmail_salt +admin_notes_encrypted +admin_notes_iv +admin_notes_salt +encrypted_message +encryption_iv +encryption_auth_tag +encrypted_data +reporter_secret_hash')
       .lean();
     
     // If not found by shortId, try MongoDB ObjectId
     if (!report && mongoose.Types.ObjectId.isValid(reportId)) {
       console.log(`🔍 Not found by shortId, trying ObjectId: ${reportId}`);
       report = await ReportModel.findById(reportId)
-        .select('+message_encrypted +message_iv +message_salt +location_encrypted +location_iv +location_salt +reporterEmail_encrypted +reporterEmail_iv +reporterEmail_salt +admin_notes_encrypted +admin_notes_iv +admin_notes_salt +encrypted_message +encryption_iv +encryption_auth_tag +encrypted_data')
+        .select('+message_encrypted +message_iv +message_salt +location_encrypted +location_iv +location_salt +reporterEmail_encrypted +reporterEmail_iv +reporterEmail_salt +admin_notes_encrypted +admin_notes_iv +admin_notes_salt +encrypted_message +encryption_iv +encryption_auth_tag +encrypted_data +reporter_secret_hash')
         .lean();
     }
     
@@ -535,6 +607,22 @@ export const getReportByShortId: RequestHandler = async (req, res) => {
       });
     }
 
+    // Bare status only unless the reporter proves ownership with their secret
+    if (!verifyReporterSecret(req.get(REPORTER_SECRET_HEADER), report.reporter_secret_hash)) {
+      console.log(`🔒 Returning bare status for report ${report.shortId} (no valid reporter secret)`);
+      return res.json({
+        success: true,
+        data: {
+          shortId: report.shortId,
+          status: report.status || 'pending',
+          created_at: report.created_at || report.createdAt,
+          updated_at: report.updated_at || report.updatedAt,
+          details_locked: true
+        },
+        message: "Report status retrieved"
+      });
+    }
+
     // Decrypt report data using the new decryption utility
     console.log(`🔓 Decrypting report: ${report.shortId}`);
     const decryptedReport = await DataEncryption.decryptReportDocument(report);
@@ -544,7 +632,8 @@ export const getReportByShortId: RequestHandler = async (req, res) => {
       _id: report._id.toString(),
       id: report._id.toString(), // For backward compatibility
       shortId: report.shortId,
-      message: decryptedReport.message || '[NO MESSAGE]',
+      // Public view - PII stays out even for the reporter's own lookup
+      message: redactText(decryptedReport.message) || '[NO MESSAGE]',
       category: report.category,
       severity: report.severity,
       status: report.status || 'pending',
@@ -553,7 +642,9 @@ export const getReportByShortId: RequestHandler = async (req, res) => {
       video_file_id: report.video_file_id,
       is_encrypted: report.is_encrypted,
       created_at: report.created_at || report.createdAt,
-      updated_at: report.updated_at || report.updatedAt
+      updated_at: report.updated_at || report.updatedAt,
+      details_locked: false,
+      history: toReporterHistory(report.history)
     };
 
     console.log(`✅ Report retrieved and decrypted successfully: ${report.shortId} (searched by: ${reportId})`);
@@ -572,6 +663,10 @@ export const getReportByShortId: RequestHandler = async (req, res) => {
   }
 };
 
+/**
+ * GET /api/reports/:id
+ * Public report fetch by ObjectId - requires the reporter secret (X-Reporter-Secret header)
+ */
 export const getReportById: RequestHandler = async (req, res) => {
   try {
     const { id } = req.params;
@@ -583,7 +678,7 @@ export const getReportById: RequestHandler = async (req, res) => {
       });
     }
 
-    const report = await ReportModel.findById(id).lean();
+    const report = await ReportModel.findById(id).select('+reporter_secret_hash').lean();
 
     if (!report) {
       return res.status(404).json({
@@ -592,12 +687,19 @@ export const getReportById: RequestHandler = async (req, res) => {
       });
     }
 
+    if (!verifyReporterSecret(req.get(REPORTER_SECRET_HEADER), report.reporter_secret_hash)) {
+      return res.status(403).json({
+        success: false,
+        error: "Reporter secret required",
+      });
+    }
+
     res.json({
       success: true,
       report: {
         id: report._id.toString(),
         shortId: report.shortId,
-        message: report.message,
+        message: redactText(report.message),
         location: report.location,
         photo_file_id: report.photo_file_id?.toString(),
         video_file_id: report.video_file_id?.toString(),
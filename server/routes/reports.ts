@@ -13,6 +13,7 @@ import {
   EncryptedReportData,
 } from "../../shared/api";
 import ReportModel from "../../shared/models/report";
+import { moderateContent } from "../../shared/moderation";
 import AlertModel from "../../shared/models/Alert";
 import { notifyNewReport } from "../utils/realtime"; // Enhanced Socket.io notifications
 import { AuthService, AuthRequest } from "../utils/auth";
@@ -66,31 +67,6 @@ const mapDatabaseStatusToAPI = (status: string): ReportStatus => {
   }
 };
 
-// Simple AI moderation (server-side backup)
-function moderateContent(text: string): ModerationResult {
-  const offensiveTerms = ["fuck", "shit", "kill", "die", "hate", "threat"];
-  const lowercaseText = text.toLowerCase();
-  const detectedTerms: string[] = [];
-
-  offensiveTerms.forEach((term) => {
-    if (lowercaseText.includes(term)) {
-      detectedTerms.push(term);
-    }
-  });
-
-  const isFlagged = detectedTerms.length > 0;
-  const confidence = Math.min(detectedTerms.length * 0.3, 1);
-
-  return {
-    isFlagged,
-    reason: isFlagged
-      ? "Potentially inappropriate content detected"
-      : undefined,
-    confidence,
-    detectedTerms,
-  };
-}
-
 export const createReport: RequestHandler = async (req, res) => {
   try {
     console.log("🚀 Received report submission with enhanced features");
@@ -0,0 +1,43 @@
+import { RequestHandler } from "express";
+import twilio from "twilio";
+import { handleInboundSms } from "../utils/alerts";
+
+/**
+ * Twilio inbound SMS webhook - POST /api/sms/inbound
+ * Point the Twilio number's "A message comes in" webhook here. Requests must carry a valid
+ * X-Twilio-Signature for TWILIO_AUTH_TOKEN. Twilio signs the public URL it calls, so set
+ * TWILIO_WEBHOOK_URL when the server sits behind a proxy that rewrites the host or protocol.
+ * test-sms-inbound.js sends a correctly signed "ACK <ID>" for local testing.
+ */
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (char) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[char]!));
+
+const twiml = (reply: string | null) =>
+  `<?xml version="1.0" encoding="UTF-8"?><Response>${reply ? `<Message>${escapeXml(reply)}</Message>` : ''}</Response>`;
+
+export const handleInboundSmsWebhook: RequestHandler = async (req, res) => {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!authToken) {
+    console.warn('📱 Inbound SMS rejected: TWILIO_AUTH_TOKEN is not configured');
+    return res.status(503).json({ success: false, error: 'SMS webhook not configured' });
+  }
+
+  const signature = req.get('X-Twilio-Signature') || '';
+  const url = process.env.TWILIO_WEBHOOK_URL || `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+  if (!signature || !twilio.validateRequest(authToken, signature, url, req.body || {})) {
+    console.warn(`⚠️ Inbound SMS rejected: invalid Twilio signature for ${url}`);
+    return res.status(403).json({ success: false, error: 'Invalid signature' });
+  }
+
+  try {
+    const { From, Body } = req.body;
+    console.log(`📱 Inbound SMS from ${From}`);
+    const reply = await handleInboundSms(From, Body);
+    res.type('text/xml').send(twiml(reply));
+  } catch (error) {
+    console.error('❌ Error handling inbound SMS:', error);
+    // Still answer with TwiML so Twilio doesn't retry or report a webhook failure to the sender
+    res.type('text/xml').send(twiml('Whistle: could not process your message, please use the dashboard.'));
+  }
+};
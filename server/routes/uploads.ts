@@ -0,0 +1,121 @@
+import express from 'express';
+import { ApiError } from '../middleware/errorHandler.js';
+import {
+  UPLOAD_CHUNK_SIZE,
+  appendUploadChunk,
+  cancelUploadSession,
+  createUploadSession,
+  finalizeUploadSession,
+  getUploadSessionState
+} from '../utils/upload-sessions.js';
+
+const router = express.Router();
+
+/**
+ * Resumable Upload Routes
+ * Public (reporters are anonymous); the random upload_id is the only credential.
+ *
+ *   POST   /api/upload-sessions                 start: { filename, mime_type, total_size, sha256? }
+ *   GET    /api/upload-sessions/:id             current offset, to resume after a dropped connection
+ *   PUT    /api/upload-sessions/:id/chunks      raw chunk body, headers Upload-Offset + X-Chunk-SHA256
+ *   POST   /api/upload-sessions/:id/finalize    write the file to GridFS: { media_location_consent? }
+ *   DELETE /api/upload-sessions/:id             cancel
+ *
+ * The finalized upload is attached to a report by sending video_upload_id with the
+ * report form instead of the video file.
+ */
+
+// Raw chunk bodies, whatever Content-Type the client sends
+const rawChunk = express.raw({ type: () => true, limit: UPLOAD_CHUNK_SIZE + 1024 });
+
+// Helper to turn service errors into API responses
+const sendError = (res: express.Response, error: unknown, fallback: string) => {
+  if (error instanceof ApiError) {
+    return res.status(error.status).json({ success: false, error: error.message });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback });
+};
+
+/**
+ * Start a resumable upload
+ * POST /api/upload-sessions
+ */
+router.post('/', async (req, res) => {
+  try {
+    const session = await createUploadSession(req.body || {});
+    res.status(201).json({ success: true, data: session });
+  } catch (error) {
+    sendError(res, error, 'Failed to start upload');
+  }
+});
+
+/**
+ * Get the upload offset
+ * GET /api/upload-sessions/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const session = await getUploadSessionState(req.params.id);
+    res.setHeader('Upload-Offset', String(session.offset));
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({ success: true, data: session });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch upload');
+  }
+});
+
+/**
+ * Append the chunk at the current offset
+ * PUT /api/upload-sessions/:id/chunks
+ * A 409 response carries the offset the client should continue from.
+ */
+router.put('/:id/chunks', rawChunk, async (req, res) => {
+  const offset = Number(req.get('Upload-Offset'));
+  const chunk = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+  try {
+    const session = await appendUploadChunk(req.params.id, offset, chunk, req.get('X-Chunk-SHA256'));
+    res.setHeader('Upload-Offset', String(session.offset));
+    res.json({ success: true, data: session });
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 409) {
+      const session = await getUploadSessionState(req.params.id).catch(() => null);
+      if (session) {
+        res.setHeader('Upload-Offset', String(session.offset));
+        return res.status(409).json({ success: false, error: error.message, data: session });
+      }
+    }
+    sendError(res, error, 'Failed to store chunk');
+  }
+});
+
+/**
+ * Assemble the upload into GridFS
+ * POST /api/upload-sessions/:id/finalize
+ */
+router.post('/:id/finalize', async (req, res) => {
+  try {
+    // Reporter opted in to keeping where the video was taken (admins only)
+    const extractGps = ['true', 'on', '1'].includes(String(req.body?.media_location_consent));
+    const session = await finalizeUploadSession(req.params.id, { extractGps });
+    res.json({ success: true, data: session, message: 'Upload complete' });
+  } catch (error) {
+    sendError(res, error, 'Failed to finalize upload');
+  }
+});
+
+/**
+ * Cancel an upload
+ * DELETE /api/upload-sessions/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    await cancelUploadSession(req.params.id);
+    res.json({ success: true, message: 'Upload cancelled' });
+  } catch (error) {
+    sendError(res, error, 'Failed to cancel upload');
+  }
+});
+
+export default router;
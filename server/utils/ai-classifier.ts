@@ -1,9 +1,14 @@
 /**
  * Lightweight AI classifier for reports.
- * This is a pluggable, local implementation that can be replaced
- * with a cloud model or external service later.
+ * Classification runs through a registry of pluggable providers (keyword rules,
+ * a local naive Bayes model and an external HTTP model). Every available provider
+ * runs on each report so their outputs can be compared side by side; only the
+ * providers listed in AI_CLASSIFIER_PROVIDERS decide the stored classification,
+ * either as a fallback chain or as an ensemble (AI_CLASSIFIER_STRATEGY).
  */
-import type { IReport } from '../../shared/models/report';
+import { getMutedKeywordTerms } from './classifier-feedback';
+import { evaluateModerationRules } from './moderation-rules';
+import { getNaiveBayesModel, scoreNaiveBayes } from './naive-bayes';
 
 export interface AIClassificationResult {
   labels: string[];
@@ -13,80 +18,272 @@ export interface AIClassificationResult {
   score: number;
   flagged: boolean;
   reasons?: string[];
+  // Provider (or 'ensemble') that produced the decision
+  provider?: string;
 }
 
-// Basic rule-based classifier as a safe default.
-export async function classifyReport(report: { message: string; category?: string; priority?: string }): Promise<AIClassificationResult> {
-  const text = (report.message || '').toLowerCase();
-  // If an external AI service is configured, try it first
-  const aiServiceUrl = process.env.AI_SERVICE_URL;
-  if (aiServiceUrl) {
-    try {
-      const resp = await fetch(aiServiceUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ text: report.message, category: report.category, priority: report.priority })
-      });
-      if (resp.ok) {
-        const json = await resp.json();
-        const score = typeof json.score === 'number' ? Math.max(0, Math.min(100, Math.round(json.score))) : 0;
-        const confidence = typeof json.confidence === 'number' ? Math.max(0, Math.min(1, json.confidence)) : Math.min(0.98, score / 100);
-        const labels = Array.isArray(json.labels) ? json.labels : [];
-        const primaryLabel = labels[0] || (report.priority === 'urgent' ? 'urgent' : 'other');
-        const flagged = score > 70;
-        return { labels, primaryLabel, confidence, score, flagged, reasons: json.reasons || [] };
-      }
-    } catch (err) {
-      console.warn('⚠️ External AI service classification failed, falling back to local classifier:', err);
+export interface ClassifierInput {
+  message: string;
+  category?: string;
+  priority?: string;
+}
+
+export interface ClassifierProvider {
+  name: string;
+  // Providers that aren't configured or trained yet are skipped
+  isAvailable(): boolean | Promise<boolean>;
+  classify(input: ClassifierInput): Promise<AIClassificationResult>;
+}
+
+export interface ClassifierProviderOutput {
+  provider: string;
+  classification?: AIClassificationResult;
+  error?: string;
+  duration_ms: number;
+}
+
+export type ClassifierStrategy = 'chain' | 'ensemble';
+
+export interface ClassificationOutcome extends AIClassificationResult {
+  strategy: ClassifierStrategy;
+  providers: ClassifierProviderOutput[];
+}
+
+export const FLAG_THRESHOLD = 70;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Coerce any provider output into the stored classification shape
+ */
+export function normalizeClassification(raw: any, input: ClassifierInput, provider: string): AIClassificationResult {
+  const score = typeof raw?.score === 'number' ? clamp(Math.round(raw.score), 0, 100) : 0;
+  const confidence = typeof raw?.confidence === 'number' ? clamp(raw.confidence, 0, 1) : Math.min(0.98, score / 100);
+  const labels: string[] = Array.isArray(raw?.labels) ? Array.from(new Set(raw.labels.map(String))) : [];
+  const primaryLabel = raw?.primaryLabel || labels[0] || (input.priority === 'urgent' ? 'urgent' : 'other');
+
+  return {
+    labels,
+    primaryLabel,
+    confidence,
+    score,
+    flagged: typeof raw?.flagged === 'boolean' ? raw.flagged : score > FLAG_THRESHOLD,
+    reasons: Array.isArray(raw?.reasons) ? raw.reasons : [],
+    provider,
+  };
+}
+
+// ================================================================================================
+// PROVIDERS
+// ================================================================================================
+
+/**
+ * Rule-based classifier - always available as a safe default. Labels and score
+ * boosts come from the admin-editable moderation rules (see moderation-rules.ts);
+ * terms that admin feedback keeps overruling are muted (see classifier-feedback.ts).
+ */
+export const keywordProvider: ClassifierProvider = {
+  name: 'keyword',
+  isAvailable: () => true,
+  async classify(report) {
+    const labels: string[] = [];
+    const reasons: string[] = [];
+
+    // Category hints
+    if (report.category) {
+      labels.push(report.category);
+      reasons.push(`category:${report.category}`);
+    }
+
+    const rules = await evaluateModerationRules(report.message || '', await getMutedKeywordTerms());
+    labels.push(...rules.labels);
+    reasons.push(...rules.reasons);
+    if (rules.matches.length) {
+      reasons.push(`rules:${rules.matches.map((m) => m.name).join(',')}`);
     }
+
+    // Heuristic confidence: more clues => higher confidence
+    const confidence = Math.min(0.2 + (labels.length * 0.25), 0.98);
+
+    // Heuristic risk score (0-100) based on keywords and priority, plus matched rule weights
+    const score = Math.min(100, Math.round(confidence * 60 + (report.priority === 'urgent' ? 30 : report.priority === 'high' ? 15 : 0)) + rules.weight);
+
+    return {
+      labels: Array.from(new Set(labels)),
+      primaryLabel: labels.length ? labels[0] : (report.priority === 'urgent' ? 'urgent' : 'other'),
+      confidence,
+      score,
+      flagged: score > FLAG_THRESHOLD,
+      reasons
+    };
   }
-  const labels: string[] = [];
-  const reasons: string[] = [];
+};
 
-  // Category hints
-  if (report.category) {
-    labels.push(report.category);
-    reasons.push(`category:${report.category}`);
+/**
+ * Local naive Bayes model trained on resolved reports (see naive-bayes.ts)
+ */
+export const naiveBayesProvider: ClassifierProvider = {
+  name: 'naive-bayes',
+  isAvailable: async () => !!(await getNaiveBayesModel()),
+  async classify(report) {
+    const model = await getNaiveBayesModel();
+    if (!model) throw new Error('Naive Bayes model has not been trained');
+
+    const { types, priorities, score, flagged } = scoreNaiveBayes(model, report.message, FLAG_THRESHOLD);
+    const top = types[0];
+
+    return {
+      labels: types.filter((t) => t.probability >= 0.2).map((t) => t.label),
+      primaryLabel: top?.label,
+      confidence: top?.probability || 0,
+      score,
+      flagged,
+      reasons: [
+        ...types.slice(0, 3).map((t) => `type:${t.label}=${t.probability.toFixed(2)}`),
+        ...priorities.slice(0, 2).map((p) => `priority:${p.label}=${p.probability.toFixed(2)}`),
+        `trained:${model.trainedAt}`
+      ]
+    };
   }
+};
 
-  // Keyword matching for common cases
-  const urgentTerms = ['help', 'emergency', 'urgent', 'bleeding', 'gun', 'fire', 'accident'];
-  const harassmentTerms = ['harass', 'abuse', 'stalk', 'threat', 'insult', 'hate'];
-  const safetyTerms = ['danger', 'unsafe', 'hazard', 'collapsed', 'blocked'];
-
-  for (const t of urgentTerms) if (text.includes(t)) { labels.push('urgent'); reasons.push(`term:${t}`); }
-  for (const t of harassmentTerms) if (text.includes(t)) { labels.push('harassment'); reasons.push(`term:${t}`); }
-  for (const t of safetyTerms) if (text.includes(t)) { labels.push('safety'); reasons.push(`term:${t}`); }
-
-  // Offensive content detection (simple)
-  const offensive = ['fuck', 'shit', 'die', 'kill', 'threat', 'bomb'];
-  const detectedOffensive = offensive.filter(o => text.includes(o));
-  if (detectedOffensive.length) {
-    labels.push('inappropriate');
-    reasons.push(`offensive:${detectedOffensive.join(',')}`);
+/**
+ * Generic HTTP model - POSTs {text, category, priority} to AI_SERVICE_URL
+ */
+export const httpProvider: ClassifierProvider = {
+  name: 'http',
+  isAvailable: () => !!process.env.AI_SERVICE_URL,
+  async classify(report) {
+    const resp = await fetch(process.env.AI_SERVICE_URL as string, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: report.message, category: report.category, priority: report.priority }),
+      signal: AbortSignal.timeout(parseInt(process.env.AI_SERVICE_TIMEOUT_MS || '5000'))
+    });
+    if (!resp.ok) {
+      throw new Error(`AI service responded with ${resp.status}`);
+    }
+    return resp.json();
   }
+};
+
+// ================================================================================================
+// REGISTRY
+// ================================================================================================
+
+const providers = new Map<string, ClassifierProvider>();
+
+/**
+ * Register (or replace) a classifier provider
+ */
+export function registerClassifierProvider(provider: ClassifierProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getClassifierProviders(): ClassifierProvider[] {
+  return Array.from(providers.values());
+}
 
-  // Heuristic confidence: more clues => higher confidence
-  const confidence = Math.min(0.2 + (labels.length * 0.25), 0.98);
+registerClassifierProvider(keywordProvider);
+registerClassifierProvider(naiveBayesProvider);
+registerClassifierProvider(httpProvider);
 
-  // Heuristic risk score (0-100) based on keywords and priority
-  let score = Math.round(confidence * 60 + (report.priority === 'urgent' ? 30 : report.priority === 'high' ? 15 : 0));
-  // Boost for certain high-risk terms
-  if (text.includes('gun') || text.includes('bomb') || text.includes('kill')) score = Math.min(100, score + 20);
-  if (detectedOffensive.length > 0) score = Math.min(100, score + 10);
+// Providers that decide, in priority order. Others still run for comparison.
+const getDecidingProviders = (): string[] =>
+  (process.env.AI_CLASSIFIER_PROVIDERS || 'http,keyword').split(',').map((name) => name.trim()).filter(Boolean);
 
-  const flagged = score > 70;
+const getStrategy = (): ClassifierStrategy =>
+  process.env.AI_CLASSIFIER_STRATEGY === 'ensemble' ? 'ensemble' : 'chain';
 
-  // Determine primary label heuristically
-  const primaryLabel = labels.length ? labels[0] : (report.priority === 'urgent' ? 'urgent' : 'other');
+/**
+ * Average the deciding providers' outputs: mean score and confidence,
+ * labels ordered by how many providers agree on them
+ */
+export function ensembleClassifications(results: AIClassificationResult[]): AIClassificationResult {
+  const votes = new Map<string, number>();
+  for (const result of results) {
+    for (const label of result.labels) votes.set(label, (votes.get(label) || 0) + 1);
+  }
+  const primaryVotes = new Map<string, number>();
+  for (const result of results) {
+    if (result.primaryLabel) primaryVotes.set(result.primaryLabel, (primaryVotes.get(result.primaryLabel) || 0) + 1);
+  }
+
+  const score = Math.round(results.reduce((sum, r) => sum + r.score, 0) / results.length);
+  const primaryLabel = Array.from(primaryVotes.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
 
   return {
-    labels: Array.from(new Set(labels)),
+    labels: Array.from(votes.entries()).sort((a, b) => b[1] - a[1]).map(([label]) => label),
     primaryLabel,
-    confidence,
+    confidence: results.reduce((sum, r) => sum + r.confidence, 0) / results.length,
     score,
-    flagged,
-    reasons
+    flagged: score > FLAG_THRESHOLD,
+    reasons: results.flatMap((r) => (r.reasons || []).map((reason) => `${r.provider}:${reason}`)),
+    provider: 'ensemble',
+  };
+}
+
+async function runProvider(provider: ClassifierProvider, input: ClassifierInput): Promise<ClassifierProviderOutput | null> {
+  const started = Date.now();
+  try {
+    if (!(await provider.isAvailable())) return null;
+    const raw = await provider.classify(input);
+    return {
+      provider: provider.name,
+      classification: normalizeClassification(raw, input, provider.name),
+      duration_ms: Date.now() - started
+    };
+  } catch (err: any) {
+    console.warn(`⚠️ Classifier provider "${provider.name}" failed:`, err?.message || err);
+    return { provider: provider.name, error: err?.message || String(err), duration_ms: Date.now() - started };
+  }
+}
+
+/**
+ * Classify a report with every available provider and combine the deciding ones
+ */
+export async function classifyReport(report: ClassifierInput): Promise<ClassificationOutcome> {
+  const outputs = (await Promise.all(getClassifierProviders().map((provider) => runProvider(provider, report))))
+    .filter((output): output is ClassifierProviderOutput => !!output);
+
+  const strategy = getStrategy();
+  const deciding = getDecidingProviders()
+    .map((name) => outputs.find((output) => output.provider === name)?.classification)
+    .filter((classification): classification is AIClassificationResult => !!classification);
+
+  let decision: AIClassificationResult;
+  if (deciding.length === 0) {
+    // Nothing configured answered - the keyword rules are the safe default
+    decision = outputs.find((output) => output.provider === keywordProvider.name)?.classification
+      || normalizeClassification(await keywordProvider.classify(report), report, keywordProvider.name);
+  } else if (strategy === 'ensemble') {
+    decision = ensembleClassifications(deciding);
+  } else {
+    decision = deciding[0];
+  }
+
+  return { ...decision, strategy, providers: outputs };
+}
+
+/**
+ * Stored classification without the per-provider breakdown
+ */
+export function toStoredClassification(outcome: ClassificationOutcome): AIClassificationResult {
+  const { strategy, providers: _providers, ...classification } = outcome;
+  return classification;
+}
+
+/**
+ * ai_history entry keeping every provider's output for side-by-side comparison
+ */
+export function buildAiHistoryEntry(action: string, by: string, outcome: ClassificationOutcome) {
+  return {
+    at: new Date(),
+    by,
+    action,
+    classification: toStoredClassification(outcome),
+    strategy: outcome.strategy,
+    providers: outcome.providers
   };
 }
 
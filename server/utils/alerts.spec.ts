@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { parseAckCode } from "./alerts";
+
+describe("alert acknowledgement", () => {
+  it("should parse ACK replies regardless of case and spacing", () => {
+    expect(parseAckCode("ACK AB12CD34")).toBe("AB12CD34");
+    expect(parseAckCode("  ack ab12cd34 \n")).toBe("AB12CD34");
+    // Alert codes are nanoids, which can contain "-" and "_"
+    expect(parseAckCode("ACK q7-x_2mk")).toBe("Q7-X_2MK");
+  });
+
+  it("should ignore anything that isn't a single ACK command", () => {
+    expect(parseAckCode("ACK")).toBeNull();
+    expect(parseAckCode("ACK AB12CD34 please")).toBeNull();
+    expect(parseAckCode("on my way")).toBeNull();
+    expect(parseAckCode("")).toBeNull();
+  });
+});
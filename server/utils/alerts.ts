@@ -0,0 +1,135 @@
+import AlertModel, { IAlert } from '../../shared/models/Alert';
+import ReportModel from '../../shared/models/report';
+import { AlertAckChannel, AlertSummary } from '../../shared/api';
+import { findAdminByPhone } from './notification-routing';
+import { notifyAlertUpdate } from './realtime';
+
+/**
+ * Alert Acknowledgement for Whistle App
+ * Urgent/emergency alerts stay active until an admin acknowledges them, from the dashboard
+ * or by replying "ACK <code>" to an alert SMS. Acknowledging stops the on-call rotation
+ * from paging the secondary.
+ */
+
+const ACK_PATTERN = /^\s*ACK\s+([A-Z0-9_-]{4,16})\s*$/i;
+
+export const toAlertSummary = (alert: IAlert | any): AlertSummary => ({
+  id: alert._id.toString(),
+  shortId: alert.shortId,
+  report_id: (alert.reportId?._id || alert.reportId).toString(),
+  report_short_id: alert.reportId?.shortId,
+  alertType: alert.alertType,
+  message: alert.message,
+  severity: alert.severity,
+  category: alert.category,
+  created_at: new Date(alert.created_at).toISOString(),
+  is_acknowledged: !!alert.is_acknowledged,
+  acknowledged_at: alert.acknowledged_at ? new Date(alert.acknowledged_at).toISOString() : undefined,
+  acknowledged_by: alert.acknowledged_by,
+  acknowledged_via: alert.acknowledged_via,
+  paged: (alert.pages || []).map((page: any) => `${page.name} (${page.role})`)
+});
+
+/**
+ * Newest alerts first, optionally only active (unacknowledged) ones
+ */
+export async function listAlerts(options: { active?: boolean; limit?: number } = {}): Promise<AlertSummary[]> {
+  const alerts = await AlertModel.find(options.active ? { is_acknowledged: false } : {})
+    .sort({ created_at: -1 })
+    .limit(Math.min(Math.max(options.limit || 50, 1), 200))
+    .populate('reportId', 'shortId')
+    .lean();
+  return alerts.map(toAlertSummary);
+}
+
+/**
+ * Acknowledge an alert. Atomic, so two admins acknowledging at once can't both claim it.
+ * Returns null when the alert doesn't exist; `acknowledged` is false if it already was.
+ */
+export async function acknowledgeAlert(
+  alertId: string,
+  acknowledgedBy: string,
+  via: AlertAckChannel
+): Promise<{ alert: IAlert; acknowledged: boolean } | null> {
+  const alert = await AlertModel.findOneAndUpdate(
+    { _id: alertId, is_acknowledged: false },
+    { $set: { is_acknowledged: true, acknowledged_at: new Date(), acknowledged_by: acknowledgedBy, acknowledged_via: via } },
+    { new: true }
+  ).populate('reportId', 'shortId');
+
+  if (!alert) {
+    const existing = await AlertModel.findById(alertId).populate('reportId', 'shortId');
+    return existing ? { alert: existing, acknowledged: false } : null;
+  }
+
+  console.log(`✅ Alert ${alert.shortId} acknowledged by ${acknowledgedBy} via ${via}`);
+  notifyAlertUpdate({
+    alertId: alert._id.toString(),
+    shortId: alert.shortId,
+    reportShortId: (alert.reportId as any)?.shortId,
+    action: 'acknowledged',
+    acknowledgedBy,
+    via,
+    timestamp: new Date().toISOString()
+  });
+  return { alert, acknowledged: true };
+}
+
+/**
+ * The alert or report ID in an "ACK <ID>" reply, or null if the message isn't one
+ */
+export const parseAckCode = (body: string): string | null => {
+  const match = ACK_PATTERN.exec(body || '');
+  return match ? match[1].toUpperCase() : null;
+};
+
+/**
+ * Open alerts for an SMS code: an alert's own code, or a report ID (every open alert on it)
+ */
+async function findOpenAlertsForCode(code: string): Promise<IAlert[]> {
+  const byAlert = await AlertModel.find({ shortId: code, is_acknowledged: false });
+  if (byAlert.length > 0) return byAlert;
+
+  const report = await ReportModel.findOne({ shortId: code }).select('_id').lean();
+  return report ? AlertModel.find({ reportId: report._id, is_acknowledged: false }) : [];
+}
+
+/**
+ * Handle an inbound SMS. Returns the reply to send, or null to stay silent
+ * Only numbers registered to an active admin can acknowledge alerts.
+ */
+export async function handleInboundSms(from: string, body: string): Promise<string | null> {
+  const admin = await findAdminByPhone(from || '');
+  if (!admin) {
+    console.warn(`⚠️ Ignoring inbound SMS from unregistered number ${from}`);
+    return null;
+  }
+
+  const code = parseAckCode(body);
+  if (!code) return 'Whistle: reply "ACK <ID>" to acknowledge an alert.';
+
+  const alerts = await findOpenAlertsForCode(code);
+  let acknowledged = 0;
+  for (const alert of alerts) {
+    const result = await acknowledgeAlert(alert._id.toString(), admin.name, 'sms');
+    if (result?.acknowledged) acknowledged++;
+  }
+
+  return acknowledged > 0
+    ? `Whistle: ${code} acknowledged by ${admin.name}. The secondary on-call will not be paged.`
+    : `Whistle: no open alert found for ${code}.`;
+}
+
+/**
+ * Raise the real-time "alert created" event for dashboards
+ */
+export const announceAlert = (alert: IAlert, reportShortId?: string): void => {
+  notifyAlertUpdate({
+    alertId: alert._id.toString(),
+    shortId: alert.shortId,
+    reportShortId,
+    action: 'created',
+    alertType: alert.alertType,
+    timestamp: new Date().toISOString()
+  });
+};
@@ -0,0 +1,42 @@
+/**
+ * Background Job Registration for Whistle App
+ * Wires escalations, notification deliveries, on-call paging, media maintenance, upload
+ * expiry and classifier training onto the durable job queue.
+ */
+
+import { CLASSIFIER_TRAIN_JOB, retrainClassifier } from "./classifier-feedback";
+import { initializeEscalationMonitoring } from "./escalation";
+import { cleanupOrphanedFiles } from "./gridfs";
+import { registerJobHandler, scheduleRecurringJob, startJobQueue } from "./job-queue";
+import { registerMediaPreviewJobs } from "./media-previews";
+import { registerNotificationJobs } from "./notificationHelpers";
+import { registerOnCallJobs } from "./on-call";
+import { UPLOAD_EXPIRY_JOB, expireUploadSessions } from "./upload-sessions";
+
+export const MEDIA_CLEANUP_JOB = 'media:cleanup';
+
+/**
+ * Register all job handlers and recurring jobs, then start the worker
+ */
+export function initializeBackgroundJobs(): void {
+  registerNotificationJobs();
+  registerOnCallJobs();
+  registerMediaPreviewJobs();
+
+  // Escalation checks (every 30 minutes)
+  initializeEscalationMonitoring();
+
+  // Orphaned upload cleanup (every 6 hours)
+  registerJobHandler(MEDIA_CLEANUP_JOB, () => cleanupOrphanedFiles(), { maxAttempts: 3 });
+  scheduleRecurringJob(MEDIA_CLEANUP_JOB, 6 * 60 * 60 * 1000);
+
+  // Abandoned resumable uploads (hourly)
+  registerJobHandler(UPLOAD_EXPIRY_JOB, () => expireUploadSessions(), { maxAttempts: 3 });
+  scheduleRecurringJob(UPLOAD_EXPIRY_JOB, 60 * 60 * 1000);
+
+  // Classifier retraining on resolved reports and admin feedback (daily)
+  registerJobHandler(CLASSIFIER_TRAIN_JOB, () => retrainClassifier(), { maxAttempts: 2 });
+  scheduleRecurringJob(CLASSIFIER_TRAIN_JOB, 24 * 60 * 60 * 1000);
+
+  startJobQueue();
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import crypto from "crypto";
+import { Readable } from "stream";
+import { createChunkDecryptStream, createChunkEncryptStream, createChunkEncryptTransform, decryptChunked, encryptChunked, getEncryptedRange } from "./chunked-encryption";
+
+const key = crypto.randomBytes(32);
+const plaintext = crypto.randomBytes(10_000);
+
+const readRange = async (encrypted: Buffer, params: any, start: number, end: number) => {
+  const range = getEncryptedRange(params, start, end);
+  // Feed the ciphertext in odd-sized pieces, like a GridFS download stream
+  const pieces: Buffer[] = [];
+  for (let i = range.start; i < range.end; i += 777) pieces.push(encrypted.subarray(i, Math.min(i + 777, range.end)));
+  const output: Buffer[] = [];
+  for await (const data of Readable.from(pieces).pipe(createChunkDecryptStream(key, params, start, end))) output.push(data);
+  return Buffer.concat(output);
+};
+
+describe("Chunked encryption", () => {
+  it("should round-trip and decrypt arbitrary byte ranges without the rest of the file", async () => {
+    const { encryptedBuffer, params } = encryptChunked(key, plaintext, 1024);
+
+    expect(encryptedBuffer.length).toBe(plaintext.length + 10 * 16);
+    expect(decryptChunked(key, encryptedBuffer, params).equals(plaintext)).toBe(true);
+    expect((await readRange(encryptedBuffer, params, 0, 9_999)).equals(plaintext)).toBe(true);
+    expect((await readRange(encryptedBuffer, params, 1000, 3100)).equals(plaintext.subarray(1000, 3101))).toBe(true);
+    expect((await readRange(encryptedBuffer, params, 9_990, 9_999)).equals(plaintext.subarray(9_990))).toBe(true);
+  });
+
+  it("should stream the same sealed chunks as the buffered encryption", async () => {
+    const { stream, params } = createChunkEncryptStream(key, plaintext, 1024);
+    const sealed: Buffer[] = [];
+    for await (const chunk of stream) sealed.push(chunk);
+
+    expect(sealed).toHaveLength(10);
+    expect(decryptChunked(key, Buffer.concat(sealed), params).equals(plaintext)).toBe(true);
+  });
+
+  it("should encrypt a stream of a declared size and reject any other size", async () => {
+    const encrypt = async (input: Buffer, size: number) => {
+      const { stream, params } = createChunkEncryptTransform(key, size, 1024);
+      const pieces: Buffer[] = [];
+      for (let i = 0; i < input.length; i += 777) pieces.push(input.subarray(i, i + 777));
+      const sealed: Buffer[] = [];
+      for await (const chunk of Readable.from(pieces).pipe(stream)) sealed.push(chunk);
+      return decryptChunked(key, Buffer.concat(sealed), params);
+    };
+
+    expect((await encrypt(plaintext, plaintext.length)).equals(plaintext)).toBe(true);
+    await expect(encrypt(plaintext, plaintext.length - 1)).rejects.toThrow("larger than declared");
+    await expect(encrypt(plaintext, plaintext.length + 1)).rejects.toThrow("smaller than declared");
+  });
+
+  it("should reject tampered, reordered or truncated ciphertext", async () => {
+    const { encryptedBuffer, params } = encryptChunked(key, plaintext, 1024);
+
+    const tampered = Buffer.from(encryptedBuffer);
+    tampered[2000] ^= 1;
+    expect(() => decryptChunked(key, tampered, params)).toThrow();
+
+    const swapped = Buffer.concat([encryptedBuffer.subarray(1040, 2080), encryptedBuffer.subarray(0, 1040), encryptedBuffer.subarray(2080)]);
+    expect(() => decryptChunked(key, swapped, params)).toThrow();
+
+    // Dropping the final chunk leaves a "last" chunk that wasn't sealed as last
+    const truncated = { ...params, plaintextSize: 9 * 1024 };
+    expect(() => decryptChunked(key, encryptedBuffer.subarray(0, 9 * 1040), truncated)).toThrow();
+    await expect(readRange(encryptedBuffer.subarray(0, 5000), params, 0, 9_999)).rejects.toThrow("truncated");
+  });
+});
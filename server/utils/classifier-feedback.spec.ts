@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { computeLabelMetrics, evaluateFeedback, extractFeedbackExample, findNoisyKeywordTerms } from "./classifier-feedback";
+
+const classify = (provider: string, primaryLabel: string, flagged: boolean, reasons: string[] = []) => ({
+  provider,
+  duration_ms: 1,
+  classification: { labels: [primaryLabel], primaryLabel, confidence: 0.5, score: flagged ? 80 : 10, flagged, reasons, provider },
+});
+
+describe("classifier feedback", () => {
+  it("should pair the latest admin correction with the predictions it overruled", () => {
+    const example = extractFeedbackExample({
+      _id: "r1",
+      text: "I am on a diet and could die of boredom",
+      ai_history: [
+        { at: "2024-03-01", action: "classify", providers: [classify("keyword", "inappropriate", true, ["offensive:die"]), classify("naive-bayes", "other", false)] },
+        { at: "2024-03-02", action: "reclassify", by: "admin@example.com", feedback: { label: "suggestion" } },
+        { at: "2024-03-03", action: "unflag", by: "admin@example.com" },
+      ],
+    });
+
+    expect(example).toMatchObject({ label: "suggestion", flagged: false, by: "admin@example.com" });
+    expect(example?.predictions.keyword).toMatchObject({ label: "inappropriate", flagged: true });
+    expect(extractFeedbackExample({ _id: "r2", text: "x", ai_history: [{ action: "classify", providers: [] }] })).toBeNull();
+  });
+
+  it("should compute precision/recall per label and mute keywords admins keep overruling", () => {
+    const metrics = computeLabelMetrics([
+      { actual: "harassment", predicted: "harassment" },
+      { actual: "harassment", predicted: "other" },
+      { actual: "other", predicted: "harassment" },
+    ]);
+    expect(metrics.harassment).toMatchObject({ precision: 0.5, recall: 0.5, support: 2, predicted: 2 });
+    expect(metrics.other).toMatchObject({ precision: 0, recall: 0 });
+
+    const examples = Array.from({ length: 6 }, (_, i) => ({
+      reportId: `r${i}`,
+      text: "please help",
+      flagged: i === 0,
+      at: new Date(),
+      by: "admin",
+      predictions: { keyword: { label: "inappropriate", flagged: true, reasons: ["offensive:die,kill"] } },
+    }));
+    expect(findNoisyKeywordTerms(examples)).toEqual(["die", "kill"]);
+    expect(evaluateFeedback(examples).keyword.flagged).toMatchObject({ precision: 0.167, recall: 1, support: 1 });
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Classifier Feedback Loop for Whistle App
+ * Turns admin corrections recorded in ai_history (reclassify overrides and unflags)
+ * into labeled examples, measures each provider against them (precision/recall per
+ * label) and retrains the local naive Bayes model. Keyword terms that admins keep
+ * overruling are muted for the keyword provider.
+ */
+
+import mongoose from "mongoose";
+import type { AIClassificationResult, ClassifierProviderOutput } from "./ai-classifier";
+import ReportModel from "../../shared/models/report";
+import SystemSettingModel from "../../shared/models/SystemSetting";
+import {
+  NaiveBayesSample,
+  loadResolvedReportSamples,
+  saveNaiveBayesModel,
+  scoreNaiveBayes,
+  trainNaiveBayes,
+} from "./naive-bayes";
+
+export const CLASSIFIER_TRAIN_JOB = 'classifier:train';
+export const CLASSIFIER_FEEDBACK_KEY = 'classifier_feedback';
+
+const MIN_TRAINING_SAMPLES = parseInt(process.env.NAIVE_BAYES_MIN_SAMPLES || '20');
+// Every Nth feedback example is held out to evaluate the retrained model
+const HOLDOUT_EVERY = 5;
+// A keyword is muted once admins overrule it this often
+const MUTE_MIN_SUPPORT = 5;
+const MUTE_MAX_PRECISION = 0.2;
+const SUMMARY_REFRESH_MS = 10 * 60 * 1000;
+
+/**
+ * Admin correction stored on an ai_history entry
+ */
+export interface ClassifierFeedback {
+  label?: string; // Correct report type
+  flagged?: boolean; // Whether the report deserved a flag
+}
+
+export interface FeedbackPrediction {
+  label?: string;
+  flagged: boolean;
+  reasons?: string[];
+}
+
+export interface FeedbackExample {
+  reportId: string;
+  shortId?: string;
+  text: string;
+  label?: string;
+  flagged: boolean;
+  at: Date;
+  by: string;
+  // What each provider predicted before the admin corrected it
+  predictions: Record<string, FeedbackPrediction>;
+}
+
+export interface LabelMetrics {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  support: number; // Examples actually carrying the label
+  predicted: number; // Examples the provider gave the label
+}
+
+export interface ProviderEvaluation {
+  examples: number;
+  accuracy: number | null;
+  labels: Record<string, LabelMetrics>;
+  flagged: LabelMetrics;
+}
+
+export interface ClassifierTrainingSummary {
+  trainedAt: string;
+  samples: number;
+  feedbackExamples: number;
+  holdout: ProviderEvaluation | null;
+  mutedTerms: string[];
+}
+
+// ================================================================================================
+// DATASET
+// ================================================================================================
+
+const toPrediction = (classification: AIClassificationResult | undefined): FeedbackPrediction | null =>
+  classification
+    ? { label: classification.primaryLabel, flagged: !!classification.flagged, reasons: classification.reasons }
+    : null;
+
+/**
+ * Latest admin correction in a report's ai_history, paired with the predictions
+ * that were in place right before it. Legacy unflags without a feedback field
+ * count as "should not have been flagged".
+ */
+export function extractFeedbackExample(report: {
+  _id: any;
+  shortId?: string;
+  text: string;
+  ai_history?: any[];
+}): FeedbackExample | null {
+  let predictions: Record<string, FeedbackPrediction> = {};
+  let example: FeedbackExample | null = null;
+
+  for (const entry of report.ai_history || []) {
+    const feedback: ClassifierFeedback | undefined = entry.feedback || (entry.action === 'unflag' ? { flagged: false } : undefined);
+
+    if (feedback) {
+      const previous = example;
+      example = {
+        reportId: String(report._id),
+        shortId: report.shortId,
+        text: report.text,
+        // A later unflag keeps the label from an earlier override
+        label: feedback.label ?? previous?.label,
+        flagged: feedback.flagged ?? previous?.flagged ?? false,
+        at: new Date(entry.at),
+        by: entry.by,
+        predictions: previous && Object.keys(predictions).length === 0 ? previous.predictions : predictions,
+      };
+      predictions = {};
+      continue;
+    }
+
+    if (Array.isArray(entry.providers)) {
+      predictions = {};
+      for (const output of entry.providers as ClassifierProviderOutput[]) {
+        const prediction = toPrediction(output.classification);
+        if (prediction) predictions[output.provider] = prediction;
+      }
+    } else if (entry.classification) {
+      // Entries from before providers were recorded
+      const prediction = toPrediction(entry.classification);
+      if (prediction) predictions = { [entry.classification.provider || 'legacy']: prediction };
+    }
+  }
+
+  return example;
+}
+
+/**
+ * Labeled examples from every report an admin has corrected
+ */
+export async function buildFeedbackDataset(since?: Date): Promise<FeedbackExample[]> {
+  const filter: any = {
+    ai_history: { $elemMatch: { $or: [{ feedback: { $exists: true } }, { action: 'unflag' }] } }
+  };
+  if (since) filter.updatedAt = { $gte: since };
+
+  // Hydrated documents so the post-find hook decrypts messages
+  const reports = await ReportModel.find(filter)
+    .select('message message_encrypted message_iv message_salt is_encrypted shortId ai_history');
+
+  return reports
+    .map((report: any) => extractFeedbackExample({
+      _id: report._id,
+      shortId: report.shortId,
+      text: typeof report.getDecryptedMessage === 'function' ? report.getDecryptedMessage() : report.message,
+      ai_history: report.ai_history,
+    }))
+    .filter((example): example is FeedbackExample => !!example && !!example.text && !example.text.startsWith('['));
+}
+
+// ================================================================================================
+// METRICS
+// ================================================================================================
+
+const ratio = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+
+/**
+ * Precision, recall and F1 per label from (actual, predicted) pairs
+ */
+export function computeLabelMetrics(pairs: Array<{ actual: string; predicted?: string }>): Record<string, LabelMetrics> {
+  const labels = new Set<string>();
+  for (const pair of pairs) {
+    labels.add(pair.actual);
+    if (pair.predicted) labels.add(pair.predicted);
+  }
+
+  const metrics: Record<string, LabelMetrics> = {};
+  for (const label of labels) {
+    const truePositives = pairs.filter((p) => p.actual === label && p.predicted === label).length;
+    const support = pairs.filter((p) => p.actual === label).length;
+    const predicted = pairs.filter((p) => p.predicted === label).length;
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+
+    metrics[label] = {
+      precision,
+      recall,
+      f1: precision !== null && recall !== null && precision + recall > 0
+        ? Math.round((2 * precision * recall / (precision + recall)) * 1000) / 1000
+        : null,
+      support,
+      predicted,
+    };
+  }
+  return metrics;
+}
+
+const flagLabel = (flagged: boolean) => (flagged ? 'flagged' : 'clear');
+
+const emptyMetrics = (): LabelMetrics => ({ precision: null, recall: null, f1: null, support: 0, predicted: 0 });
+
+/**
+ * Score every provider against the admin-corrected examples
+ */
+export function evaluateFeedback(examples: FeedbackExample[]): Record<string, ProviderEvaluation> {
+  const providers = new Set<string>();
+  for (const example of examples) {
+    for (const provider of Object.keys(example.predictions)) providers.add(provider);
+  }
+
+  const result: Record<string, ProviderEvaluation> = {};
+  for (const provider of providers) {
+    const scored = examples.filter((example) => example.predictions[provider]);
+    const labeled = scored.filter((example) => example.label);
+    const labelPairs = labeled.map((example) => ({ actual: example.label as string, predicted: example.predictions[provider].label }));
+    const flagPairs = scored.map((example) => ({
+      actual: flagLabel(example.flagged),
+      predicted: flagLabel(example.predictions[provider].flagged)
+    }));
+
+    result[provider] = {
+      examples: scored.length,
+      accuracy: ratio(labelPairs.filter((p) => p.actual === p.predicted).length, labelPairs.length),
+      labels: computeLabelMetrics(labelPairs),
+      flagged: computeLabelMetrics(flagPairs).flagged || emptyMetrics(),
+    };
+  }
+  return result;
+}
+
+/**
+ * Keyword terms whose flags admins overrule most of the time
+ */
+export function findNoisyKeywordTerms(examples: FeedbackExample[]): string[] {
+  const stats = new Map<string, { support: number; confirmed: number }>();
+
+  for (const example of examples) {
+    const reasons = example.predictions.keyword?.reasons || [];
+    const terms = new Set<string>();
+    for (const reason of reasons) {
+      if (reason.startsWith('term:')) terms.add(reason.slice(5));
+      if (reason.startsWith('offensive:')) reason.slice(10).split(',').forEach((term) => terms.add(term));
+    }
+    for (const term of terms) {
+      const entry = stats.get(term) || { support: 0, confirmed: 0 };
+      entry.support++;
+      if (example.flagged) entry.confirmed++;
+      stats.set(term, entry);
+    }
+  }
+
+  return Array.from(stats.entries())
+    .filter(([, { support, confirmed }]) => support >= MUTE_MIN_SUPPORT && confirmed / support < MUTE_MAX_PRECISION)
+    .map(([term]) => term)
+    .sort();
+}
+
+// ================================================================================================
+// RETRAINING
+// ================================================================================================
+
+const toSample = (example: FeedbackExample): NaiveBayesSample => ({
+  id: example.reportId,
+  text: example.text,
+  type: example.label,
+  flagged: example.flagged,
+});
+
+/**
+ * Resolved reports plus admin corrections; a correction replaces the labels of
+ * the same report's resolved sample
+ */
+function mergeSamples(resolved: NaiveBayesSample[], feedback: NaiveBayesSample[]): NaiveBayesSample[] {
+  const byId = new Map<string, NaiveBayesSample>();
+  for (const sample of resolved) byId.set(sample.id as string, sample);
+  for (const sample of feedback) {
+    const existing = byId.get(sample.id as string);
+    byId.set(sample.id as string, {
+      ...existing,
+      ...sample,
+      type: sample.type || existing?.type,
+    });
+  }
+  return Array.from(byId.values());
+}
+
+/**
+ * Retrain the naive Bayes model on resolved reports and admin feedback.
+ * A slice of the feedback is held out first to measure the new model, then the
+ * final model is trained on everything. Returns null when there isn't enough data.
+ */
+export async function retrainClassifier(): Promise<ClassifierTrainingSummary | null> {
+  const [resolved, examples] = await Promise.all([loadResolvedReportSamples(), buildFeedbackDataset()]);
+  const feedback = examples.map(toSample);
+  const samples = mergeSamples(resolved, feedback);
+
+  if (samples.length < MIN_TRAINING_SAMPLES) {
+    console.log(`🧠 Classifier training skipped: ${samples.length} samples (need ${MIN_TRAINING_SAMPLES})`);
+    return null;
+  }
+
+  let holdout: ProviderEvaluation | null = null;
+  const heldOut = examples.filter((_, i) => i % HOLDOUT_EVERY === 0);
+  if (heldOut.length > 0) {
+    const heldOutIds = new Set(heldOut.map((example) => example.reportId));
+    const candidate = trainNaiveBayes(samples.filter((sample) => !heldOutIds.has(sample.id as string)));
+    const predicted = heldOut.map((example) => {
+      const { types, flagged } = scoreNaiveBayes(candidate, example.text);
+      return { ...example, predictions: { 'naive-bayes': { label: types[0]?.label, flagged } } };
+    });
+    holdout = evaluateFeedback(predicted)['naive-bayes'] || null;
+  }
+
+  const model = trainNaiveBayes(samples);
+  await saveNaiveBayesModel(model);
+
+  const summary: ClassifierTrainingSummary = {
+    trainedAt: model.trainedAt,
+    samples: samples.length,
+    feedbackExamples: examples.length,
+    holdout,
+    mutedTerms: findNoisyKeywordTerms(examples),
+  };
+  await SystemSettingModel.setValue(CLASSIFIER_FEEDBACK_KEY, summary, 'system');
+  cachedSummary = { summary, loadedAt: Date.now() };
+
+  console.log(`🧠 Classifier retrained on ${samples.length} samples (${examples.length} from admin feedback)${summary.mutedTerms.length ? `, muted keywords: ${summary.mutedTerms.join(', ')}` : ''}`);
+  return summary;
+}
+
+let cachedSummary: { summary: ClassifierTrainingSummary | null; loadedAt: number } | null = null;
+
+/**
+ * Result of the last retraining (null when never trained)
+ */
+export async function getClassifierTrainingSummary(): Promise<ClassifierTrainingSummary | null> {
+  if (cachedSummary && Date.now() - cachedSummary.loadedAt < SUMMARY_REFRESH_MS) {
+    return cachedSummary.summary;
+  }
+  const summary = await SystemSettingModel.getValue<ClassifierTrainingSummary>(CLASSIFIER_FEEDBACK_KEY);
+  cachedSummary = { summary, loadedAt: Date.now() };
+  return summary;
+}
+
+/**
+ * Keyword terms muted by the last retraining. Never fails classification.
+ */
+export async function getMutedKeywordTerms(): Promise<string[]> {
+  // Don't let classification wait on buffered queries while the database is down
+  if (mongoose.connection.readyState !== 1) return cachedSummary?.summary?.mutedTerms || [];
+  try {
+    return (await getClassifierTrainingSummary())?.mutedTerms || [];
+  } catch (error) {
+    console.warn('⚠️ Could not load muted keyword terms:', error);
+    return [];
+  }
+}
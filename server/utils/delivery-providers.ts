@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import twilio from 'twilio';
+import { NotificationChannel } from '../../shared/api';
+
+/**
+ * SMS and Email Providers for Whistle App
+ * Every outbound SMS/email goes through a provider. delivery.ts tries the configured
+ * providers in order (SMS_PROVIDERS / EMAIL_PROVIDERS) and fails over to the next one.
+ *
+ * Providers:
+ * - twilio (SMS): TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN (or TWILIO_API_KEY/SECRET),
+ *   TWILIO_FROM_NUMBER or TWILIO_MESSAGING_SERVICE_SID
+ * - smtp (email): SMTP_HOST, SMTP_PORT, SMTP_USER/SMTP_PASS (or EMAIL_USER/EMAIL_PASS),
+ *   FROM_EMAIL, FROM_NAME. Certificates are verified unless SMTP_ALLOW_SELF_SIGNED=true
+ * - webhook (SMS and email): POSTs JSON to SMS_WEBHOOK_URL / EMAIL_WEBHOOK_URL, with an
+ *   optional bearer token in SMS_WEBHOOK_TOKEN / EMAIL_WEBHOOK_TOKEN
+ * - memory (SMS and email): keeps messages in memory, for tests and local development
+ */
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  priority?: 'high' | 'normal' | 'low';
+}
+
+export interface ProviderSendResult {
+  messageId: string;
+}
+
+interface DeliveryProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+}
+
+// Providers throw when a send fails, so the caller can fail over
+export interface SmsProvider extends DeliveryProvider {
+  sendSms(message: SmsMessage): Promise<ProviderSendResult>;
+}
+
+export interface EmailProvider extends DeliveryProvider {
+  sendEmail(message: EmailMessage): Promise<ProviderSendResult>;
+  verify?(): Promise<void>;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// ================================================================================================
+// TWILIO (SMS)
+// ================================================================================================
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio';
+  private client: twilio.Twilio | null = null;
+
+  isConfigured(): boolean {
+    const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_API_KEY, TWILIO_API_SECRET } = process.env;
+    const hasCredentials = !!TWILIO_AUTH_TOKEN || (!!TWILIO_API_KEY && !!TWILIO_API_SECRET);
+    return !!TWILIO_ACCOUNT_SID && hasCredentials && !!(process.env.TWILIO_FROM_NUMBER || process.env.TWILIO_MESSAGING_SERVICE_SID);
+  }
+
+  private getClient(): twilio.Twilio {
+    if (!this.client) {
+      const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_API_KEY, TWILIO_API_SECRET } = process.env;
+      this.client = TWILIO_AUTH_TOKEN
+        ? twilio(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN)
+        : twilio(TWILIO_API_KEY, TWILIO_API_SECRET, { accountSid: TWILIO_ACCOUNT_SID });
+    }
+    return this.client;
+  }
+
+  async sendSms(message: SmsMessage): Promise<ProviderSendResult> {
+    const messagingServiceSid = process.env.TWILIO_MESSAGING_SERVICE_SID;
+    try {
+      const result = await this.getClient().messages.create({
+        body: message.body,
+        to: message.to,
+        ...(messagingServiceSid ? { messagingServiceSid } : { from: process.env.TWILIO_FROM_NUMBER })
+      });
+      return { messageId: result.sid };
+    } catch (error: any) {
+      // 20003 is an authentication failure - usually expired or rotated credentials
+      throw new Error(error.code ? `Twilio error ${error.code}: ${error.message}` : error.message);
+    }
+  }
+}
+
+// ================================================================================================
+// SMTP (EMAIL)
+// ================================================================================================
+
+export class SmtpEmailProvider implements EmailProvider {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter | null = null;
+
+  private get user() {
+    return process.env.SMTP_USER || process.env.EMAIL_USER || '';
+  }
+
+  isConfigured(): boolean {
+    return !!this.user && !!(process.env.SMTP_PASS || process.env.EMAIL_PASS);
+  }
+
+  private getTransporter(): nodemailer.Transporter {
+    if (!this.transporter) {
+      const port = parseInt(process.env.SMTP_PORT || '587');
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST || 'smtp.gmail.com',
+        port,
+        secure: port === 465,
+        auth: { user: this.user, pass: process.env.SMTP_PASS || process.env.EMAIL_PASS },
+        tls: { rejectUnauthorized: process.env.SMTP_ALLOW_SELF_SIGNED !== 'true' }
+      });
+    }
+    return this.transporter;
+  }
+
+  async sendEmail(message: EmailMessage): Promise<ProviderSendResult> {
+    const fromEmail = process.env.FROM_EMAIL || this.user;
+    const fromName = process.env.FROM_NAME || 'Whistle Security System';
+    const info = await this.getTransporter().sendMail({
+      from: `"${fromName}" <${fromEmail}>`,
+      to: message.to.join(', '),
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      priority: message.priority
+    });
+    return { messageId: info.messageId };
+  }
+
+  async verify(): Promise<void> {
+    await this.getTransporter().verify();
+  }
+}
+
+// ================================================================================================
+// HTTP WEBHOOK (SMS AND EMAIL)
+// ================================================================================================
+
+/**
+ * Generic HTTP provider: POSTs `{ channel, ...message }` as JSON to a gateway
+ * The response may carry the gateway's message id as `id` or `messageId`
+ */
+export class WebhookProvider implements SmsProvider, EmailProvider {
+  readonly name = 'webhook';
+
+  constructor(private readonly channel: NotificationChannel) {}
+
+  private get url() {
+    return process.env[this.channel === 'sms' ? 'SMS_WEBHOOK_URL' : 'EMAIL_WEBHOOK_URL'];
+  }
+
+  isConfigured(): boolean {
+    return !!this.url;
+  }
+
+  private async post(payload: SmsMessage | EmailMessage): Promise<ProviderSendResult> {
+    const token = process.env[this.channel === 'sms' ? 'SMS_WEBHOOK_TOKEN' : 'EMAIL_WEBHOOK_TOKEN'];
+    const response = await fetch(this.url!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: JSON.stringify({ channel: this.channel, ...payload }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status} ${response.statusText}`.trim());
+    }
+
+    const result: any = await response.json().catch(() => ({}));
+    return { messageId: String(result.id || result.messageId || `webhook-${crypto.randomUUID()}`) };
+  }
+
+  sendSms(message: SmsMessage): Promise<ProviderSendResult> {
+    return this.post(message);
+  }
+
+  sendEmail(message: EmailMessage): Promise<ProviderSendResult> {
+    return this.post(message);
+  }
+}
+
+// ================================================================================================
+// IN-MEMORY (TESTS)
+// ================================================================================================
+
+/**
+ * Records messages instead of sending them. `failWith` makes every send throw,
+ * to exercise failover and health tracking.
+ */
+export class MemoryProvider implements SmsProvider, EmailProvider {
+  readonly sent: Array<{ channel: NotificationChannel; messageId: string; message: SmsMessage | EmailMessage }> = [];
+  failWith: string | null = null;
+
+  constructor(readonly name: string = 'memory') {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private record(channel: NotificationChannel, message: SmsMessage | EmailMessage): ProviderSendResult {
+    if (this.failWith) throw new Error(this.failWith);
+    const messageId = `${this.name}-${this.sent.length + 1}`;
+    this.sent.push({ channel, messageId, message });
+    return { messageId };
+  }
+
+  async sendSms(message: SmsMessage): Promise<ProviderSendResult> {
+    return this.record('sms', message);
+  }
+
+  async sendEmail(message: EmailMessage): Promise<ProviderSendResult> {
+    return this.record('email', message);
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemoryProvider } from "./delivery-providers";
+import { DeliveryError, getProviderHealth, PROVIDER_RETRY_MS, sendSms, setDeliveryProviders } from "./delivery";
+
+const sms = { to: "+15551234567", body: "Whistle test" };
+
+describe("message delivery", () => {
+  let primary: MemoryProvider;
+  let backup: MemoryProvider;
+
+  beforeEach(() => {
+    primary = new MemoryProvider("primary");
+    backup = new MemoryProvider("backup");
+    setDeliveryProviders("sms", [primary, backup]);
+    setDeliveryProviders("email", []);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should fail over to the next provider and throw when all fail", async () => {
+    primary.failWith = "Twilio error 20003: Authenticate";
+    expect(await sendSms(sms)).toEqual({ provider: "backup", messageId: "backup-1" });
+
+    backup.failWith = "Webhook responded 503";
+    await expect(sendSms(sms)).rejects.toBeInstanceOf(DeliveryError);
+
+    setDeliveryProviders("sms", []);
+    expect(await sendSms(sms)).toBeNull();
+  });
+
+  it("should mark a failing provider down and try it last until it recovers", async () => {
+    primary.failWith = "Twilio error 20003: Authenticate";
+    for (let i = 0; i < 3; i++) await sendSms(sms);
+
+    const health = () => getProviderHealth().find((entry) => entry.provider === "primary")!;
+    expect(health()).toMatchObject({ status: "down", consecutive_failures: 3, total_failed: 3 });
+
+    // Down providers are skipped while another works
+    await sendSms(sms);
+    expect(health().total_failed).toBe(3);
+    expect(backup.sent).toHaveLength(4);
+
+    backup.failWith = "Webhook responded 503";
+    primary.failWith = null;
+    expect((await sendSms(sms))?.provider).toBe("primary");
+    expect(health()).toMatchObject({ status: "healthy", consecutive_failures: 0, total_sent: 1 });
+  });
+
+  it("should try a down provider first again once the retry interval has passed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    primary.failWith = "Twilio error 20003: Authenticate";
+    for (let i = 0; i < 3; i++) await sendSms(sms);
+
+    // Still failing: the retry falls through to the backup and waits another interval
+    vi.setSystemTime(Date.now() + PROVIDER_RETRY_MS);
+    expect((await sendSms(sms))?.provider).toBe("backup");
+    await sendSms(sms);
+    expect(getProviderHealth().find((entry) => entry.provider === "primary")?.total_failed).toBe(4);
+
+    primary.failWith = null;
+    vi.setSystemTime(Date.now() + PROVIDER_RETRY_MS);
+    expect((await sendSms(sms))?.provider).toBe("primary");
+    expect(getProviderHealth().find((entry) => entry.provider === "primary")).toMatchObject({ status: "healthy" });
+  });
+});
@@ -0,0 +1,384 @@
+import mongoose from 'mongoose';
+import DeliveryLogModel from '../../shared/models/DeliveryLog';
+import DeliveryProviderHealthModel, { IDeliveryProviderHealth } from '../../shared/models/DeliveryProviderHealth';
+import { DeliveryLogEntry, DeliveryStatus, NotificationChannel, ProviderHealth } from '../../shared/api';
+import {
+  EmailMessage,
+  EmailProvider,
+  MemoryProvider,
+  SmsMessage,
+  SmsProvider,
+  SmtpEmailProvider,
+  TwilioSmsProvider,
+  WebhookProvider
+} from './delivery-providers';
+import { notifyAdmins } from './realtime';
+
+/**
+ * Message Delivery for Whistle App
+ * Sends SMS and email through an ordered list of providers with failover:
+ * - SMS_PROVIDERS (default "twilio,webhook") and EMAIL_PROVIDERS (default "smtp,webhook")
+ *   set the order; providers that aren't configured are skipped
+ * - Each provider's health is tracked. After repeated failures it is marked down, moved to
+ *   the back of the order, and admins are told on the dashboard and over the other channel.
+ *   Every PROVIDER_RETRY_MS a down provider is tried first again, so it recovers on its own
+ * - Health is stored in delivery_provider_health and shared by all server instances
+ * - Every attempt is written to the delivery log (delivery_logs)
+ */
+
+const DEFAULT_PROVIDER_ORDER: Record<NotificationChannel, string> = {
+  sms: 'twilio,webhook',
+  email: 'smtp,webhook'
+};
+
+// Consecutive failures before a provider is considered down
+const PROVIDER_DOWN_THRESHOLD = 3;
+// How long a down provider is skipped before a send tries it first again
+export const PROVIDER_RETRY_MS = 5 * 60 * 1000;
+// How often each instance reloads the shared health
+const HEALTH_REFRESH_MS = 30 * 1000;
+
+type ChannelProvider = SmsProvider | EmailProvider;
+
+export interface DeliveryOptions {
+  reference?: string; // What is being sent, e.g. "report:AB12CD34" - stored in the delivery log
+  notifyOnDown?: boolean; // Set false for the provider-down notices themselves
+}
+
+export interface DeliveryOutcome {
+  provider: string;
+  messageId: string;
+}
+
+/**
+ * Every configured provider failed. `errors` has one entry per provider tried.
+ */
+export class DeliveryError extends Error {
+  constructor(public readonly channel: NotificationChannel, public readonly errors: string[]) {
+    super(`All ${channel} providers failed: ${errors.join('; ')}`);
+    this.name = 'DeliveryError';
+  }
+}
+
+const providers: Partial<Record<NotificationChannel, ChannelProvider[]>> = {};
+const health = new Map<string, ProviderHealth>();
+let healthRefreshedAt = 0;
+
+// A single shared instance, so the messages "sent" in development can be inspected
+const memoryProvider = new MemoryProvider();
+
+const createProvider = (channel: NotificationChannel, name: string): ChannelProvider | null => {
+  switch (name) {
+    case 'twilio': return channel === 'sms' ? new TwilioSmsProvider() : null;
+    case 'smtp': return channel === 'email' ? new SmtpEmailProvider() : null;
+    case 'webhook': return new WebhookProvider(channel);
+    case 'memory': return memoryProvider;
+    default: return null;
+  }
+};
+
+/**
+ * The channel's providers in failover order
+ */
+export function getDeliveryProviders(channel: NotificationChannel): ChannelProvider[] {
+  if (!providers[channel]) {
+    const variable = channel === 'sms' ? 'SMS_PROVIDERS' : 'EMAIL_PROVIDERS';
+    const names = (process.env[variable] || DEFAULT_PROVIDER_ORDER[channel]).split(',').map((name) => name.trim().toLowerCase()).filter(Boolean);
+    providers[channel] = names.flatMap((name) => {
+      const provider = createProvider(channel, name);
+      if (!provider) console.warn(`⚠️ Unknown ${channel} provider "${name}" in ${variable}, ignoring`);
+      return provider ? [provider] : [];
+    });
+  }
+  return providers[channel]!;
+}
+
+/**
+ * Replace a channel's providers (tests, or custom providers at startup). Resets their health.
+ */
+export function setDeliveryProviders(channel: NotificationChannel, list: ChannelProvider[]): void {
+  providers[channel] = list;
+  for (const key of [...health.keys()]) {
+    if (key.startsWith(`${channel}:`)) health.delete(key);
+  }
+}
+
+const getHealth = (channel: NotificationChannel, provider: ChannelProvider): ProviderHealth => {
+  const key = `${channel}:${provider.name}`;
+  if (!health.has(key)) {
+    health.set(key, {
+      channel,
+      provider: provider.name,
+      configured: provider.isConfigured(),
+      status: 'unknown',
+      consecutive_failures: 0,
+      total_sent: 0,
+      total_failed: 0
+    });
+  }
+  return health.get(key)!;
+};
+
+/**
+ * Current health of every provider, in failover order
+ */
+export function getProviderHealth(): ProviderHealth[] {
+  return (['sms', 'email'] as NotificationChannel[]).flatMap((channel) =>
+    getDeliveryProviders(channel).map((provider) => ({ ...getHealth(channel, provider), configured: provider.isConfigured() }))
+  );
+}
+
+const isDue = (state: ProviderHealth) =>
+  Date.now() - new Date(state.last_failure_at || 0).getTime() >= PROVIDER_RETRY_MS;
+
+// Providers that are down go to the back of the order, so they are only tried as a last resort -
+// except once PROVIDER_RETRY_MS has passed since they last failed, when they are tried first
+const orderForSend = (channel: NotificationChannel): ChannelProvider[] => {
+  const configured = getDeliveryProviders(channel).filter((provider) => provider.isConfigured());
+  const rank = (provider: ChannelProvider) => {
+    const state = getHealth(channel, provider);
+    if (state.status !== 'down') return 1;
+    return isDue(state) ? 0 : 2;
+  };
+  return configured.map((provider) => ({ provider, rank: rank(provider) }))
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ provider }) => provider);
+};
+
+const toProviderHealth = (stored: IDeliveryProviderHealth, configured: boolean): ProviderHealth => ({
+  channel: stored.channel,
+  provider: stored.provider,
+  configured,
+  status: stored.status,
+  consecutive_failures: stored.consecutive_failures || 0,
+  total_sent: stored.total_sent || 0,
+  total_failed: stored.total_failed || 0,
+  last_success_at: stored.last_success_at ? new Date(stored.last_success_at).toISOString() : undefined,
+  last_failure_at: stored.last_failure_at ? new Date(stored.last_failure_at).toISOString() : undefined,
+  last_error: stored.last_error
+});
+
+/**
+ * Reload the health other instances recorded (at most every HEALTH_REFRESH_MS unless forced)
+ */
+export async function refreshProviderHealth(force: boolean = false): Promise<void> {
+  if (mongoose.connection.readyState !== 1) return;
+  if (!force && Date.now() - healthRefreshedAt < HEALTH_REFRESH_MS) return;
+  healthRefreshedAt = Date.now();
+
+  try {
+    const stored = await DeliveryProviderHealthModel.find().lean();
+    for (const entry of stored) {
+      const provider = getDeliveryProviders(entry.channel).find((candidate) => candidate.name === entry.provider);
+      if (provider) health.set(`${entry.channel}:${entry.provider}`, toProviderHealth(entry as IDeliveryProviderHealth, provider.isConfigured()));
+    }
+  } catch (error) {
+    console.error('❌ Failed to load delivery provider health:', error);
+  }
+}
+
+// Shared health after a send, or null when it isn't stored (no database)
+async function storeOutcome(
+  channel: NotificationChannel,
+  provider: ChannelProvider,
+  outcome: { error?: string }
+): Promise<{ health: ProviderHealth; previous?: ProviderHealth['status'] } | null> {
+  if (mongoose.connection.readyState !== 1) return null;
+  const filter = { channel, provider: provider.name };
+
+  try {
+    if (outcome.error === undefined) {
+      const previous = await DeliveryProviderHealthModel.findOneAndUpdate(
+        filter,
+        { $set: { status: 'healthy', consecutive_failures: 0, last_success_at: new Date() }, $inc: { total_sent: 1 } },
+        { upsert: true, new: false }
+      ).lean();
+      const stored = await DeliveryProviderHealthModel.findOne(filter).lean();
+      return stored ? { health: toProviderHealth(stored as IDeliveryProviderHealth, provider.isConfigured()), previous: previous?.status } : null;
+    }
+
+    // Counted atomically, so exactly one instance sees the failure that crosses the threshold
+    const stored = await DeliveryProviderHealthModel.findOneAndUpdate(
+      filter,
+      [
+        {
+          $set: {
+            consecutive_failures: { $add: [{ $ifNull: ['$consecutive_failures', 0] }, 1] },
+            total_sent: { $ifNull: ['$total_sent', 0] },
+            total_failed: { $add: [{ $ifNull: ['$total_failed', 0] }, 1] },
+            last_failure_at: '$$NOW',
+            last_error: outcome.error.slice(0, 1000)
+          }
+        },
+        { $set: { status: { $cond: [{ $gte: ['$consecutive_failures', PROVIDER_DOWN_THRESHOLD] }, 'down', 'degraded'] } } }
+      ],
+      { upsert: true, new: true }
+    ).lean();
+    return stored ? { health: toProviderHealth(stored as IDeliveryProviderHealth, provider.isConfigured()) } : null;
+  } catch (error) {
+    console.error('❌ Failed to store delivery provider health:', error);
+    return null;
+  }
+}
+
+async function recordDelivery(entry: {
+  channel: NotificationChannel;
+  provider: string;
+  recipient: string;
+  status: DeliveryStatus;
+  message_id?: string;
+  error?: string;
+  reference?: string;
+}): Promise<void> {
+  if (mongoose.connection.readyState !== 1) return;
+  try {
+    await DeliveryLogModel.create({ ...entry, error: entry.error?.slice(0, 1000) });
+  } catch (error) {
+    console.error('❌ Failed to write delivery log:', error);
+  }
+}
+
+const recordSuccess = async (channel: NotificationChannel, provider: ChannelProvider) => {
+  const state = getHealth(channel, provider);
+  let recovered = state.status === 'down';
+  Object.assign(state, {
+    status: 'healthy',
+    consecutive_failures: 0,
+    total_sent: state.total_sent + 1,
+    last_success_at: new Date().toISOString()
+  });
+
+  const stored = await storeOutcome(channel, provider, {});
+  if (stored) {
+    Object.assign(state, stored.health);
+    recovered = stored.previous === 'down';
+  }
+
+  if (recovered) {
+    console.log(`✅ ${channel.toUpperCase()} provider ${provider.name} has recovered`);
+    notifyAdmins(`${channel.toUpperCase()} provider ${provider.name} has recovered`, 'success');
+  }
+};
+
+const recordFailure = async (channel: NotificationChannel, provider: ChannelProvider, error: string, options: DeliveryOptions) => {
+  const state = getHealth(channel, provider);
+  Object.assign(state, {
+    status: state.consecutive_failures + 1 >= PROVIDER_DOWN_THRESHOLD ? 'down' : 'degraded',
+    consecutive_failures: state.consecutive_failures + 1,
+    total_failed: state.total_failed + 1,
+    last_failure_at: new Date().toISOString(),
+    last_error: error
+  });
+
+  const stored = await storeOutcome(channel, provider, { error });
+  if (stored) Object.assign(state, stored.health);
+
+  // Only the failure that crosses the threshold announces it, not the retries while it stays down
+  if (state.consecutive_failures === PROVIDER_DOWN_THRESHOLD) {
+    const notice = `${channel.toUpperCase()} provider ${provider.name} is down after ${state.consecutive_failures} failed sends: ${error}`;
+    console.error(`🚨 ${notice}`);
+    notifyAdmins(notice, 'error');
+    if (options.notifyOnDown !== false) {
+      warnOverOtherChannel(channel, notice).catch((noticeError) =>
+        console.error('❌ Failed to send provider-down notice:', noticeError)
+      );
+    }
+  }
+};
+
+// A dead SMS provider is reported by email and vice versa
+async function warnOverOtherChannel(channel: NotificationChannel, notice: string): Promise<void> {
+  const options: DeliveryOptions = { reference: 'provider-health', notifyOnDown: false };
+  if (channel === 'sms' && process.env.ADMIN_EMAIL) {
+    await sendEmail({ to: [process.env.ADMIN_EMAIL], subject: '⚠️ Whistle SMS delivery is failing', text: `${notice}\n\nUrgent alerts may not be reaching admins by SMS.` }, options);
+  }
+  const adminPhone = process.env.ADMIN_PHONE_NUMBER || process.env.ADMIN_PHONE;
+  if (channel === 'email' && adminPhone) {
+    await sendSms({ to: adminPhone, body: `⚠️ Whistle: ${notice}` }, options);
+  }
+}
+
+async function deliver(
+  channel: NotificationChannel,
+  recipient: string,
+  send: (provider: ChannelProvider) => Promise<{ messageId: string }>,
+  options: DeliveryOptions
+): Promise<DeliveryOutcome | null> {
+  await refreshProviderHealth();
+  const candidates = orderForSend(channel);
+  if (candidates.length === 0) return null;
+
+  const errors: string[] = [];
+  for (const provider of candidates) {
+    try {
+      const { messageId } = await send(provider);
+      await recordSuccess(channel, provider);
+      await recordDelivery({ channel, provider: provider.name, recipient, status: 'sent', message_id: messageId, reference: options.reference });
+      if (errors.length > 0) console.log(`🔁 ${channel.toUpperCase()} to ${recipient} sent via fallback provider ${provider.name}`);
+      return { provider: provider.name, messageId };
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      console.error(`❌ ${channel.toUpperCase()} provider ${provider.name} failed for ${recipient}: ${message}`);
+      errors.push(`${provider.name}: ${message}`);
+      await recordFailure(channel, provider, message, options);
+      await recordDelivery({ channel, provider: provider.name, recipient, status: 'failed', error: message, reference: options.reference });
+    }
+  }
+
+  throw new DeliveryError(channel, errors);
+}
+
+/**
+ * Send an SMS with failover. Returns null when no SMS provider is configured,
+ * throws DeliveryError when every provider fails.
+ */
+export const sendSms = (message: SmsMessage, options: DeliveryOptions = {}) =>
+  deliver('sms', message.to, (provider) => (provider as SmsProvider).sendSms(message), options);
+
+/**
+ * Send an email with failover. Returns null when no email provider is configured,
+ * throws DeliveryError when every provider fails.
+ */
+export const sendEmail = (message: EmailMessage, options: DeliveryOptions = {}) =>
+  deliver('email', message.to.join(', '), (provider) => (provider as EmailProvider).sendEmail(message), options);
+
+/**
+ * Check the email providers' connections (those that support it). True if any passes.
+ */
+export async function verifyEmailProviders(): Promise<boolean> {
+  for (const provider of orderForSend('email') as EmailProvider[]) {
+    try {
+      await provider.verify?.();
+      return true;
+    } catch (error: any) {
+      console.error(`❌ Email provider ${provider.name} failed verification: ${error.message}`);
+    }
+  }
+  return false;
+}
+
+/**
+ * Newest delivery log entries first, optionally filtered by channel and status
+ */
+export async function listDeliveryLog(filter: { channel?: NotificationChannel; status?: DeliveryStatus; limit?: number } = {}): Promise<DeliveryLogEntry[]> {
+  const query: Record<string, string> = {};
+  if (filter.channel) query.channel = filter.channel;
+  if (filter.status) query.status = filter.status;
+
+  const entries = await DeliveryLogModel.find(query)
+    .sort({ created_at: -1 })
+    .limit(Math.min(Math.max(filter.limit || 50, 1), 200))
+    .lean();
+
+  return entries.map((entry) => ({
+    id: entry._id.toString(),
+    channel: entry.channel,
+    provider: entry.provider,
+    recipient: entry.recipient,
+    status: entry.status,
+    message_id: entry.message_id,
+    error: entry.error,
+    reference: entry.reference,
+    created_at: new Date(entry.created_at).toISOString()
+  }));
+}
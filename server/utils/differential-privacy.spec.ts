@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PRIVACY_SETTINGS,
+  getPrivacyPeriod,
+  laplaceNoise,
+  privatizeHistograms,
+  validatePrivacySettings,
+} from "./differential-privacy";
+
+describe("differential privacy", () => {
+  it("should sample symmetric Laplace noise and keep noisy counts non-negative", () => {
+    expect(laplaceNoise(1, () => 0.5)).toBeCloseTo(0);
+    expect(laplaceNoise(2, () => 0.75)).toBeCloseTo(2 * Math.log(2));
+    expect(laplaceNoise(2, () => 0.25)).toBeCloseTo(-2 * Math.log(2));
+
+    const noisy = privatizeHistograms({ byType: { harassment: 0, medical: 10 }, byStatus: { pending: 10 } }, 1, () => 0.01);
+    expect(noisy.byType.harassment).toBe(0);
+    expect(Object.keys(noisy.byType)).toEqual(["harassment", "medical"]);
+    expect(noisy.byStatus.pending).toBeLessThan(10);
+  });
+
+  it("should validate settings and derive period keys", () => {
+    const { errors } = validatePrivacySettings({ epsilon_public: 0, period: "year" as any }, DEFAULT_PRIVACY_SETTINGS);
+    expect(errors).toHaveLength(2);
+
+    const { settings } = validatePrivacySettings({ epsilon_export: 0.5, period_budget: 4 }, DEFAULT_PRIVACY_SETTINGS);
+    expect(settings.epsilon_export).toBe(0.5);
+    expect(settings.period_budget).toBe(4);
+
+    const now = new Date("2024-03-14T12:00:00Z"); // Thursday
+    expect(getPrivacyPeriod("day", now)).toBe("2024-03-14");
+    expect(getPrivacyPeriod("week", now)).toBe("2024-03-11");
+    expect(getPrivacyPeriod("month", now)).toBe("2024-03");
+  });
+});
@@ -0,0 +1,225 @@
+import {
+  PrivacyBudgetUsage,
+  PrivacyPeriod,
+  PrivacySettings,
+} from "../../shared/api";
+import PrivacyBudgetModel, { PrivacyScope } from "../../shared/models/PrivacyBudget";
+import SystemSettingModel from "../../shared/models/SystemSetting";
+
+/**
+ * Differential Privacy Utility for Whistle App
+ * Laplace mechanism for aggregate counts released outside the admin dashboard
+ * (public statistics and aggregate exports), with a per-period epsilon budget
+ * per scope. Once a scope's budget is spent, callers re-serve the last release.
+ */
+
+export const PRIVACY_SETTINGS_KEY = 'differential_privacy';
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  enabled: process.env.DP_ENABLED !== 'false',
+  epsilon_public: parseFloat(process.env.DP_EPSILON_PUBLIC || '1'),
+  epsilon_export: parseFloat(process.env.DP_EPSILON_EXPORT || '1'),
+  period_budget: parseFloat(process.env.DP_PERIOD_BUDGET || '24'),
+  period: (process.env.DP_PERIOD as PrivacyPeriod) || 'day',
+};
+
+const MIN_EPSILON = 0.01;
+const MAX_EPSILON = 10;
+
+// ================================================================================================
+// LAPLACE MECHANISM
+// ================================================================================================
+
+/**
+ * Sample Laplace(0, scale) noise via the inverse CDF
+ */
+export function laplaceNoise(scale: number, random: () => number = Math.random): number {
+  // u in (-0.5, 0.5); the boundary is nudged to avoid log(0)
+  const u = Math.min(Math.max(random(), Number.EPSILON), 1 - Number.EPSILON) - 0.5;
+  return -scale * Math.sign(u) * Math.log(1 - 2 * Math.abs(u));
+}
+
+/**
+ * Noisy count: count + Laplace(sensitivity / epsilon), rounded and clamped at 0
+ * (post-processing, so it doesn't cost extra privacy)
+ */
+export function noisyCount(count: number, epsilon: number, sensitivity: number = 1, random: () => number = Math.random): number {
+  return Math.max(0, Math.round(count + laplaceNoise(sensitivity / epsilon, random)));
+}
+
+/**
+ * Add noise to several histograms released together. Each report falls into one
+ * bucket per histogram (sensitivity 1), so the release epsilon is split evenly
+ * across the histograms (sequential composition).
+ */
+export function privatizeHistograms<T extends Record<string, Record<string, number>>>(
+  histograms: T,
+  epsilon: number,
+  random: () => number = Math.random
+): T {
+  const names = Object.keys(histograms);
+  const perHistogram = epsilon / Math.max(names.length, 1);
+
+  const result = {} as Record<string, Record<string, number>>;
+  for (const name of names) {
+    result[name] = {};
+    for (const [bucket, count] of Object.entries(histograms[name])) {
+      result[name][bucket] = noisyCount(count, perHistogram, 1, random);
+    }
+  }
+  return result as T;
+}
+
+// ================================================================================================
+// SETTINGS
+// ================================================================================================
+
+/**
+ * Validate admin-supplied settings, returning the merged settings or an error list
+ */
+export function validatePrivacySettings(
+  input: Partial<PrivacySettings>,
+  current: PrivacySettings = DEFAULT_PRIVACY_SETTINGS
+): { settings: PrivacySettings; errors: string[] } {
+  const settings: PrivacySettings = { ...current };
+  const errors: string[] = [];
+
+  if (input.enabled !== undefined) settings.enabled = !!input.enabled;
+
+  for (const field of ['epsilon_public', 'epsilon_export'] as const) {
+    if (input[field] === undefined) continue;
+    const value = Number(input[field]);
+    if (!Number.isFinite(value) || value < MIN_EPSILON || value > MAX_EPSILON) {
+      errors.push(`${field} must be between ${MIN_EPSILON} and ${MAX_EPSILON}`);
+    } else {
+      settings[field] = value;
+    }
+  }
+
+  if (input.period_budget !== undefined) {
+    const value = Number(input.period_budget);
+    if (!Number.isFinite(value) || value <= 0) {
+      errors.push('period_budget must be a positive number');
+    } else {
+      settings.period_budget = value;
+    }
+  }
+
+  if (input.period !== undefined) {
+    if (!['day', 'week', 'month'].includes(input.period)) {
+      errors.push('period must be one of day, week, month');
+    } else {
+      settings.period = input.period;
+    }
+  }
+
+  if (settings.period_budget < Math.max(settings.epsilon_public, settings.epsilon_export)) {
+    errors.push('period_budget must allow at least one release per period');
+  }
+
+  return { settings, errors };
+}
+
+/**
+ * Current settings (stored overrides merged over the environment defaults)
+ */
+export async function getPrivacySettings(): Promise<PrivacySettings> {
+  const stored = await SystemSettingModel.getValue<Partial<PrivacySettings>>(PRIVACY_SETTINGS_KEY);
+  return { ...DEFAULT_PRIVACY_SETTINGS, ...(stored || {}) };
+}
+
+/**
+ * Persist settings; the budget of the current period follows the new limit
+ */
+export async function savePrivacySettings(settings: PrivacySettings, updatedBy: string): Promise<void> {
+  await SystemSettingModel.setValue(PRIVACY_SETTINGS_KEY, settings, updatedBy);
+  await PrivacyBudgetModel.updateMany(
+    { period: getPrivacyPeriod(settings.period) },
+    { $set: { budget: settings.period_budget } }
+  );
+}
+
+// ================================================================================================
+// BUDGET ACCOUNTING
+// ================================================================================================
+
+/**
+ * Period key the budget is tracked under (UTC)
+ */
+export function getPrivacyPeriod(period: PrivacyPeriod, now: Date = new Date()): string {
+  const day = now.toISOString().slice(0, 10);
+  if (period === 'month') return day.slice(0, 7);
+  if (period === 'week') {
+    const offset = (now.getUTCDay() + 6) % 7;
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - offset)).toISOString().slice(0, 10);
+  }
+  return day;
+}
+
+/**
+ * Atomically spend epsilon from the scope's budget. Returns false when exhausted.
+ */
+export async function spendPrivacyBudget(scope: PrivacyScope, epsilon: number, settings: PrivacySettings): Promise<boolean> {
+  const period = getPrivacyPeriod(settings.period);
+
+  try {
+    await PrivacyBudgetModel.updateOne(
+      { scope, period },
+      { $setOnInsert: { budget: settings.period_budget, spent: 0, releases: 0 } },
+      { upsert: true }
+    );
+  } catch (error: any) {
+    // Another instance created the period document first
+    if (error?.code !== 11000) throw error;
+  }
+
+  const updated = await PrivacyBudgetModel.findOneAndUpdate(
+    { scope, period, $expr: { $lte: [{ $add: ['$spent', epsilon] }, '$budget'] } },
+    { $inc: { spent: epsilon, releases: 1 } },
+    { new: true }
+  );
+
+  if (!updated) {
+    console.warn(`🔒 Privacy budget exhausted for ${scope} releases (${period})`);
+  }
+  return !!updated;
+}
+
+/**
+ * Keep a release so it can be re-served when the budget is exhausted
+ */
+export async function recordPrivacyRelease(scope: PrivacyScope, release: unknown, settings: PrivacySettings): Promise<void> {
+  await PrivacyBudgetModel.updateOne(
+    { scope, period: getPrivacyPeriod(settings.period) },
+    { $set: { last_release: release, last_release_at: new Date() } }
+  );
+}
+
+/**
+ * Most recent release for a scope (any period)
+ */
+export async function getLastPrivacyRelease<T = any>(scope: PrivacyScope): Promise<T | null> {
+  const latest = await PrivacyBudgetModel.findOne({ scope, last_release_at: { $ne: null } })
+    .sort({ last_release_at: -1 })
+    .lean();
+  return latest ? (latest.last_release as T) : null;
+}
+
+/**
+ * Budget usage for the current period, per scope
+ */
+export async function getPrivacyBudgetUsage(settings: PrivacySettings): Promise<PrivacyBudgetUsage[]> {
+  const period = getPrivacyPeriod(settings.period);
+  const docs = await PrivacyBudgetModel.find({ period }).lean();
+
+  return (['public', 'export'] as PrivacyScope[]).map((scope) => {
+    const doc = docs.find((d) => d.scope === scope);
+    return {
+      scope,
+      period,
+      budget: doc?.budget ?? settings.period_budget,
+      spent: doc?.spent ?? 0,
+      releases: doc?.releases ?? 0,
+    };
+  });
+}
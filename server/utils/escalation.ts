@@ -2,181 +2,226 @@
  * Automated Escalation System for Unprocessed Reports
  * 
  * Features:
- * - Automatically send email to admin if reports remain unprocessed for 2-3 hours
- * - Include shortId, priority, and creation timestamp
- * - Avoid sending repeated escalations for the same report
- * - Track escalation history to prevent spam
+ * - SLA policies per report type/priority (see shared/models/SlaPolicy.ts)
+ * - First-response and resolution targets, each with its own escalation ladder
+ * - Each ladder step notifies its own recipients over email, SMS and/or dashboard
+ * - Escalation state is persisted on the report, so restarts don't re-send alerts
+ * - Checks and alert deliveries run on the durable job queue (one leader schedules checks,
+ *   alerts are retried and de-duplicated across instances)
  */
 
 import ReportModel from "../../shared/models/report";
-import { sendUrgentReportNotifications } from "./notifications";
 import { 
-  sendEmailNotification, 
-  sendSMSNotification, 
+  queueEmailNotification, 
+  queueRoutedNotifications,
+  queueSMSNotification, 
   NotificationData 
 } from "./notificationHelpers";
+import { registerJobHandler, scheduleRecurringJob } from "./job-queue";
 import { notifyEscalation } from "./realtime";
-
-interface EscalationTracker {
-  [shortId: string]: {
-    lastEscalated: Date;
-    escalationCount: number;
-  };
-}
-
-// In-memory tracker to prevent repeated escalations
-const escalationTracker: EscalationTracker = {};
+import { getOnCallPhones } from "./on-call";
+import { redactText } from "./pii";
+import {
+  evaluateSla,
+  getShortestSlaTargetMinutes,
+  loadSlaPolicies,
+  resolveSlaPolicy,
+  SlaDueEscalation,
+  SlaPolicyDefinition,
+} from "./sla";
 
 /**
- * Check for reports that need escalation and send notifications
+ * Check for reports that breached their SLA and send the due escalations
  * Should be called periodically (e.g., every 30 minutes)
+ * Returns the number of escalations sent
  */
-export async function checkAndEscalateUnprocessedReports(): Promise<void> {
+export async function checkAndEscalateUnprocessedReports(): Promise<number> {
+  let escalated = 0;
+
   try {
     console.log("🔍 Checking for reports needing escalation...");
     
-    // Find pending reports older than 2 hours
-    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    const policies = await loadSlaPolicies();
+    
+    // Reports younger than the shortest target can't be in breach yet
+    const cutoff = new Date(Date.now() - getShortestSlaTargetMinutes(policies) * 60 * 1000);
     
-    const unprocessedReports = await ReportModel.find({
-      status: 'pending',
-      createdAt: { $lt: twoHoursAgo }
-    }).select('shortId priority severity category createdAt message_encrypted message_iv message_salt location_encrypted location_iv location_salt');
+    const openReports = await ReportModel.find({
+      status: { $ne: 'resolved' },
+      createdAt: { $lt: cutoff }
+    }).select('shortId type category priority severity status createdAt sla message_encrypted message_iv message_salt');
     
-    console.log(`📊 Found ${unprocessedReports.length} unprocessed reports older than 2 hours`);
+    console.log(`📊 Found ${openReports.length} open reports older than ${Math.round((Date.now() - cutoff.getTime()) / 60000)} minutes (${policies.length} SLA policies active)`);
     
-    for (const report of unprocessedReports) {
-      await processEscalation(report);
+    for (const report of openReports) {
+      escalated += await processEscalation(report, resolveSlaPolicy(policies, report));
     }
     
   } catch (error) {
     console.error("❌ Error checking for escalations:", error);
+    throw error;
   }
+
+  return escalated;
 }
 
 /**
- * Process escalation for a specific report
+ * Evaluate a report against its SLA policy and execute any due ladder steps
  */
-async function processEscalation(report: any): Promise<void> {
+async function processEscalation(report: any, policy: SlaPolicyDefinition): Promise<number> {
   try {
     const shortId = report.shortId;
     const now = new Date();
-    const hoursUnprocessed = Math.floor((now.getTime() - report.createdAt.getTime()) / (1000 * 60 * 60));
-    
-    // Check if we've already escalated this report recently (within 24 hours)
-    const tracker = escalationTracker[shortId];
-    if (tracker) {
-      const hoursSinceLastEscalation = Math.floor((now.getTime() - tracker.lastEscalated.getTime()) / (1000 * 60 * 60));
-      
-      // Don't escalate again if we've done so within 24 hours, unless it's been 48+ hours
-      if (hoursSinceLastEscalation < 24 && hoursUnprocessed < 48) {
-        console.log(`⏭️ Skipping escalation for ${shortId} - last escalated ${hoursSinceLastEscalation} hours ago`);
-        return;
-      }
-      
-      // Don't escalate more than 3 times total
-      if (tracker.escalationCount >= 3) {
-        console.log(`⚠️ Maximum escalations reached for ${shortId}`);
-        return;
-      }
+    const evaluation = evaluateSla(report, policy, now);
+    
+    // Persist targets and breach timestamps even when no ladder step is due
+    const update: Record<string, any> = {
+      'sla.policy_id': policy._id || null,
+      'sla.policy_name': policy.name,
+      'sla.first_response_due': evaluation.firstResponseDue,
+      'sla.resolution_due': evaluation.resolutionDue
+    };
+    if (evaluation.firstResponseBreached && !report.sla?.first_response_breached_at) {
+      update['sla.first_response_breached_at'] = now;
     }
-    
-    // Decrypt basic report info for escalation email
-    let decryptedMessage = "Encrypted message";
-    let priority = report.priority || report.severity || 'medium';
-    let category = report.category || 'harassment';
-    
-    try {
-      if (report.message_encrypted && report.message_iv && report.message_salt) {
-        const { DataEncryption } = await import("./encryption");
-        const encryptedData = {
-          encrypted: report.message_encrypted,
-          iv: report.message_iv,
-          salt: report.message_salt
-        };
-        decryptedMessage = DataEncryption.decrypt(encryptedData);
-      }
-    } catch (decryptError) {
-      console.warn(`⚠️ Could not decrypt message for escalation ${shortId}:`, decryptError);
+    if (evaluation.resolutionBreached && !report.sla?.resolution_breached_at) {
+      update['sla.resolution_breached_at'] = now;
     }
     
-    // Send escalation notifications using enhanced notification system
-    const escalationNotification: NotificationData = {
-      reportId: report._id.toString(),
-      shortId,
-      message: `ESCALATION ALERT: Report ${shortId} has been unprocessed for ${hoursUnprocessed} hours. This requires immediate attention from administration. Original message: ${decryptedMessage.substring(0, 150)}${decryptedMessage.length > 150 ? '...' : ''}`,
-      category: category as any,
-      priority: 'urgent' as any, // Always mark escalations as urgent
-      location: undefined, // Will be handled by decryption if needed
-      timestamp: report.createdAt,
-      isEscalation: true,
-      hoursUnprocessed
-    };
+    const executed = [];
+    for (const escalation of evaluation.escalations) {
+      const recipients = await sendEscalation(report, policy, escalation);
+      update[`sla.${escalation.track}_level`] = escalation.level;
+      executed.push({
+        track: escalation.track,
+        level: escalation.level,
+        at: now,
+        channels: escalation.step.channels,
+        recipients
+      });
+    }
     
-    console.log(`🚨 Processing escalation for report ${shortId} (${hoursUnprocessed} hours unprocessed)`);
+    await ReportModel.updateOne(
+      { _id: report._id },
+      executed.length > 0
+        ? { $set: update, $push: { 'sla.escalations': { $each: executed } } }
+        : { $set: update }
+    );
     
-    // Send escalation email - using enhanced notification system
-    console.log(`📧 Sending escalation email for report ${shortId}...`);
-    const emailSuccess = await sendEmailNotification(escalationNotification);
-    if (emailSuccess) {
-      console.log(`✅ Escalation email sent successfully for ${shortId}`);
-    } else {
-      console.error(`❌ Failed to send escalation email for ${shortId}`);
+    if (executed.length === 0 && (evaluation.firstResponseBreached || evaluation.resolutionBreached)) {
+      console.log(`⏭️ No new escalation step due for ${shortId} (policy: ${policy.name})`);
     }
     
-    // Send escalation SMS if email fails or as additional alert
-    console.log(`📱 Sending escalation SMS for report ${shortId}...`);
-    const smsSuccess = await sendSMSNotification(escalationNotification);
-    if (smsSuccess) {
-      console.log(`✅ Escalation SMS sent successfully for ${shortId}`);
+    return executed.length;
+  } catch (error) {
+    console.error(`❌ Failed to process escalation for ${report.shortId}:`, error);
+    return 0;
+  }
+}
+
+/**
+ * Send one escalation ladder step over its configured channels
+ * Returns the recipients that were targeted
+ */
+async function sendEscalation(report: any, policy: SlaPolicyDefinition, escalation: SlaDueEscalation): Promise<string[]> {
+  const shortId = report.shortId;
+  const { step, track, level } = escalation;
+  const hoursUnprocessed = Math.floor((Date.now() - report.createdAt.getTime()) / (1000 * 60 * 60));
+  const targetLabel = track === 'first_response' ? 'first response' : 'resolution';
+  const reason = `${targetLabel} SLA breached (${policy.name}, level ${level})`;
+  
+  // Decrypt basic report info for escalation email
+  let decryptedMessage = "Encrypted message";
+  let priority = report.priority || report.severity || 'medium';
+  let category = report.type || report.category || 'harassment';
+  
+  try {
+    if (report.message_encrypted && report.message_iv && report.message_salt) {
+      const { DataEncryption } = await import("./encryption");
+      const encryptedData = {
+        encrypted: report.message_encrypted,
+        iv: report.message_iv,
+        salt: report.message_salt
+      };
+      decryptedMessage = DataEncryption.decrypt(encryptedData);
+    }
+  } catch (decryptError) {
+    console.warn(`⚠️ Could not decrypt message for escalation ${shortId}:`, decryptError);
+  }
+
+  // Redact before truncating, so a preview never ends in half an email address or phone number
+  decryptedMessage = redactText(decryptedMessage);
+  
+  const escalationNotification: NotificationData = {
+    reportId: report._id.toString(),
+    shortId,
+    message: `ESCALATION ALERT: Report ${shortId} - ${reason}. It has been open for ${hoursUnprocessed} hours and requires immediate attention from administration. Original message: ${decryptedMessage.substring(0, 150)}${decryptedMessage.length > 150 ? '...' : ''}`,
+    category: category as any,
+    priority: 'urgent' as any, // Always mark escalations as urgent
+    location: undefined,
+    timestamp: report.createdAt,
+    isEscalation: true,
+    hoursUnprocessed
+  };
+  
+  console.log(`🚨 Processing escalation for report ${shortId} - ${reason}`);
+  
+  const recipients: string[] = [];
+  const status: string[] = [];
+  // Same ladder step never alerts twice, even if two instances evaluate it
+  const dedupeKey = `escalation:${report._id}:${track}:${level}`;
+  
+  if (step.channels.includes('email')) {
+    if (step.emails.length > 0) {
+      await queueEmailNotification(escalationNotification, step.emails, `${dedupeKey}:email`);
+      recipients.push(...step.emails);
     } else {
-      console.error(`❌ Failed to send escalation SMS for ${shortId}`);
+      // Steps without their own addresses go to the admins routed for urgent alerts
+      const routes = await queueRoutedNotifications(escalationNotification, dedupeKey, undefined, ['email']);
+      recipients.push(...routes.map((route) => route.address));
     }
-    
-    // Also send through the original urgent notification system as backup
-    try {
-      await sendUrgentReportNotifications({
-        shortId,
-        _id: report._id.toString(),
-        category: category as any,
-        severity: 'urgent',
-        message: `ESCALATION: Report ${shortId} has been unprocessed for ${hoursUnprocessed} hours. Preview: ${decryptedMessage.substring(0, 100)}`,
-        location: undefined,
-        timestamp: report.createdAt
-      });
-      console.log(`✅ Backup escalation notification sent for ${shortId}`);
-    } catch (backupError) {
-      console.error(`❌ Failed to send backup escalation notification for ${shortId}:`, backupError);
+    status.push('Email: queued');
+  }
+  
+  if (step.channels.includes('sms')) {
+    // Steps without their own numbers page whoever is on call, then the default admin phone
+    const phones = step.phones.length > 0 ? step.phones : await getOnCallPhones();
+    if (phones.length > 0) {
+      // One job per phone, so a retry only re-sends to the number that failed
+      for (const phone of phones) {
+        await queueSMSNotification(escalationNotification, phone, `${dedupeKey}:sms:${phone}`);
+      }
+      recipients.push(...phones);
+    } else {
+      await queueSMSNotification(escalationNotification, undefined, `${dedupeKey}:sms`);
+      recipients.push('admin-phone');
     }
-    
-    // Send real-time escalation notification
+    status.push('SMS: queued');
+  }
+  
+  if (step.channels.includes('dashboard')) {
     notifyEscalation({
       shortId,
       priority,
       hoursUnprocessed,
-      timestamp: now.toISOString(),
+      timestamp: new Date().toISOString(),
       type: category,
-      reason: `Report has been unprocessed for ${hoursUnprocessed} hours`
+      reason
     });
-    
-    // Update escalation tracker
-    escalationTracker[shortId] = {
-      lastEscalated: now,
-      escalationCount: (tracker?.escalationCount || 0) + 1
-    };
-    
-    // Log escalation completion with notification status
-    const notificationStatus = `Email: ${emailSuccess ? '✅' : '❌'}, SMS: ${smsSuccess ? '✅' : '❌'}`;
-    console.log(`🚨 Escalation completed for report ${shortId} (${hoursUnprocessed} hours unprocessed) - ${notificationStatus}`);
-    
-  } catch (error) {
-    console.error(`❌ Failed to process escalation for ${report.shortId}:`, error);
+    recipients.push('dashboard');
+    status.push('Dashboard: ✅');
   }
+  
+  console.log(`🚨 Escalation completed for report ${shortId} (${reason}) - ${status.join(', ') || 'no channels configured'}`);
+  
+  return recipients;
 }
 
+export const ESCALATION_CHECK_JOB = 'escalation:check';
+
 /**
  * Initialize escalation monitoring
- * Sets up periodic checks for unprocessed reports
+ * Registers the periodic SLA check on the job queue (only the scheduler leader enqueues it)
  */
 export function initializeEscalationMonitoring(): void {
   console.log("🚀 Initializing automated escalation monitoring...");
@@ -184,11 +229,10 @@ export function initializeEscalationMonitoring(): void {
   // Check for escalations every 30 minutes
   const escalationInterval = 30 * 60 * 1000; // 30 minutes in milliseconds
   
-  // Initial check after 1 minute
-  setTimeout(checkAndEscalateUnprocessedReports, 60 * 1000);
-  
-  // Regular interval checks
-  setInterval(checkAndEscalateUnprocessedReports, escalationInterval);
+  registerJobHandler(ESCALATION_CHECK_JOB, async () => ({
+    escalated: await checkAndEscalateUnprocessedReports()
+  }), { maxAttempts: 3 });
+  scheduleRecurringJob(ESCALATION_CHECK_JOB, escalationInterval);
   
   console.log(`✅ Escalation monitoring active - checking every ${escalationInterval / 60000} minutes`);
 }
@@ -199,22 +243,11 @@ export function initializeEscalationMonitoring(): void {
 export async function manualEscalationCheck(): Promise<{ escalated: number; total: number }> {
   console.log("🔍 Manual escalation check triggered");
   
-  const before = Object.keys(escalationTracker).length;
-  await checkAndEscalateUnprocessedReports();
-  const after = Object.keys(escalationTracker).length;
+  const escalated = await checkAndEscalateUnprocessedReports();
+  const total = await ReportModel.countDocuments({ 'sla.escalations.0': { $exists: true } });
   
   return {
-    escalated: after - before,
-    total: after
+    escalated,
+    total
   };
 }
-
-/**
- * Clear escalation history for a specific report (when it gets processed)
- */
-export function clearEscalationHistory(shortId: string): void {
-  if (escalationTracker[shortId]) {
-    delete escalationTracker[shortId];
-    console.log(`🧹 Cleared escalation history for ${shortId}`);
-  }
-}
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import crypto from "crypto";
+import {
+  canonicalJson,
+  checkMessageIntegrity,
+  computeEntryHash,
+  EVIDENCE_GENESIS_HASH,
+  verifyEvidenceChain,
+} from "./evidence-log";
+import { encryptSensitiveData } from "../middleware/authMiddleware";
+
+const key = "test-evidence-key";
+
+const buildChain = (actions: string[]) => {
+  const entries: any[] = [];
+  for (const [seq, action] of actions.entries()) {
+    const entry: any = {
+      report_id: "64b7f0c2a1b2c3d4e5f60718",
+      seq,
+      action,
+      actor: { admin_id: "admin-1", admin_user: "admin@example.com" },
+      details: { to: "resolved", from: "pending" },
+      at: new Date(Date.UTC(2024, 0, 1, 0, seq)),
+      prev_hash: seq === 0 ? EVIDENCE_GENESIS_HASH : entries[seq - 1].hash,
+    };
+    entry.hash = computeEntryHash(entry, key);
+    entries.push(entry);
+  }
+  return entries;
+};
+
+describe("evidence log", () => {
+  it("should hash content independently of key order", () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, 1], c: null } })).toBe(canonicalJson({ a: { c: null, d: [2, 1] }, b: 1 }));
+  });
+
+  it("should accept an intact chain ending at the recorded head", () => {
+    const chain = buildChain(["created", "read", "status"]);
+    const recorded = { head: chain[2].hash, length: 3 };
+    expect(verifyEvidenceChain(chain, key, recorded)).toEqual({ valid: true, length: 3, head: chain[2].hash, recorded });
+    expect(verifyEvidenceChain([], key)).toMatchObject({ valid: true, head: EVIDENCE_GENESIS_HASH });
+  });
+
+  it("should detect entries removed from the end and chains rebuilt without the key", () => {
+    const truncated = buildChain(["created", "read", "status"]);
+    const recorded = { head: truncated[2].hash, length: 3 };
+    truncated.pop();
+    expect(verifyEvidenceChain(truncated, key, recorded)).toMatchObject({ valid: false, broken_at: 2 });
+    expect(verifyEvidenceChain(truncated, key)).toMatchObject({ valid: false, broken_at: 0 });
+
+    const chain = buildChain(["created"]);
+    expect(verifyEvidenceChain(chain, "another-key", { head: chain[0].hash, length: 1 })).toMatchObject({ valid: false, broken_at: 0 });
+  });
+
+  it("should detect edited, removed and reordered entries", () => {
+    const edited = buildChain(["created", "read", "status"]);
+    edited[1].details = { to: "pending" };
+    expect(verifyEvidenceChain(edited, key, { head: edited[2].hash, length: 3 })).toMatchObject({ valid: false, broken_at: 1 });
+
+    const removed = buildChain(["created", "read", "status"]);
+    removed.splice(1, 1);
+    expect(verifyEvidenceChain(removed, key, { head: removed[1].hash, length: 2 })).toMatchObject({ valid: false, broken_at: 2 });
+
+    // Re-hashing an edited entry still breaks the link from the next one
+    const rehashed = buildChain(["created", "read", "status"]);
+    rehashed[0].actor = { admin_id: "system", admin_user: "System" };
+    rehashed[0].hash = computeEntryHash(rehashed[0], key);
+    expect(verifyEvidenceChain(rehashed, key, { head: rehashed[2].hash, length: 3 })).toMatchObject({ valid: false, broken_at: 1 });
+  });
+
+  it("should hash the content of encrypted reports, not their placeholder", () => {
+    const text = "The supervisor falsified the safety logs";
+    const expected = crypto.createHash("sha256").update(text).digest("hex");
+    const encryptedReport = (message: string) => {
+      const encrypted = encryptSensitiveData(message);
+      return {
+        message: "Encrypted",
+        getDecryptedMessage: () => "Encrypted",
+        encrypted_message: encrypted.encryptedData,
+        encryption_iv: encrypted.iv,
+        encryption_auth_tag: encrypted.authTag,
+      };
+    };
+
+    expect(checkMessageIntegrity(encryptedReport(text), expected).match).toBe(true);
+    expect(checkMessageIntegrity(encryptedReport("Nothing to report"), expected).match).toBe(false);
+
+    const edited = encryptedReport(text);
+    edited.encrypted_message = (edited.encrypted_message[0] === "0" ? "1" : "0") + edited.encrypted_message.slice(1);
+    expect(checkMessageIntegrity(edited, expected)).toMatchObject({ actual: null, match: false });
+  });
+});
@@ -0,0 +1,428 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { ObjectId } from 'mongodb';
+import ReportModel, { IEvidenceChainHead, IReport, IReportIntegrity } from '../../shared/models/report';
+import EvidenceLogModel, { EvidenceLogAction, IEvidenceLogEntry } from '../../shared/models/EvidenceLog';
+import { getFileInfo, getStoredFile, openDecryptedStream } from './gridfs';
+import { decryptSensitiveData } from '../middleware/authMiddleware';
+import { HistoryActor } from './report-history';
+
+/**
+ * Evidence Integrity for Whistle App
+ * Content hashes are taken when media is stored and when a report is created, and every
+ * read, status change and export of a report is appended to a hash-chained custody log.
+ * Verification recomputes the hashes from the stored (encrypted) evidence and walks the
+ * chain, so an investigator can show nothing was altered after submission.
+ *
+ * Log entries are HMAC-SHA256 hashes keyed by EVIDENCE_SIGNING_KEY, so the chain can't be
+ * rebuilt by someone with database access alone, and the report records the chain's head
+ * and length, so entries removed from the end are detected too. Without the key nothing
+ * is logged and no certificates are issued.
+ */
+
+export const EVIDENCE_GENESIS_HASH = '0'.repeat(64);
+
+export const REPORTER_ACTOR: HistoryActor = {
+  admin_id: 'reporter',
+  admin_user: 'Anonymous reporter',
+};
+
+// File reads that don't go through an admin-authenticated route
+export const UNAUTHENTICATED_ACTOR: HistoryActor = {
+  admin_id: 'anonymous',
+  admin_user: 'Unauthenticated request',
+};
+
+const MAX_APPEND_ATTEMPTS = 5;
+
+/**
+ * EVIDENCE_SIGNING_KEY is not set, so the custody log can't be written, verified or certified
+ */
+export class EvidenceKeyError extends Error {
+  constructor() {
+    super('EVIDENCE_SIGNING_KEY is not configured');
+    this.name = 'EvidenceKeyError';
+  }
+}
+
+/**
+ * Key for custody log hashes and certificate signatures
+ */
+export function getEvidenceSigningKey(): string {
+  const key = process.env.EVIDENCE_SIGNING_KEY;
+  if (!key) throw new EvidenceKeyError();
+  return key;
+}
+
+export type EvidenceMediaHash = IReportIntegrity['media'][number];
+
+export interface ChainVerification {
+  valid: boolean;
+  length: number;
+  head: string; // Hash of the last entry (the genesis hash for an empty chain)
+  broken_at?: number; // seq of the first entry that doesn't check out
+  reason?: string;
+  recorded?: IEvidenceChainHead; // Head and length recorded on the report
+}
+
+export interface IntegrityCheck {
+  expected: string | null;
+  actual: string | null;
+  match: boolean;
+}
+
+export interface IntegrityVerification {
+  report_id: string;
+  shortId: string;
+  verified: boolean;
+  message: IntegrityCheck;
+  media: Array<EvidenceMediaHash & IntegrityCheck & { status: 'ok' | 'mismatch' | 'missing' | 'quarantined' | 'unhashed' }>;
+  chain: ChainVerification;
+  verified_at: Date;
+}
+
+// ================================================================================================
+// HASHING
+// ================================================================================================
+
+export const sha256Hex = (data: Buffer | string): string =>
+  crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * JSON with object keys sorted at every level, so the same content always hashes the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+type ChainEntry = Pick<IEvidenceLogEntry, 'seq' | 'action' | 'actor' | 'details' | 'at' | 'prev_hash'> & {
+  report_id: unknown;
+  hash?: string;
+};
+
+/**
+ * Keyed hash of a log entry: its content plus the previous entry's hash
+ */
+export function computeEntryHash(entry: ChainEntry, key: string): string {
+  return crypto.createHmac('sha256', key).update(canonicalJson({
+    report_id: String(entry.report_id),
+    seq: entry.seq,
+    action: entry.action,
+    actor: { admin_id: entry.actor.admin_id, admin_user: entry.actor.admin_user },
+    details: entry.details ?? null,
+    at: new Date(entry.at).toISOString(),
+    prev_hash: entry.prev_hash,
+  })).digest('hex');
+}
+
+/**
+ * Walk a report's log in seq order: every entry must link to the one before it and
+ * hash to its stored value, with no gaps in the sequence, and the last entry must be
+ * the head recorded on the report
+ */
+export function verifyEvidenceChain(entries: ChainEntry[], key: string, recorded?: IEvidenceChainHead): ChainVerification {
+  let previous = EVIDENCE_GENESIS_HASH;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const fail = (reason: string): ChainVerification => ({
+      valid: false,
+      length: entries.length,
+      head: previous,
+      broken_at: entry.seq ?? i,
+      reason,
+    });
+
+    if (entry.seq !== i) return fail(`expected entry ${i}, found ${entry.seq}`);
+    if (entry.prev_hash !== previous) return fail('link to the previous entry does not match');
+    if (computeEntryHash(entry, key) !== entry.hash) return fail('entry content does not match its hash');
+    previous = entry.hash as string;
+  }
+
+  const expected = recorded ? { head: recorded.head, length: recorded.length } : { head: EVIDENCE_GENESIS_HASH, length: 0 };
+  if (expected.length !== entries.length || expected.head !== previous) {
+    return {
+      valid: false,
+      length: entries.length,
+      head: previous,
+      broken_at: Math.min(expected.length, entries.length),
+      reason: `log has ${entries.length} entries, the report records ${expected.length}`,
+      recorded: expected,
+    };
+  }
+
+  return { valid: true, length: entries.length, head: previous, recorded: expected };
+}
+
+// ================================================================================================
+// REPORT HASHES
+// ================================================================================================
+
+/**
+ * Hashes recorded on a new report: the reporter's message (before any encryption) and the
+ * content hash each media file got at upload time (see uploadFileToGridFS)
+ */
+export async function buildReportIntegrity(
+  message: string,
+  media: Array<{ field: EvidenceMediaHash['field']; file_id?: ObjectId | string | null }>
+): Promise<IReportIntegrity> {
+  const hashes: EvidenceMediaHash[] = [];
+
+  for (const { field, file_id } of media) {
+    if (!file_id) continue;
+    let sha256: string | null = null;
+    try {
+      const file = await getFileInfo(file_id);
+      sha256 = file.metadata?.sha256 || null;
+    } catch (error) {
+      console.warn(`⚠️ Could not read the content hash of ${file_id}:`, error);
+    }
+    hashes.push({ field, file_id: String(file_id), sha256 });
+  }
+
+  return { message_sha256: sha256Hex(message || ''), media: hashes, hashed_at: new Date() };
+}
+
+// Media fields of a report in the order they are hashed
+export const getReportMedia = (report: Pick<IReport, 'photo_file_id' | 'video_file_id' | 'additional_media'>) => [
+  { field: 'photo' as const, file_id: report.photo_file_id },
+  { field: 'video' as const, file_id: report.video_file_id },
+  ...(report.additional_media || []).map((file_id) => ({ field: 'additional' as const, file_id })),
+];
+
+const hashStoredFile = async (fileId: string): Promise<string> => {
+  const stored = await getStoredFile(fileId);
+  const hash = crypto.createHash('sha256');
+  const stream = await openDecryptedStream(stored);
+  for await (const chunk of stream) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+};
+
+// ================================================================================================
+// CUSTODY LOG
+// ================================================================================================
+
+/**
+ * Append an entry to a report's custody log and move the head recorded on the report
+ * Concurrent appends collide on the (report_id, seq) index; the loser re-reads the head and retries.
+ */
+export async function appendEvidenceLog(
+  report: { _id: mongoose.Types.ObjectId | string; shortId: string },
+  action: EvidenceLogAction,
+  actor: HistoryActor,
+  details?: Record<string, unknown>
+): Promise<IEvidenceLogEntry> {
+  const key = getEvidenceSigningKey();
+  const reportId = new mongoose.Types.ObjectId(String(report._id));
+  // Store exactly what gets hashed (no ObjectIds or Dates that change shape in a round trip)
+  const storedDetails = details ? JSON.parse(JSON.stringify(details)) : undefined;
+
+  for (let attempt = 1; ; attempt++) {
+    const last = await EvidenceLogModel.findOne({ report_id: reportId }).sort({ seq: -1 }).select('seq hash').lean();
+    const entry = {
+      report_id: reportId,
+      shortId: report.shortId,
+      seq: last ? last.seq + 1 : 0,
+      action,
+      actor: { admin_id: actor.admin_id, admin_user: actor.admin_user },
+      details: storedDetails,
+      at: new Date(),
+      prev_hash: last ? last.hash : EVIDENCE_GENESIS_HASH,
+    };
+
+    let created: IEvidenceLogEntry;
+    try {
+      created = await EvidenceLogModel.create({ ...entry, hash: computeEntryHash(entry, key) });
+    } catch (error: any) {
+      if (error?.code !== 11000 || attempt >= MAX_APPEND_ATTEMPTS) throw error;
+      continue;
+    }
+
+    // Only ever moves forward, in case a later append recorded its head first
+    await ReportModel.updateOne(
+      { _id: reportId, $or: [{ evidence_chain: { $exists: false } }, { 'evidence_chain.length': { $lte: entry.seq } }] },
+      { $set: { evidence_chain: { head: created.hash, length: entry.seq + 1 } } }
+    );
+    return created;
+  }
+}
+
+let missingKeyWarned = false;
+
+/**
+ * Record a custody event without failing the request that triggered it
+ */
+export async function logEvidenceEvent(
+  report: { _id: mongoose.Types.ObjectId | string; shortId: string },
+  action: EvidenceLogAction,
+  actor: HistoryActor,
+  details?: Record<string, unknown>
+): Promise<void> {
+  try {
+    await appendEvidenceLog(report, action, actor, details);
+  } catch (error) {
+    if (error instanceof EvidenceKeyError) {
+      if (!missingKeyWarned) console.warn('⚠️ EVIDENCE_SIGNING_KEY is not set - the evidence custody log is disabled');
+      missingKeyWarned = true;
+      return;
+    }
+    console.error(`❌ Failed to append ${action} to the evidence log of ${report.shortId}:`, error);
+  }
+}
+
+/**
+ * Log a read of a media file served by id, if it belongs to a report
+ */
+export async function logMediaRead(fileId: string, actor: HistoryActor, details: Record<string, unknown> = {}): Promise<void> {
+  if (!mongoose.Types.ObjectId.isValid(fileId)) return;
+  const id = new mongoose.Types.ObjectId(fileId);
+  const report = await ReportModel.findOne({
+    $or: [{ photo_file_id: id }, { video_file_id: id }, { additional_media: id }]
+  }).select('shortId').lean().catch(() => null);
+
+  if (report) {
+    await logEvidenceEvent(report, 'media_read', actor, { file_id: fileId, ...details });
+  }
+}
+
+export const getEvidenceLog = (reportId: mongoose.Types.ObjectId | string) =>
+  EvidenceLogModel.find({ report_id: reportId }).sort({ seq: 1 }).lean();
+
+// ================================================================================================
+// VERIFICATION
+// ================================================================================================
+
+/**
+ * Compare the stored message of a report with its recorded hash
+ * Encrypted reports keep only a placeholder in `message`, so their encrypted copy is
+ * decrypted and hashed instead; otherwise the model-encrypted copy and the compatibility
+ * plaintext copy must both still hash the same.
+ */
+export function checkMessageIntegrity(
+  report: Pick<IReport, 'message' | 'getDecryptedMessage' | 'encrypted_message' | 'encryption_iv' | 'encryption_auth_tag'>,
+  expected: string | null
+): IntegrityCheck {
+  let storedMessages: string[];
+  if (report.encrypted_message) {
+    try {
+      storedMessages = [decryptSensitiveData(report.encrypted_message, report.encryption_iv || '', report.encryption_auth_tag || '')];
+    } catch {
+      // An edited ciphertext no longer authenticates
+      return { expected, actual: null, match: false };
+    }
+  } else {
+    storedMessages = [report.getDecryptedMessage(), report.message].filter((text) => typeof text === 'string');
+  }
+
+  const mismatched = storedMessages.find((text) => sha256Hex(text) !== expected);
+  const actual = sha256Hex(mismatched ?? storedMessages[0] ?? '');
+  return { expected, actual, match: actual === expected };
+}
+
+/**
+ * Recompute the message and media hashes of a report and check its custody log
+ * The report must be loaded with its encrypted message fields.
+ */
+export async function verifyReportIntegrity(report: IReport): Promise<IntegrityVerification> {
+  const key = getEvidenceSigningKey();
+  const integrity = report.integrity;
+
+  const message = checkMessageIntegrity(report, integrity?.message_sha256 || null);
+
+  // Media hashes recorded at creation, plus any media linked since (those have nothing to compare against)
+  const recorded = new Map((integrity?.media || []).map((entry) => [entry.file_id, entry]));
+  const media: IntegrityVerification['media'] = [];
+
+  for (const { field, file_id } of getReportMedia(report)) {
+    if (!file_id) continue;
+    const fileId = String(file_id);
+    const expected = recorded.get(fileId)?.sha256 || null;
+    recorded.delete(fileId);
+
+    let actual: string | null = null;
+    let status: IntegrityVerification['media'][number]['status'];
+    try {
+      actual = await hashStoredFile(fileId);
+      status = !expected ? 'unhashed' : actual === expected ? 'ok' : 'mismatch';
+    } catch (error: any) {
+      const info = await getFileInfo(fileId).catch(() => null);
+      status = info?.metadata?.quarantined ? 'quarantined' : 'missing';
+      if (status === 'missing') console.warn(`⚠️ Evidence file ${fileId} of ${report.shortId} could not be read:`, error?.message || error);
+    }
+    media.push({ field, file_id: fileId, sha256: expected, expected, actual, match: status === 'ok', status });
+  }
+
+  // Media hashed at creation that the report no longer references
+  for (const entry of recorded.values()) {
+    media.push({ ...entry, expected: entry.sha256, actual: null, match: false, status: 'missing' });
+  }
+
+  const chain = verifyEvidenceChain(await getEvidenceLog(report._id), key, report.evidence_chain);
+
+  return {
+    report_id: report._id.toString(),
+    shortId: report.shortId,
+    verified: !!integrity && message.match && chain.valid && media.every((entry) => entry.status === 'ok' || entry.status === 'quarantined'),
+    message,
+    media,
+    chain,
+    verified_at: new Date(),
+  };
+}
+
+/**
+ * Signed summary of a verification, for attaching to an investigation file
+ * The signature is an HMAC over the canonical certificate body, keyed by
+ * EVIDENCE_SIGNING_KEY, so the server can later confirm it issued it.
+ * Throws EvidenceKeyError when the key isn't configured.
+ */
+export function buildEvidenceCertificate(report: IReport, verification: IntegrityVerification, actor: HistoryActor) {
+  const key = getEvidenceSigningKey();
+  const integrity = report.integrity;
+  const body = {
+    certificate: 'whistle-evidence-integrity/v1',
+    report: {
+      id: report._id.toString(),
+      shortId: report.shortId,
+      submitted_at: report.createdAt,
+      status: report.status,
+    },
+    hashes: {
+      algorithm: 'SHA-256',
+      message: integrity?.message_sha256 || null,
+      media: verification.media.map(({ field, file_id, expected, status }) => ({ field, file_id, sha256: expected, status })),
+      hashed_at: integrity?.hashed_at || null,
+    },
+    custody_log: {
+      entries: verification.chain.length,
+      head: verification.chain.head,
+      recorded: verification.chain.recorded,
+      valid: verification.chain.valid,
+      broken_at: verification.chain.broken_at,
+    },
+    verified: verification.verified,
+    verified_at: verification.verified_at,
+    issued_by: actor.admin_user,
+    issued_at: new Date(),
+  };
+
+  return {
+    ...body,
+    signature: {
+      algorithm: 'HMAC-SHA256',
+      value: crypto.createHmac('sha256', key).update(canonicalJson(body)).digest('hex'),
+    },
+  };
+}
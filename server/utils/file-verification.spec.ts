@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { createVerificationSample, findEmbeddedPayload, sniffFileType, verifyFileContent } from "./file-verification";
+
+const jpeg = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(64, 0x11), Buffer.from([0xff, 0xd9])]);
+
+// Minimal empty ZIP: just the end-of-central-directory record
+const emptyZip = Buffer.concat([Buffer.from("PK\x05\x06", "latin1"), Buffer.alloc(18)]);
+
+describe("upload content verification", () => {
+  it("should identify files by their magic bytes", () => {
+    expect(sniffFileType(jpeg).mime).toBe("image/jpeg");
+    expect(sniffFileType(Buffer.from("\x00\x00\x00\x18ftypisom", "latin1")).mime).toBe("video/mp4");
+    expect(sniffFileType(Buffer.from("MZ\x90\x00", "latin1")).kind).toBe("executable");
+  });
+
+  it("should reject content that doesn't match the declared type", () => {
+    expect(() => verifyFileContent(jpeg, "image/jpeg")).not.toThrow();
+    expect(() => verifyFileContent(jpeg, "video/mp4")).toThrow(/content is a JPEG image/);
+    expect(() => verifyFileContent(emptyZip, "image/jpeg")).toThrow(/ZIP archive/);
+  });
+
+  it("should detect polyglots carrying an archive or script", () => {
+    expect(findEmbeddedPayload(jpeg)).toBeNull();
+    expect(findEmbeddedPayload(Buffer.concat([jpeg, emptyZip]))).toBe("ZIP archive");
+    expect(findEmbeddedPayload(Buffer.concat([jpeg, Buffer.from("<SCRIPT>alert(1)</script>")]))).toBe("embedded script content");
+    expect(() => verifyFileContent(Buffer.concat([jpeg, emptyZip]), "image/jpeg")).toThrow(/contains ZIP archive/);
+  });
+
+  it("should verify a streamed file from its start and end only", () => {
+    const mp4 = Buffer.from("\x00\x00\x00\x18ftypisom", "latin1");
+    const sample = (...pieces: Buffer[]) => {
+      const verification = createVerificationSample();
+      pieces.forEach((piece) => verification.update(piece));
+      return verification;
+    };
+    const middle = Buffer.alloc(3 * 1024 * 1024);
+
+    expect(sample(mp4, middle, Buffer.alloc(10)).verify("video/mp4").mime).toBe("video/mp4");
+    expect(() => sample(mp4, middle, emptyZip).verify("video/mp4")).toThrow(/contains ZIP archive/);
+    expect(() => sample(mp4, Buffer.from("<script>"), middle).verify("video/mp4")).toThrow(/embedded script/);
+    expect(() => sample(jpeg, emptyZip).verify("image/jpeg")).toThrow(/contains ZIP archive/);
+  });
+});
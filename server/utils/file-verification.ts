@@ -0,0 +1,185 @@
+/**
+ * Upload Content Verification for Whistle App
+ * Multer's fileFilter only sees the MIME type the client declared, so every stored
+ * file is also checked by content: its magic bytes must match the declared type,
+ * archives/executables/documents are refused outright, and files that carry a second
+ * format inside them (polyglots such as a JPEG with a ZIP or HTML payload appended)
+ * are rejected before anything is scanned or stored.
+ */
+
+export type SniffedKind = 'image' | 'video' | 'archive' | 'executable' | 'document' | 'markup' | 'unknown';
+
+export interface SniffedFileType {
+  mime: string | null;
+  kind: SniffedKind;
+  label: string;
+}
+
+interface Signature extends SniffedFileType {
+  test: (bytes: Buffer) => boolean;
+}
+
+const ascii = (bytes: Buffer, start: number, end: number) => bytes.toString('latin1', start, end);
+
+const startsWith = (...values: number[]) => (bytes: Buffer) =>
+  bytes.length >= values.length && values.every((value, i) => bytes[i] === value);
+
+// ISO base media (MP4/MOV/3GP): size + "ftyp" + major brand
+const ftypBrand = (bytes: Buffer) => (bytes.length >= 12 && ascii(bytes, 4, 8) === 'ftyp' ? ascii(bytes, 8, 12) : null);
+
+const SIGNATURES: Signature[] = [
+  { label: 'JPEG image', mime: 'image/jpeg', kind: 'image', test: startsWith(0xff, 0xd8, 0xff) },
+  { label: 'PNG image', mime: 'image/png', kind: 'image', test: startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a) },
+  { label: 'GIF image', mime: 'image/gif', kind: 'image', test: (b) => ['GIF87a', 'GIF89a'].includes(ascii(b, 0, 6)) },
+  { label: 'WebP image', mime: 'image/webp', kind: 'image', test: (b) => ascii(b, 0, 4) === 'RIFF' && ascii(b, 8, 12) === 'WEBP' },
+  { label: 'BMP image', mime: 'image/bmp', kind: 'image', test: (b) => ascii(b, 0, 2) === 'BM' && b.length >= 26 && b.readUInt32LE(14) >= 12 },
+  { label: 'QuickTime video', mime: 'video/quicktime', kind: 'video', test: (b) => ftypBrand(b) === 'qt  ' },
+  { label: '3GP video', mime: 'video/3gpp', kind: 'video', test: (b) => !!ftypBrand(b)?.startsWith('3g') },
+  { label: 'MP4 video', mime: 'video/mp4', kind: 'video', test: (b) => ftypBrand(b) !== null },
+  { label: 'WebM video', mime: 'video/webm', kind: 'video', test: (b) => startsWith(0x1a, 0x45, 0xdf, 0xa3)(b) && ascii(b, 0, 64).includes('webm') },
+  { label: 'Matroska video', mime: 'video/x-matroska', kind: 'video', test: startsWith(0x1a, 0x45, 0xdf, 0xa3) },
+  { label: 'Ogg video', mime: 'video/ogg', kind: 'video', test: (b) => ascii(b, 0, 4) === 'OggS' },
+  { label: 'AVI video', mime: 'video/x-msvideo', kind: 'video', test: (b) => ascii(b, 0, 4) === 'RIFF' && ascii(b, 8, 12) === 'AVI ' },
+  { label: 'MPEG video', mime: 'video/mpeg', kind: 'video', test: (b) => startsWith(0x00, 0x00, 0x01, 0xba)(b) || startsWith(0x00, 0x00, 0x01, 0xb3)(b) },
+  { label: 'Windows Media video', mime: 'video/x-ms-wmv', kind: 'video', test: startsWith(0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11) },
+  { label: 'ZIP archive', mime: 'application/zip', kind: 'archive', test: (b) => ['PK\x03\x04', 'PK\x05\x06', 'PK\x07\x08'].includes(ascii(b, 0, 4)) },
+  { label: 'RAR archive', mime: 'application/vnd.rar', kind: 'archive', test: (b) => ascii(b, 0, 6) === 'Rar!\x1a\x07' },
+  { label: '7-Zip archive', mime: 'application/x-7z-compressed', kind: 'archive', test: startsWith(0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c) },
+  { label: 'gzip archive', mime: 'application/gzip', kind: 'archive', test: startsWith(0x1f, 0x8b) },
+  { label: 'Windows executable', mime: 'application/x-msdownload', kind: 'executable', test: (b) => ascii(b, 0, 2) === 'MZ' },
+  { label: 'ELF executable', mime: 'application/x-executable', kind: 'executable', test: startsWith(0x7f, 0x45, 0x4c, 0x46) },
+  { label: 'Mach-O executable', mime: 'application/x-mach-binary', kind: 'executable', test: (b) => ['feedface', 'feedfacf', 'cefaedfe', 'cffaedfe', 'cafebabe'].includes(b.toString('hex', 0, 4)) },
+  { label: 'script', mime: null, kind: 'executable', test: (b) => ascii(b, 0, 2) === '#!' },
+  { label: 'PDF document', mime: 'application/pdf', kind: 'document', test: (b) => ascii(b, 0, 5) === '%PDF-' },
+  { label: 'HTML/SVG/XML markup', mime: 'text/html', kind: 'markup', test: (b) => /^(\xef\xbb\xbf)?\s*</.test(ascii(b, 0, 64)) },
+];
+
+// Declared types that share a container with another sniffed type
+const MIME_ALIASES: Record<string, string[]> = {
+  'image/jpg': ['image/jpeg'],
+  'video/mp4': ['video/mp4', 'video/quicktime', 'video/3gpp'],
+  'video/quicktime': ['video/quicktime', 'video/mp4'],
+  'video/mov': ['video/quicktime', 'video/mp4'],
+  'video/3gpp': ['video/3gpp', 'video/mp4'],
+  'video/webm': ['video/webm', 'video/x-matroska'],
+  'video/avi': ['video/x-msvideo'],
+  'video/wmv': ['video/x-ms-wmv'],
+};
+
+// Case-insensitive markers of active content that have no business inside a photo or video
+const EMBEDDED_MARKUP = ['<script', '<html', '<?php', '<iframe', '<object', '<embed', 'javascript:'];
+const EMBEDDED_EXECUTABLE = ['This program cannot be run in DOS mode'];
+const SCAN_WINDOW = 1024 * 1024;
+const ZIP_EOCD = Buffer.from('PK\x05\x06', 'latin1');
+const ZIP_EOCD_MIN_LENGTH = 22;
+
+/**
+ * Identify a file by its leading bytes
+ */
+export function sniffFileType(buffer: Buffer): SniffedFileType {
+  const match = SIGNATURES.find((signature) => signature.test(buffer));
+  return match
+    ? { mime: match.mime, kind: match.kind, label: match.label }
+    : { mime: null, kind: 'unknown', label: 'unknown format' };
+}
+
+/**
+ * Look for a second format hidden in a media file. Returns a description, or null.
+ * Payloads sit at the start or the end of a file (readers of the outer format ignore
+ * trailing data), so the first and last megabyte are searched.
+ */
+export function findEmbeddedPayload(buffer: Buffer): string | null {
+  return buffer.length > SCAN_WINDOW * 2
+    ? findPayloadInWindows(buffer.subarray(0, SCAN_WINDOW), buffer.subarray(buffer.length - SCAN_WINDOW))
+    : findPayloadInWindows(buffer, buffer);
+}
+
+// `tail` must end where the file ends
+const findPayloadInWindows = (head: Buffer, tail: Buffer): string | null => {
+  // ZIP readers (JAR, APK, Office, ...) start from the end-of-central-directory record,
+  // which must end exactly at the end of the file (after its comment)
+  const tailStart = Math.max(0, tail.length - ZIP_EOCD_MIN_LENGTH - 0xffff);
+  let eocd = tail.lastIndexOf(ZIP_EOCD);
+  while (eocd >= tailStart) {
+    if (eocd + ZIP_EOCD_MIN_LENGTH <= tail.length && eocd + ZIP_EOCD_MIN_LENGTH + tail.readUInt16LE(eocd + 20) === tail.length) {
+      return 'ZIP archive';
+    }
+    eocd = eocd > 0 ? tail.lastIndexOf(ZIP_EOCD, eocd - 1) : -1;
+  }
+
+  for (const window of head === tail ? [head] : [head, tail]) {
+    const text = window.toString('latin1');
+    const lower = text.toLowerCase();
+    const markup = EMBEDDED_MARKUP.find((marker) => lower.includes(marker));
+    if (markup) return `embedded ${markup.replace(/[<:?]/g, '')} content`;
+    if (EMBEDDED_EXECUTABLE.some((marker) => text.includes(marker))) return 'embedded Windows executable';
+  }
+
+  return null;
+};
+
+/**
+ * Check that a file's content matches the declared image/video type and carries nothing else.
+ * Throws a reporter-facing error when the file must not be stored.
+ */
+export function verifyFileContent(buffer: Buffer, declaredMime: string): SniffedFileType {
+  const sniffed = verifyDeclaredType(buffer, declaredMime);
+
+  const payload = findEmbeddedPayload(buffer);
+  if (payload) throw payloadRejection(sniffed, payload);
+
+  return sniffed;
+}
+
+const payloadRejection = (sniffed: SniffedFileType, payload: string) =>
+  new Error(`File rejected: the ${sniffed.label} contains ${payload}. Please re-save the file and try again.`);
+
+/**
+ * Magic-byte check alone - only needs the start of the file (e.g. the first chunk of a resumable upload)
+ */
+export function verifyDeclaredType(buffer: Buffer, declaredMime: string): SniffedFileType {
+  const declared = (declaredMime || '').toLowerCase();
+  const sniffed = sniffFileType(buffer);
+
+  if (sniffed.kind !== 'image' && sniffed.kind !== 'video') {
+    throw new Error(`File rejected: its content is ${sniffed.kind === 'unknown' ? 'not a recognised image or video' : `a ${sniffed.label}`}. Only photos and videos can be attached.`);
+  }
+
+  const accepted = MIME_ALIASES[declared] || [declared];
+  if (!accepted.includes(sniffed.mime as string)) {
+    throw new Error(`File rejected: it was sent as ${declared || 'an unknown type'} but its content is a ${sniffed.label}.`);
+  }
+
+  return sniffed;
+}
+
+/**
+ * Content verification for a file read as a stream (a large resumable upload): keeps only
+ * the parts verifyFileContent looks at - the start and the last megabyte - as it goes.
+ */
+export function createVerificationSample() {
+  let head = Buffer.alloc(0); // The whole file while it fits in two windows
+  let tail = Buffer.alloc(0);
+  let size = 0;
+
+  return {
+    update(data: Buffer) {
+      size += data.length;
+      if (head.length < SCAN_WINDOW * 2) {
+        head = Buffer.concat([head, data.subarray(0, SCAN_WINDOW * 2 - head.length)]);
+      }
+      const joined = data.length >= SCAN_WINDOW ? data : Buffer.concat([tail, data]);
+      tail = Buffer.from(joined.subarray(Math.max(0, joined.length - SCAN_WINDOW)));
+    },
+
+    // Same checks and errors as verifyFileContent on the whole file
+    verify(declaredMime: string): SniffedFileType {
+      if (size <= SCAN_WINDOW * 2) return verifyFileContent(head, declaredMime);
+
+      const sniffed = verifyDeclaredType(head, declaredMime);
+      const payload = findPayloadInWindows(head.subarray(0, SCAN_WINDOW), tail);
+      if (payload) throw payloadRejection(sniffed, payload);
+      return sniffed;
+    }
+  };
+}
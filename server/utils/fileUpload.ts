@@ -1,6 +1,8 @@
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import { verifyFileContent } from './file-verification';
+import { scanFile } from './malware-scanner';
 
 /**
  * File Upload Configuration for Whistle App
@@ -100,11 +102,39 @@ export const memoryUpload = multer({
 // Specific upload configurations
 export const uploadSingle = upload.single('file');
 export const uploadMultiple = upload.array('files', 5);
-export const uploadFields = upload.fields([
+const multerFields = upload.fields([
   { name: 'image', maxCount: 3 },
   { name: 'video', maxCount: 2 }
 ]);
 
+/**
+ * Check stored files by content (the fileFilter only sees the declared MIME type)
+ * and scan them; rejected files are deleted from disk
+ */
+export const verifyUploadedFiles = async (files: Express.Multer.File[]): Promise<void> => {
+  try {
+    for (const file of files) {
+      const buffer = await fs.promises.readFile(file.path);
+      verifyFileContent(buffer, file.mimetype);
+      const scan = await scanFile(buffer);
+      if (scan.verdict === 'infected') {
+        throw new Error(`File rejected: malware detected (${scan.signature || 'unknown signature'})`);
+      }
+    }
+  } catch (error) {
+    cleanupFiles(files);
+    throw error;
+  }
+};
+
+export const uploadFields = (req: any, res: any, next: (error?: any) => void) => {
+  multerFields(req, res, (error?: any) => {
+    if (error) return next(error);
+    const files = req.files ? (Object.values(req.files) as Express.Multer.File[][]).flat() : [];
+    verifyUploadedFiles(files).then(() => next(), next);
+  });
+};
+
 /**
  * Error handler for multer errors
  */
@@ -4,6 +4,22 @@ import mongoose from 'mongoose';
 import crypto from 'crypto';
 import path from 'path';
 import fs from 'fs';
+import { pipeline, Readable, Transform } from 'stream';
+import type { Request, Response } from 'express';
+import ReportModel from '../../shared/models/report';
+import UploadSessionModel from '../../shared/models/UploadSession';
+import {
+  CHUNKED_ENCRYPTION_SCHEME,
+  ChunkedEncryptionParams,
+  createChunkDecryptStream,
+  createChunkEncryptStream,
+  createChunkEncryptTransform,
+  decryptChunked,
+  getEncryptedRange
+} from './chunked-encryption';
+import { createMediaSanitizeStream, sanitizeMedia, MediaGps } from './media-sanitizer';
+import { verifyFileContent } from './file-verification';
+import { scanFile, ScanResult } from './malware-scanner';
 
 /**
  * ================================================================================================
@@ -33,6 +49,7 @@ import fs from 'fs';
 // ================================================================================================
 
 let gridFSBucket: GridFSBucket | null = null;
+let quarantineBucket: GridFSBucket | null = null; // Infected uploads, never served
 let mongoClient: MongoClient | null = null;
 let connectionPromise: Promise<GridFSBucket> | null = null;
 
@@ -44,13 +61,23 @@ const ALGORITHM = 'aes-256-gcm';
 // ENCRYPTION UTILITIES
 // ================================================================================================
 
+// scrypt is deliberately slow, so the key is derived once
+let encryptionKey: Buffer | null = null;
+const getEncryptionKey = (): Buffer => {
+  if (!encryptionKey) {
+    encryptionKey = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
+  }
+  return encryptionKey;
+};
+
 /**
  * Encrypt file buffer using AES-256-GCM
+ * Single-shot; used for small values. Stored files use chunked encryption (see uploadFileToGridFS).
  */
 export const encryptBuffer = (buffer: Buffer): { encryptedBuffer: Buffer; iv: string; authTag: string } => {
   try {
     const iv = crypto.randomBytes(16);
-    const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
+    const key = getEncryptionKey();
     const cipher = crypto.createCipheriv(ALGORITHM, key as any, iv as any);
     
     const encrypted = Buffer.concat([cipher.update(buffer as any) as Buffer, cipher.final() as Buffer] as any);
@@ -74,7 +101,7 @@ export const decryptBuffer = (encryptedBuffer: Buffer, ivHex: string, authTagHex
   try {
     const iv = Buffer.from(ivHex, 'hex');
     const authTag = Buffer.from(authTagHex, 'hex');
-    const key = crypto.scryptSync(ENCRYPTION_KEY, 'salt', 32);
+    const key = getEncryptionKey();
     const decipher = crypto.createDecipheriv(ALGORITHM, key as any, iv as any);
     
     decipher.setAuthTag(authTag as any);
@@ -148,6 +175,28 @@ export const initializeGridFSBucket = async (): Promise<GridFSBucket> => {
   return connectionPromise;
 };
 
+/**
+ * Get the quarantine bucket, kept apart from 'uploads' so nothing that serves
+ * evidence can read from it
+ */
+export const initializeQuarantineBucket = async (): Promise<GridFSBucket> => {
+  if (quarantineBucket) {
+    return quarantineBucket;
+  }
+
+  await initializeGridFSBucket();
+  const db = mongoose.connection.db;
+  if (!db) {
+    throw new Error('MongoDB database not available');
+  }
+
+  quarantineBucket = new GridFSBucket(db, {
+    bucketName: 'quarantine',
+    chunkSizeBytes: 1024 * 1024
+  });
+  return quarantineBucket;
+};
+
 // ================================================================================================
 // STORAGE ENGINE IMPLEMENTATIONS
 // ================================================================================================
@@ -203,16 +252,18 @@ const createDiskStorage = (): multer.StorageEngine => {
  * File filter function for multer
  * Validates file types and sizes
  */
+export const ALLOWED_UPLOAD_MIME_TYPES = [
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+  'video/mp4', 'video/webm', 'video/ogg', 'video/avi'
+];
+
+export const MAX_UPLOAD_SIZE = 1000 * 1024 * 1024; // 1000MB limit for videos
+
 const fileFilter = (req: Express.Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   console.log(`🔍 Filtering file: ${file.originalname} (${file.mimetype})`);
   
   // Check file type
-  const allowedMimeTypes = [
-    'image/jpeg', 'image/png', 'image/gif', 'image/webp',
-    'video/mp4', 'video/webm', 'video/ogg', 'video/avi'
-  ];
-  
-  if (allowedMimeTypes.includes(file.mimetype)) {
+  if (ALLOWED_UPLOAD_MIME_TYPES.includes(file.mimetype)) {
     console.log('✅ File type accepted');
     cb(null, true);
   } else {
@@ -259,8 +310,8 @@ export const initializeUploadSystem = async (): Promise<{
   const upload = multer({
     storage: storage,
     limits: {
-      fileSize: 1000 * 1024 * 1024, // 1000MB limit for videos
-      files: 2, // Maximum 2 files (1 image + 1 video)
+      fileSize: MAX_UPLOAD_SIZE,
+      files: 4, // Maximum 4 files (1 image + 1 video, plus their previews)
       fieldSize: 500 * 1024 * 1024 // 500MB field size limit for images
     },
     fileFilter: fileFilter
@@ -308,7 +359,10 @@ export const uploadFields = async (req: any, res: any, callback: (error?: Error)
     // Configure field handling for our specific use case
     const uploadHandler = upload.fields([
       { name: 'image', maxCount: 1 },
-      { name: 'video', maxCount: 1 }
+      { name: 'video', maxCount: 1 },
+      // Previews sent by older report forms - accepted so those still submit, then discarded
+      { name: 'image_thumbnail', maxCount: 1 },
+      { name: 'video_poster', maxCount: 1 }
     ]);
     
     // Execute upload
@@ -324,7 +378,7 @@ export const uploadFields = async (req: any, res: any, callback: (error?: Error)
             case 'LIMIT_FILE_COUNT':
               return callback(new Error('Too many files (maximum 1 image and 1 video)'));
             case 'LIMIT_UNEXPECTED_FILE':
-              return callback(new Error('Unexpected file field. Only "image" and "video" fields allowed'));
+              return callback(new Error('Unexpected file field. Only "image", "video" and their preview fields allowed'));
             case 'LIMIT_FIELD_COUNT':
               return callback(new Error('Too many form fields'));
             default:
@@ -335,10 +389,50 @@ export const uploadFields = async (req: any, res: any, callback: (error?: Error)
         return callback(error);
       }
       
+      // Reporter opted in to sharing where the photo/video was taken (multer has parsed the body by now)
+      const extractMediaGps = ['true', 'on', '1'].includes(String(req.body?.media_location_consent));
+      // The report form strips EXIF in the browser and sends the consented photo location separately
+      const reportedImageGps = extractMediaGps ? parseReportedMediaGps(req.body?.image_location) : undefined;
+
+      // Resumable uploads are finalized straight into GridFS
+      if (!isGridFS && req.body?.video_upload_id) {
+        return callback(new Error('Resumable uploads are unavailable right now, please attach the video directly'));
+      }
+
+      // Disk fallback: multer already wrote the raw files, so strip their metadata in place
+      if (!isGridFS && req.files) {
+        try {
+          const files = req.files as { [fieldname: string]: Express.Multer.File[] };
+          for (const field of LEGACY_PREVIEW_FIELDS) {
+            await Promise.all((files[field] || []).map((file) => fs.promises.unlink(file.path).catch(() => undefined)));
+            delete files[field];
+          }
+          for (const file of Object.values(files).flat()) {
+            const original = await fs.promises.readFile(file.path);
+            verifyFileContent(original, file.mimetype);
+            // Quarantine needs GridFS, so infected files are refused outright here
+            const scan = await scanFile(original);
+            if (scan.verdict === 'infected') {
+              throw new Error(`File rejected: malware detected (${scan.signature || 'unknown signature'})`);
+            }
+            const { buffer, removed } = sanitizeMedia(original);
+            await fs.promises.writeFile(file.path, buffer);
+            file.size = buffer.length;
+            if (removed.length) console.log(`🧹 Stripped metadata from ${file.filename}: ${removed.join(', ')}`);
+          }
+        } catch (sanitizeError) {
+          console.error('❌ Media verification/sanitization error:', sanitizeError);
+          const files = req.files as { [fieldname: string]: Express.Multer.File[] };
+          await Promise.all(Object.values(files).flat().map((file) => fs.promises.unlink(file.path).catch(() => undefined)));
+          return callback(sanitizeError as Error);
+        }
+      }
+
       // If using GridFS, we need to manually save the files
       if (isGridFS && req.files) {
         try {
           const files = req.files as { [fieldname: string]: Express.Multer.File[] };
+          for (const field of LEGACY_PREVIEW_FIELDS) delete files[field];
           
           // Process image file
           if (files.image && files.image[0]) {
@@ -346,7 +440,8 @@ export const uploadFields = async (req: any, res: any, callback: (error?: Error)
             const imageId = await uploadFileToGridFS(
               imageFile.buffer, 
               `image_${Date.now()}_${imageFile.originalname}`,
-              imageFile.mimetype
+              imageFile.mimetype,
+              { extractGps: extractMediaGps, reportedGps: reportedImageGps }
             );
             (imageFile as any).id = imageId;
             console.log('✅ Image uploaded to GridFS:', imageId);
@@ -358,10 +453,20 @@ export const uploadFields = async (req: any, res: any, callback: (error?: Error)
             const videoId = await uploadFileToGridFS(
               videoFile.buffer,
               `video_${Date.now()}_${videoFile.originalname}`,
-              videoFile.mimetype
+              videoFile.mimetype,
+              { extractGps: extractMediaGps }
             );
             (videoFile as any).id = videoId;
             console.log('✅ Video uploaded to GridFS:', videoId);
+          } else if (req.body?.video_upload_id) {
+            // Large videos arrive through a resumable upload session and are attached by id
+            const videoFile = await claimUploadedVideo(req.body.video_upload_id);
+            // Hand the upload back if the report isn't saved, so the reporter can submit again
+            res.on('finish', () => {
+              if (res.statusCode >= 400) releaseUploadedVideo(req.body.video_upload_id, (videoFile as any).id);
+            });
+            files.video = [videoFile];
+            console.log('✅ Resumable video attached:', (videoFile as any).id);
           }
         } catch (gridfsError) {
           console.error('❌ GridFS file processing error:', gridfsError);
@@ -395,44 +500,149 @@ export const uploadFields = async (req: any, res: any, callback: (error?: Error)
   }
 };
 
+/**
+ * Claim the file of a finalized resumable upload for the report being created
+ * Returned in multer's shape so report handlers link it like a directly uploaded video.
+ * Each upload can only be attached once; releaseUploadedVideo undoes the claim when the
+ * report is not saved.
+ */
+const claimUploadedVideo = async (uploadId: unknown): Promise<Express.Multer.File> => {
+  const session = typeof uploadId === 'string'
+    ? await UploadSessionModel.findOneAndUpdate(
+        { upload_id: uploadId, status: 'completed', mime_type: /^video\//, file_id: { $exists: true } },
+        { $set: { status: 'consumed', closed_at: new Date() } },
+        { new: true }
+      )
+    : null;
+
+  if (!session) {
+    throw new Error('Video upload not found, expired or not finished. Please upload the video again.');
+  }
+
+  return {
+    fieldname: 'video',
+    originalname: session.filename,
+    mimetype: session.mime_type,
+    size: session.total_size,
+    id: session.file_id
+  } as unknown as Express.Multer.File;
+};
+
+/**
+ * Return a claimed upload to the completed state after its report failed to save
+ * Left alone once any report references the file, since expiring it would delete evidence.
+ */
+const releaseUploadedVideo = async (uploadId: string, fileId: ObjectId): Promise<void> => {
+  try {
+    const referenced = await ReportModel.exists({ $or: [{ video_file_id: fileId }, { additional_media: fileId }] });
+    if (referenced) return;
+
+    const released = await UploadSessionModel.updateOne(
+      { upload_id: uploadId, status: 'consumed', file_id: fileId },
+      { $set: { status: 'completed' }, $unset: { closed_at: 1 } }
+    );
+    if (released.modifiedCount) console.log('↩️ Resumable video released after a failed report:', fileId);
+  } catch (error) {
+    console.error('❌ Failed to release resumable upload:', error);
+  }
+};
+
+// Previews are generated server-side from the stored media (see media-previews.ts)
+const LEGACY_PREVIEW_FIELDS = ['image_thumbnail', 'video_poster'];
+
+/**
+ * Validate a capture location sent by the report form (from EXIF it already stripped)
+ */
+const parseReportedMediaGps = (value: unknown): MediaGps | undefined => {
+  if (typeof value !== 'string' || !value) return undefined;
+  try {
+    const { latitude, longitude, altitude } = JSON.parse(value);
+    if (typeof latitude !== 'number' || typeof longitude !== 'number') return undefined;
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+    return {
+      latitude,
+      longitude,
+      altitude: typeof altitude === 'number' ? altitude : undefined,
+      source: 'reporter'
+    };
+  } catch {
+    return undefined;
+  }
+};
+
 /**
  * Upload file buffer directly to GridFS (for manual uploads)
- * Includes encryption for security
+ * Verifies the content matches the declared type and scans it for malware (infected
+ * files go to the quarantine bucket instead), strips EXIF/XMP/container metadata,
+ * records SHA-256 hashes of the received and stored content, then encrypts for security.
+ * With extractGps (reporter consent), the capture location is kept encrypted on the
+ * file metadata for admins instead of being discarded.
  */
 export const uploadFileToGridFS = async (
   fileBuffer: Buffer, 
   filename: string, 
-  mimetype: string
+  mimetype: string,
+  options: { extractGps?: boolean; reportedGps?: MediaGps; previewOf?: ObjectId } = {}
 ): Promise<ObjectId> => {
   return new Promise(async (resolve, reject) => {
     try {
       const bucket = await initializeGridFSBucket();
+
+      // Check the content really is the declared image/video, then scan it as received
+      verifyFileContent(fileBuffer, mimetype);
+      const scan = await scanFile(fileBuffer);
+      if (scan.verdict === 'infected') {
+        const file = { filename, mimetype, size: fileBuffer.length, sha256: crypto.createHash('sha256').update(fileBuffer).digest('hex') };
+        return resolve(await quarantineFile(Readable.from([fileBuffer]), file, scan));
+      }
+
+      // Remove identifying metadata before anything is stored
+      const sanitization = sanitizeMedia(fileBuffer, { extractGps: options.extractGps });
+      if (sanitization.removed.length) {
+        console.log(`🧹 Stripped metadata from ${filename}: ${sanitization.removed.join(', ')}`);
+      }
       
-      // Encrypt file buffer for security
-      const { encryptedBuffer, iv, authTag } = encryptBuffer(fileBuffer);
-      
-      const uploadStream = bucket.openUploadStream(filename, {
-        metadata: {
-          originalName: filename,
-          mimeType: mimetype,
-          uploadDate: new Date(),
-          encrypted: true,
-          encryptionIV: iv,
-          encryptionAuthTag: authTag
+      // Encrypt in independently authenticated chunks so the file can be range-read later,
+      // sealing them as they are written instead of holding the whole ciphertext
+      const { stream: encrypted, params } = createChunkEncryptStream(getEncryptionKey(), sanitization.buffer);
+
+      const metadata: Record<string, any> = {
+        originalName: filename,
+        mimeType: mimetype,
+        uploadDate: new Date(),
+        encrypted: true,
+        encryption: params,
+        // Evidence hashes: the stored content, and the bytes as the reporter sent them
+        sha256: crypto.createHash('sha256').update(sanitization.buffer).digest('hex'),
+        receivedSha256: crypto.createHash('sha256').update(fileBuffer).digest('hex'),
+        scan,
+        sanitization: {
+          format: sanitization.format,
+          sanitized: sanitization.sanitized,
+          removed: sanitization.removed
         }
-      });
+      };
 
-      uploadStream.on('error', (error) => {
-        console.error('❌ GridFS upload stream error:', error);
-        reject(error);
-      });
+      if (options.previewOf) {
+        metadata.kind = 'thumbnail';
+        metadata.previewOf = options.previewOf;
+      }
 
-      uploadStream.on('finish', () => {
+      const gps = sanitization.gps || options.reportedGps;
+      if (options.extractGps && gps) {
+        metadata.mediaLocation = encryptMediaLocation(gps);
+      }
+      
+      const uploadStream = bucket.openUploadStream(filename, { metadata });
+
+      pipeline(encrypted, uploadStream, (error) => {
+        if (error) {
+          console.error('❌ GridFS upload stream error:', error);
+          return reject(error);
+        }
         console.log('✅ File uploaded to GridFS:', uploadStream.id);
         resolve(uploadStream.id);
       });
-
-      uploadStream.end(encryptedBuffer);
     } catch (error) {
       console.error('❌ GridFS upload error:', error);
       reject(error);
@@ -440,6 +650,139 @@ export const uploadFileToGridFS = async (
   });
 };
 
+/**
+ * Upload a file too large to hold in memory (a finalized resumable video) to GridFS
+ * The source is opened once to scan it and again to store it, so openSource must return
+ * the same bytes each time. The caller has already checked the content with a
+ * verification sample and the received checksum. The video is sanitized, hashed and
+ * encrypted as it streams through; its stored hash and sanitization are recorded once
+ * the last chunk is written.
+ */
+export const uploadStreamToGridFS = async (
+  openSource: () => Readable,
+  file: StreamedFile,
+  options: { extractGps?: boolean } = {}
+): Promise<ObjectId> => {
+  const bucket = await initializeGridFSBucket();
+
+  const scan = await scanFile(openSource());
+  if (scan.verdict === 'infected') {
+    return quarantineFile(openSource(), file, scan);
+  }
+
+  const sanitizer = createMediaSanitizeStream({ extractGps: options.extractGps });
+  const storedHash = crypto.createHash('sha256');
+  const hashStored = new Transform({
+    transform(data: Buffer, _encoding, callback) {
+      storedHash.update(data);
+      callback(null, data);
+    }
+  });
+  // Sanitizing keeps the size, so the encrypted chunk layout is known before the first byte
+  const { stream: encrypt, params } = createChunkEncryptTransform(getEncryptionKey(), file.size);
+
+  const uploadStream = bucket.openUploadStream(file.filename, {
+    metadata: {
+      originalName: file.filename,
+      mimeType: file.mimetype,
+      uploadDate: new Date(),
+      encrypted: true,
+      encryption: params,
+      receivedSha256: file.sha256,
+      scan
+    }
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) =>
+      pipeline(openSource(), sanitizer.stream, hashStored, encrypt, uploadStream, (error) => (error ? reject(error) : resolve()))
+    );
+  } catch (error) {
+    console.error('❌ GridFS upload stream error:', error);
+    await uploadStream.abort().catch(() => undefined);
+    throw error;
+  }
+
+  const sanitization = sanitizer.result();
+  if (sanitization.removed.length) {
+    console.log(`🧹 Stripped metadata from ${file.filename}: ${sanitization.removed.join(', ')}`);
+  }
+
+  const update: Record<string, any> = {
+    'metadata.sha256': storedHash.digest('hex'),
+    'metadata.sanitization': {
+      format: sanitization.format,
+      sanitized: sanitization.sanitized,
+      removed: sanitization.removed
+    }
+  };
+  if (options.extractGps && sanitization.gps) {
+    update['metadata.mediaLocation'] = encryptMediaLocation(sanitization.gps);
+  }
+
+  try {
+    await mongoose.connection.db!.collection('uploads.files').updateOne({ _id: uploadStream.id }, { $set: update });
+  } catch (error) {
+    await bucket.delete(uploadStream.id).catch(() => undefined);
+    throw error;
+  }
+
+  console.log('✅ File streamed to GridFS:', uploadStream.id);
+  return uploadStream.id;
+};
+
+interface StreamedFile {
+  filename: string;
+  mimetype: string;
+  size: number;
+  sha256: string; // Of the bytes as received
+}
+
+// Capture location kept (with the reporter's consent) for admins, encrypted on the file metadata
+const encryptMediaLocation = (gps: MediaGps) => {
+  const location = encryptBuffer(Buffer.from(JSON.stringify(gps)));
+  return {
+    data: location.encryptedBuffer.toString('base64'),
+    iv: location.iv,
+    authTag: location.authTag
+  };
+};
+
+/**
+ * Store an infected upload, encrypted and untouched (for investigation), in the quarantine bucket
+ * The report still references it, so admins see the verdict, but it is never served.
+ */
+const quarantineFile = async (source: Readable, file: StreamedFile, scan: ScanResult): Promise<ObjectId> => {
+  const bucket = await initializeQuarantineBucket();
+  const { stream: encrypt, params } = createChunkEncryptTransform(getEncryptionKey(), file.size);
+
+  const uploadStream = bucket.openUploadStream(file.filename, {
+    metadata: {
+      originalName: file.filename,
+      mimeType: file.mimetype,
+      uploadDate: new Date(),
+      encrypted: true,
+      encryption: params,
+      sha256: file.sha256,
+      receivedSha256: file.sha256, // Stored unsanitized
+      scan,
+      quarantined: true
+    }
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) =>
+      pipeline(source, encrypt, uploadStream, (error) => (error ? reject(error) : resolve()))
+    );
+  } catch (error) {
+    await uploadStream.abort().catch(() => undefined);
+    throw error;
+  }
+
+  console.warn(`☣️ Upload quarantined: ${uploadStream.id} (${scan.signature || 'malware'})`);
+  return uploadStream.id;
+};
+
 // ================================================================================================
 // FILE RETRIEVAL AND MANAGEMENT
 // ================================================================================================
@@ -509,8 +852,10 @@ export const getDecryptedFile = async (fileId: string | ObjectId): Promise<{
           const encryptedBuffer = Buffer.concat(chunks);
           let finalBuffer = encryptedBuffer;
           
-          // Decrypt if the file was encrypted
-          if (file.metadata?.encrypted && file.metadata?.encryptionIV && file.metadata?.encryptionAuthTag) {
+          // Decrypt if the file was encrypted (chunked, or legacy single-shot GCM)
+          if (file.metadata?.encryption?.scheme === CHUNKED_ENCRYPTION_SCHEME) {
+            finalBuffer = decryptChunked(getEncryptionKey(), encryptedBuffer, file.metadata.encryption);
+          } else if (file.metadata?.encrypted && file.metadata?.encryptionIV && file.metadata?.encryptionAuthTag) {
             console.log(`🔓 Decrypting file: ${file.filename}`);
             finalBuffer = decryptBuffer(
               encryptedBuffer, 
@@ -559,15 +904,146 @@ export const deleteFile = async (fileId: string | ObjectId): Promise<void> => {
   }
 };
 
+/**
+ * Look up a stored file and its plaintext size (GCM doesn't change lengths, so only
+ * chunked files - which add a tag per chunk - store the size separately)
+ */
+export const getStoredFile = async (fileId: string | ObjectId) => {
+  const gridBucket = await initializeGridFSBucket();
+  const objectId = typeof fileId === 'string' ? new ObjectId(fileId) : fileId;
+
+  const files = await gridBucket.find({ _id: objectId }).toArray();
+  if (files.length === 0) {
+    throw new Error(`File not found: ${objectId}`);
+  }
+
+  const file = files[0];
+  const encryption = file.metadata?.encryption as ChunkedEncryptionParams | undefined;
+  return {
+    file,
+    size: encryption?.scheme === CHUNKED_ENCRYPTION_SCHEME ? encryption.plaintextSize : file.length,
+    filename: file.filename,
+    contentType: file.metadata?.mimeType || 'application/octet-stream'
+  };
+};
+
+type StoredFile = Awaited<ReturnType<typeof getStoredFile>>;
+
+/**
+ * Open a decrypted read stream for a stored file, optionally limited to a byte range (inclusive)
+ * Chunked files only read and decrypt the chunks covering the range; legacy single-shot
+ * encrypted files have to be decrypted in full first.
+ */
+export const openDecryptedStream = async (
+  stored: StoredFile,
+  range?: { start: number; end: number }
+): Promise<Readable> => {
+  const gridBucket = await initializeGridFSBucket();
+  const { file } = stored;
+  const start = range?.start ?? 0;
+  const end = range?.end ?? stored.size - 1;
+
+  if (stored.size === 0) {
+    return Readable.from([]);
+  }
+
+  if (file.metadata?.encryption?.scheme === CHUNKED_ENCRYPTION_SCHEME) {
+    const params = file.metadata.encryption as ChunkedEncryptionParams;
+    const encrypted = getEncryptedRange(params, start, end);
+    const download = gridBucket.openDownloadStream(file._id, { start: encrypted.start, end: encrypted.end });
+    const decrypt = createChunkDecryptStream(getEncryptionKey(), params, start, end);
+    // Errors reach the caller through the returned stream; destroying it closes the download too
+    return pipeline(download, decrypt, () => undefined);
+  }
+
+  if (file.metadata?.encrypted) {
+    const { buffer } = await getDecryptedFile(file._id);
+    return Readable.from([buffer.subarray(start, end + 1)]);
+  }
+
+  return gridBucket.openDownloadStream(file._id, { start, end: end + 1 });
+};
+
+/**
+ * Send a stored file over HTTP, honoring single byte-range requests (206 Partial Content)
+ * so video players can seek without downloading the whole file
+ */
+export const serveGridFSFile = async (
+  req: Request,
+  res: Response,
+  fileId: string | ObjectId
+): Promise<{ size: number; range?: { start: number; end: number } }> => {
+  const stored = await getStoredFile(fileId);
+
+  const ranges = req.headers.range && stored.size > 0 ? req.range(stored.size, { combine: true }) : undefined;
+  if (ranges === -1) {
+    res.status(416).set('Content-Range', `bytes */${stored.size}`).end();
+    return { size: stored.size };
+  }
+  // Malformed or multi-range requests get the whole file, which HTTP allows
+  const range = Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1
+    ? { start: ranges[0].start, end: ranges[0].end }
+    : undefined;
+
+  const stream = await openDecryptedStream(stored, range);
+
+  res.status(range ? 206 : 200).set({
+    'Content-Type': stored.contentType,
+    'Content-Disposition': `inline; filename="${stored.filename}"`,
+    'Cache-Control': 'private, max-age=3600',
+    'Accept-Ranges': 'bytes',
+    'Content-Length': (range ? range.end - range.start + 1 : stored.size).toString()
+  });
+  if (range) {
+    res.set('Content-Range', `bytes ${range.start}-${range.end}/${stored.size}`);
+  }
+
+  if (req.method === 'HEAD') {
+    stream.destroy();
+    res.end();
+    return { size: stored.size, range };
+  }
+
+  // pipeline tears both sides down: a client abort stops the download and decryption, and a
+  // read error aborts the response so the client doesn't treat a partial body as complete
+  pipeline(stream, res, (error) => {
+    if (error && error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      console.error('❌ Error streaming file:', error);
+    }
+  });
+
+  return { size: stored.size, range };
+};
+
+/**
+ * Decrypt the capture location extracted from a file's metadata (admin views only)
+ * Only present when the reporter consented to sharing it
+ */
+export const getMediaLocation = (metadata: any): { latitude: number; longitude: number; altitude?: number; source: string } | null => {
+  const location = metadata?.mediaLocation;
+  if (!location?.data) return null;
+
+  try {
+    return JSON.parse(decryptBuffer(Buffer.from(location.data, 'base64'), location.iv, location.authTag).toString('utf8'));
+  } catch (error) {
+    console.warn('⚠️ Could not decrypt media location:', error);
+    return null;
+  }
+};
+
 /**
  * Get file information from GridFS
+ * Falls back to the quarantine bucket, so quarantined evidence still shows its scan verdict
  */
 export const getFileInfo = async (fileId: string | ObjectId) => {
   try {
     const gridBucket = await initializeGridFSBucket();
     const objectId = typeof fileId === 'string' ? new ObjectId(fileId) : fileId;
     
-    const files = await gridBucket.find({ _id: objectId }).toArray();
+    let files = await gridBucket.find({ _id: objectId }).toArray();
+    if (files.length === 0) {
+      files = await (await initializeQuarantineBucket()).find({ _id: objectId }).toArray();
+    }
     if (files.length === 0) {
       throw new Error(`File not found: ${objectId}`);
     }
@@ -579,6 +1055,61 @@ export const getFileInfo = async (fileId: string | ObjectId) => {
   }
 };
 
+/**
+ * Delete GridFS files that no report references (failed or abandoned submissions)
+ * Only files older than the grace period are considered, so in-flight uploads are kept.
+ * Pages through every old file by _id, so orphans behind referenced files are reached too.
+ */
+export const cleanupOrphanedFiles = async (olderThanHours: number = 24, batchSize: number = 500): Promise<{ checked: number; deleted: number }> => {
+  const gridBucket = await initializeGridFSBucket();
+  const cutoff = new Date(Date.now() - olderThanHours * 60 * 60 * 1000);
+  
+  let checked = 0;
+  let deleted = 0;
+  let lastId: mongoose.Types.ObjectId | null = null;
+  
+  while (true) {
+    const filter: any = { uploadDate: { $lt: cutoff } };
+    if (lastId) filter._id = { $gt: lastId };
+    
+    const files = await gridBucket.find(filter).sort({ _id: 1 }).limit(batchSize).toArray();
+    if (files.length === 0) break;
+    lastId = files[files.length - 1]._id;
+    checked += files.length;
+    
+    const ids = files.map(file => file._id);
+    const reports = await ReportModel.find({
+      $or: [
+        { photo_file_id: { $in: ids } },
+        { video_file_id: { $in: ids } },
+        { additional_media: { $in: ids } },
+        { photo_thumbnail_id: { $in: ids } },
+        { video_thumbnail_id: { $in: ids } }
+      ]
+    }).select('photo_file_id video_file_id additional_media photo_thumbnail_id video_thumbnail_id').lean();
+    
+    const referenced = new Set<string>();
+    for (const report of reports) {
+      if (report.photo_file_id) referenced.add(report.photo_file_id.toString());
+      if (report.video_file_id) referenced.add(report.video_file_id.toString());
+      if (report.photo_thumbnail_id) referenced.add(report.photo_thumbnail_id.toString());
+      if (report.video_thumbnail_id) referenced.add(report.video_thumbnail_id.toString());
+      (report.additional_media || []).forEach(id => referenced.add(id.toString()));
+    }
+    
+    for (const file of files) {
+      if (referenced.has(file._id.toString())) continue;
+      await gridBucket.delete(file._id);
+      deleted++;
+    }
+    
+    if (files.length < batchSize) break;
+  }
+  
+  console.log(`🧹 Media cleanup: ${deleted} orphaned file(s) deleted out of ${checked} checked`);
+  return { checked, deleted };
+};
+
 // ================================================================================================
 // CONNECTION MANAGEMENT
 // ================================================================================================
@@ -594,6 +1125,7 @@ mongoose.connection.on('connected', () => {
 mongoose.connection.on('disconnected', () => {
   console.log('🔌 MongoDB disconnected, cleaning up GridFS...');
   gridFSBucket = null;
+  quarantineBucket = null;
   connectionPromise = null;
 });
 
@@ -601,5 +1133,6 @@ mongoose.connection.on('disconnected', () => {
 mongoose.connection.on('error', (error) => {
   console.error('❌ MongoDB connection error:', error);
   gridFSBucket = null;
+  quarantineBucket = null;
   connectionPromise = null;
 });
\ No newline at end of file
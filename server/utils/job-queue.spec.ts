@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { computeBackoffMs, planRetry } from "./job-queue";
+
+describe("job queue retry policy", () => {
+  it("should back off exponentially up to one hour", () => {
+    expect(computeBackoffMs(1, 1000)).toBe(1000);
+    expect(computeBackoffMs(2, 1000)).toBe(2000);
+    expect(computeBackoffMs(4, 1000)).toBe(8000);
+    expect(computeBackoffMs(30, 1000)).toBe(60 * 60 * 1000);
+  });
+
+  it("should dead-letter a job once it runs out of attempts", () => {
+    const now = new Date("2024-01-01T00:00:00Z");
+
+    const retry = planRetry(2, 5, 1000, now);
+    expect(retry.status).toBe("pending");
+    expect(retry.run_at.getTime()).toBe(now.getTime() + 2000);
+
+    expect(planRetry(5, 5, 1000, now).status).toBe("dead");
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * Durable Job Queue for Whistle App
+ *
+ * Features:
+ * - Jobs persisted in MongoDB, so restarts don't lose pending work
+ * - Atomic job claiming - safe with several server instances polling the same queue
+ * - Retries with exponential backoff, dead-letter status after the last attempt
+ * - Lease-based leader lock: only one instance enqueues recurring (scheduled) jobs
+ * - Stale running jobs (crashed worker) are returned to the queue by the leader
+ */
+
+import os from "os";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import JobModel, { IJob, JobStatus } from "../../shared/models/Job";
+import SchedulerLockModel from "../../shared/models/SchedulerLock";
+
+export type JobHandler = (payload: any, job: IJob) => Promise<any>;
+
+export interface JobHandlerOptions {
+  maxAttempts?: number;
+  backoffMs?: number; // Base delay, doubled on every failed attempt
+}
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+  dedupeKey?: string;
+}
+
+interface RegisteredHandler {
+  handler: JobHandler;
+  maxAttempts: number;
+  backoffMs: number;
+}
+
+interface RecurringJob {
+  name: string;
+  intervalMs: number;
+  payload: any;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const POLL_INTERVAL_MS = 5 * 1000;
+const LEADER_LEASE_MS = 60 * 1000;
+const STALE_JOB_MS = 10 * 60 * 1000;
+const JOBS_PER_POLL = 10;
+const LEADER_LOCK_ID = 'scheduler';
+
+// Unique per process so locks and claimed jobs can be traced back to an instance
+export const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+const handlers = new Map<string, RegisteredHandler>();
+const recurringJobs = new Map<string, RecurringJob>();
+
+let pollTimer: NodeJS.Timeout | null = null;
+let leaderTimer: NodeJS.Timeout | null = null;
+let polling = false;
+let leader = false;
+
+// ================================================================================================
+// RETRY POLICY
+// ================================================================================================
+
+/**
+ * Exponential backoff: base, 2x base, 4x base ... capped at one hour
+ */
+export function computeBackoffMs(attempt: number, baseMs: number = DEFAULT_BACKOFF_MS): number {
+  return Math.min(baseMs * Math.pow(2, Math.max(attempt - 1, 0)), MAX_BACKOFF_MS);
+}
+
+/**
+ * Decide what happens to a job after a failed attempt
+ */
+export function planRetry(
+  attempts: number,
+  maxAttempts: number,
+  baseMs: number,
+  now: Date = new Date()
+): { status: JobStatus; run_at: Date } {
+  if (attempts >= maxAttempts) {
+    return { status: 'dead', run_at: now };
+  }
+  return { status: 'pending', run_at: new Date(now.getTime() + computeBackoffMs(attempts, baseMs)) };
+}
+
+// ================================================================================================
+// REGISTRATION AND ENQUEUEING
+// ================================================================================================
+
+/**
+ * Register the handler for a job name. Handlers throw to signal a retryable failure.
+ */
+export function registerJobHandler(name: string, handler: JobHandler, options: JobHandlerOptions = {}): void {
+  handlers.set(name, {
+    handler,
+    maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+    backoffMs: options.backoffMs || DEFAULT_BACKOFF_MS
+  });
+}
+
+/**
+ * Run a registered job every intervalMs. Only the leader instance enqueues it.
+ */
+export function scheduleRecurringJob(name: string, intervalMs: number, payload: any = {}): void {
+  recurringJobs.set(name, { name, intervalMs, payload });
+  console.log(`⏰ Recurring job scheduled: ${name} every ${Math.round(intervalMs / 60000)} minutes`);
+}
+
+/**
+ * Add a job to the queue. Returns null when a job with the same dedupe key already exists.
+ */
+export async function enqueueJob(name: string, payload: any = {}, options: EnqueueOptions = {}): Promise<IJob | null> {
+  try {
+    const job = await JobModel.create({
+      name,
+      payload,
+      max_attempts: options.maxAttempts || handlers.get(name)?.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+      run_at: options.runAt || new Date(),
+      dedupe_key: options.dedupeKey
+    });
+
+    // Don't wait for the next poll when the worker is running in this process
+    if (pollTimer) setImmediate(() => pollJobs().catch(() => undefined));
+
+    return job;
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      console.log(`⏭️ Job ${name} already queued (${options.dedupeKey})`);
+      return null;
+    }
+    throw error;
+  }
+}
+
+// ================================================================================================
+// WORKER
+// ================================================================================================
+
+// Atomically claim the next due job this instance has a handler for
+const claimNextJob = async (): Promise<IJob | null> => {
+  const now = new Date();
+  return JobModel.findOneAndUpdate(
+    { status: 'pending', run_at: { $lte: now }, name: { $in: Array.from(handlers.keys()) } },
+    { $set: { status: 'running', locked_by: WORKER_ID, locked_at: now }, $inc: { attempts: 1 } },
+    { sort: { run_at: 1 }, new: true }
+  );
+};
+
+// Execute a claimed job and record the outcome
+const runJob = async (job: IJob): Promise<void> => {
+  const registered = handlers.get(job.name);
+  if (!registered) return;
+
+  try {
+    const result = await registered.handler(job.payload, job);
+    await JobModel.updateOne(
+      { _id: job._id, locked_by: WORKER_ID },
+      {
+        $set: { status: 'completed', completed_at: new Date(), result: result ?? null, locked_by: null, locked_at: null }
+      }
+    );
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    const next = planRetry(job.attempts, job.max_attempts, registered.backoffMs);
+
+    await JobModel.updateOne(
+      { _id: job._id, locked_by: WORKER_ID },
+      {
+        $set: {
+          status: next.status,
+          run_at: next.run_at,
+          last_error: message,
+          locked_by: null,
+          locked_at: null,
+          ...(next.status === 'dead' ? { dead_at: new Date() } : {})
+        },
+        $push: { attempt_errors: { attempt: job.attempts, message: message.substring(0, 1000), at: new Date() } }
+      }
+    );
+
+    if (next.status === 'dead') {
+      console.error(`💀 Job ${job.name} (${job._id}) moved to dead-letter after ${job.attempts} attempts: ${message}`);
+    } else {
+      console.warn(`🔁 Job ${job.name} (${job._id}) failed attempt ${job.attempts}/${job.max_attempts}, retrying at ${next.run_at.toISOString()}: ${message}`);
+    }
+  }
+};
+
+/**
+ * Process due jobs (called on an interval by startJobQueue)
+ */
+export async function pollJobs(): Promise<number> {
+  if (polling || mongoose.connection.readyState !== 1) return 0;
+  polling = true;
+
+  let processed = 0;
+  try {
+    while (processed < JOBS_PER_POLL) {
+      const job = await claimNextJob();
+      if (!job) break;
+      await runJob(job);
+      processed++;
+    }
+  } catch (error) {
+    console.error("❌ Job queue poll failed:", error);
+  } finally {
+    polling = false;
+  }
+
+  return processed;
+}
+
+// ================================================================================================
+// LEADER ELECTION AND SCHEDULING
+// ================================================================================================
+
+/**
+ * Acquire or renew the scheduler lease. Fails with a duplicate key error
+ * when another live instance holds the lock.
+ */
+async function acquireLeadership(): Promise<boolean> {
+  const now = new Date();
+  try {
+    await SchedulerLockModel.findOneAndUpdate(
+      { _id: LEADER_LOCK_ID, $or: [{ owner: WORKER_ID }, { expires_at: { $lt: now } }] },
+      {
+        $set: { owner: WORKER_ID, expires_at: new Date(now.getTime() + LEADER_LEASE_MS) },
+        $setOnInsert: { acquired_at: now }
+      },
+      { upsert: true, new: true }
+    );
+
+    if (!leader) console.log(`👑 Job scheduler leadership acquired by ${WORKER_ID}`);
+    return true;
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      if (leader) console.log(`👋 Job scheduler leadership lost by ${WORKER_ID}`);
+      return false;
+    }
+    throw error;
+  }
+}
+
+// Return jobs held by crashed workers to the queue (or dead-letter them when out of attempts)
+const recoverStaleJobs = async (): Promise<void> => {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS);
+  const stale = { status: 'running', locked_at: { $lt: staleBefore } };
+
+  await JobModel.updateMany(
+    { ...stale, $expr: { $gte: ['$attempts', '$max_attempts'] } },
+    { $set: { status: 'dead', dead_at: new Date(), last_error: 'Worker stopped while running job', locked_by: null, locked_at: null } }
+  );
+  const { modifiedCount } = await JobModel.updateMany(
+    stale,
+    { $set: { status: 'pending', run_at: new Date(), locked_by: null, locked_at: null } }
+  );
+
+  if (modifiedCount > 0) {
+    console.warn(`🔁 Requeued ${modifiedCount} stale job(s)`);
+  }
+};
+
+// Enqueue recurring jobs for the current interval slot; the dedupe key makes this idempotent
+const enqueueRecurringJobs = async (): Promise<void> => {
+  const now = Date.now();
+  for (const recurring of recurringJobs.values()) {
+    const slot = Math.floor(now / recurring.intervalMs);
+    await enqueueJob(recurring.name, recurring.payload, { dedupeKey: `recurring:${recurring.name}:${slot}` })
+      .catch((error) => console.error(`❌ Failed to enqueue recurring job ${recurring.name}:`, error));
+  }
+};
+
+/**
+ * Leader tick: renew the lease, then run scheduler duties if we hold it
+ */
+async function schedulerTick(): Promise<void> {
+  if (mongoose.connection.readyState !== 1) return;
+
+  try {
+    leader = await acquireLeadership();
+    if (!leader) return;
+
+    await recoverStaleJobs();
+    await enqueueRecurringJobs();
+  } catch (error) {
+    console.error("❌ Job scheduler tick failed:", error);
+  }
+}
+
+export function isSchedulerLeader(): boolean {
+  return leader;
+}
+
+/**
+ * Start polling for jobs and competing for scheduler leadership
+ */
+export function startJobQueue(): void {
+  if (pollTimer) return;
+
+  console.log(`🚀 Starting job queue worker ${WORKER_ID} (${handlers.size} job types)`);
+
+  pollTimer = setInterval(() => { pollJobs(); }, POLL_INTERVAL_MS);
+  // Renew the lease well before it expires
+  leaderTimer = setInterval(() => { schedulerTick(); }, LEADER_LEASE_MS / 3);
+  // The HTTP server keeps the process alive; the queue alone shouldn't
+  pollTimer.unref();
+  leaderTimer.unref();
+  schedulerTick();
+
+  console.log(`✅ Job queue active - polling every ${POLL_INTERVAL_MS / 1000} seconds`);
+}
+
+/**
+ * Stop the worker and release leadership (graceful shutdown)
+ */
+export async function stopJobQueue(): Promise<void> {
+  if (pollTimer) clearInterval(pollTimer);
+  if (leaderTimer) clearInterval(leaderTimer);
+  pollTimer = null;
+  leaderTimer = null;
+
+  if (leader) {
+    leader = false;
+    await SchedulerLockModel.deleteOne({ _id: LEADER_LOCK_ID, owner: WORKER_ID }).catch(() => undefined);
+  }
+}
+
+// ================================================================================================
+// ADMIN OPERATIONS
+// ================================================================================================
+
+/**
+ * Put a dead-lettered job back on the queue with a fresh set of attempts
+ */
+export async function retryJob(jobId: string): Promise<IJob | null> {
+  return JobModel.findOneAndUpdate(
+    { _id: jobId, status: 'dead' },
+    {
+      $set: { status: 'pending', attempts: 0, run_at: new Date() },
+      $unset: { dead_at: 1 }
+    },
+    { new: true }
+  );
+}
+
+/**
+ * Queue overview for the admin jobs endpoint
+ */
+export async function getJobQueueStats() {
+  const rows = await JobModel.aggregate([
+    { $group: { _id: { name: '$name', status: '$status' }, count: { $sum: 1 } } }
+  ]);
+
+  const byStatus: Record<string, number> = { pending: 0, running: 0, completed: 0, dead: 0 };
+  const byName: Record<string, Record<string, number>> = {};
+  for (const row of rows) {
+    byStatus[row._id.status] = (byStatus[row._id.status] || 0) + row.count;
+    byName[row._id.name] = { ...(byName[row._id.name] || {}), [row._id.status]: row.count };
+  }
+
+  const lock = await SchedulerLockModel.findById(LEADER_LOCK_ID).lean();
+
+  return {
+    byStatus,
+    byName,
+    leader: lock && lock.expires_at > new Date() ? lock.owner : null,
+    worker: WORKER_ID,
+    registered: Array.from(handlers.keys()),
+    recurring: Array.from(recurringJobs.values()).map(({ name, intervalMs }) => ({ name, intervalMs }))
+  };
+}
@@ -0,0 +1,38 @@
+import { afterEach, describe, it, expect } from "vitest";
+import { Readable } from "stream";
+import { scanFile } from "./malware-scanner";
+
+const EICAR = "X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*";
+
+describe("malware scanning", () => {
+  const previous = process.env.MALWARE_SCANNER;
+  afterEach(() => {
+    if (previous === undefined) delete process.env.MALWARE_SCANNER;
+    else process.env.MALWARE_SCANNER = previous;
+  });
+
+  it("should report infected files with the stub scanner", async () => {
+    process.env.MALWARE_SCANNER = "stub";
+
+    expect((await scanFile(Buffer.from("holiday photo"))).verdict).toBe("clean");
+    const infected = await scanFile(Buffer.from(EICAR));
+    expect(infected.verdict).toBe("infected");
+    expect(infected.signature).toBe("Eicar-Test-Signature");
+  });
+
+  it("should scan a stream, including signatures split across pieces", async () => {
+    process.env.MALWARE_SCANNER = "stub";
+    const file = Buffer.concat([Buffer.alloc(100_000), Buffer.from(EICAR), Buffer.alloc(100)]);
+
+    const pieces = [file.subarray(0, 100_030), file.subarray(100_030)];
+    expect((await scanFile(Readable.from(pieces))).verdict).toBe("infected");
+    expect((await scanFile(Readable.from([Buffer.alloc(100_000), Buffer.alloc(100)]))).verdict).toBe("clean");
+  });
+
+  it("should mark files unscanned when no scanner is configured", async () => {
+    process.env.MALWARE_SCANNER = "clamav";
+    delete process.env.CLAMAV_HOST;
+
+    expect((await scanFile(Buffer.from("holiday photo"))).verdict).toBe("unscanned");
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { renderImagePreview } from "./media-previews";
+
+describe("media previews", () => {
+  it("should render a small JPEG without metadata, applying the orientation", async () => {
+    // 800x600 JPEG tagged as rotated 90° - the preview should come out portrait
+    const original = await sharp({ create: { width: 800, height: 600, channels: 3, background: "#3366cc" } })
+      .withMetadata({ orientation: 6, exif: { IFD0: { Make: "Acme" } } })
+      .jpeg()
+      .toBuffer();
+    expect((await sharp(original).metadata()).exif).toBeDefined();
+
+    const preview = await renderImagePreview(original);
+    const metadata = await sharp(preview).metadata();
+    expect(metadata.format).toBe("jpeg");
+    expect(metadata).toMatchObject({ width: 240, height: 320 });
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+  });
+
+  it("should not enlarge images smaller than a preview", async () => {
+    const original = await sharp({ create: { width: 100, height: 50, channels: 3, background: "#000" } }).png().toBuffer();
+    expect(await sharp(await renderImagePreview(original)).metadata()).toMatchObject({ format: "jpeg", width: 100, height: 50 });
+  });
+});
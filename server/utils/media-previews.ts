@@ -0,0 +1,199 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import type { Readable } from 'stream';
+import sharp from 'sharp';
+import ReportModel from '../../shared/models/report';
+import { deleteFile, getDecryptedFile, getStoredFile, openDecryptedStream, uploadFileToGridFS } from './gridfs';
+import { enqueueJob, registerJobHandler, scheduleRecurringJob } from './job-queue';
+
+/**
+ * Media Previews for Whistle App
+ * Thumbnails (photos) and poster frames (videos) for the admin list, generated on the
+ * server from the stored, already-sanitized evidence - never taken from the client - and
+ * stored encrypted like any other upload. Poster frames need ffmpeg (FFMPEG_PATH, or
+ * `ffmpeg` on the PATH); without it videos simply have no preview.
+ *
+ * Previews are made by a job queued once the report is saved, and a recurring backfill
+ * queues the same job for older reports that have none.
+ */
+
+export const MEDIA_PREVIEW_JOB = 'media:preview';
+export const MEDIA_PREVIEW_BACKFILL_JOB = 'media:preview-backfill';
+
+const MAX_PREVIEW_DIMENSION = 320;
+const PREVIEW_QUALITY = 70;
+const POSTER_SEEK_SECONDS = 1;
+const FFMPEG_TIMEOUT_MS = 30000;
+// Larger images are skipped rather than decrypted into memory just for a thumbnail
+const MAX_IMAGE_SOURCE_BYTES = 50 * 1024 * 1024;
+
+const PREVIEW_FIELDS = {
+  photo: { source: 'photo_file_id', preview: 'photo_thumbnail_id' },
+  video: { source: 'video_file_id', preview: 'video_thumbnail_id' }
+} as const;
+
+type PreviewKind = keyof typeof PREVIEW_FIELDS;
+
+/**
+ * Downscaled JPEG of an image. sharp writes no EXIF/XMP unless asked, so the preview
+ * carries no metadata; the orientation is applied to the pixels first.
+ */
+export async function renderImagePreview(image: Buffer): Promise<Buffer> {
+  return sharp(image)
+    .rotate()
+    .resize(MAX_PREVIEW_DIMENSION, MAX_PREVIEW_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: PREVIEW_QUALITY })
+    .toBuffer();
+}
+
+let ffmpegMissing = false;
+
+// One frame as PNG on stdout, or null when ffmpeg couldn't produce one
+const extractFrame = (file: string, seekSeconds: number): Promise<Buffer | null> =>
+  new Promise((resolve, reject) => {
+    const ffmpeg = spawn(process.env.FFMPEG_PATH || 'ffmpeg', [
+      '-v', 'error', '-ss', String(seekSeconds), '-i', file, '-frames:v', '1', '-f', 'image2pipe', '-c:v', 'png', 'pipe:1'
+    ], { stdio: ['ignore', 'pipe', 'ignore'] });
+    const chunks: Buffer[] = [];
+    const timer = setTimeout(() => ffmpeg.kill('SIGKILL'), FFMPEG_TIMEOUT_MS);
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    ffmpeg.on('close', (code) => {
+      clearTimeout(timer);
+      const frame = Buffer.concat(chunks);
+      resolve(code === 0 && frame.length > 0 ? frame : null);
+    });
+  });
+
+/**
+ * Poster frame of a video: 1s in, or the first frame of shorter clips.
+ * The decrypted video is written to a private temporary directory for ffmpeg (MP4s can't
+ * be read from a pipe when the index is at the end) and removed straight afterwards.
+ */
+export async function renderVideoPoster(video: Readable): Promise<Buffer | null> {
+  if (ffmpegMissing) {
+    video.destroy();
+    return null;
+  }
+
+  const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'whistle-poster-'));
+  const file = path.join(directory, 'video');
+  try {
+    await pipeline(video, fs.createWriteStream(file, { mode: 0o600 }));
+    const frame = (await extractFrame(file, POSTER_SEEK_SECONDS)) || (await extractFrame(file, 0));
+    return frame ? await renderImagePreview(frame) : null;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT' && error?.syscall?.startsWith('spawn')) {
+      ffmpegMissing = true;
+      console.warn('⚠️ ffmpeg not found - video poster frames are disabled (set FFMPEG_PATH to enable them)');
+      return null;
+    }
+    throw error;
+  } finally {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  }
+}
+
+// Build and store one preview; undefined when the media can't have one
+const createStoredPreview = async (kind: PreviewKind, fileId: string): Promise<string | undefined> => {
+  const stored = await getStoredFile(fileId);
+  let preview: Buffer | null = null;
+
+  if (kind === 'photo') {
+    if (stored.size > MAX_IMAGE_SOURCE_BYTES) return undefined;
+    const { buffer } = await getDecryptedFile(fileId);
+    preview = await renderImagePreview(buffer);
+  } else {
+    preview = await renderVideoPoster(await openDecryptedStream(stored));
+  }
+  if (!preview) return undefined;
+
+  const previewId = await uploadFileToGridFS(preview, `thumbnail_${fileId}.jpg`, 'image/jpeg', { previewOf: stored.file._id });
+  return previewId.toString();
+};
+
+/**
+ * Generate the missing previews of a report's photo and video
+ * Media that can't be previewed (quarantined or unreadable files, videos without ffmpeg)
+ * is reported as skipped rather than failing the job.
+ */
+export async function generateReportPreviews(reportId: string): Promise<{ generated: string[]; skipped: string[] }> {
+  const report: any = await ReportModel.findById(reportId)
+    .select('photo_file_id video_file_id photo_thumbnail_id video_thumbnail_id')
+    .lean();
+  const generated: string[] = [];
+  const skipped: string[] = [];
+  if (!report) return { generated, skipped };
+
+  for (const kind of Object.keys(PREVIEW_FIELDS) as PreviewKind[]) {
+    const fields = PREVIEW_FIELDS[kind];
+    if (!report[fields.source] || report[fields.preview]) continue;
+
+    let previewId: string | undefined;
+    try {
+      previewId = await createStoredPreview(kind, report[fields.source].toString());
+    } catch (error: any) {
+      console.warn(`⚠️ Could not generate ${kind} preview for report ${reportId}: ${error.message}`);
+    }
+    if (!previewId) {
+      skipped.push(kind);
+      continue;
+    }
+
+    // Another worker may have got there first - keep theirs and drop this one
+    const result = await ReportModel.updateOne(
+      { _id: report._id, [fields.preview]: { $exists: false } },
+      { $set: { [fields.preview]: previewId } }
+    );
+    if (result.modifiedCount === 0) {
+      await deleteFile(previewId).catch(() => undefined);
+      continue;
+    }
+    generated.push(kind);
+  }
+
+  if (generated.length) console.log(`🖼️ Generated ${generated.join(' and ')} preview for report ${reportId}`);
+  return { generated, skipped };
+}
+
+/**
+ * Queue preview generation for a report (once per report, across instances)
+ */
+export const queueReportPreviews = (reportId: string) =>
+  enqueueJob(MEDIA_PREVIEW_JOB, { reportId }, { dedupeKey: `media-preview:${reportId}` });
+
+/**
+ * Queue previews for reports with media but no preview. The per-report dedupe key means
+ * media that can't be previewed is only retried once its earlier job has been purged.
+ */
+export async function backfillMediaPreviews(limit: number = 200): Promise<{ queued: number }> {
+  const reports = await ReportModel.find({
+    $or: [
+      { photo_file_id: { $exists: true }, photo_thumbnail_id: { $exists: false } },
+      { video_file_id: { $exists: true }, video_thumbnail_id: { $exists: false } }
+    ]
+  }).select('_id').sort({ _id: -1 }).limit(limit).lean();
+
+  let queued = 0;
+  for (const report of reports) {
+    if (await queueReportPreviews(report._id.toString())) queued++;
+  }
+  if (queued) console.log(`🖼️ Queued previews for ${queued} report(s) without them`);
+  return { queued };
+}
+
+/**
+ * Register the preview job and the recurring backfill
+ */
+export function registerMediaPreviewJobs(): void {
+  registerJobHandler(MEDIA_PREVIEW_JOB, ({ reportId }) => generateReportPreviews(reportId), { maxAttempts: 3 });
+  registerJobHandler(MEDIA_PREVIEW_BACKFILL_JOB, () => backfillMediaPreviews(), { maxAttempts: 2 });
+  scheduleRecurringJob(MEDIA_PREVIEW_BACKFILL_JOB, 6 * 60 * 60 * 1000);
+}
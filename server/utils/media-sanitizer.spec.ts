@@ -0,0 +1,182 @@
+import { describe, it, expect } from "vitest";
+import { Readable } from "stream";
+import { createMediaSanitizeStream, sanitizeMedia } from "./media-sanitizer";
+
+// Big-endian TIFF with Make, Orientation=6 and a GPS IFD at 37°46'30"N 122°25'10"W
+const buildExif = () => {
+  const tiff = Buffer.alloc(200);
+  tiff.write("MM", 0, "latin1");
+  tiff.writeUInt16BE(0x2a, 2);
+  tiff.writeUInt32BE(8, 4);
+  const entry = (at: number, tag: number, type: number, count: number, value: number) => {
+    tiff.writeUInt16BE(tag, at);
+    tiff.writeUInt16BE(type, at + 2);
+    tiff.writeUInt32BE(count, at + 4);
+    if (type === 3) tiff.writeUInt16BE(value, at + 8);
+    else tiff.writeUInt32BE(value, at + 8);
+  };
+  tiff.writeUInt16BE(3, 8);
+  entry(10, 0x010f, 2, 4, 0); // Make "Acme" (inline)
+  tiff.write("Acme", 18, "latin1");
+  entry(22, 0x0112, 3, 1, 6); // Orientation
+  entry(34, 0x8825, 4, 1, 50); // GPS IFD pointer
+  tiff.writeUInt16BE(4, 50);
+  entry(52, 1, 2, 2, 0);
+  tiff.write("N", 60, "latin1");
+  entry(64, 2, 5, 3, 120);
+  entry(76, 3, 2, 2, 0);
+  tiff.write("W", 84, "latin1");
+  entry(88, 4, 5, 3, 144);
+  [37, 1, 46, 1, 30, 1].forEach((v, i) => tiff.writeUInt32BE(v, 120 + i * 4));
+  [122, 1, 25, 1, 10, 1].forEach((v, i) => tiff.writeUInt32BE(v, 144 + i * 4));
+  return Buffer.concat([Buffer.from("Exif\0\0", "latin1"), tiff]);
+};
+
+const segment = (marker: number, payload: Buffer) => {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(marker, 0);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+};
+
+const box = (type: string, ...children: Buffer[]) => {
+  const body = Buffer.concat(children);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8, 0);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, body]);
+};
+
+// Feed a file through the streaming sanitizer in odd-sized pieces
+const sanitizeStreamed = async (file: Buffer, options = {}) => {
+  const { stream, result } = createMediaSanitizeStream(options);
+  const pieces: Buffer[] = [];
+  for (let i = 0; i < file.length; i += 7) pieces.push(Buffer.from(file.subarray(i, i + 7)));
+  const output: Buffer[] = [];
+  for await (const data of Readable.from(pieces).pipe(stream)) output.push(data);
+  return { buffer: Buffer.concat(output), ...result() };
+};
+
+describe("Media sanitizer", () => {
+  it("should strip EXIF, XMP and comments from JPEGs but keep the orientation", () => {
+    const jpeg = Buffer.concat([
+      Buffer.from([0xff, 0xd8]),
+      segment(0xffe0, Buffer.from("JFIF\0\x01\x01\0\0\x01\0\x01\0\0", "latin1")),
+      segment(0xffe1, buildExif()),
+      segment(0xffe1, Buffer.from("http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>", "latin1")),
+      segment(0xfffe, Buffer.from("shot by Jane", "latin1")),
+      Buffer.from([0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9]),
+    ]);
+
+    const result = sanitizeMedia(jpeg, { extractGps: true });
+
+    expect(result.format).toBe("jpeg");
+    expect(result.removed).toEqual(expect.arrayContaining(["exif", "exif.make", "exif.gps", "xmp", "comment"]));
+    expect(result.buffer.includes(Buffer.from("Acme"))).toBe(false);
+    expect(result.buffer.includes(Buffer.from("Jane"))).toBe(false);
+    expect(sanitizeMedia(result.buffer).removed).toEqual(["exif"]); // Only the orientation block is left
+    expect(result.gps?.latitude).toBeCloseTo(37.775, 3);
+    expect(result.gps?.longitude).toBeCloseTo(-122.4194, 3);
+    expect(sanitizeMedia(jpeg).gps).toBeUndefined();
+  });
+
+  it("should cut JPEGs at the end-of-image marker", () => {
+    const image = Buffer.concat([Buffer.from([0xff, 0xd8]), Buffer.from([0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9])]);
+    const motionPhoto = Buffer.concat([image, box("ftyp", Buffer.from("mp42\0\0\0\0", "latin1")), Buffer.alloc(32)]);
+
+    const result = sanitizeMedia(motionPhoto);
+
+    expect(result.buffer).toEqual(image);
+    expect(result.removed).toEqual(["trailer"]);
+  });
+
+  it("should drop PNG text chunks and keep image chunks", () => {
+    const chunk = (type: string, data: Buffer) => {
+      const header = Buffer.alloc(8);
+      header.writeUInt32BE(data.length, 0);
+      header.write(type, 4, "latin1");
+      return Buffer.concat([header, data, Buffer.alloc(4)]);
+    };
+    const png = Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk("IHDR", Buffer.alloc(13)),
+      chunk("tEXt", Buffer.from("Author\0Jane Doe", "latin1")),
+      chunk("IDAT", Buffer.alloc(4)),
+      chunk("IEND", Buffer.alloc(0)),
+    ]);
+
+    const result = sanitizeMedia(png);
+
+    expect(result.removed).toEqual(["text.author"]);
+    expect(result.buffer.length).toBe(png.length - (12 + 15));
+  });
+
+  it("should blank MP4 user data in place and read its ISO 6709 location", () => {
+    const mp4 = Buffer.concat([
+      box("ftyp", Buffer.from("isom\0\0\0\0", "latin1")),
+      box("moov", box("udta", box("©xyz", Buffer.from("\0\x12\x15\xc7+37.7749-122.4194/", "latin1")))),
+      box("mdat", Buffer.alloc(16)),
+    ]);
+    const originalLength = mp4.length;
+
+    const result = sanitizeMedia(mp4, { extractGps: true });
+
+    expect(result.removed).toEqual(["mp4.gps"]);
+    expect(result.buffer.length).toBe(originalLength);
+    expect(result.buffer.includes(Buffer.from("+37.7749"))).toBe(false);
+    expect(result.gps).toMatchObject({ latitude: 37.7749, longitude: -122.4194, source: "mp4" });
+  });
+
+  it("should zero timestamps in media headers nested under mdia", () => {
+    const mdhd = Buffer.alloc(24);
+    mdhd.writeUInt32BE(0xdeadbeef, 4); // creation_time (version 0)
+    mdhd.writeUInt32BE(0xcafebabe, 8); // modification_time
+    mdhd.writeUInt32BE(600, 12); // timescale
+    const mp4 = Buffer.concat([
+      box("ftyp", Buffer.from("isom\0\0\0\0", "latin1")),
+      box("moov", box("trak", box("mdia", box("mdhd", mdhd)))),
+      box("mdat", Buffer.alloc(16)),
+    ]);
+
+    const result = sanitizeMedia(mp4);
+
+    expect(result.removed).toEqual(["mp4.creation_time"]);
+    expect(result.buffer.includes(Buffer.from([0xde, 0xad, 0xbe, 0xef]))).toBe(false);
+    expect(result.buffer.includes(Buffer.from([0xca, 0xfe, 0xba, 0xbe]))).toBe(false);
+    expect(result.buffer.readUInt32BE(result.buffer.indexOf("mdhd") + 16)).toBe(600);
+  });
+
+  it("should sanitize a streamed MP4 exactly like the whole file", async () => {
+    const mp4 = Buffer.concat([
+      box("ftyp", Buffer.from("isom\0\0\0\0", "latin1")),
+      box("mdat", Buffer.alloc(100, 0x42)),
+      box("moov", box("udta", box("©xyz", Buffer.from("\0\x12\x15\xc7+37.7749-122.4194/", "latin1")))),
+    ]);
+
+    const streamed = await sanitizeStreamed(mp4, { extractGps: true });
+    const buffered = sanitizeMedia(Buffer.from(mp4), { extractGps: true });
+
+    expect(streamed.buffer.equals(buffered.buffer)).toBe(true);
+    expect(streamed.removed).toEqual(buffered.removed);
+    expect(streamed.gps).toEqual(buffered.gps);
+    await expect(sanitizeStreamed(mp4.subarray(0, mp4.length - 4))).rejects.toThrow(/unexpected end of file/);
+  });
+
+  it("should sanitize a streamed WebM recording and pass its clusters through", async () => {
+    const element = (id: number[], data: Buffer) => Buffer.from([...id, 0x80 | data.length, ...data]);
+    const webm = Buffer.concat([
+      element([0x1a, 0x45, 0xdf, 0xa3], Buffer.from("\x42\x82\x84webm", "latin1")),
+      // Segment and cluster with unknown size, as MediaRecorder writes them
+      Buffer.from([0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]),
+      element([0x15, 0x49, 0xa9, 0x66], element([0x4d, 0x80], Buffer.from("Chrome"))),
+      Buffer.from([0x1f, 0x43, 0xb6, 0x75, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]),
+      Buffer.alloc(50, 0x42),
+    ]);
+
+    const streamed = await sanitizeStreamed(webm);
+
+    expect(streamed.buffer.equals(sanitizeMedia(Buffer.from(webm)).buffer)).toBe(true);
+    expect(streamed.removed).toEqual(["webm.muxing_app"]);
+    expect(streamed.buffer.includes(Buffer.from("Chrome"))).toBe(false);
+  });
+});
@@ -0,0 +1,534 @@
+/**
+ * Media Sanitizer for Whistle App
+ * Strips identifying metadata from uploads before they are encrypted and stored:
+ * EXIF/XMP/IPTC and comments in JPEG, text/EXIF chunks in PNG and WebP, user data,
+ * metadata boxes and timestamps in MP4/MOV, and tags/dates/app names in WebM.
+ * GPS coordinates can be extracted on the way out (only used when the reporter consents).
+ *
+ * Images are rebuilt without the metadata segments, and JPEGs end at their EOI marker so
+ * trailers (MPF images, motion-photo video) are dropped. Videos are edited in place -
+ * metadata boxes become 'free' boxes and EBML elements become Void elements of the
+ * same size - so sample offsets into the media data stay valid, and videos too large to
+ * hold in memory can be sanitized as they stream through. The EXIF reader and
+ * WebM stripper are shared with the report form, which scrubs files before upload.
+ */
+
+import { Transform } from 'stream';
+import {
+  EBML_CLUSTER,
+  EBML_SEGMENT,
+  MediaGps,
+  readEbmlElement,
+  readExifMetadata,
+  stripWebmMetadata,
+  stripWebmSegmentChildren
+} from '../../shared/media-metadata';
+
+export type { MediaGps };
+
+export type SanitizedMediaFormat = 'jpeg' | 'png' | 'webp' | 'mp4' | 'webm' | 'unsupported';
+
+export interface MediaSanitizationResult {
+  buffer: Buffer;
+  format: SanitizedMediaFormat;
+  sanitized: boolean; // false for formats we can't parse (stored unchanged)
+  removed: string[]; // Metadata fields/blocks that were stripped
+  gps?: MediaGps;
+}
+
+export interface MediaSanitizationOptions {
+  extractGps?: boolean;
+}
+
+/**
+ * Detect the container from magic bytes - the declared mimetype isn't trusted
+ */
+export function detectMediaFormat(buffer: Buffer): SanitizedMediaFormat {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg';
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) return 'png';
+  if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') return 'webp';
+  if (buffer.length >= 12 && buffer.toString('latin1', 4, 8) === 'ftyp') return 'mp4';
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x1a45dfa3) return 'webm';
+  return 'unsupported';
+}
+
+const malformed = (format: string, detail: string) =>
+  new Error(`Could not remove metadata from ${format} file (${detail}). Please re-save the file and try again.`);
+
+// ================================================================================================
+// IMAGES
+// ================================================================================================
+
+// Minimal EXIF block carrying only the orientation, so stripped photos still display upright
+const buildOrientationExif = (orientation: number): Buffer => {
+  const tiff = Buffer.alloc(26);
+  tiff.write('MM', 0, 'latin1');
+  tiff.writeUInt16BE(0x2a, 2);
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(1, 8); // One entry
+  tiff.writeUInt16BE(0x0112, 10); // Orientation
+  tiff.writeUInt16BE(3, 12); // SHORT
+  tiff.writeUInt32BE(1, 14);
+  tiff.writeUInt16BE(orientation, 18);
+  // Next IFD offset stays 0
+  return Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+};
+
+function sanitizeJpeg(buffer: Buffer, options: MediaSanitizationOptions): MediaSanitizationResult {
+  const kept: Buffer[] = [];
+  const removed: string[] = [];
+  let orientation: number | undefined;
+  let gps: MediaGps | undefined;
+  let pos = 2;
+
+  while (pos < buffer.length) {
+    if (buffer[pos] !== 0xff) throw malformed('JPEG', 'unexpected data between segments');
+    let marker = buffer[pos + 1];
+    while (marker === 0xff && pos + 2 < buffer.length) {
+      pos++;
+      marker = buffer[pos + 1];
+    }
+
+    // Start of scan - image data up to the end-of-image marker. Entropy-coded data never
+    // contains FFD9, so the first one ends the image; anything after it is a trailer.
+    if (marker === 0xda || marker === 0xd9) {
+      const eoi = buffer.indexOf(Buffer.from([0xff, 0xd9]), pos);
+      const imageEnd = eoi === -1 ? buffer.length : eoi + 2;
+      kept.push(buffer.subarray(pos, imageEnd));
+      if (imageEnd < buffer.length) removed.push('trailer');
+      break;
+    }
+    // Markers without a length
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      kept.push(buffer.subarray(pos, pos + 2));
+      pos += 2;
+      continue;
+    }
+
+    if (pos + 4 > buffer.length) throw malformed('JPEG', 'truncated segment');
+    const end = pos + 2 + buffer.readUInt16BE(pos + 2);
+    if (end > buffer.length) throw malformed('JPEG', 'truncated segment');
+    const payload = buffer.subarray(pos + 4, end);
+
+    if (marker === 0xe1) {
+      if (payload.toString('latin1', 0, 6) === 'Exif\0\0') {
+        const exif = readExifMetadata(payload.subarray(6), !!options.extractGps);
+        removed.push(...exif.fields);
+        orientation = orientation || exif.orientation;
+        gps = gps || exif.gps;
+      } else if (payload.toString('latin1', 0, 28) === 'http://ns.adobe.com/xap/1.0/') {
+        removed.push('xmp');
+      } else {
+        removed.push('app1');
+      }
+    } else if (marker === 0xed) {
+      removed.push('iptc');
+    } else if (marker === 0xfe) {
+      removed.push('comment');
+    } else if (marker >= 0xe3 && marker <= 0xef && marker !== 0xee) {
+      // APP0 (JFIF), APP2 (ICC colour profile) and APP14 (Adobe colour transform) are kept
+      removed.push(`app${marker - 0xe0}`);
+    } else {
+      kept.push(buffer.subarray(pos, end));
+    }
+    pos = end;
+  }
+
+  if (orientation && orientation !== 1) {
+    const exif = buildOrientationExif(orientation);
+    const segment = Buffer.alloc(4);
+    segment.writeUInt16BE(0xffe1, 0);
+    segment.writeUInt16BE(exif.length + 2, 2);
+    // After APP0 (JFIF) when present, which must come first
+    const insertAt = kept[0] && kept[0][1] === 0xe0 ? 1 : 0;
+    kept.splice(insertAt, 0, Buffer.concat([segment, exif]));
+  }
+
+  return {
+    buffer: Buffer.concat([buffer.subarray(0, 2), ...kept]),
+    format: 'jpeg',
+    sanitized: true,
+    removed: Array.from(new Set(removed)),
+    gps,
+  };
+}
+
+// Rendering-relevant PNG chunks; everything else (text, eXIf, tIME, private chunks) is dropped
+const PNG_KEPT_CHUNKS = new Set([
+  'IHDR', 'PLTE', 'IDAT', 'IEND', 'tRNS', 'cHRM', 'gAMA', 'iCCP', 'sBIT', 'sRGB', 'bKGD', 'hIST', 'pHYs', 'sPLT',
+  'acTL', 'fcTL', 'fdAT',
+]);
+
+function sanitizePng(buffer: Buffer, options: MediaSanitizationOptions): MediaSanitizationResult {
+  const kept: Buffer[] = [buffer.subarray(0, 8)];
+  const removed: string[] = [];
+  let gps: MediaGps | undefined;
+  let pos = 8;
+
+  while (pos < buffer.length) {
+    if (pos + 12 > buffer.length) throw malformed('PNG', 'truncated chunk');
+    const length = buffer.readUInt32BE(pos);
+    const type = buffer.toString('latin1', pos + 4, pos + 8);
+    const end = pos + 12 + length;
+    if (end > buffer.length) throw malformed('PNG', 'truncated chunk');
+
+    if (PNG_KEPT_CHUNKS.has(type)) {
+      kept.push(buffer.subarray(pos, end));
+    } else if (type === 'eXIf') {
+      const exif = readExifMetadata(buffer.subarray(pos + 8, pos + 8 + length), !!options.extractGps);
+      removed.push(...exif.fields);
+      gps = gps || exif.gps;
+    } else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      const data = buffer.subarray(pos + 8, pos + 8 + Math.min(length, 80));
+      const keyword = data.subarray(0, Math.max(data.indexOf(0), 0)).toString('latin1');
+      removed.push(keyword === 'XML:com.adobe.xmp' ? 'xmp' : `text.${keyword.toLowerCase() || 'unnamed'}`);
+    } else if (type === 'tIME') {
+      removed.push('modified_time');
+    } else {
+      removed.push(`chunk.${type}`);
+    }
+
+    pos = end;
+    if (type === 'IEND') break;
+  }
+
+  return { buffer: Buffer.concat(kept), format: 'png', sanitized: true, removed: Array.from(new Set(removed)), gps };
+}
+
+function sanitizeWebp(buffer: Buffer, options: MediaSanitizationOptions): MediaSanitizationResult {
+  const kept: Buffer[] = [];
+  const removed: string[] = [];
+  let gps: MediaGps | undefined;
+  let pos = 12;
+
+  while (pos + 8 <= buffer.length) {
+    const fourcc = buffer.toString('latin1', pos, pos + 4);
+    const size = buffer.readUInt32LE(pos + 4);
+    const end = pos + 8 + size + (size % 2);
+    if (pos + 8 + size > buffer.length) throw malformed('WebP', 'truncated chunk');
+    const chunk = buffer.subarray(pos, Math.min(end, buffer.length));
+
+    if (fourcc === 'EXIF') {
+      let exif = buffer.subarray(pos + 8, pos + 8 + size);
+      if (exif.toString('latin1', 0, 6) === 'Exif\0\0') exif = exif.subarray(6);
+      const summary = readExifMetadata(exif, !!options.extractGps);
+      removed.push(...summary.fields);
+      gps = gps || summary.gps;
+    } else if (fourcc === 'XMP ') {
+      removed.push('xmp');
+    } else if (fourcc === 'VP8X') {
+      // Clear the EXIF (0x08) and XMP (0x04) flags
+      const copy = Buffer.from(chunk);
+      copy[8] &= ~0x0c;
+      kept.push(copy);
+    } else {
+      kept.push(chunk);
+    }
+    pos = end;
+  }
+
+  const body = Buffer.concat(kept);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'latin1');
+
+  return { buffer: Buffer.concat([header, body]), format: 'webp', sanitized: true, removed: Array.from(new Set(removed)), gps };
+}
+
+// ================================================================================================
+// VIDEO
+// ================================================================================================
+
+// Boxes walked into, down to wherever timestamp (mvhd/tkhd/mdhd) or user data boxes live
+const MP4_CONTAINERS = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl', 'edts']);
+const MP4_TIMESTAMP_BOXES = new Set(['mvhd', 'tkhd', 'mdhd']);
+const MP4_USER_DATA_NAMES: Record<string, string> = {
+  '©xyz': 'gps',
+  '©mak': 'make',
+  '©mod': 'model',
+  '©day': 'date',
+  '©swr': 'software',
+  '©too': 'encoder',
+  '©nam': 'title',
+  '©cmt': 'comment',
+};
+// ISO 6709 position, as written by phones in ©xyz or the QuickTime location key
+const ISO6709 = /([+-]\d{1,2}(?:\.\d+)?)([+-]\d{1,3}(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?/;
+
+function sanitizeMp4(buffer: Buffer, options: MediaSanitizationOptions): MediaSanitizationResult {
+  const removed: string[] = [];
+  let gps: MediaGps | undefined;
+
+  // Replace a box with a same-size 'free' box, keeping every later offset valid
+  const neutralize = (start: number, end: number) => {
+    buffer.write('free', start + 4, 'latin1');
+    buffer.fill(0, start + 8, end);
+  };
+
+  const walk = (start: number, end: number, depth: number) => {
+    let pos = start;
+    while (pos + 8 <= end) {
+      let size = buffer.readUInt32BE(pos);
+      const type = buffer.toString('latin1', pos + 4, pos + 8);
+      let headerSize = 8;
+      if (size === 1) {
+        if (pos + 16 > end) throw malformed('MP4', 'truncated box');
+        size = Number(buffer.readBigUInt64BE(pos + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - pos;
+      }
+      if (size < headerSize || pos + size > end) throw malformed('MP4', `invalid ${type} box`);
+      const boxEnd = pos + size;
+
+      if (type === 'udta' || type === 'meta') {
+        const content = buffer.toString('latin1', pos + headerSize, boxEnd);
+        if (type === 'udta') {
+          let child = pos + headerSize;
+          while (child + 8 <= boxEnd) {
+            const childSize = buffer.readUInt32BE(child);
+            const childType = buffer.toString('latin1', child + 4, child + 8);
+            removed.push(`mp4.${MP4_USER_DATA_NAMES[childType] || 'user_data'}`);
+            if (childSize < 8) break;
+            child += childSize;
+          }
+        } else {
+          removed.push('mp4.metadata');
+        }
+        if (options.extractGps && !gps) {
+          const match = content.match(ISO6709);
+          if (match && (content.includes('©xyz') || content.includes('location'))) {
+            gps = {
+              latitude: parseFloat(match[1]),
+              longitude: parseFloat(match[2]),
+              altitude: match[3] !== undefined ? parseFloat(match[3]) : undefined,
+              source: 'mp4',
+            };
+          }
+        }
+        neutralize(pos, boxEnd);
+      } else if (type === 'uuid' && depth === 0) {
+        // XMP packets live in top-level uuid boxes
+        removed.push('xmp');
+        neutralize(pos, boxEnd);
+      } else if (MP4_TIMESTAMP_BOXES.has(type) && boxEnd - pos >= headerSize + 20) {
+        // Creation/modification times: version 0 = 32-bit, version 1 = 64-bit
+        const body = pos + headerSize;
+        const width = buffer[body] === 1 ? 8 : 4;
+        buffer.fill(0, body + 4, body + 4 + width * 2);
+        removed.push('mp4.creation_time');
+      } else if (MP4_CONTAINERS.has(type)) {
+        walk(pos + headerSize, boxEnd, depth + 1);
+      }
+
+      pos = boxEnd;
+    }
+  };
+
+  walk(0, buffer.length, 0);
+
+  return { buffer, format: 'mp4', sanitized: true, removed: Array.from(new Set(removed)), gps };
+}
+
+function sanitizeWebm(buffer: Buffer): MediaSanitizationResult {
+  return { buffer, format: 'webm', sanitized: true, removed: stripWebmMetadata(buffer) };
+}
+
+// ================================================================================================
+// ENTRY POINT
+// ================================================================================================
+
+/**
+ * Strip identifying metadata from an uploaded photo or video.
+ * Video buffers are modified in place; image buffers are rebuilt.
+ * Throws when a supported format can't be parsed, so unsanitized media is never stored.
+ */
+export function sanitizeMedia(buffer: Buffer, options: MediaSanitizationOptions = {}): MediaSanitizationResult {
+  const format = detectMediaFormat(buffer);
+
+  try {
+    switch (format) {
+      case 'jpeg':
+        return sanitizeJpeg(buffer, options);
+      case 'png':
+        return sanitizePng(buffer, options);
+      case 'webp':
+        return sanitizeWebp(buffer, options);
+      case 'mp4':
+        return sanitizeMp4(buffer, options);
+      case 'webm':
+        return sanitizeWebm(buffer);
+      default:
+        return { buffer, format, sanitized: false, removed: [] };
+    }
+  } catch (error: any) {
+    if (error instanceof RangeError) throw malformed(format.toUpperCase(), 'unexpected end of file');
+    throw error;
+  }
+}
+
+// ================================================================================================
+// STREAMING (LARGE VIDEOS)
+// ================================================================================================
+
+// Top-level MP4 boxes holding only media data or padding, passed through unread
+const MP4_PASS_THROUGH_BOXES = new Set(['mdat', 'free', 'skip']);
+// Every other unit is collected before it is sanitized, up to this size
+const MAX_STREAMED_METADATA_SIZE = 64 * 1024 * 1024;
+
+interface StreamUnit {
+  length: number | null; // null = to the end of the file
+  sanitize: boolean; // false = passed through unchanged
+}
+
+// Reads the unit starting at the front of `bytes` (at `position` in the file), or null until enough bytes arrived
+type StreamUnitReader = (bytes: Buffer, position: number) => StreamUnit | null;
+
+// Each top-level box is a unit
+const readMp4Unit: StreamUnitReader = (bytes) => {
+  if (bytes.length < 8) return null;
+  let size = bytes.readUInt32BE(0);
+  const type = bytes.toString('latin1', 4, 8);
+  let headerSize = 8;
+  if (size === 1) {
+    if (bytes.length < 16) return null;
+    size = Number(bytes.readBigUInt64BE(8));
+    headerSize = 16;
+  }
+  if (size !== 0 && size < headerSize) throw malformed('MP4', `invalid ${type} box`);
+  return { length: size === 0 ? null : size, sanitize: !MP4_PASS_THROUGH_BOXES.has(type) };
+};
+
+// Each Segment child is a unit; clusters and children of unknown size pass through
+const createWebmUnitReader = (): StreamUnitReader => {
+  let segmentEnd: number | null | undefined; // undefined = outside the Segment, null = it runs to the end
+
+  return (bytes, position) => {
+    const element = readEbmlElement(bytes, 0);
+    if (!element) return null;
+    const inSegment = segmentEnd === null || (segmentEnd !== undefined && position < segmentEnd);
+
+    if (!inSegment && element.id === EBML_SEGMENT) {
+      segmentEnd = element.end === null ? null : position + element.end;
+      return { length: element.dataStart, sanitize: false }; // Just the header - its children follow
+    }
+    return { length: element.end, sanitize: inSegment && element.end !== null && element.id !== EBML_CLUSTER };
+  };
+};
+
+export interface MediaSanitizeStream {
+  stream: Transform;
+  result: () => Omit<MediaSanitizationResult, 'buffer'>; // Complete once the stream has finished
+}
+
+/**
+ * Strip identifying metadata from a video too large to hold in memory, as it streams through.
+ * Media data (MP4 mdat boxes, WebM clusters) passes straight through and everything else is
+ * edited in place as sanitizeMedia does, so the output is exactly as long as the input.
+ * Photos are rebuilt rather than edited, so they are only sanitized as a whole buffer.
+ */
+export function createMediaSanitizeStream(options: MediaSanitizationOptions = {}): MediaSanitizeStream {
+  const removed = new Set<string>();
+  let format: SanitizedMediaFormat | undefined;
+  let gps: MediaGps | undefined;
+  let readUnit: StreamUnitReader | undefined;
+  let unit: StreamUnit | null = null;
+  let remaining = 0; // Bytes of the current unit still to come
+  let position = 0; // File offset of pending[0]
+  let pending = Buffer.alloc(0);
+
+  const start = () => {
+    format = detectMediaFormat(pending);
+    if (format === 'mp4') readUnit = readMp4Unit;
+    else if (format === 'webm') readUnit = createWebmUnitReader();
+    else if (format === 'unsupported') readUnit = () => ({ length: null, sanitize: false });
+    else throw new Error(`${format.toUpperCase()} images can't be sanitized as a stream`);
+  };
+
+  const sanitizeUnit = (bytes: Buffer) => {
+    try {
+      if (format === 'mp4') {
+        const result = sanitizeMp4(bytes, options);
+        result.removed.forEach((field) => removed.add(field));
+        gps = gps || result.gps;
+      } else {
+        stripWebmSegmentChildren(bytes).forEach((field) => removed.add(field));
+      }
+    } catch (error) {
+      if (error instanceof RangeError) throw malformed(format!.toUpperCase(), 'unexpected end of file');
+      throw error;
+    }
+  };
+
+  const advance = (stream: Transform, length: number) => {
+    stream.push(pending.subarray(0, length));
+    pending = pending.subarray(length);
+    position += length;
+    remaining -= length;
+    if (remaining === 0) unit = null;
+  };
+
+  const processPending = (stream: Transform, final: boolean) => {
+    if (!readUnit) {
+      if (pending.length < 12 && !final) return;
+      start();
+    }
+
+    while (pending.length > 0) {
+      if (!unit) {
+        unit = readUnit!(pending, position);
+        // Trailing bytes too short to be a unit are kept as they are
+        if (!unit) return final ? advance(stream, pending.length) : undefined;
+        remaining = unit.length ?? Infinity;
+      }
+
+      if (!unit.sanitize) {
+        advance(stream, Math.min(remaining, pending.length));
+        continue;
+      }
+
+      const complete = unit.length === null ? final : pending.length >= remaining;
+      if (!complete) {
+        if ((unit.length ?? pending.length) > MAX_STREAMED_METADATA_SIZE) {
+          throw malformed(format!.toUpperCase(), 'metadata block too large');
+        }
+        if (final) throw malformed(format!.toUpperCase(), 'unexpected end of file');
+        return;
+      }
+      const length = Math.min(remaining, pending.length);
+      sanitizeUnit(pending.subarray(0, length));
+      advance(stream, length);
+    }
+  };
+
+  const stream = new Transform({
+    transform(data: Buffer, _encoding, callback) {
+      try {
+        pending = pending.length ? Buffer.concat([pending, data]) : data;
+        processPending(this, false);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        processPending(this, true);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    }
+  });
+
+  return {
+    stream,
+    result: () => ({
+      format: format || 'unsupported',
+      sanitized: format === 'mp4' || format === 'webm',
+      removed: Array.from(removed),
+      gps
+    })
+  };
+}
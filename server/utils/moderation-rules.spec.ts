@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_MODERATION_RULES, applyRuleActions, compileModerationRules } from "./moderation-rules";
+
+describe("moderation rules", () => {
+  it("should turn default rules into classifier labels and a moderation verdict", () => {
+    const evaluate = compileModerationRules(DEFAULT_MODERATION_RULES);
+
+    const harassment = evaluate("He keeps harassing me and said he will kill me");
+    expect(harassment.labels).toEqual(["harassment", "inappropriate"]);
+    expect(harassment.moderation).toMatchObject({ isFlagged: true, severity: "high" });
+    expect(harassment.weight).toBe(30);
+    expect(harassment.reasons).toContain("term:harass");
+
+    // Classification-only rules never produce a moderation verdict
+    const urgent = evaluate("There is a fire in the lab");
+    expect(urgent.labels).toEqual(["urgent"]);
+    expect(urgent.moderation.isFlagged).toBe(false);
+
+    // Muted terms are ignored, and word boundaries keep "skills"/"diet" clean
+    expect(evaluate("new skills on my diet").matches).toEqual([]);
+    expect(evaluate("They threatened me").labels).toEqual(["harassment", "inappropriate"]);
+    expect(evaluate("They threatened me", ["threat"]).labels).toEqual([]);
+  });
+
+  it("should apply flag and raise-priority actions to a new report", () => {
+    const evaluate = compileModerationRules([
+      { name: "Weapons on site", terms: { en: ["knife", "knives"] }, severity: "high", labels: ["safety"], weight: 40, actions: ["flag", "raise_priority"] },
+      { name: "Disabled", terms: { en: ["knife"] }, severity: "low", labels: ["other"], weight: 0, actions: ["notify"], is_active: false },
+    ]);
+
+    const evaluation = evaluate("Someone brought a KN1FE to the office");
+    expect(evaluation.actions).toEqual(["flag", "raise_priority"]);
+
+    const reportData: any = { priority: "high", severity: "high", status: "pending" };
+    expect(applyRuleActions(reportData, evaluation)).toContain("Weapons on site");
+    expect(reportData).toMatchObject({ priority: "urgent", severity: "urgent", status: "flagged", flagged: true });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Moderation Rules Utility for Whistle App
+ * Loads admin-editable moderation rules from the database and runs them through
+ * the shared moderation engine. Rules drive three things: the moderation verdict
+ * stored on each report, the keyword classifier's labels and score, and actions
+ * on new reports (flag, raise priority, notify).
+ *
+ * Rules hot-reload: edits on this instance apply immediately, and every instance
+ * checks the collection for changes at most every RULE_SYNC_MS.
+ */
+
+import mongoose from "mongoose";
+import ModerationRuleModel, { ModerationRuleAction, ModerationRuleSeverity } from "../../shared/models/ModerationRule";
+import {
+  DEFAULT_RULE_SETS,
+  ModerationLanguage,
+  ModerationMatch,
+  ModerationResult,
+  ModerationRuleSet,
+  createModerationEngine,
+} from "../../shared/moderation";
+
+const RULE_SYNC_MS = parseInt(process.env.MODERATION_RULE_SYNC_MS || '30000');
+const PRIORITY_LADDER = ['low', 'medium', 'high', 'urgent'];
+
+/**
+ * Rule shape used by the engine (a stored rule or a draft under test)
+ */
+export interface ModerationRuleDefinition {
+  id?: string;
+  name: string;
+  description?: string;
+  terms: Partial<Record<ModerationLanguage, string[]>>;
+  severity: ModerationRuleSeverity;
+  labels: string[];
+  weight: number;
+  actions: ModerationRuleAction[];
+  is_active?: boolean;
+}
+
+export interface RuleMatch {
+  rule: string; // Rule id (or name for rules that aren't stored)
+  name: string;
+  terms: string[];
+}
+
+export interface RuleEvaluation {
+  moderation: ModerationResult;
+  matches: RuleMatch[];
+  labels: string[];
+  weight: number; // Sum of matched rule weights, capped at 100
+  actions: ModerationRuleAction[];
+  reasons: string[]; // term:<term> per matched term
+}
+
+// ================================================================================================
+// DEFAULT RULES
+// ================================================================================================
+
+/**
+ * Seeded on first use so trust-and-safety staff can edit them. Mirrors the former
+ * hardcoded keyword lists and the shared moderation rule sets.
+ */
+export const DEFAULT_MODERATION_RULES: ModerationRuleDefinition[] = [
+  {
+    name: 'Urgent keywords',
+    description: 'Signals that someone may need immediate help',
+    terms: { en: ['emergency', 'urgent', 'bleeding', 'gun', 'fire', 'accident'] },
+    severity: 'none',
+    labels: ['urgent'],
+    weight: 0,
+    actions: [],
+  },
+  {
+    name: 'Harassment keywords',
+    terms: { en: ['harass*', 'abuse*', 'stalk*', 'threat*', 'insult*', 'hate'] },
+    severity: 'none',
+    labels: ['harassment'],
+    weight: 0,
+    actions: [],
+  },
+  {
+    name: 'Safety keywords',
+    terms: { en: ['danger*', 'unsafe', 'hazard*', 'collapsed', 'blocked'] },
+    severity: 'none',
+    labels: ['safety'],
+    weight: 0,
+    actions: [],
+  },
+  ...DEFAULT_RULE_SETS.map((ruleSet): ModerationRuleDefinition => ({
+    name: ruleSet.name,
+    terms: ruleSet.terms,
+    severity: ruleSet.severity,
+    labels: ['inappropriate'],
+    // High-risk content pushes the keyword score harder
+    weight: ruleSet.severity === 'high' ? 30 : 10,
+    actions: [],
+  })),
+];
+
+// ================================================================================================
+// EVALUATION
+// ================================================================================================
+
+const ruleId = (rule: ModerationRuleDefinition) => rule.id || rule.name;
+
+const toRuleSet = (rule: ModerationRuleDefinition): ModerationRuleSet => ({
+  id: ruleId(rule),
+  name: rule.name,
+  // Classification-only rules still need a severity for matching
+  severity: rule.severity === 'none' ? 'low' : rule.severity,
+  terms: rule.terms,
+  enabled: rule.is_active !== false,
+});
+
+/**
+ * Compile rules into an evaluator. Pure - used for stored rules and for testing drafts.
+ */
+export function compileModerationRules(rules: ModerationRuleDefinition[]) {
+  const active = rules.filter((rule) => rule.is_active !== false);
+  const byId = new Map(active.map((rule) => [ruleId(rule), rule]));
+  const match = createModerationEngine({ ruleSets: active.map(toRuleSet) });
+  const moderate = createModerationEngine({
+    ruleSets: active.filter((rule) => rule.severity !== 'none').map(toRuleSet)
+  });
+
+  return function evaluate(text: string, mutedTerms: string[] = []): RuleEvaluation {
+    const muted = new Set(mutedTerms);
+    const matched: ModerationMatch[] = match(text).matches.filter((m) => !muted.has(m.term));
+
+    const grouped = new Map<string, RuleMatch>();
+    for (const m of matched) {
+      const rule = byId.get(m.ruleSet);
+      if (!rule) continue;
+      const entry = grouped.get(m.ruleSet) || { rule: m.ruleSet, name: rule.name, terms: [] };
+      entry.terms.push(m.term);
+      grouped.set(m.ruleSet, entry);
+    }
+    const matchedRules = Array.from(grouped.keys()).map((id) => byId.get(id) as ModerationRuleDefinition);
+
+    return {
+      moderation: moderate(text),
+      matches: Array.from(grouped.values()),
+      labels: Array.from(new Set(matchedRules.flatMap((rule) => rule.labels))),
+      weight: Math.min(matchedRules.reduce((sum, rule) => sum + (rule.weight || 0), 0), 100),
+      actions: Array.from(new Set(matchedRules.flatMap((rule) => rule.actions))),
+      reasons: Array.from(new Set(matched.map((m) => `term:${m.term}`))),
+    };
+  };
+}
+
+/**
+ * Apply matched rule actions to a report before it is saved.
+ * Returns a history comment when the rules flagged the report.
+ */
+export function applyRuleActions(reportData: any, evaluation: RuleEvaluation): string | null {
+  if (evaluation.actions.includes('raise_priority')) {
+    const current = PRIORITY_LADDER.indexOf(reportData.priority || 'medium');
+    const raised = PRIORITY_LADDER[Math.min(Math.max(current, 0) + 1, PRIORITY_LADDER.length - 1)];
+    reportData.priority = raised;
+    if (reportData.severity) reportData.severity = raised;
+  }
+
+  if (evaluation.actions.includes('flag') && reportData.status !== 'flagged') {
+    reportData.status = 'flagged';
+    reportData.flagged = true;
+    return `Moderation rules flagged the report (${evaluation.matches.map((m) => m.name).join(', ')})`;
+  }
+  return null;
+}
+
+// ================================================================================================
+// LOADING AND HOT RELOAD
+// ================================================================================================
+
+const toDefinition = (doc: any): ModerationRuleDefinition => ({
+  id: String(doc._id),
+  name: doc.name,
+  description: doc.description,
+  terms: doc.terms || {},
+  severity: doc.severity,
+  labels: doc.labels || [],
+  weight: doc.weight || 0,
+  actions: doc.actions || [],
+  is_active: doc.is_active,
+});
+
+type RuleEvaluator = ReturnType<typeof compileModerationRules>;
+
+// Used until the database is reachable
+const fallbackEvaluator = compileModerationRules(DEFAULT_MODERATION_RULES);
+
+let state: { evaluate: RuleEvaluator; signature: string; checkedAt: number } | null = null;
+let syncing: Promise<RuleEvaluator> | null = null;
+
+// Count + latest update changes on every create, edit and delete
+const getRuleSignature = async (): Promise<string> => {
+  const [count, latest] = await Promise.all([
+    ModerationRuleModel.countDocuments(),
+    ModerationRuleModel.findOne().sort({ updatedAt: -1 }).select('updatedAt').lean()
+  ]);
+  return `${count}:${latest?.updatedAt ? new Date(latest.updatedAt).getTime() : 0}`;
+};
+
+/**
+ * Insert the default rules when the collection is empty
+ */
+export async function seedDefaultModerationRules(): Promise<void> {
+  if (await ModerationRuleModel.exists({})) return;
+  try {
+    await ModerationRuleModel.insertMany(
+      DEFAULT_MODERATION_RULES.map((rule) => ({ ...rule, created_by: 'system', updated_by: 'system' })),
+      { ordered: false }
+    );
+    console.log(`🛡️ Seeded ${DEFAULT_MODERATION_RULES.length} default moderation rules`);
+  } catch (error: any) {
+    // Another instance seeded concurrently
+    if (error?.code !== 11000 && !error?.writeErrors) throw error;
+  }
+}
+
+async function syncRules(force: boolean): Promise<RuleEvaluator> {
+  await seedDefaultModerationRules();
+  const signature = await getRuleSignature();
+
+  if (!force && state && state.signature === signature) {
+    state.checkedAt = Date.now();
+    return state.evaluate;
+  }
+
+  const rules = (await ModerationRuleModel.find({ is_active: true }).lean()).map(toDefinition);
+  state = { evaluate: compileModerationRules(rules), signature, checkedAt: Date.now() };
+  console.log(`🛡️ Loaded ${rules.length} active moderation rules`);
+  return state.evaluate;
+}
+
+/**
+ * Current rule evaluator, re-checked against the database at most every RULE_SYNC_MS
+ */
+export async function getModerationRuleEvaluator(): Promise<RuleEvaluator> {
+  if (mongoose.connection.readyState !== 1) {
+    return state?.evaluate || fallbackEvaluator;
+  }
+  if (state && Date.now() - state.checkedAt < RULE_SYNC_MS) {
+    return state.evaluate;
+  }
+
+  if (!syncing) {
+    syncing = syncRules(false).finally(() => {
+      syncing = null;
+    });
+  }
+
+  try {
+    return await syncing;
+  } catch (error) {
+    console.warn('⚠️ Could not load moderation rules, using last known rules:', error);
+    return state?.evaluate || fallbackEvaluator;
+  }
+}
+
+/**
+ * Reload immediately (after an edit on this instance)
+ */
+export async function reloadModerationRules(): Promise<void> {
+  await syncRules(true);
+}
+
+/**
+ * Evaluate text against the active rules
+ */
+export async function evaluateModerationRules(text: string, mutedTerms: string[] = []): Promise<RuleEvaluation> {
+  const evaluate = await getModerationRuleEvaluator();
+  return evaluate(text, mutedTerms);
+}
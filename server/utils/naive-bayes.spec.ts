@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { predictNaiveBayes, tokenize, trainNaiveBayes } from "./naive-bayes";
+import { ensembleClassifications } from "./ai-classifier";
+
+describe("naive Bayes classifier", () => {
+  it("should learn report types and priorities from resolved reports", () => {
+    const model = trainNaiveBayes([
+      { text: "My manager keeps harassing me with insults", type: "harassment", priority: "high" },
+      { text: "Coworker harassing and insulting staff daily", type: "harassment", priority: "high" },
+      { text: "Fire in the building, people trapped", type: "emergency", priority: "urgent" },
+      { text: "Smoke and fire near the exit stairs", type: "emergency", priority: "urgent" },
+      { text: "Please add more bike racks", type: "suggestion", priority: "low" },
+    ]);
+
+    expect(tokenize("The fire is at the constructor!")).toEqual(["fire", "constructor"]);
+    expect(predictNaiveBayes(model, "type", "there is a fire")[0].label).toBe("emergency");
+    expect(predictNaiveBayes(model, "priority", "insults from my manager")[0].label).toBe("high");
+    // Unknown words fall back to the priors without breaking on inherited keys
+    expect(predictNaiveBayes(model, "type", "constructor toString")).toHaveLength(3);
+  });
+
+  it("should combine provider outputs into an ensemble decision", () => {
+    const result = ensembleClassifications([
+      { labels: ["harassment"], primaryLabel: "harassment", confidence: 0.8, score: 90, flagged: true, provider: "keyword" },
+      { labels: ["harassment", "other"], primaryLabel: "harassment", confidence: 0.6, score: 40, flagged: false, provider: "naive-bayes" },
+    ]);
+
+    expect(result.primaryLabel).toBe("harassment");
+    expect(result.score).toBe(65);
+    expect(result.flagged).toBe(false);
+    expect(result.provider).toBe("ensemble");
+  });
+});
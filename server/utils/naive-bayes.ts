@@ -0,0 +1,223 @@
+/**
+ * Naive Bayes Classifier for Whistle App
+ * Multinomial naive Bayes over report text, trained on resolved reports and admin
+ * corrections. Three heads share the tokenizer: the report type, the final priority
+ * and (from admin feedback) whether the report deserved a flag.
+ * The model is persisted as a system setting so every instance uses the same one.
+ */
+
+import ReportModel from "../../shared/models/report";
+import SystemSettingModel from "../../shared/models/SystemSetting";
+
+export const NAIVE_BAYES_MODEL_KEY = 'classifier_naive_bayes';
+
+const MAX_VOCABULARY = 5000;
+// How long an instance reuses the model it loaded before checking for a newer one
+const MODEL_REFRESH_MS = 10 * 60 * 1000;
+
+// Too common to help tell reports apart
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'was', 'are', 'that', 'this', 'with', 'have', 'has', 'had', 'but', 'not',
+  'you', 'they', 'she', 'him', 'her', 'his', 'our', 'from', 'there', 'were', 'been', 'what', 'when',
+  'who', 'which', 'would', 'could', 'about', 'into', 'them', 'then', 'than', 'just', 'some', 'very'
+]);
+
+export interface NaiveBayesHead {
+  labels: Record<string, number>; // label -> document count
+  tokens: Record<string, Record<string, number>>; // label -> token -> count
+  totals: Record<string, number>; // label -> total token count
+}
+
+export interface NaiveBayesModel {
+  version: 1;
+  trainedAt: string;
+  samples: number;
+  vocabulary: string[];
+  type: NaiveBayesHead;
+  priority: NaiveBayesHead;
+  flagged?: NaiveBayesHead; // 'flagged' | 'clear', only when admins gave feedback
+}
+
+export type NaiveBayesHeadName = 'type' | 'priority' | 'flagged';
+
+export interface NaiveBayesSample {
+  id?: string; // Report id, used to let admin feedback replace a report's sample
+  text: string;
+  type?: string;
+  priority?: string;
+  flagged?: boolean;
+}
+
+export interface NaiveBayesPrediction {
+  label: string;
+  probability: number;
+}
+
+// Stored models are plain objects - never pick up inherited keys like "constructor"
+const own = (map: Record<string, number>, key: string): number =>
+  Object.prototype.hasOwnProperty.call(map, key) ? map[key] : 0;
+
+/**
+ * Lowercased word tokens (3+ characters, no stop words)
+ */
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length >= 3 && !STOP_WORDS.has(token));
+}
+
+const emptyHead = (): NaiveBayesHead => ({ labels: {}, tokens: {}, totals: {} });
+
+/**
+ * Train every head, keeping only the most frequent tokens
+ */
+export function trainNaiveBayes(samples: NaiveBayesSample[], now: Date = new Date()): NaiveBayesModel {
+  const tokenized = samples.map((sample) => ({ ...sample, tokens: tokenize(sample.text) }));
+
+  const frequency = new Map<string, number>();
+  for (const sample of tokenized) {
+    for (const token of sample.tokens) frequency.set(token, (frequency.get(token) || 0) + 1);
+  }
+  const vocabulary = Array.from(frequency.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_VOCABULARY)
+    .map(([token]) => token);
+  const known = new Set(vocabulary);
+
+  const model: NaiveBayesModel = {
+    version: 1,
+    trainedAt: now.toISOString(),
+    samples: samples.length,
+    vocabulary,
+    type: emptyHead(),
+    priority: emptyHead(),
+  };
+
+  const flagged = emptyHead();
+
+  for (const sample of tokenized) {
+    const labels: Array<[NaiveBayesHead, string | undefined]> = [
+      [model.type, sample.type],
+      [model.priority, sample.priority],
+      [flagged, sample.flagged === undefined ? undefined : sample.flagged ? 'flagged' : 'clear'],
+    ];
+    for (const [target, label] of labels) {
+      if (!label) continue;
+      target.labels[label] = own(target.labels, label) + 1;
+      target.tokens[label] = target.tokens[label] || {};
+      for (const token of sample.tokens) {
+        if (!known.has(token)) continue;
+        target.tokens[label][token] = own(target.tokens[label], token) + 1;
+        target.totals[label] = own(target.totals, label) + 1;
+      }
+    }
+  }
+
+  if (Object.keys(flagged.labels).length > 0) model.flagged = flagged;
+  return model;
+}
+
+/**
+ * Posterior probabilities per label (Laplace smoothing), most likely first
+ */
+export function predictNaiveBayes(model: NaiveBayesModel, head: NaiveBayesHeadName, text: string): NaiveBayesPrediction[] {
+  const target = model[head];
+  if (!target) return [];
+  const labels = Object.keys(target.labels);
+  if (labels.length === 0) return [];
+
+  const vocabularySize = Math.max(model.vocabulary.length, 1);
+  const known = new Set(model.vocabulary);
+  const tokens = tokenize(text).filter((token) => known.has(token));
+  const documents = labels.reduce((sum, label) => sum + target.labels[label], 0);
+
+  const logScores = labels.map((label) => {
+    const counts = target.tokens[label] || {};
+    const denominator = own(target.totals, label) + vocabularySize;
+    let score = Math.log(target.labels[label] / documents);
+    for (const token of tokens) {
+      score += Math.log((own(counts, token) + 1) / denominator);
+    }
+    return score;
+  });
+
+  // Normalize in log space to avoid underflow on long messages
+  const max = Math.max(...logScores);
+  const weights = logScores.map((score) => Math.exp(score - max));
+  const sum = weights.reduce((total, weight) => total + weight, 0);
+
+  return labels
+    .map((label, i) => ({ label, probability: weights[i] / sum }))
+    .sort((a, b) => b.probability - a.probability);
+}
+
+export interface NaiveBayesScore {
+  types: NaiveBayesPrediction[];
+  priorities: NaiveBayesPrediction[];
+  score: number; // 0..100 risk
+  flagged: boolean;
+}
+
+/**
+ * Type prediction plus a risk score: the flag head when admins have trained it,
+ * otherwise how likely the report is to end up urgent or high priority
+ */
+export function scoreNaiveBayes(model: NaiveBayesModel, text: string, flagThreshold: number = 70): NaiveBayesScore {
+  const types = predictNaiveBayes(model, 'type', text);
+  const priorities = predictNaiveBayes(model, 'priority', text);
+  const flags = predictNaiveBayes(model, 'flagged', text);
+  const probability = (predictions: NaiveBayesPrediction[], label: string) =>
+    predictions.find((p) => p.label === label)?.probability || 0;
+
+  const score = flags.length > 1
+    ? Math.round(100 * probability(flags, 'flagged'))
+    : Math.round(100 * (probability(priorities, 'urgent') + 0.5 * probability(priorities, 'high')));
+
+  return { types, priorities, score, flagged: score > flagThreshold };
+}
+
+// ================================================================================================
+// TRAINING AND PERSISTENCE
+// ================================================================================================
+
+let loaded: { model: NaiveBayesModel | null; loadedAt: number } | null = null;
+
+/**
+ * Labeled samples from resolved reports: final type and priority
+ */
+export async function loadResolvedReportSamples(): Promise<NaiveBayesSample[]> {
+  // Hydrated documents so the post-find hook decrypts messages
+  const reports = await ReportModel.find({ status: 'resolved' })
+    .select('message message_encrypted message_iv message_salt is_encrypted type priority shortId');
+
+  return reports
+    .map((report: any) => ({
+      id: String(report._id),
+      text: typeof report.getDecryptedMessage === 'function' ? report.getDecryptedMessage() : report.message,
+      type: report.type || 'other',
+      priority: report.priority || 'medium',
+    }))
+    .filter((sample) => sample.text && !sample.text.startsWith('['));
+}
+
+/**
+ * Persist a trained model for every instance
+ */
+export async function saveNaiveBayesModel(model: NaiveBayesModel): Promise<void> {
+  await SystemSettingModel.setValue(NAIVE_BAYES_MODEL_KEY, model, 'system');
+  loaded = { model, loadedAt: Date.now() };
+}
+
+/**
+ * Current model, reloaded from storage periodically (null when never trained)
+ */
+export async function getNaiveBayesModel(): Promise<NaiveBayesModel | null> {
+  if (loaded && Date.now() - loaded.loadedAt < MODEL_REFRESH_MS) {
+    return loaded.model;
+  }
+
+  const model = await SystemSettingModel.getValue<NaiveBayesModel>(NAIVE_BAYES_MODEL_KEY);
+  loaded = { model: model && model.version === 1 ? model : null, loadedAt: Date.now() };
+  return loaded.model;
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { NotificationPreferences } from "../../shared/api";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  isWithinQuietHours,
+  selectChannels,
+  validateNotificationPreferences,
+} from "./notification-routing";
+
+const overnight = { enabled: true, start: "22:00", end: "07:00", timezone: "UTC", urgent_override: true };
+
+describe("notification routing", () => {
+  it("should validate preference updates", () => {
+    expect(validateNotificationPreferences({ channels: ["sms"] }).errors).toContain(
+      "A phone number is required for SMS alerts",
+    );
+
+    const { preferences, errors } = validateNotificationPreferences({
+      channels: ["email", "sms", "email"],
+      phone: "+15551234567",
+      email: " Oncall@Example.com ",
+      quiet_hours: { timezone: "Mars/Olympus" },
+    });
+    expect(errors).toEqual(["Unknown timezone: Mars/Olympus"]);
+    expect(preferences.channels).toEqual(["email", "sms"]);
+    expect(preferences.email).toBe("oncall@example.com");
+  });
+
+  it("should handle quiet hours that span midnight", () => {
+    expect(isWithinQuietHours(overnight, new Date("2024-01-01T23:30:00Z"))).toBe(true);
+    expect(isWithinQuietHours(overnight, new Date("2024-01-01T06:59:00Z"))).toBe(true);
+    expect(isWithinQuietHours(overnight, new Date("2024-01-01T07:00:00Z"))).toBe(false);
+    expect(isWithinQuietHours({ ...overnight, timezone: "America/New_York" }, new Date("2024-01-01T23:30:00Z"))).toBe(false);
+  });
+
+  it("should apply priority, report type and quiet hours to channel selection", () => {
+    const preferences: NotificationPreferences = {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      channels: ["email", "sms"],
+      min_priority: "high",
+      report_types: ["medical"],
+      quiet_hours: overnight,
+      phone: "+15551234567",
+    };
+    const night = new Date("2024-01-01T02:00:00Z");
+    const day = new Date("2024-01-01T12:00:00Z");
+
+    expect(selectChannels(preferences, { priority: "medium", category: "medical" }, day)).toEqual([]);
+    expect(selectChannels(preferences, { priority: "high", category: "safety" }, day)).toEqual([]);
+    expect(selectChannels(preferences, { priority: "high", category: "medical" }, day)).toEqual(["email", "sms"]);
+    expect(selectChannels(preferences, { priority: "high", category: "medical" }, night)).toEqual([]);
+    expect(selectChannels(preferences, { priority: "urgent", category: "medical" }, night)).toEqual(["email", "sms"]);
+  });
+});
@@ -0,0 +1,273 @@
+import { NotificationChannel, NotificationLocale, NotificationPreferences, QuietHours, ReportCategory, ReportSeverity } from '../../shared/api';
+import AdminModel from '../models/admin';
+import SystemSettingModel from '../../shared/models/SystemSetting';
+import { getEnvironmentAdminProfile } from '../middleware/authMiddleware';
+import { NOTIFICATION_LOCALES } from './notification-templates';
+
+/**
+ * Notification Routing for Whistle App
+ * Decides which admins an alert goes to and on which channels, from each admin's
+ * preferences: channels, a minimum priority, the report types they cover and quiet
+ * hours (which urgent reports can override). When nobody's preferences match, the
+ * alert falls back to ADMIN_EMAIL / ADMIN_PHONE_NUMBER as before, so a new or
+ * unconfigured deployment still hears about reports.
+ */
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'sms'];
+export const PRIORITY_ORDER: ReportSeverity[] = ['low', 'medium', 'high', 'urgent'];
+export const REPORT_TYPES: ReportCategory[] = ['harassment', 'medical', 'emergency', 'safety', 'feedback'];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: ['email'],
+  min_priority: 'medium',
+  report_types: [],
+  quiet_hours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+    timezone: 'UTC',
+    urgent_override: true,
+  },
+};
+
+// The environment admin has no database record, so its preferences live in system settings
+const ENV_ADMIN_PREFERENCES_KEY = 'notification_preferences:env_admin';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface RoutableNotification {
+  priority: ReportSeverity;
+  category: string;
+}
+
+export interface NotificationRoute {
+  admin_id: string; // 'fallback' for the ADMIN_EMAIL / ADMIN_PHONE_NUMBER safety net
+  name: string;
+  channel: NotificationChannel;
+  address: string;
+  locale?: NotificationLocale; // Unset = organization default
+}
+
+// ================================================================================================
+// PREFERENCES
+// ================================================================================================
+
+/**
+ * Merge and validate a preferences update
+ */
+export function validateNotificationPreferences(
+  input: Partial<Omit<NotificationPreferences, 'quiet_hours'>> & { quiet_hours?: Partial<QuietHours> },
+  current: NotificationPreferences = DEFAULT_NOTIFICATION_PREFERENCES
+): { preferences: NotificationPreferences; errors: string[] } {
+  const preferences: NotificationPreferences = { ...current, quiet_hours: { ...current.quiet_hours } };
+  const errors: string[] = [];
+
+  if (input.channels !== undefined) {
+    if (!Array.isArray(input.channels) || input.channels.some((channel) => !NOTIFICATION_CHANNELS.includes(channel))) {
+      errors.push(`channels must be a list of: ${NOTIFICATION_CHANNELS.join(', ')}`);
+    } else {
+      preferences.channels = [...new Set(input.channels)];
+    }
+  }
+
+  if (input.min_priority !== undefined) {
+    if (!PRIORITY_ORDER.includes(input.min_priority)) {
+      errors.push(`min_priority must be one of: ${PRIORITY_ORDER.join(', ')}`);
+    } else {
+      preferences.min_priority = input.min_priority;
+    }
+  }
+
+  if (input.report_types !== undefined) {
+    if (!Array.isArray(input.report_types) || input.report_types.some((type) => !REPORT_TYPES.includes(type))) {
+      errors.push(`report_types must be a list of: ${REPORT_TYPES.join(', ')}`);
+    } else {
+      preferences.report_types = [...new Set(input.report_types)];
+    }
+  }
+
+  if (input.quiet_hours !== undefined) {
+    const quiet = { ...preferences.quiet_hours, ...input.quiet_hours };
+    if (!TIME_PATTERN.test(quiet.start) || !TIME_PATTERN.test(quiet.end)) {
+      errors.push('quiet_hours start and end must be HH:MM');
+    }
+    if (!isValidTimezone(quiet.timezone)) {
+      errors.push(`Unknown timezone: ${quiet.timezone}`);
+    }
+    preferences.quiet_hours = { ...quiet, enabled: !!quiet.enabled, urgent_override: !!quiet.urgent_override };
+  }
+
+  for (const field of ['email', 'phone'] as const) {
+    if (input[field] === undefined) continue;
+    const value = String(input[field] || '').trim();
+    if (value && !(field === 'email' ? EMAIL_PATTERN : PHONE_PATTERN).test(value)) {
+      errors.push(field === 'email' ? 'email must be a valid address' : 'phone must be in international format (+1234567890)');
+    } else {
+      preferences[field] = value ? (field === 'email' ? value.toLowerCase() : value) : undefined;
+    }
+  }
+
+  if (input.locale !== undefined) {
+    if (input.locale && !NOTIFICATION_LOCALES.includes(input.locale)) {
+      errors.push(`locale must be one of: ${NOTIFICATION_LOCALES.join(', ')}`);
+    } else {
+      preferences.locale = input.locale || undefined;
+    }
+  }
+
+  if (preferences.channels.includes('sms') && !preferences.phone) {
+    errors.push('A phone number is required for SMS alerts');
+  }
+
+  return { preferences, errors };
+}
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Normalize a stored preferences object (older admins have none)
+const withDefaults = (stored?: Partial<NotificationPreferences> | null): NotificationPreferences => ({
+  ...DEFAULT_NOTIFICATION_PREFERENCES,
+  ...(stored || {}),
+  report_types: stored?.report_types || [],
+  quiet_hours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quiet_hours, ...(stored?.quiet_hours || {}) },
+});
+
+/**
+ * Read an admin's preferences (database admins or the environment admin)
+ */
+export async function getNotificationPreferences(adminId: string): Promise<NotificationPreferences> {
+  if (adminId === getEnvironmentAdminProfile().id) {
+    return withDefaults(await SystemSettingModel.getValue<NotificationPreferences>(ENV_ADMIN_PREFERENCES_KEY));
+  }
+  const admin = await AdminModel.findById(adminId).select('notification_preferences').lean();
+  return withDefaults((admin as any)?.notification_preferences);
+}
+
+export async function saveNotificationPreferences(adminId: string, preferences: NotificationPreferences): Promise<void> {
+  if (adminId === getEnvironmentAdminProfile().id) {
+    await SystemSettingModel.setValue(ENV_ADMIN_PREFERENCES_KEY, preferences, getEnvironmentAdminProfile().username);
+    return;
+  }
+  await AdminModel.updateOne({ _id: adminId }, { $set: { notification_preferences: preferences } }, { runValidators: true });
+}
+
+/**
+ * The active admin whose alert phone number this is, if any (used for SMS replies)
+ */
+export async function findAdminByPhone(phone: string): Promise<{ admin_id: string; name: string } | null> {
+  const number = phone.replace(/[\s()-]/g, '');
+  if (!PHONE_PATTERN.test(number)) return null;
+
+  const admin = await AdminModel.findOne({ is_active: true, 'notification_preferences.phone': number }).select('name email').lean();
+  if (admin) return { admin_id: (admin as any)._id.toString(), name: (admin as any).name || (admin as any).email };
+
+  const envAdmin = getEnvironmentAdminProfile();
+  const envPreferences = await SystemSettingModel.getValue<NotificationPreferences>(ENV_ADMIN_PREFERENCES_KEY);
+  const envPhone = envPreferences?.phone || process.env.ADMIN_PHONE_NUMBER || process.env.ADMIN_PHONE;
+  return envPhone === number ? { admin_id: envAdmin.id, name: envAdmin.username } : null;
+}
+
+// ================================================================================================
+// ROUTING
+// ================================================================================================
+
+// Minutes since midnight in the given timezone
+const localMinutes = (now: Date, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(now);
+  const value = (type: string) => parseInt(parts.find((part) => part.type === type)?.value || '0');
+  return value('hour') * 60 + value('minute');
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether quiet hours are in effect at the given time (windows may span midnight)
+ */
+export function isWithinQuietHours(quiet: QuietHours, now: Date = new Date()): boolean {
+  if (!quiet.enabled) return false;
+  const start = toMinutes(quiet.start);
+  const end = toMinutes(quiet.end);
+  if (start === end) return false;
+
+  const current = localMinutes(now, isValidTimezone(quiet.timezone) ? quiet.timezone : 'UTC');
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * Channels an admin should be alerted on for a report, given their preferences
+ */
+export function selectChannels(
+  preferences: NotificationPreferences,
+  notification: RoutableNotification,
+  now: Date = new Date()
+): NotificationChannel[] {
+  if (PRIORITY_ORDER.indexOf(notification.priority) < PRIORITY_ORDER.indexOf(preferences.min_priority)) return [];
+  if (preferences.report_types.length > 0 && !preferences.report_types.includes(notification.category as ReportCategory)) return [];
+
+  const urgentOverride = notification.priority === 'urgent' && preferences.quiet_hours.urgent_override;
+  if (!urgentOverride && isWithinQuietHours(preferences.quiet_hours, now)) return [];
+
+  return preferences.channels.filter((channel) => channel === 'email' || !!preferences.phone);
+}
+
+/**
+ * Every (admin, channel) pair an alert fans out to
+ * Admins who can't view reports are never alerted. ADMIN_EMAIL (medium and above) and
+ * ADMIN_PHONE_NUMBER (urgent only) receive channels that no admin was routed.
+ */
+export async function resolveNotificationRoutes(
+  notification: RoutableNotification,
+  now: Date = new Date()
+): Promise<NotificationRoute[]> {
+  const admins = await AdminModel.find({ is_active: true, 'permissions.can_view_reports': true })
+    .select('name email notification_preferences')
+    .lean();
+
+  const candidates = admins.map((admin: any) => ({
+    id: admin._id.toString(),
+    name: admin.name || admin.email,
+    email: admin.email as string,
+    preferences: withDefaults(admin.notification_preferences),
+  }));
+
+  // The environment admin only takes part once it has saved preferences
+  const envAdmin = getEnvironmentAdminProfile();
+  const envPreferences = await SystemSettingModel.getValue<NotificationPreferences>(ENV_ADMIN_PREFERENCES_KEY);
+  if (envPreferences) {
+    candidates.push({ id: envAdmin.id, name: envAdmin.username, email: process.env.ADMIN_EMAIL || '', preferences: withDefaults(envPreferences) });
+  }
+
+  const routes: NotificationRoute[] = [];
+  for (const candidate of candidates) {
+    for (const channel of selectChannels(candidate.preferences, notification, now)) {
+      const address = channel === 'sms' ? candidate.preferences.phone : candidate.preferences.email || candidate.email;
+      if (address) routes.push({ admin_id: candidate.id, name: candidate.name, channel, address, locale: candidate.preferences.locale });
+    }
+  }
+
+  const fallbackEmail = process.env.ADMIN_EMAIL;
+  if (!routes.some((route) => route.channel === 'email') && fallbackEmail &&
+      PRIORITY_ORDER.indexOf(notification.priority) >= PRIORITY_ORDER.indexOf('medium')) {
+    routes.push({ admin_id: 'fallback', name: 'ADMIN_EMAIL', channel: 'email', address: fallbackEmail });
+  }
+
+  const fallbackPhone = process.env.ADMIN_PHONE_NUMBER || process.env.ADMIN_PHONE;
+  if (!routes.some((route) => route.channel === 'sms') && fallbackPhone && notification.priority === 'urgent') {
+    routes.push({ admin_id: 'fallback', name: 'ADMIN_PHONE_NUMBER', channel: 'sms', address: fallbackPhone });
+  }
+
+  return routes;
+}
@@ -1,25 +1,12 @@
-import nodemailer from 'nodemailer';
 import ReportModel from '../../shared/models/report.js';
 import AdminModel from '../models/admin.js';
+import { sendEmail } from './delivery.js';
 
 /**
  * Enhanced Notification Service for Whistle
  * Supports email notifications with escalation workflows
  */
 
-// Initialize email transporter
-const createEmailTransporter = () => {
-  return nodemailer.createTransport({
-    host: process.env.SMTP_HOST || 'smtp.gmail.com',
-    port: parseInt(process.env.SMTP_PORT || '587'),
-    secure: false,
-    auth: {
-      user: process.env.SMTP_USER,
-      pass: process.env.SMTP_PASS
-    }
-  });
-};
-
 interface NotificationData {
   report: any;
   type: 'new_report' | 'urgent_report' | 'escalation' | 'status_update';
@@ -32,12 +19,6 @@ interface NotificationData {
  */
 export const sendEmailNotification = async (data: NotificationData): Promise<boolean> => {
   try {
-    const transporter = createEmailTransporter();
-    
-    if (!process.env.SMTP_USER || !process.env.SMTP_PASS) {
-      console.warn('⚠️ Email credentials not configured, skipping email notification');
-      return false;
-    }
 
     const { report, type, recipient, adminNotes } = data;
     
@@ -152,14 +133,16 @@ export const sendEmailNotification = async (data: NotificationData): Promise<boo
         break;
     }
     
-    const mailOptions = {
-      from: `"Whistle Alerts" <${process.env.SMTP_USER}>`,
-      to: toEmail,
+    const result = await sendEmail({
+      to: [toEmail],
       subject,
+      text: `${subject}\n\nReport ID: ${report.shortId}`,
       html: htmlContent
-    };
-    
-    await transporter.sendMail(mailOptions);
+    }, { reference: `report:${report.shortId}` });
+    if (!result) {
+      console.warn('⚠️ No email provider configured, skipping email notification');
+      return false;
+    }
     console.log(`✅ Email notification sent: ${type} for report ${report.shortId}`);
     return true;
     
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { REPORT_STATUSES } from "../../shared/models/report";
+import {
+  getTemplate,
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_LOCALES,
+  renderNotification,
+  renderString,
+  SAMPLE_TEMPLATE_VARIABLES,
+} from "./notification-templates";
+import { toTemplateVariables } from "./notificationHelpers";
+
+describe("notification templates", () => {
+  it("should render variables and sections without re-interpreting values", () => {
+    const template = "{{#location}}At {{location}}. {{/location}}{{^location}}No location. {{/location}}{{message}}";
+    expect(renderString(template, { location: "Lobby", message: "{{location}}" })).toBe("At Lobby. {{location}}");
+    expect(renderString(template, { location: "", message: "Hi" })).toBe("No location. Hi");
+    expect(renderString("{{message}}", { message: "<b>" }, (text) => text.replace("<", "&lt;"))).toBe("&lt;b>");
+  });
+
+  it("should have an English and Spanish variant of every event", () => {
+    for (const event of NOTIFICATION_EVENTS) {
+      for (const locale of NOTIFICATION_LOCALES) {
+        expect(getTemplate(event, locale).locale).toBe(locale);
+      }
+    }
+  });
+
+  it("should render localized email, plain text and SMS", () => {
+    const spanish = renderNotification("new_report", { ...SAMPLE_TEMPLATE_VARIABLES, message: "<script>x</script>" }, "es");
+    expect(spanish.locale).toBe("es");
+    expect(spanish.subject).toContain("AB12CD34");
+    expect(spanish.text).toContain("Categoría: Acoso");
+    expect(spanish.text).toContain("<script>x</script>");
+    expect(spanish.html).toContain("&lt;script&gt;");
+    expect(spanish.html).not.toContain("<script>");
+    expect(spanish.sms).toContain('Responda "ACK QX7P2M9K"');
+
+    const status = renderNotification("status_update", { ...SAMPLE_TEMPLATE_VARIABLES, status: "in-progress" }, "en");
+    expect(status.sms).toContain("Status: In progress");
+    expect(renderNotification("status_update", SAMPLE_TEMPLATE_VARIABLES, "es").sms).toContain("Estado: En curso");
+  });
+
+  it("should render urgent report alerts in the recipient's locale without injecting report content", () => {
+    const variables = toTemplateVariables({
+      reportId: "507f1f77bcf86cd799439011",
+      shortId: "AB12CD34",
+      message: '<a href="https://evil.example">Click</a>',
+      category: "emergency",
+      priority: "urgent",
+      timestamp: new Date("2024-01-15T14:30:00Z"),
+      location: { lat: 40.4, lng: -3.7, address: "<img src=x onerror=alert(1)>" }
+    });
+
+    const alert = renderNotification("new_report", variables, "es");
+    expect(alert.subject).toBe("🔴 Reporte de prioridad URGENTE: AB12CD34");
+    expect(alert.text).toContain("Categoría: Emergencia");
+    expect(alert.html).toContain("&lt;a href=&quot;https://evil.example&quot;&gt;");
+    expect(alert.html).toContain("&lt;img src=x onerror=alert(1)&gt;");
+    expect(alert.html).not.toContain("<a href=\"https://evil.example\"");
+    expect(alert.html).not.toContain("<img");
+  });
+
+  it("should have a label for every report status", () => {
+    for (const status of REPORT_STATUSES) {
+      for (const locale of NOTIFICATION_LOCALES) {
+        const { sms } = renderNotification("status_update", { ...SAMPLE_TEMPLATE_VARIABLES, status }, locale);
+        expect(sms).not.toContain(`: ${status}\n`);
+      }
+    }
+  });
+});
@@ -0,0 +1,314 @@
+import { NotificationLocale } from '../../shared/api';
+
+/**
+ * Notification Templates for Whistle App
+ * Named templates per event, each with per-locale variants, so email and SMS alerts use
+ * the same wording everywhere. Every template has a plain-text body; emails without their
+ * own HTML body get one built from the text, and a locale without a variant falls back to
+ * English.
+ *
+ * Syntax: {{name}} inserts a variable (HTML-escaped in HTML), {{#name}}...{{/name}} renders
+ * only when the variable is set, {{^name}}...{{/name}} only when it isn't.
+ */
+
+export type NotificationEvent = 'new_report' | 'escalation' | 'status_update' | 'reporter_reply';
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = ['new_report', 'escalation', 'status_update', 'reporter_reply'];
+export const NOTIFICATION_LOCALES: NotificationLocale[] = ['en', 'es'];
+
+export interface NotificationTemplate {
+  subject: string;
+  heading: string;
+  text: string;
+  html?: string; // Optional; built from `text` when missing
+  sms: string;
+}
+
+export interface TemplateVariables {
+  shortId: string;
+  category: string;
+  priority: string;
+  timestamp: Date | string;
+  message?: string;
+  location?: string;
+  hasMedia?: boolean;
+  hoursUnprocessed?: number;
+  status?: string;
+  ackCode?: string;
+}
+
+export interface RenderedNotification {
+  event: NotificationEvent;
+  locale: NotificationLocale;
+  subject: string;
+  text: string;
+  html: string;
+  sms: string;
+}
+
+const PRIORITY_EMOJIS: Record<string, string> = { low: '🔵', medium: '🟡', high: '🟠', urgent: '🔴' };
+const PRIORITY_COLORS: Record<string, string> = { low: '#3b82f6', medium: '#eab308', high: '#f97316', urgent: '#ef4444' };
+
+const LABELS: Record<NotificationLocale, {
+  priority: Record<string, string>;
+  category: Record<string, string>;
+  status: Record<string, string>;
+  openDashboard: string;
+  viewReports: string;
+  dashboardLink: string;
+  footer: string;
+}> = {
+  en: {
+    priority: { low: 'LOW', medium: 'MEDIUM', high: 'HIGH', urgent: 'URGENT' },
+    category: { harassment: 'Harassment', medical: 'Medical', emergency: 'Emergency', safety: 'Safety', feedback: 'Feedback' },
+    status: { pending: 'Pending', 'in-progress': 'In progress', reviewed: 'Reviewed', flagged: 'Flagged', escalated: 'Escalated', resolved: 'Resolved' },
+    openDashboard: '📱 Open Dashboard',
+    viewReports: '📋 View All Reports',
+    dashboardLink: 'Dashboard',
+    footer: 'This is an automated alert from Whistle Security System'
+  },
+  es: {
+    priority: { low: 'BAJA', medium: 'MEDIA', high: 'ALTA', urgent: 'URGENTE' },
+    category: { harassment: 'Acoso', medical: 'Médica', emergency: 'Emergencia', safety: 'Seguridad', feedback: 'Comentarios' },
+    status: { pending: 'Pendiente', 'in-progress': 'En curso', reviewed: 'Revisado', flagged: 'Marcado', escalated: 'Escalado', resolved: 'Resuelto' },
+    openDashboard: '📱 Abrir panel',
+    viewReports: '📋 Ver todos los reportes',
+    dashboardLink: 'Panel',
+    footer: 'Esta es una alerta automática del Sistema de Seguridad Whistle'
+  }
+};
+
+const TEMPLATES: Record<NotificationEvent, Partial<Record<NotificationLocale, NotificationTemplate>>> = {
+  new_report: {
+    en: {
+      subject: '{{priorityEmoji}} {{priorityLabel}} Report: {{shortId}}',
+      heading: '{{priorityEmoji}} Whistle Report Alert',
+      text: `WHISTLE REPORT ALERT - {{priorityLabel}} PRIORITY
+
+Report ID: {{shortId}}
+Category: {{categoryLabel}}
+Priority: {{priorityLabel}}
+Received: {{time}}
+{{#location}}Location: {{location}}
+{{/location}}{{#hasMedia}}Media: Contains image/video evidence
+{{/hasMedia}}
+Message:
+{{message}}`,
+      sms: 'WHISTLE ALERT: {{priorityLabel}} priority report {{shortId}}. Category: {{categoryLabel}}. Check dashboard immediately.{{#ackCode}} Reply "ACK {{ackCode}}" to acknowledge.{{/ackCode}}'
+    },
+    es: {
+      subject: '{{priorityEmoji}} Reporte de prioridad {{priorityLabel}}: {{shortId}}',
+      heading: '{{priorityEmoji}} Alerta de reporte Whistle',
+      text: `ALERTA DE REPORTE WHISTLE - PRIORIDAD {{priorityLabel}}
+
+ID del reporte: {{shortId}}
+Categoría: {{categoryLabel}}
+Prioridad: {{priorityLabel}}
+Recibido: {{time}}
+{{#location}}Ubicación: {{location}}
+{{/location}}{{#hasMedia}}Multimedia: Incluye evidencia en imagen/video
+{{/hasMedia}}
+Mensaje:
+{{message}}`,
+      sms: 'ALERTA WHISTLE: reporte {{shortId}} de prioridad {{priorityLabel}}. Categoría: {{categoryLabel}}. Revise el panel de inmediato.{{#ackCode}} Responda "ACK {{ackCode}}" para confirmar.{{/ackCode}}'
+    }
+  },
+  escalation: {
+    en: {
+      subject: '🚨 ESCALATION ALERT: URGENT Report: {{shortId}} (UNPROCESSED FOR {{hoursUnprocessed}} HOURS)',
+      heading: '🚨 ESCALATION ALERT',
+      text: `🚨 ESCALATION ALERT - UNPROCESSED FOR {{hoursUnprocessed}} HOURS
+
+This report requires immediate administrative attention.
+
+Report ID: {{shortId}}
+Category: {{categoryLabel}}
+Received: {{time}}
+Hours Unprocessed: {{hoursUnprocessed}}
+
+Details:
+{{message}}
+
+⚠️ URGENT ACTION REQUIRED - This escalation needs immediate review!`,
+      sms: '🚨 ESCALATION ({{hoursUnprocessed}}h unprocessed): WHISTLE ALERT: report {{shortId}}. Category: {{categoryLabel}}. URGENT ACTION REQUIRED!{{#ackCode}} Reply "ACK {{ackCode}}" to acknowledge.{{/ackCode}}'
+    },
+    es: {
+      subject: '🚨 ALERTA DE ESCALAMIENTO: Reporte URGENTE: {{shortId}} (SIN ATENDER POR {{hoursUnprocessed}} HORAS)',
+      heading: '🚨 ALERTA DE ESCALAMIENTO',
+      text: `🚨 ALERTA DE ESCALAMIENTO - SIN ATENDER POR {{hoursUnprocessed}} HORAS
+
+Este reporte requiere atención administrativa inmediata.
+
+ID del reporte: {{shortId}}
+Categoría: {{categoryLabel}}
+Recibido: {{time}}
+Horas sin atender: {{hoursUnprocessed}}
+
+Detalles:
+{{message}}
+
+⚠️ SE REQUIERE ACCIÓN URGENTE - ¡Este escalamiento necesita revisión inmediata!`,
+      sms: '🚨 ESCALAMIENTO ({{hoursUnprocessed}} h sin atender): ALERTA WHISTLE: reporte {{shortId}}. Categoría: {{categoryLabel}}. ¡SE REQUIERE ACCIÓN URGENTE!{{#ackCode}} Responda "ACK {{ackCode}}" para confirmar.{{/ackCode}}'
+    }
+  },
+  status_update: {
+    en: {
+      subject: '🔔 Report {{shortId}} is now {{statusLabel}}',
+      heading: '🔔 Whistle Alert Update',
+      text: `Report ID: {{shortId}}
+Status: {{statusLabel}}
+
+The report has been updated. Check the dashboard for more details.`,
+      sms: '🔔 Whistle Alert Update\n\nReport ID: {{shortId}}\nStatus: {{statusLabel}}\n\nThe report has been updated. Check the dashboard for more details.'
+    },
+    es: {
+      subject: '🔔 El reporte {{shortId}} ahora está: {{statusLabel}}',
+      heading: '🔔 Actualización de Whistle',
+      text: `ID del reporte: {{shortId}}
+Estado: {{statusLabel}}
+
+El reporte ha sido actualizado. Consulte el panel para más detalles.`,
+      sms: '🔔 Actualización de Whistle\n\nID del reporte: {{shortId}}\nEstado: {{statusLabel}}\n\nEl reporte ha sido actualizado. Consulte el panel para más detalles.'
+    }
+  },
+  // The reporter's message itself is never sent out - admins read it in the dashboard
+  reporter_reply: {
+    en: {
+      subject: '💬 Reporter replied on report {{shortId}}',
+      heading: '💬 Reporter Reply',
+      text: `The reporter sent a new message on report {{shortId}} ({{categoryLabel}}).
+
+Open the report in the dashboard to read and answer it.`,
+      sms: '💬 Whistle: the reporter replied on report {{shortId}}. Open the dashboard to read it.'
+    },
+    es: {
+      subject: '💬 El denunciante respondió en el reporte {{shortId}}',
+      heading: '💬 Respuesta del denunciante',
+      text: `El denunciante envió un nuevo mensaje en el reporte {{shortId}} ({{categoryLabel}}).
+
+Abra el reporte en el panel para leerlo y responder.`,
+      sms: '💬 Whistle: el denunciante respondió en el reporte {{shortId}}. Abra el panel para leerlo.'
+    }
+  }
+};
+
+// ================================================================================================
+// ENGINE
+// ================================================================================================
+
+const escapeHtml = (text: string) =>
+  text.replace(/[<>&"']/g, (char) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+/**
+ * Render a template string. Sections are resolved before variables, so variable values
+ * are never themselves interpreted as template syntax.
+ */
+export function renderString(template: string, variables: Record<string, unknown>, escape: (text: string) => string = (text) => text): string {
+  return template
+    .replace(/\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_, type, key, inner) => {
+      const value = variables[key];
+      const set = value !== undefined && value !== null && value !== false && value !== '';
+      return (type === '#') === set ? inner : '';
+    })
+    .replace(/\{\{(\w+)\}\}/g, (_, key) => {
+      const value = variables[key];
+      return value === undefined || value === null ? '' : escape(String(value));
+    });
+}
+
+/**
+ * The organization's default alert language (NOTIFICATION_LOCALE, else English)
+ */
+export const getDefaultLocale = (): NotificationLocale => {
+  const locale = process.env.NOTIFICATION_LOCALE as NotificationLocale;
+  return NOTIFICATION_LOCALES.includes(locale) ? locale : 'en';
+};
+
+/**
+ * Look up a template, falling back to English when the locale has no variant
+ */
+export function getTemplate(event: NotificationEvent, locale: NotificationLocale = getDefaultLocale()): { template: NotificationTemplate; locale: NotificationLocale } {
+  const variant = TEMPLATES[event][locale];
+  return variant ? { template: variant, locale } : { template: TEMPLATES[event].en!, locale: 'en' };
+}
+
+// Plain-text fallback for the HTML body: escaped paragraphs with line breaks
+const textToHtml = (text: string) =>
+  text.split(/\n{2,}/).map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`).join('\n');
+
+const buildVariables = (variables: TemplateVariables, locale: NotificationLocale) => {
+  const labels = LABELS[locale];
+  const priority = (variables.priority || 'medium').toLowerCase();
+  const timestamp = new Date(variables.timestamp);
+  return {
+    ...variables,
+    priorityEmoji: PRIORITY_EMOJIS[priority] || '',
+    priorityLabel: labels.priority[priority] || priority.toUpperCase(),
+    categoryLabel: labels.category[variables.category] || variables.category,
+    statusLabel: variables.status ? labels.status[variables.status] || variables.status : undefined,
+    time: isNaN(timestamp.getTime()) ? '' : timestamp.toLocaleString(locale === 'es' ? 'es-ES' : 'en-US', { timeZone: 'UTC', timeZoneName: 'short' })
+  };
+};
+
+/**
+ * Render an event's subject, text, HTML and SMS in a locale
+ */
+export function renderNotification(
+  event: NotificationEvent,
+  variables: TemplateVariables,
+  requestedLocale?: NotificationLocale
+): RenderedNotification {
+  const { template, locale } = getTemplate(event, requestedLocale || getDefaultLocale());
+  const labels = LABELS[locale];
+  const values = buildVariables(variables, locale);
+  const color = event === 'escalation' ? '#ef4444' : PRIORITY_COLORS[(variables.priority || '').toLowerCase()] || '#3b82f6';
+
+  const text = renderString(template.text, values).trim();
+  const body = template.html ? renderString(template.html, values, escapeHtml) : textToHtml(text);
+  const dashboardUrl = process.env.ADMIN_DASHBOARD_URL || 'http://localhost:8080/admin';
+  const reportsUrl = process.env.REPORTS_PAGE_URL || 'http://localhost:8080';
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <div style="background-color: ${color}; color: white; padding: 20px; text-align: center;">
+        <h1 style="margin: 0;">${escapeHtml(renderString(template.heading, values))}</h1>
+      </div>
+      <div style="padding: 20px; border: 1px solid #ddd;">
+        ${body}
+        <div style="margin-top: 20px; text-align: center;">
+          <a href="${dashboardUrl}" style="background-color: ${color}; color: white; padding: 12px 25px; text-decoration: none; border-radius: 5px; display: inline-block; margin: 5px; font-weight: bold;">${labels.openDashboard}</a>
+          <br>
+          <a href="${reportsUrl}" style="background-color: #6b7280; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block; margin: 5px;">${labels.viewReports}</a>
+        </div>
+      </div>
+      <div style="background-color: #f8f9fa; padding: 15px; text-align: center; font-size: 12px; color: #666;">
+        <p>${labels.footer}</p>
+      </div>
+    </div>
+  `;
+
+  return {
+    event,
+    locale,
+    subject: renderString(template.subject, values),
+    text: `${text}\n\n${labels.dashboardLink}: ${dashboardUrl}`,
+    html,
+    sms: renderString(template.sms, values)
+  };
+}
+
+/**
+ * Sample report used by the admin template preview
+ */
+export const SAMPLE_TEMPLATE_VARIABLES: TemplateVariables = {
+  shortId: 'AB12CD34',
+  category: 'harassment',
+  priority: 'high',
+  timestamp: new Date('2024-01-15T14:30:00Z'),
+  message: 'Repeated verbal harassment near the east entrance after the evening shift. Contact me at [EMAIL].',
+  location: 'Building 4, east entrance',
+  hasMedia: true,
+  hoursUnprocessed: 6,
+  status: 'in-progress',
+  ackCode: 'QX7P2M9K'
+};
@@ -1,5 +1,10 @@
-import nodemailer from 'nodemailer';
 import { Request, Response } from 'express';
+import { enqueueJob, registerJobHandler } from './job-queue';
+import { redactText } from './pii';
+import { NOTIFICATION_CHANNELS, resolveNotificationRoutes } from './notification-routing';
+import { NotificationEvent, renderNotification, TemplateVariables } from './notification-templates';
+import { NotificationChannel, NotificationLocale } from '../../shared/api';
+import { sendEmail, sendSms } from './delivery';
 
 /**
  * ================================================================================================
@@ -7,14 +12,14 @@ import { Request, Response } from 'express';
  * ================================================================================================
  * 
  * Comprehensive notification system for admin alerts:
- * 1. Email notifications using existing SMTP configuration
- * 2. SMS notifications using configured SMS API
+ * 1. Email notifications through the configured email providers (see delivery.ts)
+ * 2. SMS notifications through the configured SMS providers, with failover
  * 3. Dashboard real-time notifications with sound
- * 4. Priority-based notification routing
- * 5. Template-based messaging system
+ * 4. Per-admin notification routing (channels, priority, report types, quiet hours)
+ * 5. Template-based messaging system (see notification-templates.ts), in English or Spanish
  * 
  * Features:
- * - SMTP email delivery with HTML templates
+ * - Email delivery with HTML templates
  * - SMS integration for urgent alerts
  * - Real-time dashboard notifications with sound
  * - Priority-based escalation system
@@ -27,12 +32,6 @@ import { Request, Response } from 'express';
 // ENVIRONMENT CONFIGURATION
 // ================================================================================================
 
-const SMTP_HOST = process.env.SMTP_HOST || 'smtp.gmail.com';
-const SMTP_PORT = parseInt(process.env.SMTP_PORT || '587');
-const SMTP_USER = process.env.SMTP_USER || process.env.EMAIL_USER || '';
-const SMTP_PASS = process.env.SMTP_PASS || process.env.EMAIL_PASS || '';
-const FROM_EMAIL = process.env.FROM_EMAIL || process.env.SMTP_USER || 'noreply@whistle.local';
-const FROM_NAME = process.env.FROM_NAME || 'Whistle Security System';
 const ADMIN_EMAIL = process.env.ADMIN_EMAIL || 'admin@whistle.local';
 const ADMIN_PHONE = process.env.ADMIN_PHONE_NUMBER || process.env.ADMIN_PHONE || '';
 
@@ -55,6 +54,10 @@ export interface NotificationData {
   timestamp: Date;
   isEscalation?: boolean;
   hoursUnprocessed?: number;
+  ackCode?: string; // On-call pages: reply "ACK <code>" to acknowledge
+  locale?: NotificationLocale; // Recipient's alert language
+  event?: NotificationEvent; // Template to use; defaults to new_report (or escalation)
+  status?: string; // status_update: the report's new status
 }
 
 export interface EmailTemplate {
@@ -73,190 +76,76 @@ export interface DashboardNotification {
   data?: any;
 }
 
+// Template a notification is rendered with
+const templateEvent = (notification: NotificationData): NotificationEvent =>
+  notification.event || (notification.isEscalation ? 'escalation' : 'new_report');
+
+// Template variables for a report notification
+export const toTemplateVariables = (notification: NotificationData): TemplateVariables => ({
+  shortId: notification.shortId,
+  category: notification.category,
+  priority: notification.isEscalation ? 'urgent' : notification.priority,
+  timestamp: notification.timestamp,
+  message: notification.message,
+  location: notification.location ? notification.location.address || `${notification.location.lat}, ${notification.location.lng}` : undefined,
+  hasMedia: notification.hasMedia,
+  hoursUnprocessed: notification.hoursUnprocessed,
+  status: notification.status,
+  ackCode: notification.ackCode
+});
+
+/**
+ * Notifications leave the dashboard (email, SMS, job payloads), so they only ever carry
+ * the PII-redacted message. Redaction is idempotent, so redacting twice is harmless.
+ */
+const redactNotification = (notification: NotificationData): NotificationData => ({
+  ...notification,
+  message: redactText(notification.message)
+});
+
 // ================================================================================================
 // EMAIL NOTIFICATION SYSTEM
 // ================================================================================================
 
 /**
- * Create SMTP transporter with proper error handling
+ * Render the email for a notification from the shared templates, in its locale
  */
-const createEmailTransporter = () => {
-  try {
-    if (!SMTP_USER || !SMTP_PASS) {
-      console.warn('⚠️  Email credentials not configured. Email notifications disabled.');
-      return null;
-    }
-    
-    const transporter = nodemailer.createTransport({
-      host: SMTP_HOST,
-      port: SMTP_PORT,
-      secure: SMTP_PORT === 465, // true for 465, false for other ports
-      auth: {
-        user: SMTP_USER,
-        pass: SMTP_PASS
-      },
-      tls: {
-        rejectUnauthorized: false // Accept self-signed certificates
-      }
-    });
-    
-    console.log('✅ Email transporter configured successfully');
-    return transporter;
-  } catch (error) {
-    console.error('❌ Failed to create email transporter:', error);
-    return null;
-  }
+const generateEmailTemplate = (notification: NotificationData): EmailTemplate => {
+  const rendered = renderNotification(templateEvent(notification), toTemplateVariables(notification), notification.locale);
+  return { subject: rendered.subject, html: rendered.html, text: rendered.text };
 };
 
 /**
- * Generate email template based on report priority and data
+ * Deliver email notification to admin (or to explicit recipients, e.g. an SLA escalation ladder step)
+ * Returns false when email isn't configured, throws when every provider fails (retryable)
  */
-const generateEmailTemplate = (notification: NotificationData): EmailTemplate => {
-  const priorityEmojis = {
-    low: '🔵',
-    medium: '🟡',
-    high: '🟠',
-    urgent: '🔴'
-  };
-  
-  const priorityColors = {
-    low: '#3b82f6',
-    medium: '#eab308',
-    high: '#f97316',
-    urgent: '#ef4444'
-  };
-  
-  const emoji = priorityEmojis[notification.priority];
-  const color = priorityColors[notification.priority];
-  
-  // Special handling for escalation emails
-  const isEscalation = notification.isEscalation;
-  const escalationPrefix = isEscalation ? '🚨 ESCALATION ALERT: ' : '';
-  const escalationSuffix = isEscalation ? ` (UNPROCESSED FOR ${notification.hoursUnprocessed} HOURS)` : '';
-  
-  const subject = `${escalationPrefix}${emoji} ${isEscalation ? 'URGENT' : notification.priority.toUpperCase()} Report: ${notification.shortId}${escalationSuffix}`;
-  
-  const locationInfo = notification.location ? 
-    `<strong>Location:</strong> ${notification.location.address || `${notification.location.lat}, ${notification.location.lng}`}<br>` : '';
-  
-  const mediaInfo = notification.hasMedia ? 
-    '<strong>Media:</strong> Contains image/video evidence<br>' : '';
-    
-  const escalationInfo = isEscalation ? 
-    `<div style="background-color: #ef4444; color: white; padding: 15px; margin-bottom: 20px; border-radius: 5px;">
-      <h3 style="margin: 0; color: white;">🚨 ESCALATION ALERT</h3>
-      <p style="margin: 5px 0 0 0;">This report has been unprocessed for <strong>${notification.hoursUnprocessed} hours</strong> and requires immediate administrative attention!</p>
-    </div>` : '';
-  
-  const html = `
-    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-      <div style="background-color: ${isEscalation ? '#ef4444' : color}; color: white; padding: 20px; text-align: center;">
-        <h1 style="margin: 0;">${isEscalation ? '🚨 ESCALATION ALERT' : `${emoji} Whistle Report Alert`}</h1>
-        <p style="margin: 5px 0 0 0;">Priority: ${isEscalation ? 'URGENT ESCALATION' : notification.priority.toUpperCase()}</p>
-      </div>
-      
-      <div style="padding: 20px; border: 1px solid #ddd;">
-        ${escalationInfo}
-        
-        <h2>Report Details</h2>
-        <p><strong>Report ID:</strong> ${notification.shortId}</p>
-        <p><strong>Category:</strong> ${notification.category}</p>
-        <p><strong>Priority:</strong> ${notification.priority}</p>
-        <p><strong>Timestamp:</strong> ${notification.timestamp.toISOString()}</p>
-        ${isEscalation ? `<p><strong>Hours Unprocessed:</strong> ${notification.hoursUnprocessed}</p>` : ''}
-        ${locationInfo}
-        ${mediaInfo}
-        
-        <h3>Report Message:</h3>
-        <div style="background-color: #f5f5f5; padding: 15px; border-left: 4px solid ${color};">
-          ${notification.message}
-        </div>
-        
-        <div style="margin-top: 20px; text-align: center;">
-          <a href="${process.env.ADMIN_DASHBOARD_URL || 'http://localhost:8080/admin'}" 
-             style="background-color: ${color}; color: white; padding: 12px 25px; text-decoration: none; border-radius: 5px; display: inline-block; margin: 5px; font-weight: bold;">
-            📱 Open Dashboard
-          </a>
-          <br>
-          <a href="${process.env.REPORTS_PAGE_URL || 'http://localhost:8080'}" 
-             style="background-color: #6b7280; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block; margin: 5px;">
-            📋 View All Reports
-          </a>
-        </div>
-        
-        ${isEscalation ? `
-        <div style="margin-top: 15px; padding: 10px; background-color: #fef2f2; border-left: 4px solid #ef4444;">
-          <p style="margin: 0; color: #b91c1c; font-weight: bold;">⚠️ URGENT ACTION REQUIRED</p>
-          <p style="margin: 5px 0 0 0; color: #7f1d1d; font-size: 14px;">This escalation requires immediate administrative review. Click the dashboard link above to take action on your mobile device.</p>
-        </div>` : ''}
-        
-        <div style="margin-top: 20px; padding: 10px; background-color: #f0f9ff; border-left: 4px solid #3b82f6;">
-          <p style="margin: 0; color: #1e40af; font-size: 14px;"><strong>📱 Mobile Access:</strong> These links are optimized for mobile viewing. Tap to open directly on your phone.</p>
-        </div>
-      </div>
-      
-      <div style="background-color: #f8f9fa; padding: 15px; text-align: center; font-size: 12px; color: #666;">
-        <p>This is an automated alert from Whistle Security System</p>
-        <p>Report time: ${notification.timestamp.toLocaleString()}</p>
-      </div>
-    </div>
-  `;
-  
-  const text = `
-WHISTLE REPORT ALERT - ${notification.priority.toUpperCase()} PRIORITY
-${isEscalation ? `🚨 ESCALATION ALERT - UNPROCESSED FOR ${notification.hoursUnprocessed} HOURS` : ''}
+export const deliverEmailNotification = async (notification: NotificationData, recipients?: string[]): Promise<boolean> => {
+  console.log(`📧 Sending email notification for report: ${notification.shortId}`);
 
-Report ID: ${notification.shortId}
-Category: ${notification.category}
-Priority: ${notification.priority}
-Timestamp: ${notification.timestamp.toISOString()}
-${notification.location ? `Location: ${notification.location.address || `${notification.location.lat}, ${notification.location.lng}`}` : ''}
-${notification.hasMedia ? 'Media: Contains image/video evidence' : ''}
+  const template = generateEmailTemplate(redactNotification(notification));
+  const result = await sendEmail({
+    to: recipients && recipients.length > 0 ? recipients : [ADMIN_EMAIL],
+    subject: template.subject,
+    text: template.text,
+    html: template.html
+  }, { reference: `report:${notification.shortId}` });
 
-Message:
-${notification.message}
-
-📱 MOBILE ACCESS LINKS:
-Dashboard: ${process.env.ADMIN_DASHBOARD_URL || 'http://localhost:8080/admin'}
-All Reports: ${process.env.REPORTS_PAGE_URL || 'http://localhost:8080'}
-
-${isEscalation ? '⚠️ URGENT ACTION REQUIRED - This escalation needs immediate review!' : ''}
+  if (!result) {
+    console.log('⚠️  No email provider configured, skipping email notification');
+    return false;
+  }
 
-This alert is optimized for mobile access. Tap the links above to open directly on your phone.
-  `;
-  
-  return { subject, html, text };
+  console.log(`✅ Email notification sent via ${result.provider}: ${result.messageId}`);
+  return true;
 };
 
 /**
- * Send email notification to admin
+ * Send email notification immediately, without retries
  */
-export const sendEmailNotification = async (notification: NotificationData): Promise<boolean> => {
+export const sendEmailNotification = async (notification: NotificationData, recipients?: string[]): Promise<boolean> => {
   try {
-    console.log(`📧 Sending email notification for report: ${notification.shortId}`);
-    
-    const transporter = createEmailTransporter();
-    if (!transporter) {
-      console.log('⚠️  Email transporter not available, skipping email notification');
-      return false;
-    }
-    
-    const template = generateEmailTemplate(notification);
-    
-    const mailOptions = {
-      from: `"${FROM_NAME}" <${FROM_EMAIL}>`,
-      to: ADMIN_EMAIL,
-      subject: template.subject,
-      text: template.text,
-      html: template.html
-    };
-    
-    const info = await transporter.sendMail(mailOptions);
-    console.log('✅ Email notification sent successfully:', info.messageId);
-    
-    return true;
-  } catch (error) {
-    console.error('❌ Failed to send email notification:', error);
+    return await deliverEmailNotification(notification, recipients);
+  } catch {
     return false;
   }
 };
@@ -266,107 +155,82 @@ export const sendEmailNotification = async (notification: NotificationData): Pro
 // ================================================================================================
 
 /**
- * Send SMS notification for urgent reports using Twilio
+ * Deliver SMS notification for urgent reports through the configured SMS providers
+ * Defaults to the admin phone; an explicit phone is used for routed admins, on-call
+ * pages and SLA escalation ladder steps. Sends to a single phone, so a retry can't
+ * re-send to numbers that already got the message.
+ * Returns false when SMS isn't configured, throws when every provider fails (retryable)
+ */
+export const deliverSMSNotification = async (notification: NotificationData, phone?: string): Promise<boolean> => {
+  console.log(`📱 Sending SMS notification for report: ${notification.shortId}`);
+
+  const to = phone || ADMIN_PHONE;
+  if (!to) {
+    console.log('⚠️  Admin phone number not configured, skipping SMS notification');
+    return false;
+  }
+
+  const smsMessage = renderNotification(templateEvent(notification), toTemplateVariables(notification), notification.locale).sms;
+
+  const result = await sendSms({ to, body: smsMessage }, { reference: `report:${notification.shortId}` });
+  if (!result) {
+    console.log('⚠️  No SMS provider configured, skipping SMS notification');
+    return false;
+  }
+  console.log(`📱 SMS sent to ${to} via ${result.provider}: ${result.messageId}`);
+
+  return true;
+};
+
+/**
+ * Send SMS notification immediately, without retries
  */
-export const sendSMSNotification = async (notification: NotificationData): Promise<boolean> => {
+export const sendSMSNotification = async (notification: NotificationData, phone?: string): Promise<boolean> => {
   try {
-    console.log(`📱 Sending SMS notification for report: ${notification.shortId}`);
-    
-    if (!ADMIN_PHONE) {
-      console.log('⚠️  Admin phone number not configured, skipping SMS notification');
-      return false;
-    }
-    
-    // SMS content - special handling for escalations
-    const isEscalation = notification.isEscalation;
-    const escalationPrefix = isEscalation ? `🚨 ESCALATION (${notification.hoursUnprocessed}h unprocessed): ` : '';
-    const smsMessage = `${escalationPrefix}WHISTLE ALERT: ${notification.priority.toUpperCase()} priority report ${notification.shortId}. Category: ${notification.category}. ${isEscalation ? 'URGENT ACTION REQUIRED!' : 'Check dashboard immediately.'}`;
-    
-    // Check if using Twilio
-    const smsProvider = process.env.SMS_PROVIDER;
-    
-    if (smsProvider === 'twilio') {
-      const twilio = require('twilio');
-      const accountSid = process.env.TWILIO_ACCOUNT_SID;
-      const authToken = process.env.TWILIO_AUTH_TOKEN;
-      const apiKey = process.env.TWILIO_API_KEY;
-      const apiSecret = process.env.TWILIO_API_SECRET;
-      const fromNumber = process.env.TWILIO_FROM_NUMBER;
-      const messagingServiceSid = process.env.TWILIO_MESSAGING_SERVICE_SID;
-      
-      console.log('🔍 Checking Twilio credentials...');
-      console.log(`Account SID: ${accountSid ? 'Present' : 'Missing'}`);
-      console.log(`Auth Token: ${authToken ? 'Present' : 'Missing'}`);
-      console.log(`API Key: ${apiKey ? 'Present' : 'Missing'}`);
-      console.log(`API Secret: ${apiSecret ? 'Present' : 'Missing'}`);
-      
-      if (!accountSid) {
-        console.log('⚠️  Twilio Account SID not configured');
-        return false;
-      }
-      
-      // Initialize Twilio client - prioritize Auth Token for simplicity
-      let client;
-      try {
-        if (authToken && authToken !== '[AuthToken]' && authToken.length > 10) {
-          console.log('📱 Using Twilio Auth Token authentication');
-          client = twilio(accountSid, authToken);
-        } else if (apiKey && apiSecret && apiKey.length > 10 && apiSecret.length > 10) {
-          console.log('📱 Using Twilio API Key authentication');
-          client = twilio(apiKey, apiSecret, { accountSid });
-        } else {
-          console.log('⚠️  Twilio credentials not properly configured or invalid');
-          console.log(`Auth Token length: ${authToken ? authToken.length : 'N/A'}`);
-          console.log(`API Key length: ${apiKey ? apiKey.length : 'N/A'}`);
-          console.log(`API Secret length: ${apiSecret ? apiSecret.length : 'N/A'}`);
-          return false;
-        }
-      } catch (error) {
-        console.error('❌ Failed to initialize Twilio client:', error);
-        return false;
-      }
-      
-      // Use messaging service if available, otherwise use from number
-      const messageOptions: any = {
-        body: smsMessage,
-        to: ADMIN_PHONE
-      };
-      
-      if (messagingServiceSid && messagingServiceSid.length > 10) {
-        messageOptions.messagingServiceSid = messagingServiceSid;
-        console.log('📱 Using Twilio Messaging Service');
-      } else if (fromNumber && fromNumber.length > 10) {
-        messageOptions.from = fromNumber;
-        console.log('📱 Using Twilio phone number');
-      } else {
-        console.log('⚠️  No Twilio from number or messaging service configured');
-        console.log(`From Number: ${fromNumber ? fromNumber : 'Missing'}`);
-        console.log(`Messaging Service SID: ${messagingServiceSid ? messagingServiceSid : 'Missing'}`);
-        return false;
-      }
-      
-      const message = await client.messages.create(messageOptions);
-      
-      console.log('📱 Twilio SMS sent successfully');
-      console.log(`Message SID: ${message.sid}`);
-      console.log(`To: ${ADMIN_PHONE}`);
-      console.log(`Status: ${message.status}`);
-      console.log(`Content: ${smsMessage}`);
-      
-      return true;
-    } else {
-      // Fallback to HTTP provider or log message
-      console.log('📱 SMS notification (simulated) sent successfully');
-      console.log(`SMS content: ${smsMessage}`);
-      console.log(`Recipient: ${ADMIN_PHONE}`);
-      return true;
-    }
-  } catch (error) {
-    console.error('❌ Failed to send SMS notification:', error);
+    return await deliverSMSNotification(notification, phone);
+  } catch {
     return false;
   }
 };
 
+// ================================================================================================
+// QUEUED DELIVERY (RETRIES)
+// ================================================================================================
+
+export const EMAIL_NOTIFICATION_JOB = 'notification:email';
+export const SMS_NOTIFICATION_JOB = 'notification:sms';
+
+/**
+ * Queue an email notification - retried with backoff and dead-lettered if it keeps failing
+ * The dedupe key stops several server instances queueing the same alert
+ */
+export const queueEmailNotification = (notification: NotificationData, recipients?: string[], dedupeKey?: string) =>
+  enqueueJob(EMAIL_NOTIFICATION_JOB, { notification: redactNotification(notification), recipients }, { dedupeKey });
+
+/**
+ * Queue an SMS notification to one phone - retried with backoff and dead-lettered if it keeps failing
+ */
+export const queueSMSNotification = (notification: NotificationData, phone?: string, dedupeKey?: string) =>
+  enqueueJob(SMS_NOTIFICATION_JOB, { notification: redactNotification(notification), phone }, { dedupeKey });
+
+/**
+ * Register the job handlers that perform queued email/SMS deliveries
+ */
+export const registerNotificationJobs = (): void => {
+  // Payloads round-trip through MongoDB, so restore the timestamp Date before rendering
+  const restore = (notification: any): NotificationData => ({ ...notification, timestamp: new Date(notification.timestamp) });
+
+  registerJobHandler(EMAIL_NOTIFICATION_JOB, async ({ notification, recipients }) => {
+    const sent = await deliverEmailNotification(restore(notification), recipients);
+    return sent ? { sent: true } : { sent: false, reason: 'Email not configured' };
+  });
+
+  registerJobHandler(SMS_NOTIFICATION_JOB, async ({ notification, phone }) => {
+    const sent = await deliverSMSNotification(restore(notification), phone);
+    return sent ? { sent: true } : { sent: false, reason: 'SMS not configured' };
+  });
+};
+
 // ================================================================================================
 // DASHBOARD NOTIFICATION SYSTEM
 // ================================================================================================
@@ -433,9 +297,35 @@ export const broadcastDashboardNotification = (notification: DashboardNotificati
 // ================================================================================================
 
 /**
- * Main notification handler - processes all notification types based on priority
+ * Queue email/SMS jobs for every admin whose preferences match the notification
+ * One job per recipient, so a failing address doesn't hold up (or re-send to) the others
  */
-export const processReportNotification = async (notification: NotificationData): Promise<void> => {
+export const queueRoutedNotifications = async (
+  notification: NotificationData,
+  dedupePrefix: string,
+  excludeAdminId?: string,
+  channels: NotificationChannel[] = NOTIFICATION_CHANNELS
+) => {
+  const routes = (await resolveNotificationRoutes(notification))
+    .filter((route) => route.admin_id !== excludeAdminId && channels.includes(route.channel));
+  for (const route of routes) {
+    const dedupeKey = `${dedupePrefix}:${route.channel}:${route.admin_id}`;
+    const localized = { ...notification, locale: route.locale };
+    if (route.channel === 'email') {
+      await queueEmailNotification(localized, [route.address], dedupeKey);
+    } else {
+      await queueSMSNotification(localized, route.address, dedupeKey);
+    }
+  }
+  return routes;
+};
+
+/**
+ * Main notification handler - broadcasts to the dashboard and fans email/SMS out to
+ * every admin whose notification preferences match the report
+ */
+export const processReportNotification = async (reportNotification: NotificationData): Promise<void> => {
+  const notification = redactNotification(reportNotification);
   try {
     console.log(`🔔 Processing notifications for report: ${notification.shortId} (${notification.priority})`);
     
@@ -443,23 +333,53 @@ export const processReportNotification = async (notification: NotificationData):
     const dashboardNotif = createDashboardNotification(notification);
     broadcastDashboardNotification(dashboardNotif);
     
-    // Send email for medium priority and above
-    if (['medium', 'high', 'urgent'].includes(notification.priority)) {
-      await sendEmailNotification(notification);
-    }
+    const routes = await queueRoutedNotifications(notification, `report:${notification.reportId}`);
     
-    // Send SMS for urgent priority only
-    if (notification.priority === 'urgent') {
-      await sendSMSNotification(notification);
-    }
-    
-    console.log(`✅ Notification processing completed for report: ${notification.shortId}`);
+    console.log(`✅ Notification processing completed for report: ${notification.shortId} (${routes.length} route(s): ${routes.map((route) => `${route.name}/${route.channel}`).join(', ') || 'none'})`);
     
   } catch (error) {
     console.error('❌ Error processing report notification:', error);
   }
 };
 
+export interface UpdatedReport {
+  _id: unknown;
+  shortId: string;
+  category?: string;
+  type?: string;
+  priority?: string;
+  severity?: string;
+  status?: string;
+}
+
+/**
+ * Email/SMS admins about an existing report - a status change or a reporter reply - routed
+ * like new reports. `reference` identifies the event so its jobs are queued once; the admin
+ * who made the change isn't alerted about it. Never throws.
+ */
+export const queueReportUpdateNotifications = async (
+  event: Extract<NotificationEvent, 'status_update' | 'reporter_reply'>,
+  report: UpdatedReport,
+  reference: string,
+  excludeAdminId?: string
+): Promise<void> => {
+  try {
+    const routes = await queueRoutedNotifications({
+      reportId: String(report._id),
+      shortId: report.shortId,
+      message: '', // Neither template includes report content
+      category: report.category || report.type || 'other',
+      priority: (report.priority || report.severity || 'medium') as NotificationData['priority'],
+      timestamp: new Date(),
+      event,
+      status: report.status
+    }, `report:${report._id}:${event}:${reference}`, excludeAdminId);
+    console.log(`🔔 ${event} for report ${report.shortId} queued to ${routes.length} route(s)`);
+  } catch (error) {
+    console.error(`❌ Failed to queue ${event} notifications for report ${report.shortId}:`, error);
+  }
+};
+
 // ================================================================================================
 // NOTIFICATION API ENDPOINTS
 // ================================================================================================
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { IOnCallOverride, OnCallRole } from "../../shared/models/OnCallSchedule";
+import { getShift, OnCallScheduleDefinition, resolveOnCall } from "./on-call";
+
+const schedule = (overrides: Partial<OnCallScheduleDefinition> = {}): OnCallScheduleDefinition => ({
+  name: "Night cover",
+  timezone: "UTC",
+  handoff_time: "09:00",
+  shift_days: 1,
+  rotation_start: "2024-03-01",
+  participants: [
+    { admin_id: "a", name: "Alex" },
+    { admin_id: "b", name: "Blair" },
+    { admin_id: "c", name: "Casey" },
+  ],
+  overrides: [],
+  ack_timeout_minutes: 10,
+  ...overrides,
+});
+
+describe("on-call rotation", () => {
+  it("should hand off at the handoff time and cycle through participants", () => {
+    const beforeHandoff = resolveOnCall(schedule(), new Date("2024-03-02T08:59:00Z"));
+    expect(beforeHandoff.primary).toMatchObject({ admin_id: "a", source: "rotation" });
+    expect(beforeHandoff.secondary?.admin_id).toBe("b");
+    expect(beforeHandoff.next_handoff).toEqual(new Date("2024-03-02T09:00:00Z"));
+
+    const afterHandoff = resolveOnCall(schedule(), new Date("2024-03-02T09:00:00Z"));
+    expect(afterHandoff.primary?.admin_id).toBe("b");
+    expect(afterHandoff.secondary?.admin_id).toBe("c");
+
+    expect(resolveOnCall(schedule(), new Date("2024-03-04T10:00:00Z")).primary?.admin_id).toBe("a");
+    expect(resolveOnCall(schedule(), new Date("2024-02-29T10:00:00Z")).primary?.admin_id).toBe("c");
+  });
+
+  it("should hand off in the schedule's timezone across DST changes", () => {
+    const weekly = schedule({ timezone: "America/New_York", shift_days: 7, rotation_start: "2024-03-04" });
+    // US clocks go forward on 2024-03-10, so the 09:00 handoff moves from 14:00 to 13:00 UTC
+    const shift = getShift(weekly, new Date("2024-03-08T12:00:00Z"));
+    expect(shift.start).toEqual(new Date("2024-03-04T14:00:00Z"));
+    expect(shift.end).toEqual(new Date("2024-03-11T13:00:00Z"));
+    expect(resolveOnCall(weekly, new Date("2024-03-11T13:00:00Z")).primary?.admin_id).toBe("b");
+  });
+
+  it("should let overrides take a role without doubling up", () => {
+    const at = new Date("2024-03-01T12:00:00Z");
+    const override = (role: OnCallRole, admin_id: string, created_at: string): Omit<IOnCallOverride, "_id"> => ({
+      role,
+      admin_id,
+      name: admin_id.toUpperCase(),
+      start_at: new Date("2024-03-01T10:00:00Z"),
+      end_at: new Date("2024-03-01T18:00:00Z"),
+      created_at: new Date(created_at),
+    });
+
+    // Blair covers Alex's shift; Alex backs them up instead of Blair backing up themselves
+    const covered = resolveOnCall(schedule({ overrides: [override("primary", "b", "2024-02-28")] }), at);
+    expect(covered.primary).toMatchObject({ admin_id: "b", source: "override" });
+    expect(covered.secondary).toMatchObject({ admin_id: "a", source: "rotation" });
+
+    // The newest overlapping override wins, and none apply outside their window
+    const swapped = schedule({ overrides: [override("primary", "b", "2024-02-28"), override("primary", "c", "2024-02-29")] });
+    expect(resolveOnCall(swapped, at).primary?.admin_id).toBe("c");
+    expect(resolveOnCall(swapped, new Date("2024-03-01T19:00:00Z")).primary?.admin_id).toBe("a");
+  });
+});
@@ -0,0 +1,309 @@
+import OnCallScheduleModel, { IOnCallOverride, IOnCallParticipant, IOnCallSchedule, OnCallRole } from '../../shared/models/OnCallSchedule';
+import AlertModel, { IAlert } from '../../shared/models/Alert';
+import ReportModel from '../../shared/models/report';
+import AdminModel from '../models/admin';
+import { NotificationLocale } from '../../shared/api';
+import { getEnvironmentAdminProfile } from '../middleware/authMiddleware';
+import { getNotificationPreferences } from './notification-routing';
+import { enqueueJob, registerJobHandler } from './job-queue';
+import { NotificationData, queueEmailNotification, queueSMSNotification } from './notificationHelpers';
+
+/**
+ * On-Call Paging for Whistle App
+ * Works out who is on call from each active rotation (handoffs in the schedule's timezone,
+ * overrides on top) and pages them for urgent alerts: the primary first, then the secondary
+ * once the acknowledgement timeout passes with the alert still unacknowledged.
+ * Pages go to the SMS number and email address in each admin's notification preferences.
+ */
+
+export const ONCALL_ESCALATE_JOB = 'oncall:escalate';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type OnCallScheduleDefinition = Pick<IOnCallSchedule,
+  'name' | 'timezone' | 'handoff_time' | 'shift_days' | 'rotation_start' | 'participants' | 'ack_timeout_minutes'
+> & {
+  _id?: unknown;
+  overrides?: Omit<IOnCallOverride, '_id'>[]; // Resolution doesn't need the subdocument ids
+};
+
+export interface OnCallAssignment {
+  admin_id: string;
+  name: string;
+  source: 'rotation' | 'override';
+}
+
+export interface OnCallState {
+  schedule_id: string | null;
+  schedule_name: string;
+  primary?: OnCallAssignment;
+  secondary?: OnCallAssignment;
+  shift_start: Date;
+  next_handoff: Date;
+}
+
+// ================================================================================================
+// ROTATION
+// ================================================================================================
+
+// Calendar day (days since the epoch) and minutes since midnight of an instant in a timezone
+const localDayAndMinutes = (instant: number, timezone: string): { day: number; minutes: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23'
+  }).formatToParts(new Date(instant));
+  const value = (type: string) => parseInt(parts.find((part) => part.type === type)?.value || '0');
+  return {
+    day: Date.UTC(value('year'), value('month') - 1, value('day')) / DAY_MS,
+    minutes: value('hour') * 60 + value('minute')
+  };
+};
+
+// Offset of the timezone from UTC at an instant, in milliseconds
+const timezoneOffset = (instant: number, timezone: string): number => {
+  const { day, minutes } = localDayAndMinutes(instant, timezone);
+  return day * DAY_MS + minutes * 60000 - (instant - (instant % 60000));
+};
+
+// The instant a local wall-clock time occurs (re-checked so handoffs land right across DST changes)
+const zonedTimeToDate = (day: number, minutes: number, timezone: string): Date => {
+  const wallClock = day * DAY_MS + minutes * 60000;
+  let instant = wallClock - timezoneOffset(wallClock, timezone);
+  const corrected = timezoneOffset(instant, timezone);
+  if (wallClock - corrected !== instant) instant = wallClock - corrected;
+  return new Date(instant);
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * The rotation shift in effect at a time: its index since rotation_start and its bounds
+ */
+export function getShift(schedule: OnCallScheduleDefinition, now: Date = new Date()): { index: number; start: Date; end: Date } {
+  const handoff = toMinutes(schedule.handoff_time);
+  const { day, minutes } = localDayAndMinutes(now.getTime(), schedule.timezone);
+  // Before today's handoff the previous day's shift is still running
+  const shiftDay = minutes < handoff ? day - 1 : day;
+  const startDay = Date.parse(`${schedule.rotation_start}T00:00:00Z`) / DAY_MS;
+  const index = Math.floor((shiftDay - startDay) / schedule.shift_days);
+  const firstDay = startDay + index * schedule.shift_days;
+
+  return {
+    index,
+    start: zonedTimeToDate(firstDay, handoff, schedule.timezone),
+    end: zonedTimeToDate(firstDay + schedule.shift_days, handoff, schedule.timezone)
+  };
+}
+
+/**
+ * Who is primary and secondary on a schedule at a time
+ * The secondary is the next admin in the rotation; an override for either role wins
+ * (the most recently created one if several overlap).
+ */
+export function resolveOnCall(schedule: OnCallScheduleDefinition, now: Date = new Date()): OnCallState {
+  const shift = getShift(schedule, now);
+  const count = schedule.participants.length;
+  const inRotation = (offset: number): OnCallAssignment | undefined => {
+    if (count === 0) return undefined;
+    const { admin_id, name } = schedule.participants[(((shift.index + offset) % count) + count) % count];
+    return { admin_id, name, source: 'rotation' };
+  };
+  const overrideFor = (role: OnCallRole): OnCallAssignment | undefined => {
+    const active = (schedule.overrides || [])
+      .filter((override) => override.role === role && override.start_at <= now && now < override.end_at)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+    return active ? { admin_id: active.admin_id, name: active.name, source: 'override' } : undefined;
+  };
+
+  const primary = overrideFor('primary') || inRotation(0);
+  let secondary = overrideFor('secondary') || (count > 1 ? inRotation(1) : undefined);
+  // An override can put the rotation's secondary on primary; the displaced primary backs them up
+  if (secondary && secondary.admin_id === primary?.admin_id) {
+    const displaced = inRotation(0);
+    secondary = displaced && displaced.admin_id !== primary.admin_id ? displaced : undefined;
+  }
+
+  return {
+    schedule_id: schedule._id ? String(schedule._id) : null,
+    schedule_name: schedule.name,
+    primary,
+    secondary,
+    shift_start: shift.start,
+    next_handoff: shift.end
+  };
+}
+
+/**
+ * Current on-call state of every active schedule
+ */
+export async function getCurrentOnCall(now: Date = new Date()): Promise<OnCallState[]> {
+  const schedules = await OnCallScheduleModel.find({ is_active: true }).sort({ name: 1 }).lean();
+  return schedules.map((schedule) => resolveOnCall(schedule as OnCallScheduleDefinition, now));
+}
+
+export async function hasActiveOnCallSchedule(): Promise<boolean> {
+  return (await OnCallScheduleModel.countDocuments({ is_active: true })) > 0;
+}
+
+/**
+ * Look up rotation participants by admin id (database admins or the environment admin)
+ * Returns the ids that don't belong to an active admin separately
+ */
+export async function resolveParticipants(adminIds: string[]): Promise<{ participants: IOnCallParticipant[]; unknown: string[] }> {
+  const envAdmin = getEnvironmentAdminProfile();
+  const ids = adminIds.map(String);
+  const objectIds = ids.filter((id) => /^[0-9a-fA-F]{24}$/.test(id));
+  const admins = objectIds.length > 0
+    ? await AdminModel.find({ _id: { $in: objectIds }, is_active: true }).select('name email').lean()
+    : [];
+  const names = new Map<string, string>(admins.map((admin: any) => [admin._id.toString(), admin.name || admin.email]));
+  names.set(envAdmin.id, envAdmin.username);
+
+  return {
+    participants: ids.filter((id) => names.has(id)).map((id) => ({ admin_id: id, name: names.get(id)! })),
+    unknown: ids.filter((id) => !names.has(id))
+  };
+}
+
+// ================================================================================================
+// PAGING
+// ================================================================================================
+
+// Where to page an admin: their preferred alert email, phone and language
+const getPagingContact = async (adminId: string): Promise<{ email?: string; phone?: string; locale?: NotificationLocale }> => {
+  const preferences = await getNotificationPreferences(adminId);
+  if (adminId === getEnvironmentAdminProfile().id) {
+    return {
+      email: preferences.email || process.env.ADMIN_EMAIL,
+      phone: preferences.phone || process.env.ADMIN_PHONE_NUMBER || process.env.ADMIN_PHONE,
+      locale: preferences.locale
+    };
+  }
+  const admin = await AdminModel.findById(adminId).select('email').lean();
+  return { email: preferences.email || (admin as any)?.email, phone: preferences.phone, locale: preferences.locale };
+};
+
+/**
+ * Phone numbers of whoever currently holds a role, across active schedules
+ * Used by SLA escalation steps that have no explicit phone numbers
+ */
+export async function getOnCallPhones(role: OnCallRole = 'primary', now: Date = new Date()): Promise<string[]> {
+  const phones = new Set<string>();
+  for (const state of await getCurrentOnCall(now)) {
+    const assignment = state[role];
+    if (!assignment) continue;
+    const { phone } = await getPagingContact(assignment.admin_id);
+    if (phone) phones.add(phone);
+  }
+  return [...phones];
+}
+
+const buildPageNotification = async (alert: IAlert, role: OnCallRole): Promise<NotificationData> => {
+  const report = await ReportModel.findById(alert.reportId).select('shortId').lean();
+  return {
+    reportId: alert.reportId.toString(),
+    shortId: (report as any)?.shortId || alert.shortId,
+    message: role === 'secondary'
+      ? `Not acknowledged by the primary on-call admin. ${alert.message}`
+      : alert.message,
+    category: alert.category,
+    priority: 'urgent',
+    timestamp: alert.created_at,
+    ackCode: alert.shortId
+  };
+};
+
+/**
+ * Page whoever holds a role for an alert, once per admin across schedules
+ * Returns the number of admins paged
+ */
+async function pageRole(alert: IAlert, role: OnCallRole, now: Date): Promise<number> {
+  const notification = await buildPageNotification(alert, role);
+  const paged = new Set((alert.pages || []).map((page) => page.admin_id));
+  let count = 0;
+
+  for (const state of await getCurrentOnCall(now)) {
+    const assignment = state[role];
+    if (!assignment || paged.has(assignment.admin_id)) continue;
+    paged.add(assignment.admin_id);
+
+    const contact = await getPagingContact(assignment.admin_id);
+    const localized = { ...notification, locale: contact.locale };
+    const channels: string[] = [];
+    const dedupeKey = `oncall:${alert._id}:${role}:${assignment.admin_id}`;
+    if (contact.phone) {
+      await queueSMSNotification(localized, contact.phone, `${dedupeKey}:sms`);
+      channels.push('sms');
+    }
+    if (contact.email) {
+      await queueEmailNotification(localized, [contact.email], `${dedupeKey}:email`);
+      channels.push('email');
+    }
+    if (channels.length === 0) {
+      console.warn(`⚠️ ${assignment.name} is ${role} on call (${state.schedule_name}) but has no phone or email to page`);
+      continue;
+    }
+
+    await AlertModel.updateOne({ _id: alert._id }, {
+      $push: {
+        pages: {
+          role,
+          schedule_id: state.schedule_id || '',
+          admin_id: assignment.admin_id,
+          name: assignment.name,
+          channels,
+          paged_at: now
+        }
+      }
+    });
+    console.log(`📟 Paged ${role} on-call ${assignment.name} (${state.schedule_name}) for alert ${alert.shortId} via ${channels.join('+')}`);
+    count++;
+  }
+
+  return count;
+}
+
+/**
+ * Page the primary on-call admins for a new alert and schedule the secondary page
+ * Returns false when no on-call schedule is active (callers keep their default alerting)
+ */
+export async function pageOnCallForAlert(alert: IAlert, now: Date = new Date()): Promise<boolean> {
+  const schedules = await OnCallScheduleModel.find({ is_active: true }).select('ack_timeout_minutes').lean();
+  if (schedules.length === 0) return false;
+
+  await pageRole(alert, 'primary', now);
+
+  const timeoutMinutes = Math.min(...schedules.map((schedule) => schedule.ack_timeout_minutes));
+  await enqueueJob(ONCALL_ESCALATE_JOB, { alertId: alert._id.toString() }, {
+    runAt: new Date(now.getTime() + timeoutMinutes * 60 * 1000),
+    dedupeKey: `oncall:${alert._id}:escalate`
+  });
+  return true;
+}
+
+/**
+ * Page the secondary on-call admins if the alert still hasn't been acknowledged
+ */
+export async function escalateUnacknowledgedAlert(alertId: string, now: Date = new Date()) {
+  const alert = await AlertModel.findById(alertId);
+  if (!alert) return { paged: 0, reason: 'Alert not found' };
+  if (alert.is_acknowledged) {
+    console.log(`✅ Alert ${alert.shortId} was acknowledged by ${alert.acknowledged_by}, no secondary page needed`);
+    return { paged: 0, reason: 'Acknowledged' };
+  }
+
+  const paged = await pageRole(alert, 'secondary', now);
+  if (paged === 0) {
+    console.warn(`⚠️ Alert ${alert.shortId} is unacknowledged and there is no secondary on call to page`);
+  }
+  return { paged };
+}
+
+/**
+ * Register the job handler that escalates unacknowledged alerts to the secondary
+ */
+export const registerOnCallJobs = (): void => {
+  registerJobHandler(ONCALL_ESCALATE_JOB, ({ alertId }) => escalateUnacknowledgedAlert(alertId), { maxAttempts: 3 });
+};
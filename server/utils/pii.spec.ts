@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { detectPII, redactPII } from "./pii";
+
+describe("PII redaction", () => {
+  it("should redact emails, phones, cards, national IDs and addresses", () => {
+    const { text, types, count } = redactPII(
+      "Contact jane.doe@example.com or +91 95000 68744. Card 4111 1111 1111 1111, SSN 123-45-6789. I live at 42 Baker Street."
+    );
+
+    expect(text).toBe(
+      "Contact [EMAIL] or [PHONE]. Card [CARD NUMBER], SSN [ID NUMBER]. I live at [ADDRESS]."
+    );
+    expect(types.sort()).toEqual(["address", "card", "email", "national_id", "phone"]);
+    expect(count).toBe(5);
+  });
+
+  it("should leave dates, times and short numbers alone", () => {
+    expect(redactPII("On 2024-03-15 around 9 pm, 3 people in room 204 since 2019").count).toBe(0);
+  });
+
+  it("should only treat Luhn-valid digit runs as card numbers", () => {
+    expect(detectPII("Card 4111 1111 1111 1112").map((m) => m.type)).not.toContain("card");
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * PII Detection Utility for Whistle App
+ * Finds emails, phone numbers, card numbers, national ID numbers and street
+ * addresses in free text and produces a redacted copy. The redacted copy is what
+ * leaves the admin dashboard: email/SMS notifications, CSV exports and public
+ * report views. The original stays encrypted on the report and can only be
+ * revealed by admins with the can_view_pii permission.
+ */
+
+export type PIIType = 'email' | 'card' | 'national_id' | 'phone' | 'address';
+
+export interface PIIMatch {
+  type: PIIType;
+  start: number;
+  end: number;
+}
+
+export interface PIIRedaction {
+  text: string;
+  types: PIIType[];
+  count: number;
+}
+
+export interface PIISummary {
+  types: PIIType[];
+  count: number;
+}
+
+const PLACEHOLDERS: Record<PIIType, string> = {
+  email: '[EMAIL]',
+  card: '[CARD NUMBER]',
+  national_id: '[ID NUMBER]',
+  phone: '[PHONE]',
+  address: '[ADDRESS]',
+};
+
+const STREET_SUFFIXES = [
+  'street', 'st', 'avenue', 'ave', 'road', 'rd', 'boulevard', 'blvd', 'lane', 'ln',
+  'drive', 'dr', 'court', 'ct', 'way', 'place', 'pl', 'terrace', 'close', 'crescent', 'highway', 'hwy',
+  'calle', 'avenida', 'rue',
+];
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+// Card numbers must pass the Luhn checksum, which keeps order/reference numbers out
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+interface Detector {
+  type: PIIType;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+// Checked in order - earlier detectors win overlapping text (a card number is never also a phone)
+const DETECTORS: Detector[] = [
+  {
+    type: 'email',
+    pattern: /\b[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}\b/gi,
+  },
+  {
+    type: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: (match) => passesLuhn(digitsOf(match)),
+  },
+  {
+    type: 'national_id',
+    pattern: new RegExp([
+      /\b\d{3}-\d{2}-\d{4}\b/.source, // US SSN
+      /\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/.source, // UK National Insurance
+      /\b\d{4} \d{4} \d{4}\b/.source, // Aadhaar
+      /\b[A-Z]{5}\d{4}[A-Z]\b/.source, // PAN
+      /\b\d{8}[A-HJ-NP-TV-Z]\b/.source, // Spanish DNI
+    ].join('|'), 'g'),
+  },
+  {
+    type: 'phone',
+    pattern: /(?:\+|\b)\d[\d\s().-]{6,18}\d\b/g,
+    // 8-15 digits (E.164), so years, dates and short counts aren't phones
+    accept: (match) => {
+      const digits = digitsOf(match).length;
+      return digits >= 8 && digits <= 15 && !/^\d{4}-\d{2}-\d{2}$/.test(match.trim());
+    },
+  },
+  {
+    type: 'address',
+    pattern: new RegExp(`\\b\\d{1,5}[a-z]?,?\\s+(?:[a-z'.-]+\\s+){0,3}(?:${STREET_SUFFIXES.join('|')})\\b`, 'gi'),
+  },
+];
+
+/**
+ * Find PII spans in text, ordered by position
+ */
+export function detectPII(text: string): PIIMatch[] {
+  const matches: PIIMatch[] = [];
+  if (!text) return matches;
+
+  const overlaps = (start: number, end: number) => matches.some((m) => start < m.end && end > m.start);
+
+  for (const detector of DETECTORS) {
+    for (const found of text.matchAll(detector.pattern)) {
+      const start = found.index as number;
+      const end = start + found[0].length;
+      if (detector.accept && !detector.accept(found[0])) continue;
+      if (overlaps(start, end)) continue;
+      matches.push({ type: detector.type, start, end });
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace every PII span with a typed placeholder
+ */
+export function redactPII(text: string): PIIRedaction {
+  const matches = detectPII(text);
+  if (matches.length === 0) {
+    return { text: text || '', types: [], count: 0 };
+  }
+
+  let redacted = '';
+  let cursor = 0;
+  for (const match of matches) {
+    redacted += text.slice(cursor, match.start) + PLACEHOLDERS[match.type];
+    cursor = match.end;
+  }
+  redacted += text.slice(cursor);
+
+  return {
+    text: redacted,
+    types: Array.from(new Set(matches.map((m) => m.type))),
+    count: matches.length,
+  };
+}
+
+/**
+ * Redacted text only - for notification and export call sites
+ */
+export const redactText = (text: string | undefined | null): string => redactPII(text || '').text;
+
+/**
+ * What was found, without the values - stored on the report
+ */
+export function summarizePII(text: string): PIISummary {
+  const { types, count } = redactPII(text);
+  return { types, count };
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { buildPublicStats, startOfWeek, suppressDistribution, TREND_WEEKS, withAllBuckets } from "./public-stats";
+
+describe("public statistics", () => {
+  it("should merge buckets below k into other, or drop them if still too small", () => {
+    expect(suppressDistribution({ harassment: 12, emergency: 3, suggestion: 2 }, 5)).toEqual({ harassment: 12, other: 5 });
+    expect(suppressDistribution({ harassment: 12, emergency: 3 }, 5)).toEqual({ harassment: 12 });
+  });
+
+  it("should suppress small totals and weekly counts", () => {
+    const now = new Date("2024-03-14T12:00:00Z"); // Thursday
+    const currentWeek = startOfWeek(now).toISOString().slice(0, 10);
+
+    const stats = buildPublicStats({
+      byType: { harassment: 6, other: 1 },
+      byPriority: { medium: 5, urgent: 2 },
+      byStatus: { pending: 3, 'in-progress': 1, resolved: 3 },
+      resolutionTime: { under_1d: 3 },
+      weekly: { [currentWeek]: 7 },
+    }, 5, now);
+
+    expect(currentWeek).toBe("2024-03-11");
+    expect(stats.total).toBe(7);
+    expect(stats.resolved).toBeNull();
+    expect(stats.urgent).toBeNull();
+    expect(stats.statuses).toEqual({ other: 7 });
+    expect(stats.resolutionTime.under_1d).toBeNull();
+    expect(stats.weeklyTrend).toHaveLength(TREND_WEEKS);
+    expect(stats.weeklyTrend[TREND_WEEKS - 1]).toEqual({ weekStart: currentWeek, count: 7 });
+  });
+
+  it("should always list the other bucket and count unknown values in it", () => {
+    const empty = { byType: {}, byPriority: {}, byStatus: {}, resolutionTime: {}, weekly: {} };
+    const filled = withAllBuckets(empty);
+    expect(filled.byType).toEqual({ harassment: 0, emergency: 0, suggestion: 0, other: 0 });
+    expect(filled.byPriority).toMatchObject({ urgent: 0, other: 0 });
+    expect(filled.byStatus).toMatchObject({ pending: 0, flagged: 0, other: 0 });
+
+    const legacy = withAllBuckets({ ...empty, byStatus: { pending: 2, other: 1, archived: 3 } });
+    expect(legacy.byStatus).toMatchObject({ pending: 2, other: 4 });
+    expect(legacy.byStatus).not.toHaveProperty("archived");
+  });
+});
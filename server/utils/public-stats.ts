@@ -0,0 +1,313 @@
+import {
+  PublicReportStats,
+  PublicStatus,
+  PublicWeeklyTrendPoint,
+  ResolutionTimeBucket,
+} from "../../shared/api";
+import ReportModel from "../../shared/models/report";
+import { ApiError } from "../middleware/errorHandler";
+import {
+  getLastPrivacyRelease,
+  getPrivacySettings,
+  privatizeHistograms,
+  recordPrivacyRelease,
+  spendPrivacyBudget,
+} from "./differential-privacy";
+
+/**
+ * Public Statistics Utility for Whistle App
+ * Aggregates report counts for the public dashboard without exposing individual
+ * submissions: counts get differential-privacy noise, buckets smaller than the
+ * k-anonymity threshold are suppressed and results are cached, so repeated
+ * requests can't reveal a single new report.
+ */
+
+export const PUBLIC_STATS_K = Math.max(parseInt(process.env.PUBLIC_STATS_K_ANONYMITY || '5'), 2);
+// Each recomputation spends privacy budget, so keep releases infrequent
+const CACHE_TTL_MS = Math.max(parseInt(process.env.PUBLIC_STATS_CACHE_MINUTES || '60'), 1) * 60 * 1000;
+export const TREND_WEEKS = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Internal workflow statuses collapsed into what the public sees
+const PUBLIC_STATUS: Record<string, PublicStatus> = {
+  'pending': 'pending',
+  'flagged': 'pending',
+  'in-progress': 'in_review',
+  'reviewed': 'in_review',
+  'escalated': 'in_review',
+  'resolved': 'resolved',
+};
+
+const RESOLUTION_BOUNDARIES: Array<[ResolutionTimeBucket, number]> = [
+  ['under_1d', 0],
+  ['1d_3d', DAY_MS],
+  ['3d_7d', 3 * DAY_MS],
+  ['1w_4w', 7 * DAY_MS],
+  ['over_4w', 28 * DAY_MS],
+];
+
+export interface RawPublicStats {
+  byType: Record<string, number>;
+  byPriority: Record<string, number>;
+  byStatus: Record<string, number>; // Internal statuses
+  resolutionTime: Partial<Record<ResolutionTimeBucket, number>>;
+  weekly: Record<string, number>; // weekStart ISO date -> count
+}
+
+// ================================================================================================
+// K-ANONYMITY
+// ================================================================================================
+
+/**
+ * Suppress a single count below k (0 is safe to publish)
+ */
+export const suppressCount = (count: number, k: number = PUBLIC_STATS_K): number | null =>
+  count > 0 && count < k ? null : count;
+
+/**
+ * Suppress small buckets of a distribution. Suppressed buckets are merged into
+ * "other" when the merged total itself reaches k, otherwise they are dropped.
+ */
+export function suppressDistribution(counts: Record<string, number>, k: number = PUBLIC_STATS_K): Record<string, number> {
+  const result: Record<string, number> = {};
+  let merged = 0;
+
+  for (const [key, count] of Object.entries(counts)) {
+    if (!count) continue;
+    if (count < k) {
+      merged += count;
+    } else {
+      result[key] = count;
+    }
+  }
+
+  if (merged > 0) {
+    const other = (result.other || 0) + merged;
+    if (other >= k) result.other = other;
+  }
+
+  return result;
+}
+
+/**
+ * UTC Monday at or before the given date
+ */
+export function startOfWeek(date: Date): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const offset = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - offset * DAY_MS);
+}
+
+/**
+ * Shape raw aggregates into the public, k-anonymous statistics
+ */
+export function buildPublicStats(
+  raw: RawPublicStats,
+  k: number = PUBLIC_STATS_K,
+  now: Date = new Date(),
+  privacy: PublicReportStats['differentialPrivacy'] = null
+): PublicReportStats {
+  const total = Object.values(raw.byStatus).reduce((sum, count) => sum + count, 0);
+  const resolved = raw.byStatus.resolved || 0;
+
+  const statuses: Record<string, number> = {};
+  for (const [status, count] of Object.entries(raw.byStatus)) {
+    const publicStatus = PUBLIC_STATUS[status] || 'pending';
+    statuses[publicStatus] = (statuses[publicStatus] || 0) + count;
+  }
+
+  const resolutionTime: Partial<Record<ResolutionTimeBucket, number | null>> = {};
+  for (const [bucket] of RESOLUTION_BOUNDARIES) {
+    resolutionTime[bucket] = suppressCount(raw.resolutionTime[bucket] || 0, k);
+  }
+
+  // Every week is listed (including empty ones) so gaps don't hint at suppression
+  const currentWeek = startOfWeek(now);
+  const weeklyTrend: PublicWeeklyTrendPoint[] = [];
+  for (let i = TREND_WEEKS - 1; i >= 0; i--) {
+    const weekStart = new Date(currentWeek.getTime() - i * WEEK_MS).toISOString().slice(0, 10);
+    weeklyTrend.push({ weekStart, count: suppressCount(raw.weekly[weekStart] || 0, k) });
+  }
+
+  return {
+    total: suppressCount(total, k),
+    pending: suppressCount(total - resolved, k),
+    resolved: suppressCount(resolved, k),
+    urgent: suppressCount(raw.byPriority.urgent || 0, k),
+    categories: suppressDistribution(raw.byType, k),
+    priorities: suppressDistribution(raw.byPriority, k),
+    statuses: suppressDistribution(statuses, k),
+    resolutionTime,
+    weeklyTrend,
+    kAnonymityThreshold: k,
+    differentialPrivacy: privacy,
+    generatedAt: now.toISOString(),
+  };
+}
+
+// Enum values straight from the schema so new types/statuses are covered automatically
+const enumValues = (path: string): string[] => (ReportModel.schema.path(path) as any)?.enumValues || [];
+
+// Bucket for values outside the schema enum (missing or legacy)
+const UNKNOWN_BUCKET = 'other';
+
+/**
+ * Fill every possible bucket (including empty ones) before adding noise -
+ * otherwise the mere presence of a bucket would reveal a non-zero count
+ */
+export function withAllBuckets(raw: RawPublicStats, now: Date = new Date()): RawPublicStats {
+  const fill = (counts: Record<string, number>, keys: string[]) =>
+    keys.reduce((map, key) => ({ ...map, [key]: map[key] || 0 }), { ...counts });
+
+  // Enum histograms: values the schema doesn't list are counted under 'other', which is
+  // always present like every other bucket
+  const fillEnum = (counts: Record<string, number>, values: string[]) =>
+    Object.entries(counts).reduce((map, [key, count]) => {
+      const bucket = values.includes(key) ? key : UNKNOWN_BUCKET;
+      return { ...map, [bucket]: map[bucket] + count };
+    }, fill({}, [...new Set([...values, UNKNOWN_BUCKET])]));
+
+  const currentWeek = startOfWeek(now);
+  const weeks = Array.from({ length: TREND_WEEKS }, (_, i) =>
+    new Date(currentWeek.getTime() - i * WEEK_MS).toISOString().slice(0, 10)
+  );
+
+  return {
+    byType: fillEnum(raw.byType, enumValues('type')),
+    byPriority: fillEnum(raw.byPriority, enumValues('priority')),
+    byStatus: fillEnum(raw.byStatus, enumValues('status')),
+    resolutionTime: fill(raw.resolutionTime as Record<string, number>, RESOLUTION_BOUNDARIES.map(([bucket]) => bucket)),
+    weekly: fill(raw.weekly, weeks),
+  };
+}
+
+// ================================================================================================
+// AGGREGATION AND CACHE
+// ================================================================================================
+
+const toCountMap = (rows: Array<{ _id: string | null; count: number }>): Record<string, number> =>
+  rows.reduce((map, row) => {
+    const key = row._id || UNKNOWN_BUCKET;
+    map[key] = (map[key] || 0) + row.count;
+    return map;
+  }, {} as Record<string, number>);
+
+/**
+ * Run the MongoDB aggregations behind the public statistics
+ */
+export async function aggregatePublicStats(now: Date = new Date()): Promise<RawPublicStats> {
+  const trendStart = new Date(startOfWeek(now).getTime() - (TREND_WEEKS - 1) * WEEK_MS);
+
+  const [byType, byPriority, byStatus, resolution, weekly] = await Promise.all([
+    ReportModel.aggregate([{ $group: { _id: '$type', count: { $sum: 1 } } }]),
+    ReportModel.aggregate([{ $group: { _id: '$priority', count: { $sum: 1 } } }]),
+    ReportModel.aggregate([{ $group: { _id: '$status', count: { $sum: 1 } } }]),
+    ReportModel.aggregate([
+      { $match: { status: 'resolved', resolved_at: { $ne: null } } },
+      { $project: { duration: { $subtract: ['$resolved_at', '$createdAt'] } } },
+      {
+        $bucket: {
+          groupBy: '$duration',
+          boundaries: RESOLUTION_BOUNDARIES.map(([, ms]) => ms),
+          default: 'over_4w',
+          output: { count: { $sum: 1 } }
+        }
+      }
+    ]),
+    ReportModel.aggregate([
+      { $match: { createdAt: { $gte: trendStart } } },
+      {
+        $group: {
+          _id: { $floor: { $divide: [{ $subtract: ['$createdAt', trendStart] }, WEEK_MS] } },
+          count: { $sum: 1 }
+        }
+      }
+    ])
+  ]);
+
+  // $bucket ids are the lower boundaries; map them back to bucket names
+  const resolutionTime: Partial<Record<ResolutionTimeBucket, number>> = {};
+  for (const row of resolution) {
+    const bucket = typeof row._id === 'number'
+      ? RESOLUTION_BOUNDARIES.find(([, ms]) => ms === row._id)?.[0]
+      : row._id;
+    if (bucket) resolutionTime[bucket as ResolutionTimeBucket] = (resolutionTime[bucket as ResolutionTimeBucket] || 0) + row.count;
+  }
+
+  const weeklyCounts: Record<string, number> = {};
+  for (const row of weekly) {
+    const weekStart = new Date(trendStart.getTime() + row._id * WEEK_MS).toISOString().slice(0, 10);
+    weeklyCounts[weekStart] = row.count;
+  }
+
+  return {
+    byType: toCountMap(byType),
+    byPriority: toCountMap(byPriority),
+    byStatus: toCountMap(byStatus),
+    resolutionTime,
+    weekly: weeklyCounts,
+  };
+}
+
+/**
+ * Compute a new release: exact counts when differential privacy is disabled,
+ * otherwise Laplace noise paid for from the public privacy budget. When the
+ * budget is exhausted the last release is served again.
+ */
+async function releasePublicStats(): Promise<PublicReportStats> {
+  const settings = await getPrivacySettings();
+  const now = new Date();
+
+  if (!settings.enabled) {
+    return buildPublicStats(await aggregatePublicStats(now), PUBLIC_STATS_K, now);
+  }
+
+  const allowed = await spendPrivacyBudget('public', settings.epsilon_public, settings);
+  if (!allowed) {
+    const last = await getLastPrivacyRelease<PublicReportStats>('public');
+    if (last) return last;
+    throw new ApiError('Statistics are temporarily unavailable', 503);
+  }
+
+  const raw = withAllBuckets(await aggregatePublicStats(now), now);
+  const noisy = privatizeHistograms(
+    { ...raw, resolutionTime: raw.resolutionTime as Record<string, number> },
+    settings.epsilon_public
+  );
+  const stats = buildPublicStats(noisy, PUBLIC_STATS_K, now, { mechanism: 'laplace', epsilon: settings.epsilon_public });
+
+  await recordPrivacyRelease('public', stats, settings);
+  return stats;
+}
+
+let cached: { value: PublicReportStats; expiresAt: number } | null = null;
+let inflight: Promise<PublicReportStats> | null = null;
+
+/**
+ * Cached public statistics - recomputed at most once per cache window,
+ * so a new submission can't be detected by polling before and after it
+ */
+export async function getPublicStats(): Promise<PublicReportStats> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
+  }
+
+  if (!inflight) {
+    inflight = releasePublicStats()
+      .then((value) => {
+        cached = { value, expiresAt: Date.now() + CACHE_TTL_MS };
+        return value;
+      })
+      .finally(() => {
+        inflight = null;
+      });
+  }
+
+  return inflight;
+}
+
+export function getPublicStatsCacheTtlSeconds(): number {
+  return cached ? Math.max(Math.ceil((cached.expiresAt - Date.now()) / 1000), 0) : 0;
+}
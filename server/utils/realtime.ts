@@ -302,6 +302,110 @@ export const notifyEscalation = (escalationData: {
   console.log(`🚨 Escalation notification sent: ${escalationData.shortId} (${escalationData.hoursUnprocessed}h unprocessed)`);
 };
 
+/**
+ * Send a new reporter follow-up message notification to all connected admins
+ * The message body is never broadcast - admins open the thread to read it
+ */
+export const notifyReporterMessage = (messageData: {
+  shortId: string;
+  reportId: string;
+  messageId: string;
+  timestamp: string;
+}) => {
+  if (!io) {
+    console.warn('⚠️ Socket.IO not initialized - cannot send reporter message notification');
+    return;
+  }
+
+  const notification = {
+    type: 'reporter_message',
+    data: {
+      shortId: messageData.shortId,
+      reportId: messageData.reportId,
+      messageId: messageData.messageId,
+      timestamp: messageData.timestamp,
+      message: `💬 Reporter replied on report ${messageData.shortId}`
+    },
+    id: `message_${Date.now()}`,
+    createdAt: new Date().toISOString()
+  };
+
+  io.to('admin').emit('reporter_message_notification', notification);
+
+  console.log(`💬 Reporter message notification sent: ${messageData.shortId}`);
+};
+
+/**
+ * Send case assignment changes to all connected admins
+ * so every dashboard shows who currently owns a report
+ */
+export const notifyReportAssigned = (assignmentData: {
+  shortId: string;
+  reportId: string;
+  assignedTo: string | null;
+  assignedToName?: string;
+  assignedBy: string;
+  action: 'assign' | 'claim' | 'unassign';
+  timestamp: string;
+}) => {
+  if (!io) {
+    console.warn('⚠️ Socket.IO not initialized - cannot send assignment notification');
+    return;
+  }
+
+  const notification = {
+    type: 'report_assigned',
+    data: {
+      ...assignmentData,
+      message: assignmentData.assignedTo
+        ? `Report ${assignmentData.shortId} assigned to ${assignmentData.assignedToName || assignmentData.assignedTo}`
+        : `Report ${assignmentData.shortId} is now unassigned`
+    },
+    id: `assignment_${Date.now()}`,
+    createdAt: new Date().toISOString()
+  };
+
+  io.to('admin').emit('report_assigned', notification);
+
+  console.log(`👤 Assignment notification sent: ${assignmentData.shortId} → ${assignmentData.assignedTo || 'unassigned'}`);
+};
+
+/**
+ * Send alert lifecycle changes (raised, acknowledged) to all connected admins
+ * so every dashboard's active alerts panel stays current
+ */
+export const notifyAlertUpdate = (alertData: {
+  alertId: string;
+  shortId: string;
+  reportShortId?: string;
+  action: 'created' | 'acknowledged';
+  alertType?: string;
+  acknowledgedBy?: string;
+  via?: string;
+  timestamp: string;
+}) => {
+  if (!io) {
+    console.warn('⚠️ Socket.IO not initialized - cannot send alert update');
+    return;
+  }
+
+  const notification = {
+    type: 'alert_update',
+    data: {
+      ...alertData,
+      message: alertData.action === 'acknowledged'
+        ? `Alert ${alertData.shortId} acknowledged by ${alertData.acknowledgedBy}${alertData.via === 'sms' ? ' (SMS)' : ''}`
+        : `🚨 ${(alertData.alertType || 'urgent').toUpperCase()} alert ${alertData.shortId} raised${alertData.reportShortId ? ` for report ${alertData.reportShortId}` : ''}`
+    },
+    id: `alert_${Date.now()}`,
+    createdAt: new Date().toISOString()
+  };
+
+  io.to('admin').emit('alert_update', notification);
+
+  console.log(`🚨 Alert update sent: ${alertData.shortId} (${alertData.action})`);
+};
+
 /**
  * Send connection status updates to admin dashboard
  */
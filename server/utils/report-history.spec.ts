@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { buildHistoryEntry, SYSTEM_ACTOR, toReporterHistory } from "./report-history";
+
+const admin = { admin_id: "admin-1", admin_user: "moderator@example.com" };
+
+describe("report history", () => {
+  it("should build entries with the acting admin and stringified values", () => {
+    const entry = buildHistoryEntry("priority", admin, { from: "low", to: "urgent" });
+    expect(entry).toMatchObject({
+      action: "priority",
+      from: "low",
+      to: "urgent",
+      admin_id: "admin-1",
+      admin_user: "moderator@example.com",
+    });
+    expect(entry.at).toBeInstanceOf(Date);
+  });
+
+  it("should redact reporter history to status changes only", () => {
+    const history = [
+      buildHistoryEntry("created", SYSTEM_ACTOR, { to: "pending" }),
+      buildHistoryEntry("priority", admin, { from: "low", to: "high" }),
+      buildHistoryEntry("note", admin, { comment: "Internal note" }),
+      buildHistoryEntry("status", admin, { from: "pending", to: "in-progress", comment: "Looking into it" }),
+      buildHistoryEntry("status", admin, { from: "in-progress", to: "reviewed" }),
+      buildHistoryEntry("status", admin, { from: "reviewed", to: "resolved" }),
+    ];
+
+    const timeline = toReporterHistory(history);
+
+    expect(timeline.map((e) => e.status)).toEqual(["pending", "reviewed", "resolved"]);
+    for (const entry of timeline) {
+      expect(Object.keys(entry).sort()).toEqual(["action", "at", "status"]);
+    }
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  ReportHistoryEntry,
+  ReporterHistoryEntry,
+  ReportStatus,
+} from "../../shared/api";
+import { IReportHistoryEntry } from "../../shared/models/report";
+import { AuthRequest } from "../middleware/authMiddleware";
+
+/**
+ * Report History Utility for Whistle App
+ * Builds append-only audit trail entries and shapes them for admins
+ * (full trail) and reporters (redacted status timeline).
+ */
+
+export interface HistoryActor {
+  admin_id: string;
+  admin_user: string;
+}
+
+export const SYSTEM_ACTOR: HistoryActor = {
+  admin_id: 'system',
+  admin_user: 'System',
+};
+
+/**
+ * Resolve the acting admin from whichever auth middleware populated the request
+ */
+export function getHistoryActor(req: AuthRequest): HistoryActor {
+  const adminUser = req.adminUser;
+  const token = req.admin || req.user;
+
+  return {
+    admin_id: adminUser?._id?.toString() || token?.adminId || 'unknown',
+    admin_user: adminUser?.email || token?.username || 'Unknown Admin',
+  };
+}
+
+/**
+ * Build a history entry with the actor attached. Values are stringified so
+ * the trail stays readable regardless of the source field type.
+ */
+export function buildHistoryEntry(
+  action: IReportHistoryEntry['action'],
+  actor: HistoryActor,
+  change: { from?: unknown; to?: unknown; comment?: string } = {}
+): IReportHistoryEntry {
+  return {
+    action,
+    from: change.from === undefined || change.from === null ? undefined : String(change.from),
+    to: change.to === undefined || change.to === null ? undefined : String(change.to),
+    admin_id: actor.admin_id,
+    admin_user: actor.admin_user,
+    comment: change.comment ? change.comment.substring(0, 500) : undefined,
+    at: new Date(),
+  };
+}
+
+// Internal status values mapped to the statuses reporters understand
+const toReporterStatus = (status?: string): ReportStatus => {
+  switch (status) {
+    case 'in-progress':
+    case 'reviewed':
+      return 'reviewed';
+    case 'escalated':
+    case 'flagged':
+      return 'flagged';
+    case 'resolved':
+      return 'resolved';
+    default:
+      return 'pending';
+  }
+};
+
+/**
+ * Full audit trail for admin views
+ */
+export function toAdminHistory(history: IReportHistoryEntry[] | undefined): ReportHistoryEntry[] {
+  return (history || []).map((entry) => ({
+    action: entry.action,
+    from: entry.from,
+    to: entry.to,
+    admin_id: entry.admin_id,
+    admin_user: entry.admin_user,
+    comment: entry.comment,
+    at: new Date(entry.at).toISOString(),
+  }));
+}
+
+/**
+ * Redacted timeline for reporters: only submission and status changes,
+ * no admin identities, comments, priority, assignment or note activity.
+ * Consecutive entries that map to the same reporter-facing status are collapsed.
+ */
+export function toReporterHistory(history: IReportHistoryEntry[] | undefined): ReporterHistoryEntry[] {
+  const timeline: ReporterHistoryEntry[] = [];
+
+  for (const entry of history || []) {
+    if (entry.action !== 'created' && entry.action !== 'status') continue;
+
+    const status = toReporterStatus(entry.to);
+    const previous = timeline[timeline.length - 1];
+    if (previous && previous.status === status) continue;
+
+    timeline.push({
+      action: entry.action,
+      status,
+      at: new Date(entry.at).toISOString(),
+    });
+  }
+
+  return timeline;
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateReporterSecret,
+  hashReporterSecret,
+  verifyReporterSecret,
+} from "./reporter-secret";
+
+describe("reporter secret", () => {
+  it("should generate grouped secrets from the unambiguous alphabet", () => {
+    const secret = generateReporterSecret();
+    expect(secret).toMatch(/^[A-HJKMNP-Z2-9]{4}(-[A-HJKMNP-Z2-9]{4}){3}$/);
+    expect(generateReporterSecret()).not.toBe(secret);
+  });
+
+  it("should verify a secret against its hash", () => {
+    const secret = generateReporterSecret();
+    const hash = hashReporterSecret(secret);
+    expect(hash).not.toContain(secret);
+    expect(verifyReporterSecret(secret, hash)).toBe(true);
+  });
+
+  it("should ignore casing, spacing and dashes", () => {
+    const hash = hashReporterSecret("K7QM-2XHD-P9TW-AC4R");
+    expect(verifyReporterSecret("k7qm 2xhd p9tw ac4r", hash)).toBe(true);
+  });
+
+  it("should reject wrong or missing secrets", () => {
+    const hash = hashReporterSecret(generateReporterSecret());
+    expect(verifyReporterSecret("AAAA-BBBB-CCCC-DDDD", hash)).toBe(false);
+    expect(verifyReporterSecret(undefined, hash)).toBe(false);
+    expect(verifyReporterSecret("AAAA-BBBB-CCCC-DDDD", undefined)).toBe(false);
+    expect(verifyReporterSecret("AAAA-BBBB-CCCC-DDDD", "not-a-hash")).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+
+/**
+ * Reporter Secret Utility for Whistle App
+ * Anonymous reporters receive a one-time secret at submission. Only a salted
+ * scrypt hash is stored on the report, so the secret cannot be recovered from
+ * the database and must be presented back to reach the report conversation.
+ */
+
+// Unambiguous alphabet (no 0/O, 1/I/L) so secrets are easy to copy by hand
+const SECRET_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const SECRET_GROUPS = 4;
+const SECRET_GROUP_LENGTH = 4;
+const HASH_KEY_LENGTH = 32;
+
+export const REPORTER_SECRET_HEADER = 'x-reporter-secret';
+
+/**
+ * Generate a new human-friendly reporter secret, e.g. "K7QM-2XHD-P9TW-AC4R"
+ */
+export function generateReporterSecret(): string {
+  const bytes = crypto.randomBytes(SECRET_GROUPS * SECRET_GROUP_LENGTH);
+  const chars = Array.from(bytes, (byte) => SECRET_ALPHABET[byte % SECRET_ALPHABET.length]);
+
+  const groups: string[] = [];
+  for (let i = 0; i < SECRET_GROUPS; i++) {
+    groups.push(chars.slice(i * SECRET_GROUP_LENGTH, (i + 1) * SECRET_GROUP_LENGTH).join(''));
+  }
+  return groups.join('-');
+}
+
+/**
+ * Normalize user input so spacing, casing and missing dashes don't matter
+ */
+export function normalizeReporterSecret(secret: string): string {
+  return (secret || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Hash a reporter secret for storage as "salt:hash" (both hex)
+ */
+export function hashReporterSecret(secret: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(normalizeReporterSecret(secret), salt, HASH_KEY_LENGTH);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+/**
+ * Verify a presented secret against a stored "salt:hash" value
+ */
+export function verifyReporterSecret(secret: string | undefined, storedHash: string | undefined): boolean {
+  if (!secret || !storedHash) return false;
+
+  const [saltHex, hashHex] = storedHash.split(':');
+  if (!saltHex || !hashHex) return false;
+
+  try {
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = crypto.scryptSync(normalizeReporterSecret(secret), Buffer.from(saltHex, 'hex'), expected.length);
+    return crypto.timingSafeEqual(actual, expected);
+  } catch (error) {
+    console.error('❌ Reporter secret verification failed:', error);
+    return false;
+  }
+}
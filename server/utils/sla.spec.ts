@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_SLA_POLICY, evaluateSla, resolveSlaPolicy, SlaPolicyDefinition } from "./sla";
+
+const step = (after_minutes: number) => ({ after_minutes, channels: ["email" as const], emails: [], phones: [] });
+
+const policy = (type: string, priority: string, overrides: Partial<SlaPolicyDefinition> = {}): SlaPolicyDefinition => ({
+  name: `${type}/${priority}`,
+  type,
+  priority,
+  first_response_minutes: 60,
+  resolution_minutes: 24 * 60,
+  first_response_ladder: [step(0), step(30)],
+  resolution_ladder: [step(0)],
+  ...overrides,
+});
+
+const minutesAgo = (now: Date, minutes: number) => new Date(now.getTime() - minutes * 60000);
+
+describe("SLA policies", () => {
+  it("should resolve the most specific policy and fall back to the default", () => {
+    const policies = [policy("*", "*"), policy("*", "urgent"), policy("harassment", "*"), policy("harassment", "urgent")];
+    const now = new Date();
+
+    expect(resolveSlaPolicy(policies, { type: "harassment", priority: "urgent", createdAt: now }).name).toBe("harassment/urgent");
+    expect(resolveSlaPolicy(policies, { type: "harassment", priority: "low", createdAt: now }).name).toBe("harassment/*");
+    expect(resolveSlaPolicy(policies, { type: "safety", priority: "urgent", createdAt: now }).name).toBe("*/urgent");
+    expect(resolveSlaPolicy(policies, { type: "safety", priority: "low", createdAt: now }).name).toBe("*/*");
+    expect(resolveSlaPolicy([], { type: "safety", createdAt: now })).toBe(DEFAULT_SLA_POLICY);
+  });
+
+  it("should only escalate to ladder steps above the persisted level", () => {
+    const now = new Date();
+    const report = { status: "pending", createdAt: minutesAgo(now, 100), sla: { first_response_level: 0 } };
+
+    // 40 minutes past the 60 minute target: both steps are due, only the highest fires
+    const first = evaluateSla(report, policy("*", "*"), now);
+    expect(first.firstResponseBreached).toBe(true);
+    expect(first.escalations).toHaveLength(1);
+    expect(first.escalations[0]).toMatchObject({ track: "first_response", level: 2 });
+
+    const repeat = evaluateSla({ ...report, sla: { first_response_level: 2 } }, policy("*", "*"), now);
+    expect(repeat.escalations).toHaveLength(0);
+  });
+
+  it("should stop the first-response clock once an admin responded", () => {
+    const now = new Date();
+    const responded = evaluateSla(
+      { status: "pending", createdAt: minutesAgo(now, 26 * 60), sla: { first_response_at: minutesAgo(now, 90) } },
+      policy("*", "*"),
+      now
+    );
+
+    expect(responded.firstResponseBreached).toBe(false);
+    expect(responded.resolutionBreached).toBe(true);
+    expect(responded.escalations.map((e) => e.track)).toEqual(["resolution"]);
+
+    const resolved = evaluateSla({ status: "resolved", createdAt: minutesAgo(now, 26 * 60) }, policy("*", "*"), now);
+    expect(resolved.escalations).toHaveLength(0);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * SLA Policy Engine for Whistle App
+ *
+ * Resolves the SLA policy for a report (per type/priority pair, with '*' wildcards),
+ * computes first-response and resolution deadlines, and decides which step of the
+ * escalation ladder is due. The decision functions are pure so they can be tested
+ * without MongoDB; the escalation monitor persists the resulting state on the report.
+ */
+
+import mongoose from "mongoose";
+import ReportModel from "../../shared/models/report";
+import SlaPolicyModel, {
+  ISlaEscalationStep,
+  SlaTrack,
+} from "../../shared/models/SlaPolicy";
+
+export interface SlaPolicyDefinition {
+  _id?: mongoose.Types.ObjectId | string | null;
+  name: string;
+  type: string;
+  priority: string;
+  first_response_minutes: number;
+  resolution_minutes?: number | null;
+  first_response_ladder: ISlaEscalationStep[];
+  resolution_ladder: ISlaEscalationStep[];
+}
+
+export interface SlaReportState {
+  type?: string;
+  category?: string;
+  priority?: string;
+  status?: string;
+  createdAt: Date;
+  sla?: {
+    first_response_at?: Date | null;
+    first_response_level?: number;
+    resolution_level?: number;
+  } | null;
+}
+
+export interface SlaDueEscalation {
+  track: SlaTrack;
+  level: number; // 1-based ladder level reached by this escalation
+  step: ISlaEscalationStep;
+  due: Date;
+  minutesOverdue: number;
+}
+
+export interface SlaEvaluation {
+  firstResponseDue: Date;
+  resolutionDue: Date | null;
+  firstResponseBreached: boolean;
+  resolutionBreached: boolean;
+  escalations: SlaDueEscalation[];
+}
+
+const ALL_CHANNELS: ISlaEscalationStep['channels'] = ['email', 'sms', 'dashboard'];
+
+/**
+ * Built-in policy used when no MongoDB policy matches a report.
+ * Mirrors the original rule: escalate pending reports after 2 hours,
+ * then re-escalate every 24 hours, at most 3 times.
+ */
+export const DEFAULT_SLA_POLICY: SlaPolicyDefinition = {
+  _id: null,
+  name: 'Default (2h first response)',
+  type: '*',
+  priority: '*',
+  first_response_minutes: 120,
+  resolution_minutes: null,
+  first_response_ladder: [
+    { after_minutes: 0, channels: ALL_CHANNELS, emails: [], phones: [] },
+    { after_minutes: 24 * 60, channels: ALL_CHANNELS, emails: [], phones: [] },
+    { after_minutes: 48 * 60, channels: ALL_CHANNELS, emails: [], phones: [] },
+  ],
+  resolution_ladder: [],
+};
+
+// Statuses that mean an admin has not yet acted on the report
+const UNANSWERED_STATUSES = ['pending', 'flagged'];
+
+/**
+ * Pick the most specific policy for a report:
+ * exact type+priority, then type+'*', then '*'+priority, then '*'+'*', then the default.
+ * Policy types match the report type or its legacy category.
+ */
+export function resolveSlaPolicy(policies: SlaPolicyDefinition[], report: SlaReportState): SlaPolicyDefinition {
+  const types = [report.type, report.category].filter(Boolean).map((t) => String(t).toLowerCase());
+  const priority = report.priority || 'medium';
+
+  const candidates: Array<[(t: string) => boolean, string]> = [
+    [(t) => types.includes(t), priority],
+    [(t) => types.includes(t), '*'],
+    [(t) => t === '*', priority],
+    [(t) => t === '*', '*'],
+  ];
+
+  for (const [matchType, matchPriority] of candidates) {
+    const policy = policies.find((p) => matchType(p.type) && p.priority === matchPriority);
+    if (policy) return policy;
+  }
+
+  return DEFAULT_SLA_POLICY;
+}
+
+// Find the highest ladder step that is due and not yet executed
+const findDueStep = (
+  track: SlaTrack,
+  ladder: ISlaEscalationStep[],
+  due: Date,
+  currentLevel: number,
+  now: Date
+): SlaDueEscalation | null => {
+  const sorted = [...(ladder || [])].sort((a, b) => a.after_minutes - b.after_minutes);
+  const minutesOverdue = Math.floor((now.getTime() - due.getTime()) / 60000);
+
+  let dueIndex = -1;
+  sorted.forEach((step, index) => {
+    if (minutesOverdue >= step.after_minutes) dueIndex = index;
+  });
+
+  // Only escalate forward; if several steps became due at once (e.g. after downtime)
+  // jump straight to the highest one instead of sending a burst of alerts
+  if (dueIndex < 0 || dueIndex + 1 <= currentLevel) return null;
+
+  return { track, level: dueIndex + 1, step: sorted[dueIndex], due, minutesOverdue };
+};
+
+/**
+ * Evaluate a report against its policy at a point in time
+ */
+export function evaluateSla(report: SlaReportState, policy: SlaPolicyDefinition, now: Date = new Date()): SlaEvaluation {
+  const created = new Date(report.createdAt);
+  const firstResponseDue = new Date(created.getTime() + policy.first_response_minutes * 60000);
+  const resolutionDue = policy.resolution_minutes
+    ? new Date(created.getTime() + policy.resolution_minutes * 60000)
+    : null;
+
+  const resolved = report.status === 'resolved';
+  // Reports processed before SLA tracking existed count as responded via their status
+  const responded = !!report.sla?.first_response_at || !UNANSWERED_STATUSES.includes(report.status || 'pending');
+
+  const firstResponseBreached = !responded && !resolved && now >= firstResponseDue;
+  const resolutionBreached = !!resolutionDue && !resolved && now >= resolutionDue;
+
+  const escalations: SlaDueEscalation[] = [];
+
+  if (firstResponseBreached) {
+    const step = findDueStep('first_response', policy.first_response_ladder, firstResponseDue,
+      report.sla?.first_response_level || 0, now);
+    if (step) escalations.push(step);
+  }
+
+  if (resolutionBreached) {
+    const step = findDueStep('resolution', policy.resolution_ladder, resolutionDue,
+      report.sla?.resolution_level || 0, now);
+    if (step) escalations.push(step);
+  }
+
+  return { firstResponseDue, resolutionDue, firstResponseBreached, resolutionBreached, escalations };
+}
+
+/**
+ * Load active policies from MongoDB (falls back to the default on errors)
+ */
+export async function loadSlaPolicies(): Promise<SlaPolicyDefinition[]> {
+  try {
+    return (await SlaPolicyModel.findActive()) as unknown as SlaPolicyDefinition[];
+  } catch (error) {
+    console.error("❌ Failed to load SLA policies, using default policy:", error);
+    return [];
+  }
+}
+
+/**
+ * Smallest target across all policies - reports younger than this can't be in breach
+ */
+export function getShortestSlaTargetMinutes(policies: SlaPolicyDefinition[]): number {
+  const targets = [DEFAULT_SLA_POLICY, ...policies].flatMap((p) =>
+    [p.first_response_minutes, p.resolution_minutes].filter((m): m is number => typeof m === 'number' && m > 0)
+  );
+  return Math.min(...targets);
+}
+
+/**
+ * Record the first admin response for reports updated outside of document save()
+ */
+export async function recordFirstResponse(reportId: mongoose.Types.ObjectId | string): Promise<void> {
+  try {
+    await ReportModel.updateOne(
+      { _id: reportId, 'sla.first_response_at': null },
+      { $set: { 'sla.first_response_at': new Date() } }
+    );
+  } catch (error) {
+    console.error(`❌ Failed to record first response for ${reportId}:`, error);
+  }
+}
+
+/**
+ * SLA breach summary for the admin dashboard
+ */
+export async function getSlaBreachReport(since?: Date) {
+  const sinceFilter = since ? { $gte: since } : { $ne: null };
+
+  const [openFirstResponse, openResolution, breachedFirstResponse, breachedResolution, byPolicy, recent] = await Promise.all([
+    ReportModel.countDocuments({
+      'sla.first_response_breached_at': { $ne: null },
+      'sla.first_response_at': null,
+      status: { $ne: 'resolved' }
+    }),
+    ReportModel.countDocuments({
+      'sla.resolution_breached_at': { $ne: null },
+      status: { $ne: 'resolved' }
+    }),
+    ReportModel.countDocuments({ 'sla.first_response_breached_at': sinceFilter }),
+    ReportModel.countDocuments({ 'sla.resolution_breached_at': sinceFilter }),
+    ReportModel.aggregate([
+      {
+        $match: {
+          $or: [
+            { 'sla.first_response_breached_at': sinceFilter },
+            { 'sla.resolution_breached_at': sinceFilter }
+          ]
+        }
+      },
+      {
+        $group: {
+          _id: { $ifNull: ['$sla.policy_name', DEFAULT_SLA_POLICY.name] },
+          firstResponse: { $sum: { $cond: [{ $ifNull: ['$sla.first_response_breached_at', false] }, 1, 0] } },
+          resolution: { $sum: { $cond: [{ $ifNull: ['$sla.resolution_breached_at', false] }, 1, 0] } }
+        }
+      },
+      { $sort: { firstResponse: -1 } }
+    ]),
+    ReportModel.find({
+      $or: [
+        { 'sla.first_response_breached_at': { $ne: null } },
+        { 'sla.resolution_breached_at': { $ne: null } }
+      ],
+      status: { $ne: 'resolved' }
+    })
+      .select('shortId type priority status createdAt sla')
+      .sort({ 'sla.first_response_breached_at': 1 })
+      .limit(20)
+      .lean()
+  ]);
+
+  return {
+    open: {
+      firstResponse: openFirstResponse,
+      resolution: openResolution
+    },
+    breached: {
+      firstResponse: breachedFirstResponse,
+      resolution: breachedResolution,
+      since: since ? since.toISOString() : null
+    },
+    byPolicy: byPolicy.map((row: any) => ({
+      policy: row._id,
+      firstResponse: row.firstResponse,
+      resolution: row.resolution
+    })),
+    openBreaches: recent.map((report: any) => ({
+      shortId: report.shortId,
+      type: report.type,
+      priority: report.priority,
+      status: report.status,
+      createdAt: report.createdAt,
+      policy: report.sla?.policy_name || DEFAULT_SLA_POLICY.name,
+      firstResponseBreachedAt: report.sla?.first_response_breached_at,
+      resolutionBreachedAt: report.sla?.resolution_breached_at,
+      escalationLevel: Math.max(report.sla?.first_response_level || 0, report.sla?.resolution_level || 0)
+    }))
+  };
+}
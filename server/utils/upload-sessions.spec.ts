@@ -0,0 +1,25 @@
+import crypto from "crypto";
+import { describe, it, expect } from "vitest";
+import { expectedChunkLength, validateChunk } from "./upload-sessions";
+
+const checksum = (buffer: Buffer) => crypto.createHash("sha256").update(buffer).digest("hex");
+
+describe("resumable upload chunks", () => {
+  const session = { total_size: 25, chunk_size: 10, received_bytes: 20 };
+
+  it("should expect full chunks and a shorter last chunk", () => {
+    expect(expectedChunkLength(25, 10, 0)).toBe(10);
+    expect(expectedChunkLength(25, 10, 20)).toBe(5);
+    expect(expectedChunkLength(25, 10, 25)).toBe(0);
+  });
+
+  it("should only accept the checksummed chunk at the current offset", () => {
+    const chunk = Buffer.from("last!");
+
+    expect(validateChunk(session, 20, chunk, checksum(chunk))).toBeNull();
+    expect(validateChunk(session, 10, chunk, checksum(chunk))?.status).toBe(409);
+    expect(validateChunk(session, 20, Buffer.from("last"), checksum(Buffer.from("last")))?.status).toBe(400);
+    expect(validateChunk(session, 20, chunk, undefined)?.status).toBe(400);
+    expect(validateChunk(session, 20, chunk, checksum(Buffer.from("other")))?.status).toBe(422);
+  });
+});
@@ -0,0 +1,358 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { ApiError } from '../middleware/errorHandler';
+import UploadSessionModel, { IUploadSession, UploadChunkModel } from '../../shared/models/UploadSession';
+import {
+  ALLOWED_UPLOAD_MIME_TYPES,
+  MAX_UPLOAD_SIZE,
+  decryptBuffer,
+  deleteFile,
+  encryptBuffer,
+  uploadStreamToGridFS
+} from './gridfs';
+import { createVerificationSample, verifyDeclaredType } from './file-verification';
+
+/**
+ * Resumable Upload Sessions for Whistle App
+ * Large evidence files are sent as a series of fixed-size chunks against an upload
+ * session instead of one multipart request. Each chunk carries its offset and a
+ * SHA-256 checksum; the server only accepts the chunk at the current offset, so a
+ * client that lost its connection asks for the offset and carries on from there.
+ * Finalize streams the stored chunks through the usual verify/scan/sanitize/encrypt
+ * path into GridFS, never holding the whole video in memory, and the report form
+ * then attaches the file by upload_id.
+ */
+
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024;
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000; // Since the last chunk (or finalize)
+export const UPLOAD_EXPIRY_JOB = 'uploads:expire';
+
+export interface UploadSessionState {
+  upload_id: string;
+  status: IUploadSession['status'];
+  offset: number;
+  total_size: number;
+  chunk_size: number;
+  expires_at: string;
+}
+
+export interface CreateUploadSessionInput {
+  filename?: unknown;
+  mime_type?: unknown;
+  total_size?: unknown;
+  sha256?: unknown;
+}
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+const sha256 = (buffer: Buffer) => crypto.createHash('sha256').update(buffer).digest('hex');
+
+const fileExtension = (filename: string) => {
+  const match = /\.[a-z0-9]{1,5}$/i.exec(filename);
+  return match ? match[0].toLowerCase() : '';
+};
+
+const nextExpiry = () => new Date(Date.now() + UPLOAD_SESSION_TTL_MS);
+
+const toState = (session: IUploadSession): UploadSessionState => ({
+  upload_id: session.upload_id,
+  status: session.status,
+  offset: session.received_bytes,
+  total_size: session.total_size,
+  chunk_size: session.chunk_size,
+  expires_at: session.expires_at.toISOString()
+});
+
+/**
+ * Size the chunk at the given offset must have: the full chunk size, or the remainder for the last one
+ */
+export function expectedChunkLength(totalSize: number, chunkSize: number, offset: number): number {
+  return Math.max(0, Math.min(chunkSize, totalSize - offset));
+}
+
+/**
+ * Check a chunk against the session before it is stored
+ * Returns null when the chunk can be appended
+ */
+export function validateChunk(
+  session: Pick<IUploadSession, 'total_size' | 'chunk_size' | 'received_bytes'>,
+  offset: number,
+  chunk: Buffer,
+  checksum: string | undefined
+): { status: number; error: string } | null {
+  if (!Number.isInteger(offset) || offset < 0) {
+    return { status: 400, error: 'Upload-Offset header must be a non-negative integer' };
+  }
+  if (offset !== session.received_bytes) {
+    return { status: 409, error: `Chunk offset ${offset} does not match the upload offset ${session.received_bytes}` };
+  }
+  const expected = expectedChunkLength(session.total_size, session.chunk_size, offset);
+  if (expected === 0) {
+    return { status: 409, error: 'All bytes have already been received' };
+  }
+  if (chunk.length !== expected) {
+    return { status: 400, error: `Chunk must be ${expected} bytes at offset ${offset}` };
+  }
+  if (!checksum || !SHA256_PATTERN.test(checksum.toLowerCase())) {
+    return { status: 400, error: 'X-Chunk-SHA256 header with the chunk checksum is required' };
+  }
+  if (sha256(chunk) !== checksum.toLowerCase()) {
+    return { status: 422, error: 'Chunk checksum mismatch' };
+  }
+  return null;
+}
+
+const findSession = async (uploadId: string): Promise<IUploadSession> => {
+  const session = typeof uploadId === 'string' ? await UploadSessionModel.findOne({ upload_id: uploadId }) : null;
+  if (!session || session.status === 'expired') {
+    throw new ApiError('Upload session not found or expired', 404);
+  }
+  return session;
+};
+
+/**
+ * Start a resumable upload
+ */
+export async function createUploadSession(input: CreateUploadSessionInput): Promise<UploadSessionState> {
+  const totalSize = Number(input.total_size);
+  const mimeType = typeof input.mime_type === 'string' ? input.mime_type.toLowerCase() : '';
+  const checksum = typeof input.sha256 === 'string' ? input.sha256.toLowerCase() : undefined;
+
+  // Only videos are attached by upload_id (photos are sanitized as a whole, so they stay small direct uploads)
+  if (!ALLOWED_UPLOAD_MIME_TYPES.includes(mimeType) || !mimeType.startsWith('video/')) {
+    throw new ApiError(`Unsupported file type: ${mimeType || 'unknown'}. Resumable uploads are for videos only.`, 400);
+  }
+  if (!Number.isInteger(totalSize) || totalSize <= 0) {
+    throw new ApiError('total_size must be a positive number of bytes', 400);
+  }
+  if (totalSize > MAX_UPLOAD_SIZE) {
+    throw new ApiError(`File too large (maximum ${MAX_UPLOAD_SIZE / 1024 / 1024}MB)`, 413);
+  }
+  if (checksum !== undefined && !SHA256_PATTERN.test(checksum)) {
+    throw new ApiError('sha256 must be a hex SHA-256 checksum', 400);
+  }
+
+  // Only the extension is kept; camera file names carry the capture date
+  const extension = typeof input.filename === 'string' ? fileExtension(input.filename) : '';
+  const session = await UploadSessionModel.create({
+    upload_id: crypto.randomBytes(32).toString('hex'),
+    filename: `${mimeType.split('/')[0]}${extension}`,
+    mime_type: mimeType,
+    total_size: totalSize,
+    chunk_size: UPLOAD_CHUNK_SIZE,
+    sha256: checksum,
+    expires_at: nextExpiry()
+  });
+
+  console.log(`📤 Resumable upload started: ${totalSize} bytes of ${mimeType}`);
+  return toState(session);
+}
+
+/**
+ * Current offset and status, used by clients to resume after a dropped connection
+ */
+export async function getUploadSessionState(uploadId: string): Promise<UploadSessionState> {
+  return toState(await findSession(uploadId));
+}
+
+/**
+ * Store the chunk at the current offset and advance it
+ * A retried chunk that was already stored is accepted without being stored twice.
+ */
+export async function appendUploadChunk(
+  uploadId: string,
+  offset: number,
+  chunk: Buffer,
+  checksum: string | undefined
+): Promise<UploadSessionState> {
+  const session = await findSession(uploadId);
+  if (session.status !== 'active') {
+    throw new ApiError('Upload has already been finalized', 409);
+  }
+
+  // The response to an earlier attempt was lost: the chunk is already in place
+  if (offset < session.received_bytes) {
+    const stored = await UploadChunkModel.findOne({ upload_id: uploadId, offset }).select('sha256').lean();
+    if (stored && checksum && stored.sha256 === checksum.toLowerCase()) {
+      return toState(session);
+    }
+  }
+
+  const problem = validateChunk(session, offset, chunk, checksum);
+  if (problem) {
+    throw new ApiError(problem.error, problem.status);
+  }
+
+  // Fail fast on a mislabelled file instead of at finalize, after the whole upload
+  if (offset === 0) {
+    try {
+      verifyDeclaredType(chunk, session.mime_type);
+    } catch (error) {
+      throw new ApiError((error as Error).message, 415);
+    }
+  }
+
+  const { encryptedBuffer, iv, authTag } = encryptBuffer(chunk);
+  try {
+    await UploadChunkModel.create({
+      upload_id: uploadId,
+      offset,
+      size: chunk.length,
+      sha256: checksum!.toLowerCase(),
+      data: encryptedBuffer,
+      iv,
+      authTag
+    });
+  } catch (error: any) {
+    if (error?.code !== 11000) throw error;
+    // Stored by a concurrent or interrupted attempt; only the same bytes may take its place
+    const stored = await UploadChunkModel.findOne({ upload_id: uploadId, offset }).select('sha256').lean();
+    if (stored?.sha256 !== checksum!.toLowerCase()) {
+      throw new ApiError('A different chunk was already stored at this offset', 409);
+    }
+  }
+
+  const updated = await UploadSessionModel.findOneAndUpdate(
+    { upload_id: uploadId, status: 'active', received_bytes: offset },
+    { $inc: { received_bytes: chunk.length }, $set: { expires_at: nextExpiry() } },
+    { new: true }
+  );
+  if (!updated) {
+    // Another request for the same chunk advanced the offset first
+    return getUploadSessionState(uploadId);
+  }
+
+  return toState(updated);
+}
+
+/**
+ * Decrypted chunks of a session in order, each checked against its stored checksum
+ */
+async function* readStoredChunks(session: IUploadSession): AsyncGenerator<Buffer> {
+  let expectedOffset = 0;
+  for await (const chunk of UploadChunkModel.find({ upload_id: session.upload_id }).sort({ offset: 1 }).cursor()) {
+    if (chunk.offset !== expectedOffset || expectedOffset + chunk.size > session.total_size) {
+      throw new ApiError('Stored chunks are incomplete, please restart the upload', 409);
+    }
+    const plain = decryptBuffer(chunk.data, chunk.iv, chunk.authTag);
+    if (plain.length !== chunk.size || sha256(plain) !== chunk.sha256) {
+      throw new ApiError('Stored chunk failed verification, please restart the upload', 409);
+    }
+    expectedOffset += plain.length;
+    yield plain;
+  }
+
+  if (expectedOffset !== session.total_size) {
+    throw new ApiError('Stored chunks are incomplete, please restart the upload', 409);
+  }
+}
+
+/**
+ * Verify the stored chunks and stream them into GridFS (scanned, sanitized and encrypted)
+ * The chunks are read one at a time: once to check the checksum and content, then again
+ * by uploadStreamToGridFS. Finalizing twice returns the same file.
+ */
+export async function finalizeUploadSession(
+  uploadId: string,
+  options: { extractGps?: boolean } = {}
+): Promise<UploadSessionState & { file_id: string }> {
+  const session = await findSession(uploadId);
+  if (session.status !== 'active') {
+    if (session.file_id) return { ...toState(session), file_id: session.file_id.toString() };
+    throw new ApiError('Upload has already been finalized', 409);
+  }
+  if (session.received_bytes !== session.total_size) {
+    throw new ApiError(`Upload is incomplete: ${session.received_bytes} of ${session.total_size} bytes received`, 409);
+  }
+
+  const fileHash = crypto.createHash('sha256');
+  const sample = createVerificationSample();
+  for await (const plain of readStoredChunks(session)) {
+    fileHash.update(plain);
+    sample.update(plain);
+  }
+
+  const receivedSha256 = fileHash.digest('hex');
+  if (session.sha256 && receivedSha256 !== session.sha256) {
+    throw new ApiError('File checksum mismatch', 422);
+  }
+
+  let fileId;
+  try {
+    sample.verify(session.mime_type);
+    fileId = await uploadStreamToGridFS(
+      () => Readable.from(readStoredChunks(session)),
+      {
+        filename: `${session.mime_type.split('/')[0]}_${Date.now()}_${session.filename}`,
+        mimetype: session.mime_type,
+        size: session.total_size,
+        sha256: receivedSha256
+      },
+      { extractGps: options.extractGps }
+    );
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    // Verification and sanitizer rejections are the reporter's file, not a server fault
+    throw new ApiError(error instanceof Error ? error.message : 'Failed to store upload', 400);
+  }
+
+  const completed = await UploadSessionModel.findOneAndUpdate(
+    { upload_id: uploadId, status: 'active' },
+    { $set: { status: 'completed', file_id: fileId, expires_at: nextExpiry() } },
+    { new: true }
+  );
+  if (!completed) {
+    // Finalized concurrently; keep the other request's file
+    await deleteFile(fileId).catch(() => undefined);
+    return finalizeUploadSession(uploadId, options);
+  }
+
+  await UploadChunkModel.deleteMany({ upload_id: uploadId });
+  console.log(`✅ Resumable upload finalized: ${session.total_size} bytes -> ${fileId}`);
+  return { ...toState(completed), file_id: fileId.toString() };
+}
+
+/**
+ * Abandon an upload and drop everything stored for it
+ */
+export async function cancelUploadSession(uploadId: string): Promise<void> {
+  const session = await findSession(uploadId);
+  if (session.status === 'consumed') {
+    throw new ApiError('Upload is already attached to a report', 409);
+  }
+  await closeSession(session);
+}
+
+const closeSession = async (session: IUploadSession) => {
+  // Conditional on the status read, so a file claimed by a report in the meantime is kept
+  const closed = await UploadSessionModel.updateOne(
+    { _id: session._id, status: session.status },
+    { $set: { status: 'expired', closed_at: new Date() } }
+  );
+  if (!closed.modifiedCount) return;
+
+  await UploadChunkModel.deleteMany({ upload_id: session.upload_id });
+  if (session.status === 'completed' && session.file_id) {
+    await deleteFile(session.file_id).catch(() => undefined);
+  }
+};
+
+/**
+ * Expire sessions that stopped receiving chunks, or were finalized but never attached
+ * to a report, deleting their chunks and unclaimed files
+ */
+export async function expireUploadSessions(batchSize: number = 200): Promise<{ expired: number }> {
+  const sessions = await UploadSessionModel.find({
+    status: { $in: ['active', 'completed'] },
+    expires_at: { $lt: new Date() }
+  }).limit(batchSize);
+
+  for (const session of sessions) {
+    await closeSession(session);
+  }
+
+  if (sessions.length) {
+    console.log(`🧹 Upload expiry: ${sessions.length} abandoned upload session(s) expired`);
+  }
+  return { expired: sessions.length };
+}
@@ -2,6 +2,8 @@
  * Shared types between client and server for Whistle app
  */
 
+import type { ModerationResult } from "./moderation";
+
 export interface Report {
   id: string;
   message: string;
@@ -63,7 +65,11 @@ export interface Report {
   is_offline_sync?: boolean;
   // Enhanced security and tracking
   shortId: string; // Required for anonymous status lookups
-  history?: StatusHistory[];
+  history?: ReportHistoryEntry[];
+  // Case ownership
+  assigned_to?: string | null;
+  assigned_to_name?: string;
+  assigned_at?: string;
 }
 
 /**
@@ -96,12 +102,8 @@ export interface GridFSFileRef {
   bucketName: 'images' | 'videos'; // GridFS bucket name
 }
 
-export interface ModerationResult {
-  isFlagged: boolean;
-  reason?: string;
-  confidence: number;
-  detectedTerms: string[];
-}
+// Produced by the shared moderation engine (shared/moderation.ts)
+export type { ModerationResult };
 
 export interface StatusHistory {
   status: ReportStatus;
@@ -110,6 +112,31 @@ export interface StatusHistory {
   comment?: string;
 }
 
+/**
+ * Audit trail entry as returned to admins
+ */
+export type ReportHistoryAction = "created" | "status" | "priority" | "assignment" | "note" | "pii_revealed";
+
+export interface ReportHistoryEntry {
+  action: ReportHistoryAction;
+  from?: string;
+  to?: string;
+  admin_id?: string;
+  admin_user?: string;
+  comment?: string;
+  at: string;
+}
+
+/**
+ * Redacted audit trail entry as returned to reporters - status changes only,
+ * without admin identities or internal comments
+ */
+export interface ReporterHistoryEntry {
+  action: "created" | "status";
+  status: ReportStatus;
+  at: string;
+}
+
 export interface VideoMetadata {
   duration: number; // in seconds
   size: number; // in bytes
@@ -161,6 +188,7 @@ export interface CreateReportResponse {
   message: string;
   created_at: string;
   shortId: string; // Always included for frontend to display
+  reporterSecret?: string; // Shown once to the reporter, required for follow-up messaging
 }
 
 export interface GetReportsResponse {
@@ -180,6 +208,9 @@ export interface ReportStatusResponse {
   severity?: ReportSeverity;
   location?: LocationData;
   is_encrypted?: boolean;
+  // True when no valid reporter secret was supplied - only status fields are present
+  details_locked?: boolean;
+  history?: ReporterHistoryEntry[];
 }
 
 export interface UpdateReportRequest {
@@ -187,6 +218,167 @@ export interface UpdateReportRequest {
   admin_response?: string;
 }
 
+/**
+ * Admin that a report can be assigned to
+ */
+export interface AssignableAdmin {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+export interface AssignReportRequest {
+  adminId: string;
+}
+
+/**
+ * Anonymous reporter <-> admin conversation message
+ */
+export type ReportMessageSender = "reporter" | "admin";
+
+export interface ReportThreadMessage {
+  id: string;
+  sender: ReportMessageSender;
+  message: string;
+  admin_user?: string; // Only exposed to admins
+  created_at: string;
+}
+
+export interface ReportMessagesResponse {
+  shortId: string;
+  messages: ReportThreadMessage[];
+}
+
+export interface SendReportMessageRequest {
+  message: string;
+}
+
+/**
+ * Public, aggregated statistics for the reports dashboard
+ * Counts below the k-anonymity threshold are suppressed (null)
+ */
+export type PublicStatus = "pending" | "in_review" | "resolved";
+export type ResolutionTimeBucket = "under_1d" | "1d_3d" | "3d_7d" | "1w_4w" | "over_4w";
+
+export interface PublicWeeklyTrendPoint {
+  weekStart: string; // ISO date (UTC Monday)
+  count: number | null;
+}
+
+export interface PublicReportStats {
+  total: number | null;
+  pending: number | null; // Not yet resolved
+  resolved: number | null;
+  urgent: number | null;
+  categories: Record<string, number>; // By report type; small types merged into "other"
+  priorities: Record<string, number>;
+  statuses: Partial<Record<PublicStatus, number>>;
+  resolutionTime: Partial<Record<ResolutionTimeBucket, number | null>>;
+  weeklyTrend: PublicWeeklyTrendPoint[];
+  kAnonymityThreshold: number;
+  differentialPrivacy: { mechanism: "laplace"; epsilon: number } | null; // null = exact counts
+  generatedAt: string;
+}
+
+/**
+ * Differential privacy configuration for public and exported aggregates
+ */
+export type PrivacyPeriod = "day" | "week" | "month";
+
+export interface PrivacySettings {
+  enabled: boolean;
+  epsilon_public: number; // Epsilon spent per public statistics release
+  epsilon_export: number; // Epsilon spent per aggregate export
+  period_budget: number; // Total epsilon per scope per period
+  period: PrivacyPeriod;
+}
+
+export interface PrivacyBudgetUsage {
+  scope: "public" | "export";
+  period: string;
+  budget: number;
+  spent: number;
+  releases: number;
+}
+
+/**
+ * Per-admin notification preferences - which alerts reach an admin, and how
+ */
+export type NotificationChannel = "email" | "sms";
+export type NotificationLocale = "en" | "es";
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "HH:MM" in the admin's timezone
+  end: string; // May be earlier than start (overnight window)
+  timezone: string; // IANA name, e.g. "Europe/London"
+  urgent_override: boolean; // Urgent reports still come through during quiet hours
+}
+
+export interface NotificationPreferences {
+  channels: NotificationChannel[];
+  min_priority: ReportSeverity; // Reports below this priority are not sent
+  report_types: ReportCategory[]; // Empty means every type
+  quiet_hours: QuietHours;
+  email?: string; // Delivery address, defaults to the account email
+  phone?: string; // E.164 number, required for SMS
+  locale?: NotificationLocale; // Alert language, defaults to NOTIFICATION_LOCALE
+}
+
+/**
+ * Urgent/emergency alerts and their acknowledgement
+ */
+export type AlertAckChannel = "dashboard" | "sms";
+
+export interface AlertSummary {
+  id: string;
+  shortId: string; // Alert code, accepted by "ACK <code>" SMS replies
+  report_id: string;
+  report_short_id?: string;
+  alertType: "urgent" | "emergency";
+  message: string;
+  severity: string;
+  category: string;
+  created_at: string;
+  is_acknowledged: boolean;
+  acknowledged_at?: string;
+  acknowledged_by?: string;
+  acknowledged_via?: AlertAckChannel;
+  paged: string[]; // Names of the on-call admins paged so far
+}
+
+/**
+ * SMS/email delivery providers, their health and the delivery log
+ */
+export type DeliveryStatus = "sent" | "failed";
+export type ProviderHealthStatus = "unknown" | "healthy" | "degraded" | "down";
+
+export interface ProviderHealth {
+  channel: NotificationChannel;
+  provider: string;
+  configured: boolean;
+  status: ProviderHealthStatus;
+  consecutive_failures: number;
+  total_sent: number;
+  total_failed: number;
+  last_success_at?: string;
+  last_failure_at?: string;
+  last_error?: string;
+}
+
+export interface DeliveryLogEntry {
+  id: string;
+  channel: NotificationChannel;
+  provider: string;
+  recipient: string;
+  status: DeliveryStatus;
+  message_id?: string;
+  error?: string;
+  reference?: string; // What was being sent, e.g. "report:AB12CD34"
+  created_at: string;
+}
+
 export interface AdminAuthRequest {
   username: string;
   password: string;
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { stripWebmMetadata } from "./media-metadata";
+
+// EBML element with a 1-byte size
+const element = (id: number[], data: number[]) => [...id, 0x80 | data.length, ...data];
+const text = (value: string) => Array.from(value, (c) => c.charCodeAt(0));
+
+describe("stripWebmMetadata", () => {
+  it("should void the muxing/writing app in place and stop at unknown-size clusters", () => {
+    const info = [
+      ...element([0x2a, 0xd7, 0xb1], [0x0f, 0x42, 0x40]), // TimestampScale (kept)
+      ...element([0x4d, 0x80], text("Chrome")),
+      ...element([0x57, 0x41], text("Chrome")),
+    ];
+    const bytes = Uint8Array.from([
+      ...element([0x1a, 0x45, 0xdf, 0xa3], [0x42, 0x82, 0x84, ...text("webm")]),
+      // Segment and cluster with unknown size, as MediaRecorder writes them
+      0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+      ...element([0x15, 0x49, 0xa9, 0x66], info),
+      0x1f, 0x43, 0xb6, 0x75, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xa3, 0x81, 0x00,
+    ]);
+    const length = bytes.length;
+
+    expect(stripWebmMetadata(bytes)).toEqual(["webm.muxing_app", "webm.writing_app"]);
+    expect(bytes.length).toBe(length);
+    expect(String.fromCharCode(...bytes)).not.toContain("Chrome");
+    expect(String.fromCharCode(...bytes)).toContain(String.fromCharCode(0x2a, 0xd7, 0xb1, 0x83));
+  });
+});
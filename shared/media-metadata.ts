@@ -0,0 +1,322 @@
+/**
+ * Shared Media Metadata Helpers for Whistle App
+ * Used by the report form (scrubbing in the browser before upload) and the server
+ * sanitizer (the final pass before encryption). Works on plain Uint8Arrays so the
+ * same code runs on Node Buffers and browser ArrayBuffers.
+ */
+
+export interface MediaGps {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  source: 'exif' | 'mp4' | 'reporter';
+}
+
+export interface ExifSummary {
+  fields: string[]; // Identifying fields found, e.g. "exif.make", "exif.gps"
+  orientation?: number;
+  gps?: MediaGps;
+}
+
+// Reporter-facing names for the field keys produced here and by the server sanitizer
+export const METADATA_FIELD_LABELS: Record<string, string> = {
+  'exif': 'EXIF data',
+  'exif.description': 'Image description',
+  'exif.make': 'Camera make',
+  'exif.model': 'Camera model',
+  'exif.software': 'Editing software',
+  'exif.datetime': 'Date and time',
+  'exif.datetime_original': 'Date and time taken',
+  'exif.datetime_digitized': 'Date and time digitized',
+  'exif.artist': 'Author',
+  'exif.copyright': 'Copyright',
+  'exif.maker_note': 'Manufacturer notes',
+  'exif.image_unique_id': 'Unique image ID',
+  'exif.owner_name': 'Camera owner',
+  'exif.serial_number': 'Camera serial number',
+  'exif.lens_serial_number': 'Lens serial number',
+  'exif.gps': 'GPS location',
+  'exif.thumbnail': 'Embedded thumbnail',
+  'xmp': 'XMP data',
+  'iptc': 'IPTC data',
+  'comment': 'Comments',
+  'filename': 'Original file name',
+  'webm.date': 'Recording date',
+  'webm.title': 'Title',
+  'webm.muxing_app': 'Recording app',
+  'webm.writing_app': 'Recording app',
+  'webm.tags': 'Tags',
+  'webm.attachments': 'Attachments',
+};
+
+const latin1 = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+const malformed = (format: string, detail: string) =>
+  new Error(`Could not remove metadata from ${format} file (${detail}). Please re-save the file and try again.`);
+
+// ================================================================================================
+// EXIF (TIFF)
+// ================================================================================================
+
+const IFD0_TAGS: Record<number, string> = {
+  0x010e: 'description',
+  0x010f: 'make',
+  0x0110: 'model',
+  0x0131: 'software',
+  0x0132: 'datetime',
+  0x013b: 'artist',
+  0x8298: 'copyright',
+};
+
+const EXIF_IFD_TAGS: Record<number, string> = {
+  0x9003: 'datetime_original',
+  0x9004: 'datetime_digitized',
+  0x927c: 'maker_note',
+  0xa420: 'image_unique_id',
+  0xa430: 'owner_name',
+  0xa431: 'serial_number',
+  0xa435: 'lens_serial_number',
+};
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+/**
+ * Read the identifying fields, orientation and GPS position from a TIFF-structured EXIF block
+ * (the payload after the "Exif\0\0" header)
+ */
+export function readExifMetadata(tiff: Uint8Array, extractGps: boolean): ExifSummary {
+  const summary: ExifSummary = { fields: ['exif'] };
+  if (tiff.length < 8) return summary;
+
+  const order = latin1(tiff, 0, 2);
+  if (order !== 'II' && order !== 'MM') return summary;
+  const le = order === 'II';
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const inBounds = (offset: number, size: number) => offset >= 0 && offset + size <= tiff.length;
+  const u16 = (offset: number) => (inBounds(offset, 2) ? view.getUint16(offset, le) : 0);
+  const u32 = (offset: number) => (inBounds(offset, 4) ? view.getUint32(offset, le) : 0);
+
+  interface Entry { tag: number; type: number; count: number; valueAt: number; }
+  const readIfd = (offset: number): { entries: Entry[]; next: number } => {
+    const entries: Entry[] = [];
+    if (!inBounds(offset, 2)) return { entries, next: 0 };
+    const count = Math.min(u16(offset), 512);
+    for (let i = 0; i < count; i++) {
+      const at = offset + 2 + i * 12;
+      if (!inBounds(at, 12)) break;
+      const type = u16(at + 2);
+      const valueCount = u32(at + 4);
+      const size = (TYPE_SIZES[type] || 1) * valueCount;
+      entries.push({ tag: u16(at), type, count: valueCount, valueAt: size <= 4 ? at + 8 : u32(at + 8) });
+    }
+    return { entries, next: u32(offset + 2 + count * 12) };
+  };
+
+  const ifd0 = readIfd(u32(4));
+  let exifOffset = 0;
+  let gpsOffset = 0;
+  for (const entry of ifd0.entries) {
+    if (IFD0_TAGS[entry.tag]) summary.fields.push(`exif.${IFD0_TAGS[entry.tag]}`);
+    if (entry.tag === 0x0112) summary.orientation = u16(entry.valueAt);
+    if (entry.tag === 0x8769) exifOffset = u32(entry.valueAt);
+    if (entry.tag === 0x8825) gpsOffset = u32(entry.valueAt);
+  }
+  if (ifd0.next) summary.fields.push('exif.thumbnail');
+
+  if (exifOffset) {
+    for (const entry of readIfd(exifOffset).entries) {
+      if (EXIF_IFD_TAGS[entry.tag]) summary.fields.push(`exif.${EXIF_IFD_TAGS[entry.tag]}`);
+    }
+  }
+
+  if (gpsOffset) {
+    summary.fields.push('exif.gps');
+    if (extractGps) {
+      const gpsEntries = readIfd(gpsOffset).entries;
+      const find = (tag: number) => gpsEntries.find((entry) => entry.tag === tag);
+      const rational = (offset: number) => {
+        const denominator = u32(offset + 4);
+        return denominator ? u32(offset) / denominator : 0;
+      };
+      const degrees = (entry?: Entry) =>
+        entry && entry.count >= 3 && inBounds(entry.valueAt, 24)
+          ? rational(entry.valueAt) + rational(entry.valueAt + 8) / 60 + rational(entry.valueAt + 16) / 3600
+          : null;
+      const ref = (entry?: Entry) => (entry && inBounds(entry.valueAt, 1) ? latin1(tiff, entry.valueAt, entry.valueAt + 1) : '');
+
+      const latitude = degrees(find(2));
+      const longitude = degrees(find(4));
+      if (latitude !== null && longitude !== null) {
+        const altitudeEntry = find(6);
+        const altitudeRef = find(5);
+        summary.gps = {
+          latitude: ref(find(1)) === 'S' ? -latitude : latitude,
+          longitude: ref(find(3)) === 'W' ? -longitude : longitude,
+          altitude: altitudeEntry && inBounds(altitudeEntry.valueAt, 8)
+            ? rational(altitudeEntry.valueAt) * (altitudeRef && tiff[altitudeRef.valueAt] === 1 ? -1 : 1)
+            : undefined,
+          source: 'exif',
+        };
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Find the EXIF block of a JPEG (APP1 "Exif\0\0" segment), if any
+ */
+export function findJpegExif(bytes: Uint8Array): Uint8Array | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  let pos = 2;
+  while (pos + 4 <= bytes.length && bytes[pos] === 0xff) {
+    const marker = bytes[pos + 1];
+    // Metadata segments always come before the image data
+    if (marker === 0xda || marker === 0xd9) break;
+    const end = pos + 2 + ((bytes[pos + 2] << 8) | bytes[pos + 3]);
+    if (marker === 0xe1 && latin1(bytes, pos + 4, pos + 10) === 'Exif\0\0') {
+      return bytes.subarray(pos + 10, Math.min(end, bytes.length));
+    }
+    pos = end;
+  }
+  return null;
+}
+
+// ================================================================================================
+// WEBM (EBML)
+// ================================================================================================
+
+export const EBML_SEGMENT = 0x18538067;
+export const EBML_CLUSTER = 0x1f43b675;
+const EBML_INFO = 0x1549a966;
+const EBML_TAGS = 0x1254c367;
+const EBML_ATTACHMENTS = 0x1941a469;
+const EBML_INFO_FIELDS: Record<number, string> = {
+  0x4461: 'date',
+  0x7ba9: 'title',
+  0x4d80: 'muxing_app',
+  0x5741: 'writing_app',
+};
+
+export interface EbmlElementHeader {
+  id: number;
+  dataStart: number;
+  end: number | null; // null = unknown size (runs to the end of its parent)
+}
+
+// EBML variable-length integer: the leading zero bits give the length. Null when the bytes end first.
+const readVint = (bytes: Uint8Array, pos: number, keepMarker: boolean) => {
+  const first = bytes[pos];
+  if (first === undefined) return null;
+  if (first === 0) throw malformed('WebM', 'invalid element header');
+  let length = 1;
+  while (!(first & (0x80 >> (length - 1)))) length++;
+  if (pos + length > bytes.length) return null;
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[pos + i];
+    if (bytes[pos + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+};
+
+/**
+ * Read the element header at pos, or null when the bytes end before the header does
+ */
+export function readEbmlElement(bytes: Uint8Array, pos: number): EbmlElementHeader | null {
+  const id = readVint(bytes, pos, true);
+  const size = id && readVint(bytes, pos + id.length, false);
+  if (!id || !size) return null;
+  const dataStart = pos + id.length + size.length;
+  return { id: id.value, dataStart, end: size.unknown ? null : dataStart + size.value };
+}
+
+const readElement = (bytes: Uint8Array, pos: number): EbmlElementHeader => {
+  const element = readEbmlElement(bytes, pos);
+  if (!element) throw malformed('WebM', 'truncated element header');
+  return element;
+};
+
+// Overwrite an element with a Void element (0xEC) of exactly the same size
+const toVoid = (bytes: Uint8Array, start: number, end: number) => {
+  if (end > bytes.length) throw malformed('WebM', 'truncated element');
+  const total = end - start;
+  bytes[start] = 0xec;
+  if (total <= 128) {
+    bytes[start + 1] = 0x80 | (total - 2);
+    bytes.fill(0, start + 2, end);
+  } else {
+    const dataLength = total - 9;
+    bytes[start + 1] = 0x01;
+    for (let i = 0; i < 7; i++) {
+      bytes[start + 8 - i] = Math.floor(dataLength / Math.pow(256, i)) & 0xff;
+    }
+    bytes.fill(0, start + 9, end);
+  }
+};
+
+/**
+ * Blank the metadata among the Segment children in bytes start..end, in place. The server
+ * also calls this on single children when it sanitizes a large video as a stream.
+ * Returns the removed field keys.
+ */
+export function stripWebmSegmentChildren(bytes: Uint8Array, start: number = 0, end: number = bytes.length): string[] {
+  const removed: string[] = [];
+  let child = start;
+  while (child < end) {
+    const entry = readElement(bytes, child);
+    // Live recordings stream clusters without a size - metadata always precedes them
+    if (entry.end === null) break;
+    const entryEnd = Math.min(entry.end, end);
+
+    if (entry.id === EBML_INFO) {
+      let field = entry.dataStart;
+      while (field < entryEnd) {
+        const info = readElement(bytes, field);
+        if (info.end === null) break;
+        if (EBML_INFO_FIELDS[info.id]) {
+          removed.push(`webm.${EBML_INFO_FIELDS[info.id]}`);
+          toVoid(bytes, field, info.end);
+        }
+        field = info.end;
+      }
+    } else if (entry.id === EBML_TAGS) {
+      removed.push('webm.tags');
+      toVoid(bytes, child, entryEnd);
+    } else if (entry.id === EBML_ATTACHMENTS) {
+      removed.push('webm.attachments');
+      toVoid(bytes, child, entryEnd);
+    }
+    // Sized clusters are skipped, so Tags written after them are still reached
+    child = entryEnd;
+  }
+  return removed;
+}
+
+/**
+ * Blank the dates, title, app names, tags and attachments of a WebM/Matroska file in place.
+ * Elements become Void elements of the same size, so cues and cluster offsets stay valid.
+ * Returns the removed field keys.
+ */
+export function stripWebmMetadata(bytes: Uint8Array): string[] {
+  const removed: string[] = [];
+
+  let pos = 0;
+  while (pos < bytes.length) {
+    const element = readElement(bytes, pos);
+    if (element.id !== EBML_SEGMENT) {
+      if (element.end === null) break;
+      pos = element.end;
+      continue;
+    }
+
+    const segmentEnd = Math.min(element.end ?? bytes.length, bytes.length);
+    removed.push(...stripWebmSegmentChildren(bytes, element.dataStart, segmentEnd));
+    break;
+  }
+
+  return Array.from(new Set(removed));
+}
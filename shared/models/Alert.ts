@@ -1,6 +1,15 @@
 import mongoose, { Document, Schema, Model } from "mongoose";
 import { nanoid } from "nanoid";
 
+export interface IAlertPage {
+  role: "primary" | "secondary";
+  schedule_id: string;
+  admin_id: string;
+  name: string;
+  channels: string[];
+  paged_at: Date;
+}
+
 export interface IAlert extends Document {
   reportId: mongoose.Types.ObjectId;
   shortId: string;
@@ -16,10 +25,12 @@ export interface IAlert extends Document {
   created_at: Date;
   acknowledged_at?: Date;
   acknowledged_by?: string;
+  acknowledged_via?: "dashboard" | "sms";
   is_acknowledged: boolean;
   notification_sent: boolean;
   email_sent: boolean;
   sms_sent?: boolean;
+  pages?: IAlertPage[]; // On-call pages, in the order they were sent
 }
 
 const alertSchema: Schema<IAlert> = new Schema({
@@ -69,6 +80,10 @@ const alertSchema: Schema<IAlert> = new Schema({
   acknowledged_by: {
     type: String
   },
+  acknowledged_via: {
+    type: String,
+    enum: ["dashboard", "sms"]
+  },
   is_acknowledged: {
     type: Boolean,
     default: false,
@@ -85,7 +100,16 @@ const alertSchema: Schema<IAlert> = new Schema({
   sms_sent: {
     type: Boolean,
     default: false
-  }
+  },
+  pages: [{
+    _id: false,
+    role: { type: String, enum: ["primary", "secondary"] },
+    schedule_id: String,
+    admin_id: String,
+    name: String,
+    channels: [String],
+    paged_at: Date
+  }]
 });
 
 // Create compound indexes
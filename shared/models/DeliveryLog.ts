@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+/**
+ * Delivery Log Interface
+ * One entry per provider attempt for every SMS and email sent, so failed alerts
+ * (expired credentials, provider outages) show up instead of disappearing.
+ */
+export interface IDeliveryLog extends Document {
+  _id: mongoose.Types.ObjectId;
+  channel: 'sms' | 'email';
+  provider: string;
+  recipient: string;
+  status: 'sent' | 'failed';
+  message_id?: string; // Provider's id for the message (e.g. Twilio SID, SMTP Message-ID)
+  error?: string;
+  reference?: string; // What was being sent, e.g. "report:AB12CD34"
+  created_at: Date;
+}
+
+const deliveryLogSchema: Schema<IDeliveryLog> = new Schema({
+  channel: {
+    type: String,
+    enum: ['sms', 'email'],
+    required: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  recipient: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['sent', 'failed'],
+    required: true
+  },
+  message_id: {
+    type: String
+  },
+  error: {
+    type: String,
+    maxlength: 1000
+  },
+  reference: {
+    type: String
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  collection: 'delivery_logs'
+});
+
+deliveryLogSchema.index({ channel: 1, status: 1, created_at: -1 });
+deliveryLogSchema.index({ provider: 1, created_at: -1 });
+// Entries are purged after 90 days
+deliveryLogSchema.index({ created_at: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+// Export model with dev mode protection
+const DeliveryLogModel: Model<IDeliveryLog> = mongoose.models.DeliveryLog || mongoose.model<IDeliveryLog>("DeliveryLog", deliveryLogSchema);
+export default DeliveryLogModel;
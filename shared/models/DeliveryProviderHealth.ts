@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+/**
+ * Delivery Provider Health Interface
+ * Send outcomes of each SMS/email provider, shared by every server instance so a provider
+ * one instance found to be down is avoided (and retried) by all of them.
+ */
+export interface IDeliveryProviderHealth extends Document {
+  _id: mongoose.Types.ObjectId;
+  channel: 'sms' | 'email';
+  provider: string;
+  status: 'unknown' | 'healthy' | 'degraded' | 'down';
+  consecutive_failures: number;
+  total_sent: number;
+  total_failed: number;
+  last_success_at?: Date;
+  last_failure_at?: Date;
+  last_error?: string;
+}
+
+const deliveryProviderHealthSchema: Schema<IDeliveryProviderHealth> = new Schema({
+  channel: {
+    type: String,
+    enum: ['sms', 'email'],
+    required: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['unknown', 'healthy', 'degraded', 'down'],
+    default: 'unknown'
+  },
+  consecutive_failures: {
+    type: Number,
+    default: 0
+  },
+  total_sent: {
+    type: Number,
+    default: 0
+  },
+  total_failed: {
+    type: Number,
+    default: 0
+  },
+  last_success_at: {
+    type: Date
+  },
+  last_failure_at: {
+    type: Date
+  },
+  last_error: {
+    type: String,
+    maxlength: 1000
+  }
+}, {
+  collection: 'delivery_provider_health'
+});
+
+deliveryProviderHealthSchema.index({ channel: 1, provider: 1 }, { unique: true });
+
+// Export model with dev mode protection
+const DeliveryProviderHealthModel: Model<IDeliveryProviderHealth> = mongoose.models.DeliveryProviderHealth ||
+  mongoose.model<IDeliveryProviderHealth>("DeliveryProviderHealth", deliveryProviderHealthSchema);
+export default DeliveryProviderHealthModel;
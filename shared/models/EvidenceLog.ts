@@ -0,0 +1,104 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+/**
+ * Evidence Log Entry Interface
+ * Tamper-evident custody log for a report: every read, status change and export is
+ * appended with the hash of the entry before it, so removing or editing any entry
+ * breaks the chain from that point on. Entries are never updated or deleted.
+ */
+export type EvidenceLogAction =
+  | 'created'
+  | 'read'
+  | 'media_read'
+  | 'status'
+  | 'export'
+  | 'verify'
+  | 'certificate';
+
+export interface IEvidenceLogEntry extends Document {
+  _id: mongoose.Types.ObjectId;
+  report_id: mongoose.Types.ObjectId;
+  shortId: string;
+  seq: number; // Position in the report's chain, starting at 0
+  action: EvidenceLogAction;
+  actor: {
+    admin_id: string; // Admin id, or 'system'/'reporter'
+    admin_user: string;
+  };
+  details?: any;
+  at: Date;
+  prev_hash: string; // Hash of entry seq - 1 (all zeros for the first entry)
+  hash: string; // SHA-256 over this entry's content and prev_hash
+}
+
+const evidenceLogSchema: Schema<IEvidenceLogEntry> = new Schema({
+  report_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'Report',
+    required: true
+  },
+  shortId: {
+    type: String,
+    required: true
+  },
+  seq: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  action: {
+    type: String,
+    enum: ['created', 'read', 'media_read', 'status', 'export', 'verify', 'certificate'],
+    required: true
+  },
+  actor: {
+    admin_id: { type: String, required: true },
+    admin_user: { type: String, required: true }
+  },
+  details: {
+    type: Schema.Types.Mixed
+  },
+  at: {
+    type: Date,
+    required: true
+  },
+  prev_hash: {
+    type: String,
+    required: true,
+    match: /^[0-9a-f]{64}$/
+  },
+  hash: {
+    type: String,
+    required: true,
+    match: /^[0-9a-f]{64}$/
+  }
+}, {
+  collection: 'evidence_log'
+});
+
+// One entry per position: concurrent appends race on the index and the loser retries
+evidenceLogSchema.index({ report_id: 1, seq: 1 }, { unique: true });
+evidenceLogSchema.index({ at: -1 });
+
+/**
+ * The log is append-only - reject anything that would rewrite or remove entries
+ */
+evidenceLogSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace',
+    'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  function(next) {
+    next(new Error('Evidence log is append-only'));
+  }
+);
+
+evidenceLogSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return next(new Error('Evidence log is append-only'));
+  }
+  next();
+});
+
+// Export model with dev mode protection
+const EvidenceLogModel: Model<IEvidenceLogEntry> = mongoose.models.EvidenceLog ||
+  mongoose.model<IEvidenceLogEntry>("EvidenceLog", evidenceLogSchema);
+export default EvidenceLogModel;
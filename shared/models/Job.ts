@@ -0,0 +1,107 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+/**
+ * Background Job Interface
+ * Durable queue entry for escalations, notification sends and maintenance work.
+ * Jobs that exhaust their retries are kept with status 'dead' (dead-letter) for inspection.
+ */
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+export interface IJobAttemptError {
+  attempt: number;
+  message: string;
+  at: Date;
+}
+
+export interface IJob extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  payload: any;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date; // Next time the job may be picked up
+  locked_by?: string | null; // Worker id holding the job while running
+  locked_at?: Date | null;
+  dedupe_key?: string; // Prevents the same job being queued twice (e.g. across instances)
+  last_error?: string;
+  attempt_errors: IJobAttemptError[];
+  result?: any;
+  completed_at?: Date;
+  dead_at?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const jobSchema: Schema<IJob> = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'running', 'completed', 'dead'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  max_attempts: {
+    type: Number,
+    default: 5,
+    min: 1
+  },
+  run_at: {
+    type: Date,
+    default: Date.now
+  },
+  locked_by: {
+    type: String,
+    default: null
+  },
+  locked_at: {
+    type: Date,
+    default: null
+  },
+  dedupe_key: {
+    type: String
+  },
+  last_error: {
+    type: String
+  },
+  attempt_errors: [{
+    _id: false,
+    attempt: Number,
+    message: { type: String, maxlength: 1000 },
+    at: { type: Date, default: Date.now }
+  }],
+  result: {
+    type: Schema.Types.Mixed
+  },
+  completed_at: {
+    type: Date
+  },
+  dead_at: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'jobs'
+});
+
+// Worker polling: next due pending job
+jobSchema.index({ status: 1, run_at: 1 });
+jobSchema.index({ name: 1, status: 1 });
+jobSchema.index({ dedupe_key: 1 }, { unique: true, sparse: true });
+// Completed jobs are purged after 7 days; dead-lettered jobs are kept until re-run
+jobSchema.index({ completed_at: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+// Export model with dev mode protection
+const JobModel: Model<IJob> = mongoose.models.Job || mongoose.model<IJob>("Job", jobSchema);
+export default JobModel;
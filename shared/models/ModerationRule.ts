@@ -0,0 +1,104 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+/**
+ * Moderation Rule Interface
+ * Admin-editable term list used both for the moderation verdict and for the
+ * keyword classifier. Terms use the shared moderation engine syntax: whole words,
+ * "prefix*" stems and multi-word phrases, listed per language.
+ */
+export type ModerationRuleSeverity = 'none' | 'low' | 'medium' | 'high';
+export type ModerationRuleAction = 'flag' | 'raise_priority' | 'notify';
+
+export interface IModerationRule extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  terms: {
+    en: string[];
+    es: string[];
+    fr: string[];
+  };
+  severity: ModerationRuleSeverity; // 'none' = classification only, no moderation verdict
+  labels: string[]; // Classifier labels added when the rule matches
+  weight: number; // Added to the keyword classifier's risk score (0-100)
+  actions: ModerationRuleAction[]; // Applied when a new report matches
+  is_active: boolean;
+  created_by?: string;
+  updated_by?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const termList = {
+  type: [{ type: String, trim: true, lowercase: true, maxlength: 100 }],
+  default: []
+};
+
+const moderationRuleSchema: Schema<IModerationRule> = new Schema({
+  name: {
+    type: String,
+    required: [true, 'Rule name is required'],
+    trim: true,
+    maxlength: 100,
+    unique: true
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  terms: {
+    en: termList,
+    es: termList,
+    fr: termList
+  },
+  severity: {
+    type: String,
+    enum: ['none', 'low', 'medium', 'high'],
+    default: 'none'
+  },
+  labels: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  weight: {
+    type: Number,
+    min: 0,
+    max: 100,
+    default: 0
+  },
+  actions: [{
+    type: String,
+    enum: ['flag', 'raise_priority', 'notify']
+  }],
+  is_active: {
+    type: Boolean,
+    default: true
+  },
+  created_by: {
+    type: String
+  },
+  updated_by: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  collection: 'moderation_rules'
+});
+
+// At least one term, in any language
+moderationRuleSchema.pre('validate', function(next) {
+  const count = ['en', 'es', 'fr'].reduce((sum, lang) => sum + ((this.terms as any)?.[lang]?.length || 0), 0);
+  if (count === 0) {
+    this.invalidate('terms', 'A rule needs at least one term');
+  }
+  next();
+});
+
+moderationRuleSchema.index({ is_active: 1, updatedAt: -1 });
+
+// Export model with dev mode protection
+const ModerationRuleModel: Model<IModerationRule> = mongoose.models.ModerationRule ||
+  mongoose.model<IModerationRule>("ModerationRule", moderationRuleSchema);
+export default ModerationRuleModel;
@@ -0,0 +1,175 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+/**
+ * On-Call Schedule Interface
+ * A rotation of admins who are paged for urgent alerts. Shifts hand off every
+ * `shift_days` days at `handoff_time` in the schedule's timezone; the next admin in the
+ * rotation is the secondary. Overrides replace the primary or secondary for a time window.
+ */
+export type OnCallRole = 'primary' | 'secondary';
+
+export interface IOnCallParticipant {
+  admin_id: string;
+  name: string;
+}
+
+export interface IOnCallOverride {
+  _id: mongoose.Types.ObjectId;
+  role: OnCallRole;
+  admin_id: string;
+  name: string;
+  start_at: Date;
+  end_at: Date;
+  reason?: string;
+  created_by?: string;
+  created_at: Date;
+}
+
+export interface IOnCallSchedule extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  timezone: string; // IANA timezone the handoff time is in
+  handoff_time: string; // HH:MM
+  shift_days: number;
+  rotation_start: string; // YYYY-MM-DD, the first participant's first shift
+  participants: IOnCallParticipant[];
+  overrides: IOnCallOverride[];
+  ack_timeout_minutes: number; // Page the secondary if the alert is still unacknowledged
+  is_active: boolean;
+  created_by?: string;
+  updated_by?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const participantSchema = new Schema({
+  admin_id: {
+    type: String,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  }
+}, { _id: false });
+
+const overrideSchema = new Schema({
+  role: {
+    type: String,
+    enum: ['primary', 'secondary'],
+    required: true
+  },
+  admin_id: {
+    type: String,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  start_at: {
+    type: Date,
+    required: true
+  },
+  end_at: {
+    type: Date,
+    required: [true, 'Override end time is required'],
+    validate: {
+      validator: function(this: any, value: Date) {
+        return !this.start_at || value > this.start_at;
+      },
+      message: 'Override must end after it starts'
+    }
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  created_by: {
+    type: String
+  },
+  created_at: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const onCallScheduleSchema: Schema<IOnCallSchedule> = new Schema({
+  name: {
+    type: String,
+    required: [true, 'Schedule name is required'],
+    trim: true,
+    maxlength: 100
+  },
+  timezone: {
+    type: String,
+    default: 'UTC',
+    validate: {
+      validator: isValidTimezone,
+      message: (props: any) => `Unknown timezone: ${props.value}`
+    }
+  },
+  handoff_time: {
+    type: String,
+    default: '09:00',
+    match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Handoff time must be HH:MM']
+  },
+  shift_days: {
+    type: Number,
+    default: 7,
+    min: [1, 'Shifts must be at least 1 day'],
+    max: [28, 'Shifts can be at most 28 days']
+  },
+  rotation_start: {
+    type: String,
+    required: [true, 'Rotation start date is required'],
+    match: [/^\d{4}-\d{2}-\d{2}$/, 'Rotation start must be YYYY-MM-DD']
+  },
+  participants: {
+    type: [participantSchema],
+    validate: {
+      validator: (participants: IOnCallParticipant[]) => participants.length > 0,
+      message: 'A rotation needs at least one participant'
+    }
+  },
+  overrides: {
+    type: [overrideSchema],
+    default: []
+  },
+  ack_timeout_minutes: {
+    type: Number,
+    default: 10,
+    min: [1, 'Acknowledgement timeout must be at least 1 minute'],
+    max: [240, 'Acknowledgement timeout can be at most 240 minutes']
+  },
+  is_active: {
+    type: Boolean,
+    default: true
+  },
+  created_by: {
+    type: String
+  },
+  updated_by: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  collection: 'on_call_schedules'
+});
+
+onCallScheduleSchema.index({ is_active: 1 });
+
+// Export model with dev mode protection
+const OnCallScheduleModel: Model<IOnCallSchedule> = mongoose.models.OnCallSchedule ||
+  mongoose.model<IOnCallSchedule>("OnCallSchedule", onCallScheduleSchema);
+export default OnCallScheduleModel;
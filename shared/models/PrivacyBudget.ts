@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+/**
+ * Privacy Budget Interface
+ * Epsilon spent on differentially private releases per scope and period.
+ * The last release is kept so it can be re-served once the budget is exhausted.
+ */
+export type PrivacyScope = 'public' | 'export';
+
+export interface IPrivacyBudget extends Document {
+  scope: PrivacyScope;
+  period: string; // e.g. '2024-03-14' (day), '2024-03-11' (week start) or '2024-03' (month)
+  budget: number; // Epsilon available in this period
+  spent: number;
+  releases: number;
+  last_release?: any;
+  last_release_at?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const privacyBudgetSchema: Schema<IPrivacyBudget> = new Schema({
+  scope: {
+    type: String,
+    enum: ['public', 'export'],
+    required: true
+  },
+  period: {
+    type: String,
+    required: true
+  },
+  budget: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  spent: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  releases: {
+    type: Number,
+    default: 0
+  },
+  last_release: {
+    type: Schema.Types.Mixed
+  },
+  last_release_at: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'privacy_budgets'
+});
+
+privacyBudgetSchema.index({ scope: 1, period: 1 }, { unique: true });
+privacyBudgetSchema.index({ scope: 1, last_release_at: -1 });
+
+// Export model with dev mode protection
+const PrivacyBudgetModel: Model<IPrivacyBudget> = mongoose.models.PrivacyBudget ||
+  mongoose.model<IPrivacyBudget>("PrivacyBudget", privacyBudgetSchema);
+export default PrivacyBudgetModel;
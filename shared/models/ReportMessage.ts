@@ -0,0 +1,129 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+import { DataEncryption } from "../../server/utils/encryption";
+
+/**
+ * Anonymous conversation message between a reporter and the admin team.
+ * Message bodies are never stored in plaintext: they are encrypted with
+ * DataEncryption exactly like the report's message_encrypted fields.
+ */
+export interface IReportMessage extends Document {
+  _id: mongoose.Types.ObjectId;
+  reportId: mongoose.Types.ObjectId;
+  shortId: string;
+  sender: "reporter" | "admin";
+  admin_user?: string;
+
+  // Plaintext is only held in memory before save
+  message?: string;
+  message_encrypted: string;
+  message_iv: string;
+  message_salt?: string;
+
+  read_by_reporter: boolean;
+  read_by_admin: boolean;
+
+  createdAt: Date;
+  updatedAt: Date;
+
+  getDecryptedMessage(): string;
+}
+
+interface IReportMessageModel extends Model<IReportMessage> {
+  findThread(reportId: mongoose.Types.ObjectId | string): Promise<IReportMessage[]>;
+}
+
+const reportMessageSchema: Schema<IReportMessage> = new Schema({
+  reportId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Report',
+    required: true,
+    index: true
+  },
+  shortId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  sender: {
+    type: String,
+    enum: ['reporter', 'admin'],
+    required: true
+  },
+  admin_user: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Message too long']
+  },
+  message_encrypted: {
+    type: String
+  },
+  message_iv: {
+    type: String
+  },
+  message_salt: {
+    type: String
+  },
+  read_by_reporter: {
+    type: Boolean,
+    default: false
+  },
+  read_by_admin: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true,
+  collection: 'report_messages'
+});
+
+reportMessageSchema.index({ reportId: 1, createdAt: 1 });
+
+/**
+ * Encrypt the message body before it reaches MongoDB and drop the plaintext
+ */
+reportMessageSchema.pre('save', function(next) {
+  if (this.isModified('message') && this.message) {
+    try {
+      const encrypted = DataEncryption.encrypt(this.message);
+      this.message_encrypted = encrypted.encrypted;
+      this.message_iv = encrypted.iv;
+      this.message_salt = encrypted.salt;
+      this.message = undefined;
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  if (!this.message_encrypted || !this.message_iv) {
+    return next(new Error('Message content is required'));
+  }
+
+  next();
+});
+
+reportMessageSchema.methods.getDecryptedMessage = function(): string {
+  try {
+    return DataEncryption.decrypt({
+      encrypted: this.message_encrypted,
+      iv: this.message_iv,
+      salt: this.message_salt
+    });
+  } catch (error) {
+    console.error('❌ Report message decryption failed:', error);
+    return '[ENCRYPTED MESSAGE - DECRYPTION FAILED]';
+  }
+};
+
+reportMessageSchema.statics.findThread = function(reportId: mongoose.Types.ObjectId | string) {
+  return this.find({ reportId }).sort({ createdAt: 1 });
+};
+
+// Export model with dev mode protection
+const ReportMessageModel: IReportMessageModel = (mongoose.models.ReportMessage ||
+  mongoose.model<IReportMessage>("ReportMessage", reportMessageSchema)) as IReportMessageModel;
+export default ReportMessageModel;
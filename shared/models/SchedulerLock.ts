@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+/**
+ * Scheduler Lock Interface
+ * Lease-based leader lock so only one server instance enqueues scheduled work.
+ * The holder renews the lease; other instances take over once it expires.
+ */
+export interface ISchedulerLock extends Document<string> {
+  _id: string; // Lock name, e.g. 'scheduler'
+  owner: string; // Worker id of the current leader
+  expires_at: Date;
+  acquired_at: Date;
+}
+
+const schedulerLockSchema: Schema<ISchedulerLock> = new Schema({
+  _id: {
+    type: String,
+    required: true
+  },
+  owner: {
+    type: String,
+    required: true
+  },
+  expires_at: {
+    type: Date,
+    required: true
+  },
+  acquired_at: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  collection: 'scheduler_locks',
+  versionKey: false
+});
+
+// Export model with dev mode protection
+const SchedulerLockModel: Model<ISchedulerLock> = mongoose.models.SchedulerLock ||
+  mongoose.model<ISchedulerLock>("SchedulerLock", schedulerLockSchema);
+export default SchedulerLockModel;
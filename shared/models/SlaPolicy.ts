@@ -0,0 +1,124 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+/**
+ * SLA Policy Interface
+ * Targets and escalation ladders for a report type/priority pair.
+ * A type or priority of '*' matches any value.
+ */
+export type SlaChannel = 'email' | 'sms' | 'dashboard';
+export type SlaTrack = 'first_response' | 'resolution';
+
+export interface ISlaEscalationStep {
+  after_minutes: number; // Minutes after the target is breached
+  channels: SlaChannel[];
+  emails: string[]; // Empty = default admin email
+  phones: string[]; // Empty = primary on-call admins, else the default admin phone
+}
+
+export interface ISlaPolicy extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  type: string; // Report type or legacy category, or '*'
+  priority: 'low' | 'medium' | 'high' | 'urgent' | '*';
+  first_response_minutes: number;
+  resolution_minutes?: number | null; // null = no resolution target
+  first_response_ladder: ISlaEscalationStep[];
+  resolution_ladder: ISlaEscalationStep[];
+  is_active: boolean;
+  created_by?: string;
+  updated_by?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ISlaPolicyModel extends Model<ISlaPolicy> {
+  findActive(): Promise<ISlaPolicy[]>;
+}
+
+const escalationStepSchema = new Schema({
+  after_minutes: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  channels: [{
+    type: String,
+    enum: ['email', 'sms', 'dashboard']
+  }],
+  emails: [{
+    type: String,
+    trim: true,
+    lowercase: true
+  }],
+  phones: [{
+    type: String,
+    trim: true
+  }]
+}, { _id: false });
+
+const slaPolicySchema: Schema<ISlaPolicy> = new Schema({
+  name: {
+    type: String,
+    required: [true, 'Policy name is required'],
+    trim: true,
+    maxlength: 100
+  },
+  type: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true,
+    default: '*'
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high', 'urgent', '*'],
+    required: true,
+    default: '*'
+  },
+  first_response_minutes: {
+    type: Number,
+    required: [true, 'First response target is required'],
+    min: [1, 'First response target must be at least 1 minute']
+  },
+  resolution_minutes: {
+    type: Number,
+    min: [1, 'Resolution target must be at least 1 minute'],
+    default: null
+  },
+  first_response_ladder: {
+    type: [escalationStepSchema],
+    default: []
+  },
+  resolution_ladder: {
+    type: [escalationStepSchema],
+    default: []
+  },
+  is_active: {
+    type: Boolean,
+    default: true
+  },
+  created_by: {
+    type: String
+  },
+  updated_by: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  collection: 'sla_policies'
+});
+
+// One policy per type/priority pair
+slaPolicySchema.index({ type: 1, priority: 1 }, { unique: true });
+slaPolicySchema.index({ is_active: 1 });
+
+// Static method to load all active policies
+slaPolicySchema.statics.findActive = function() {
+  return this.find({ is_active: true }).lean();
+};
+
+// Export model with dev mode protection
+const SlaPolicyModel: ISlaPolicyModel = (mongoose.models.SlaPolicy ||
+  mongoose.model<ISlaPolicy>("SlaPolicy", slaPolicySchema)) as ISlaPolicyModel;
+export default SlaPolicyModel;
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+/**
+ * System Setting Interface
+ * Key/value store for runtime configuration that admins can tune without a redeploy
+ */
+export interface ISystemSetting extends Document {
+  key: string;
+  value: any;
+  updated_by?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ISystemSettingModel extends Model<ISystemSetting> {
+  getValue<T = any>(key: string): Promise<T | null>;
+  setValue<T = any>(key: string, value: T, updatedBy?: string): Promise<ISystemSetting>;
+}
+
+const systemSettingSchema: Schema<ISystemSetting> = new Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  value: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  updated_by: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  collection: 'system_settings',
+  minimize: false
+});
+
+// Static method to read a setting value (null when not set)
+systemSettingSchema.statics.getValue = async function(key: string) {
+  const setting = await this.findOne({ key }).lean();
+  return setting ? setting.value : null;
+};
+
+// Static method to upsert a setting value
+systemSettingSchema.statics.setValue = function(key: string, value: any, updatedBy?: string) {
+  return this.findOneAndUpdate(
+    { key },
+    { $set: { value, updated_by: updatedBy } },
+    { upsert: true, new: true }
+  );
+};
+
+// Export model with dev mode protection
+const SystemSettingModel: ISystemSettingModel = (mongoose.models.SystemSetting ||
+  mongoose.model<ISystemSetting>("SystemSetting", systemSettingSchema)) as ISystemSettingModel;
+export default SystemSettingModel;
@@ -0,0 +1,148 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+/**
+ * Resumable Upload Session Interface
+ * Tracks a large evidence file sent in chunks over several requests, so an upload
+ * interrupted by a flaky connection can continue from the last stored offset.
+ * The upload_id is a random capability token: whoever holds it can add chunks,
+ * finalize the file and attach it to a new report.
+ */
+export type UploadSessionStatus = 'active' | 'completed' | 'consumed' | 'expired';
+
+export interface IUploadSession extends Document {
+  _id: mongoose.Types.ObjectId;
+  upload_id: string;
+  filename: string;
+  mime_type: string;
+  total_size: number; // Bytes
+  chunk_size: number; // Every chunk but the last must be exactly this size
+  received_bytes: number; // Next expected offset
+  sha256?: string; // Optional checksum of the whole file, checked on finalize
+  status: UploadSessionStatus;
+  file_id?: mongoose.Types.ObjectId; // GridFS file written on finalize
+  expires_at: Date; // Abandoned sessions are expired by the uploads:expire job
+  closed_at?: Date; // Set once consumed or expired; the record is purged after 7 days
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Stored Upload Chunk Interface
+ * Chunks are encrypted at rest like every other piece of evidence until finalize
+ * assembles them into a GridFS file.
+ */
+export interface IUploadChunk extends Document {
+  _id: mongoose.Types.ObjectId;
+  upload_id: string;
+  offset: number;
+  size: number;
+  sha256: string; // Hex checksum of the plaintext chunk
+  data: Buffer; // Encrypted chunk
+  iv: string;
+  authTag: string;
+  createdAt: Date;
+}
+
+const uploadSessionSchema: Schema<IUploadSession> = new Schema({
+  upload_id: {
+    type: String,
+    required: true
+  },
+  filename: {
+    type: String,
+    required: true,
+    maxlength: 255
+  },
+  mime_type: {
+    type: String,
+    required: true
+  },
+  total_size: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  chunk_size: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  received_bytes: {
+    type: Number,
+    default: 0
+  },
+  sha256: {
+    type: String,
+    match: /^[0-9a-f]{64}$/
+  },
+  status: {
+    type: String,
+    enum: ['active', 'completed', 'consumed', 'expired'],
+    default: 'active'
+  },
+  file_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'fs.files'
+  },
+  expires_at: {
+    type: Date,
+    required: true
+  },
+  closed_at: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  collection: 'upload_sessions'
+});
+
+uploadSessionSchema.index({ upload_id: 1 }, { unique: true });
+// Expiry job: sessions past their deadline that still hold chunks or an unclaimed file
+uploadSessionSchema.index({ status: 1, expires_at: 1 });
+uploadSessionSchema.index({ closed_at: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+const uploadChunkSchema: Schema<IUploadChunk> = new Schema({
+  upload_id: {
+    type: String,
+    required: true
+  },
+  offset: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  sha256: {
+    type: String,
+    required: true
+  },
+  data: {
+    type: Buffer,
+    required: true
+  },
+  iv: {
+    type: String,
+    required: true
+  },
+  authTag: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'upload_chunks'
+});
+
+// One chunk per offset, so a retried PUT can't store the same bytes twice
+uploadChunkSchema.index({ upload_id: 1, offset: 1 }, { unique: true });
+
+// Export models with dev mode protection
+export const UploadChunkModel: Model<IUploadChunk> =
+  mongoose.models.UploadChunk || mongoose.model<IUploadChunk>("UploadChunk", uploadChunkSchema);
+
+const UploadSessionModel: Model<IUploadSession> =
+  mongoose.models.UploadSession || mongoose.model<IUploadSession>("UploadSession", uploadSessionSchema);
+export default UploadSessionModel;
@@ -2,6 +2,71 @@ import mongoose, { Document, Schema, Model } from "mongoose";
 import { nanoid } from "nanoid";
 import { DataEncryption } from "../../server/utils/encryption";
 
+// Report classification and workflow values, shared by the schema and route validation
+export const REPORT_TYPES = ['harassment', 'emergency', 'suggestion', 'other'] as const;
+export const REPORT_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+export const REPORT_STATUSES = ['pending', 'in-progress', 'resolved', 'escalated', 'reviewed', 'flagged'] as const;
+export type ReportType = typeof REPORT_TYPES[number];
+export type ReportPriority = typeof REPORT_PRIORITIES[number];
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+/**
+ * Append-only audit trail entry for admin/system changes to a report
+ */
+export type ReportHistoryAction = 'created' | 'status' | 'priority' | 'assignment' | 'note' | 'pii_revealed';
+
+export interface IReportHistoryEntry {
+  action: ReportHistoryAction;
+  from?: string;
+  to?: string;
+  admin_id?: string; // Admin ObjectId/token id, or 'system' for automated changes
+  admin_user?: string; // Display name/email at the time of the change
+  comment?: string;
+  at: Date;
+}
+
+/**
+ * Persisted SLA/escalation state for a report
+ */
+export interface IReportSlaEscalation {
+  track: 'first_response' | 'resolution';
+  level: number;
+  at: Date;
+  channels: string[];
+  recipients: string[];
+}
+
+export interface IReportSla {
+  policy_id?: mongoose.Types.ObjectId | null; // null = built-in default policy
+  policy_name?: string;
+  first_response_due?: Date;
+  resolution_due?: Date;
+  first_response_at?: Date;
+  first_response_breached_at?: Date;
+  resolution_breached_at?: Date;
+  first_response_level: number; // Escalation ladder steps already executed
+  resolution_level: number;
+  escalations: IReportSlaEscalation[];
+}
+
+/**
+ * SHA-256 hashes of the evidence as submitted, fixed when the report is created
+ */
+export interface IReportIntegrity {
+  message_sha256: string;
+  media: Array<{ field: 'photo' | 'video' | 'additional'; file_id: string; sha256: string | null }>;
+  hashed_at: Date;
+}
+
+/**
+ * Head of the report's custody log, updated on every append so a log that was cut
+ * short (entries removed from the end) no longer matches
+ */
+export interface IEvidenceChainHead {
+  head: string; // Hash of the last entry
+  length: number; // Number of entries
+}
+
 /**
  * Enhanced Report Interface with Security and Classification
  * Supports encrypted reporting with multimedia and location data
@@ -12,9 +77,9 @@ export interface IReport extends Document {
   
   // Core report content
   message: string;
-  type: 'harassment' | 'emergency' | 'suggestion' | 'other';
-  priority: 'low' | 'medium' | 'high' | 'urgent';
-  status: 'pending' | 'in-progress' | 'resolved' | 'escalated' | 'reviewed' | 'flagged';
+  type: ReportType;
+  priority: ReportPriority;
+  status: ReportStatus;
   
   // Legacy fields for backward compatibility
   category?: string;
@@ -44,6 +109,8 @@ export interface IReport extends Document {
   photo_file_id?: mongoose.Types.ObjectId;
   video_file_id?: mongoose.Types.ObjectId;
   additional_media?: mongoose.Types.ObjectId[]; // Multiple photos support
+  photo_thumbnail_id?: mongoose.Types.ObjectId; // Encrypted preview of photo_file_id
+  video_thumbnail_id?: mongoose.Types.ObjectId; // Encrypted poster frame of video_file_id
   
   // Encryption system
   is_encrypted: boolean;
@@ -78,14 +145,46 @@ export interface IReport extends Document {
   updated_at?: Date; // For backward compatibility
   moderation_result?: any;
   moderation?: any; // For API compatibility
+  // PII found in the message (types and count only, never the values)
+  pii?: {
+    types: string[];
+    count: number;
+  };
   // AI classification result (optional)
   ai_classification?: any;
   // History of AI classification actions
-  ai_history?: Array<{ at: Date; by: string; action: string; classification: any }>;
+  ai_history?: Array<{
+    at: Date;
+    by: string;
+    action: string;
+    classification: any;
+    strategy?: string;
+    providers?: any[];
+    feedback?: { label?: string; flagged?: boolean }; // Admin correction, used for retraining
+  }>;
   // Convenience top-level confidentiality score (0-100) and flagged boolean
   confidentialityScore?: number;
   flagged?: boolean;
   is_offline_sync?: boolean;
+
+  // Salted hash of the reporter secret issued at submission
+  reporter_secret_hash?: string;
+
+  // Append-only status/priority/assignment/note history
+  history: IReportHistoryEntry[];
+
+  // Content hashes taken at submission (see server/utils/evidence-log.ts)
+  integrity?: IReportIntegrity;
+  evidence_chain?: IEvidenceChainHead;
+
+  // SLA targets and escalation state
+  sla?: IReportSla;
+
+  // Case ownership
+  assigned_to?: string; // Admin id (ObjectId string or environment admin id)
+  assigned_to_name?: string;
+  assigned_by?: string;
+  assigned_at?: Date;
   
   // Timestamps
   createdAt: Date;
@@ -96,6 +195,7 @@ export interface IReport extends Document {
   getDecryptedLocation(): any;
   getDecryptedAdminNotes(): string;
   needsEscalation(): boolean;
+  addHistory(entry: Omit<IReportHistoryEntry, 'at'> & { at?: Date }): void;
   ageInHours: number;
 }
 
@@ -129,14 +229,14 @@ const reportSchema: Schema<IReport> = new Schema({
   // Report classification - updated enum values
   type: {
     type: String,
-    enum: ['harassment', 'emergency', 'suggestion', 'other'],
+    enum: REPORT_TYPES,
     required: [true, 'Report type is required'],
     default: 'other'
   },
 
   priority: {
     type: String,
-    enum: ['low', 'medium', 'high', 'urgent'],
+    enum: REPORT_PRIORITIES,
     required: [true, 'Priority is required'],
     default: 'medium'
   },
@@ -144,7 +244,7 @@ const reportSchema: Schema<IReport> = new Schema({
   // Admin workflow status
   status: {
     type: String,
-    enum: ['pending', 'in-progress', 'resolved', 'escalated', 'reviewed', 'flagged'],
+    enum: REPORT_STATUSES,
     default: 'pending'
   },
 
@@ -226,6 +326,17 @@ const reportSchema: Schema<IReport> = new Schema({
     ref: 'fs.files'
   },
 
+  // Small encrypted previews for list views (generated by the report form)
+  photo_thumbnail_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'fs.files'
+  },
+
+  video_thumbnail_id: {
+    type: Schema.Types.ObjectId,
+    ref: 'fs.files'
+  },
+
   // Support for multiple photo proofs
   additional_media: [{
     type: Schema.Types.ObjectId,
@@ -352,6 +463,12 @@ const reportSchema: Schema<IReport> = new Schema({
     type: Schema.Types.Mixed
   },
 
+  // PII detected in the message - notifications, exports and public views get a redacted copy
+  pii: {
+    types: [{ type: String, enum: ['email', 'card', 'national_id', 'phone', 'address'] }],
+    count: { type: Number, default: 0 }
+  },
+
   // AI classification store (rule-based or ML model outputs)
   ai_classification: {
     labels: [{ type: String }],
@@ -361,19 +478,115 @@ const reportSchema: Schema<IReport> = new Schema({
     score: { type: Number, min: 0, max: 100, default: 0 },
     // Flag deduced from score or model
     flagged: { type: Boolean, default: false },
-    reasons: { type: Schema.Types.Mixed }
+    reasons: { type: Schema.Types.Mixed },
+    // Provider (or 'ensemble') that produced the decision
+    provider: { type: String }
   },
   // History of AI classification actions (reclassify/unflag)
   ai_history: [{
     at: { type: Date, default: Date.now },
     by: { type: String }, // admin identifier or 'system'
-    action: { type: String }, // 'classify' | 'reclassify' | 'unflag'
-    classification: { type: Schema.Types.Mixed }
+    action: { type: String }, // 'classify' | 'reclassify' | 'unflag' | 'backfill'
+    classification: { type: Schema.Types.Mixed },
+    strategy: { type: String }, // 'chain' | 'ensemble'
+    // Every provider's output on the same report, for side-by-side comparison
+    providers: { type: Schema.Types.Mixed },
+    // Admin correction (reclassify override or unflag) used as a training label
+    feedback: {
+      label: { type: String },
+      flagged: { type: Boolean }
+    }
   }],
 
   is_offline_sync: {
     type: Boolean,
     default: false
+  },
+
+  // Reporter secret hash - never returned unless explicitly selected
+  reporter_secret_hash: {
+    type: String,
+    select: false
+  },
+
+  // SLA tracking - survives restarts, updated by the escalation monitor
+  sla: {
+    policy_id: { type: Schema.Types.ObjectId, ref: 'SlaPolicy', default: null },
+    policy_name: { type: String },
+    first_response_due: { type: Date },
+    resolution_due: { type: Date },
+    first_response_at: { type: Date },
+    first_response_breached_at: { type: Date },
+    resolution_breached_at: { type: Date },
+    first_response_level: { type: Number, default: 0 },
+    resolution_level: { type: Number, default: 0 },
+    escalations: [{
+      _id: false,
+      track: { type: String, enum: ['first_response', 'resolution'] },
+      level: { type: Number },
+      at: { type: Date, default: Date.now },
+      channels: [{ type: String }],
+      recipients: [{ type: String }]
+    }]
+  },
+
+  // Case assignment - which admin currently owns the report
+  assigned_to: {
+    type: String,
+    default: null
+  },
+
+  assigned_to_name: {
+    type: String,
+    trim: true,
+    maxlength: 100
+  },
+
+  assigned_by: {
+    type: String
+  },
+
+  assigned_at: {
+    type: Date
+  },
+
+  // Append-only audit trail - entries are immutable once written
+  history: [{
+    _id: false,
+    action: {
+      type: String,
+      enum: ['created', 'status', 'priority', 'assignment', 'note', 'pii_revealed'],
+      required: true,
+      immutable: true
+    },
+    from: { type: String, immutable: true },
+    to: { type: String, immutable: true },
+    admin_id: { type: String, immutable: true },
+    admin_user: { type: String, immutable: true },
+    comment: { type: String, maxlength: 500, immutable: true },
+    at: { type: Date, default: Date.now, immutable: true }
+  }],
+
+  // Evidence hashes - written once at creation, never changed
+  integrity: {
+    message_sha256: { type: String, immutable: true },
+    media: {
+      type: [{
+        _id: false,
+        field: { type: String, enum: ['photo', 'video', 'additional'] },
+        file_id: { type: String },
+        sha256: { type: String, default: null }
+      }],
+      default: undefined,
+      immutable: true
+    },
+    hashed_at: { type: Date, immutable: true }
+  },
+
+  // Custody log head (see server/utils/evidence-log.ts)
+  evidence_chain: {
+    head: { type: String, match: /^[0-9a-f]{64}$/ },
+    length: { type: Number, min: 0 }
   }
 
 }, {
@@ -398,6 +611,9 @@ reportSchema.index({ createdAt: -1 });
 reportSchema.index({ 'location.lat': 1, 'location.lng': 1 });
 reportSchema.index({ photo_file_id: 1 });
 reportSchema.index({ video_file_id: 1 });
+reportSchema.index({ assigned_to: 1, status: 1 });
+reportSchema.index({ 'sla.first_response_breached_at': 1 });
+reportSchema.index({ 'sla.resolution_breached_at': 1 });
 
 // Virtual for report age in hours
 reportSchema.virtual('ageInHours').get(function() {
@@ -474,6 +690,29 @@ reportSchema.methods.getDecryptedAdminNotes = function(): string {
   return this.admin_notes || '';
 };
 
+// Instance method to append an audit trail entry (never edit or remove entries)
+reportSchema.methods.addHistory = function(entry: Omit<IReportHistoryEntry, 'at'> & { at?: Date }) {
+  this.history.push({ ...entry, at: entry.at || new Date() });
+};
+
+/**
+ * Reject query updates that would rewrite or remove history entries.
+ * History may only grow through $push (or addHistory + save).
+ */
+reportSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate'], function(next) {
+  const update: any = this.getUpdate() || {};
+  const forbiddenOperators = ['$set', '$unset', '$pull', '$pullAll', '$pop', '$rename'];
+
+  const touchesHistory = (fields: any) =>
+    fields && Object.keys(fields).some((key) => key === 'history' || key.startsWith('history.'));
+
+  if (touchesHistory(update) || forbiddenOperators.some((op) => touchesHistory(update[op]))) {
+    return next(new Error('Report history is append-only'));
+  }
+
+  next();
+});
+
 // =======================================
 // ENCRYPTION MIDDLEWARE
 // =======================================
@@ -563,6 +802,11 @@ reportSchema.pre('save', function(next) {
   if (this.isModified('status') && this.status === 'resolved' && !this.resolved_at) {
     this.resolved_at = new Date();
   }
+
+  // First admin action on an existing report stops the first-response SLA clock
+  if (!this.isNew && (this.isModified('status') || this.isModified('admin_notes')) && !this.sla?.first_response_at) {
+    this.set('sla.first_response_at', new Date());
+  }
   
   next();
 });
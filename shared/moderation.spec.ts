@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { createModerationEngine, moderateContent, normalizeText } from "./moderation";
+
+describe("moderation engine", () => {
+  it("should see through leetspeak, repeated and spaced-out letters", () => {
+    expect(normalizeText("Sh1t, f.u.c.k and Ação 911")).toBe("shit fuck and acao 911");
+    expect(moderateContent("I will k1lllll you").detectedTerms).toEqual(["kill"]);
+    expect(moderateContent("what the f u c k").matches[0]).toMatchObject({ ruleSet: "profanity", severity: "medium" });
+    expect(moderateContent("Te voy a matar, cabrón").severity).toBe("high");
+  });
+
+  it("should not flag harmless words and respect the configured rule sets", () => {
+    const clean = moderateContent("I studied my diet and the stable skills of the killdeer team");
+    expect(clean).toMatchObject({ isFlagged: false, severity: null, detectedTerms: [] });
+
+    const strict = createModerationEngine({ languages: ["en"], flagSeverity: "medium" });
+    expect(strict("you idiot").isFlagged).toBe(false);
+    expect(strict("you idiot").severity).toBe("low");
+    expect(strict("eres un imbécil").matches).toEqual([]);
+  });
+});
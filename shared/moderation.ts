@@ -0,0 +1,247 @@
+/**
+ * Shared Moderation Engine for Whistle App
+ * One implementation used by both the report form preview (client) and the
+ * server-side verdict stored on each report. Text is normalized before matching
+ * (case, accents, leetspeak, repeated letters and spaced-out letters) so simple
+ * obfuscation like "f.u.c.k" or "k1lllll" is still caught. Term lists are grouped
+ * into rule sets with a severity, and each rule set has per-language terms.
+ */
+
+export type ModerationSeverity = 'low' | 'medium' | 'high';
+
+export type ModerationLanguage = 'en' | 'es' | 'fr';
+
+export interface ModerationRuleSet {
+  id: string;
+  name: string;
+  severity: ModerationSeverity;
+  // Terms per language. A trailing "*" matches word prefixes ("murder*" -> "murderer"), so
+  // short stems are listed as explicit word forms instead ("stab*" would match "stable").
+  // Terms with spaces match whole phrases.
+  terms: Partial<Record<ModerationLanguage, string[]>>;
+  enabled?: boolean;
+}
+
+export interface ModerationMatch {
+  term: string;
+  ruleSet: string;
+  severity: ModerationSeverity;
+  language: ModerationLanguage;
+}
+
+export interface ModerationResult {
+  isFlagged: boolean;
+  reason?: string;
+  severity: ModerationSeverity | null; // Highest severity matched
+  confidence: number;
+  detectedTerms: string[];
+  matches: ModerationMatch[];
+}
+
+export interface ModerationOptions {
+  ruleSets?: ModerationRuleSet[];
+  languages?: ModerationLanguage[]; // Defaults to every language
+  // Lowest severity that flags the content
+  flagSeverity?: ModerationSeverity;
+}
+
+export const MODERATION_LANGUAGES: ModerationLanguage[] = ['en', 'es', 'fr'];
+
+export const DEFAULT_RULE_SETS: ModerationRuleSet[] = [
+  {
+    id: 'violence',
+    name: 'Violence and threats',
+    severity: 'high',
+    terms: {
+      en: ['kill', 'kills', 'killed', 'killing', 'killer', 'murder*', 'bomb*', 'weapon*', 'shoot*', 'stab', 'stabbed', 'stabbing', 'threat*', 'attack*', 'i will hurt', 'going to hurt'],
+      es: ['matar*', 'asesin*', 'bomba*', 'arma', 'armas', 'disparar', 'apuñal*', 'amenaz*'],
+      fr: ['tuer', 'tuerai', 'meurtr*', 'bombe*', 'arme', 'armes', 'poignard*', 'menace*'],
+    },
+  },
+  {
+    id: 'self_harm',
+    name: 'Self-harm',
+    severity: 'high',
+    terms: {
+      en: ['suicide*', 'kill myself', 'end my life', 'self harm', 'want to die'],
+      es: ['suicid*', 'matarme', 'quitarme la vida', 'quiero morir'],
+      fr: ['suicid*', 'me tuer', 'envie de mourir'],
+    },
+  },
+  {
+    id: 'profanity',
+    name: 'Profanity',
+    severity: 'medium',
+    terms: {
+      en: ['fuck*', 'shit', 'shitty', 'bullshit', 'bitch*', 'bastard*', 'asshole*', 'cunt*'],
+      es: ['mierda', 'puta', 'putas', 'puto', 'putos', 'cabron*', 'joder', 'coño', 'pendej*'],
+      fr: ['merde*', 'putain*', 'salope*', 'connard*', 'connasse*', 'encul*'],
+    },
+  },
+  {
+    id: 'hate',
+    name: 'Hate and slurs',
+    severity: 'medium',
+    terms: {
+      en: ['hate you', 'retard', 'retards', 'retarded', 'go back to your country'],
+      es: ['te odio', 'retrasad*', 'vuelve a tu pais'],
+      fr: ['je te deteste', 'je te hais', 'retourne dans ton pays'],
+    },
+  },
+  {
+    id: 'insults',
+    name: 'Insults',
+    severity: 'low',
+    terms: {
+      en: ['idiot*', 'moron*', 'stupid', 'loser'],
+      es: ['idiota*', 'estupid*', 'imbecil*', 'tonto', 'tonta'],
+      fr: ['idiot*', 'imbecile*', 'cretin*', 'abruti*'],
+    },
+  },
+];
+
+const SEVERITY_RANK: Record<ModerationSeverity, number> = { low: 1, medium: 2, high: 3 };
+
+// ================================================================================================
+// NORMALIZATION
+// ================================================================================================
+
+const LEET: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'l', '+': 't', '€': 'e',
+};
+
+/**
+ * Lowercase, strip accents and undo leetspeak and spaced-out letters.
+ * Returns space-separated words.
+ */
+export function normalizeText(text: string): string {
+  let normalized = (text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+
+  // Leetspeak only inside words, so plain numbers ("call 911") stay numbers
+  normalized = normalized.replace(/[a-z0-9@$!|+€]+/g, (word) =>
+    /[a-z]/.test(word) ? word.replace(/[0-9@$!|+€]/g, (c) => LEET[c] || c) : word
+  );
+
+  // "f.u.c.k" / "k i l l" -> "fuck" / "kill"
+  normalized = normalized.replace(/\b[a-z](?:[\s._\-*]+[a-z]\b){2,}/g, (spaced) => spaced.replace(/[\s._\-*]+/g, ''));
+
+  return normalized
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// "fuuuuck" -> "fuck"; terms are squeezed too, so "kill" matches as "kil"
+const squeeze = (word: string) => word.replace(/(.)\1+/g, '$1');
+
+// ================================================================================================
+// ENGINE
+// ================================================================================================
+
+interface CompiledTerm {
+  term: string;
+  words: string[]; // Squeezed words of the term
+  prefix: boolean;
+  ruleSet: ModerationRuleSet;
+  language: ModerationLanguage;
+}
+
+function compileRuleSets(ruleSets: ModerationRuleSet[], languages: ModerationLanguage[]): CompiledTerm[] {
+  const compiled: CompiledTerm[] = [];
+  for (const ruleSet of ruleSets) {
+    if (ruleSet.enabled === false) continue;
+    for (const language of languages) {
+      for (const term of ruleSet.terms[language] || []) {
+        const prefix = term.endsWith('*');
+        const words = normalizeText(prefix ? term.slice(0, -1) : term).split(' ').filter(Boolean).map(squeeze);
+        if (words.length) compiled.push({ term, words, prefix, ruleSet, language });
+      }
+    }
+  }
+  return compiled;
+}
+
+const matchesAt = (words: string[], start: number, term: CompiledTerm): boolean =>
+  term.words.every((word, i) => {
+    const candidate = words[start + i];
+    if (candidate === undefined) return false;
+    // Prefix matching only applies to the last word of the term
+    return term.prefix && i === term.words.length - 1 ? candidate.startsWith(word) : candidate === word;
+  });
+
+/**
+ * Build a moderation function for a set of rule sets
+ */
+export function createModerationEngine(options: ModerationOptions = {}) {
+  const compiled = compileRuleSets(options.ruleSets || DEFAULT_RULE_SETS, options.languages || MODERATION_LANGUAGES);
+  const flagRank = SEVERITY_RANK[options.flagSeverity || 'low'];
+  const names = new Map(compiled.map((term) => [term.ruleSet.id, term.ruleSet.name]));
+
+  return function moderate(text: string): ModerationResult {
+    const words = normalizeText(text).split(' ').filter(Boolean).map(squeeze);
+    const matches: ModerationMatch[] = [];
+    const seen = new Set<string>();
+
+    for (const term of compiled) {
+      const key = `${term.ruleSet.id}:${term.term}`;
+      if (seen.has(key)) continue;
+      for (let i = 0; i < words.length; i++) {
+        if (matchesAt(words, i, term)) {
+          seen.add(key);
+          matches.push({ term: term.term.replace(/\*$/, ''), ruleSet: term.ruleSet.id, severity: term.ruleSet.severity, language: term.language });
+          break;
+        }
+      }
+    }
+
+    const severity = matches.reduce<ModerationSeverity | null>(
+      (max, match) => (!max || SEVERITY_RANK[match.severity] > SEVERITY_RANK[max] ? match.severity : max),
+      null
+    );
+    const isFlagged = !!severity && SEVERITY_RANK[severity] >= flagRank;
+    const detectedTerms = Array.from(new Set(matches.map((match) => match.term)));
+
+    return {
+      isFlagged,
+      reason: isFlagged
+        ? `Potentially inappropriate content detected (${Array.from(new Set(matches.map((m) => names.get(m.ruleSet)))).join(', ')})`
+        : undefined,
+      severity,
+      // More matches and higher severity => higher confidence
+      confidence: matches.length ? Math.min(0.3 * matches.length + 0.1 * SEVERITY_RANK[severity as ModerationSeverity], 1) : 0,
+      detectedTerms,
+      matches,
+    };
+  };
+}
+
+const defaultEngine = createModerationEngine();
+
+/**
+ * Moderate text with the default rule sets
+ */
+export function moderateContent(text: string): ModerationResult {
+  return defaultEngine(text);
+}
+
+/**
+ * Message shown to reporters while they type
+ */
+export function getModerationMessage(result: ModerationResult): string {
+  if (!result.isFlagged) {
+    return '';
+  }
+
+  switch (result.severity) {
+    case 'high':
+      return '⚠️ Your message contains potentially harmful content. Please revise before submitting.';
+    case 'medium':
+      return '⚠️ Your message contains inappropriate language. Consider revising.';
+    case 'low':
+    default:
+      return '💡 Please keep your message professional and appropriate.';
+  }
+}
@@ -0,0 +1,52 @@
+#!/usr/bin/env node
+/**
+ * Local stub for Twilio inbound SMS
+ * Sends a correctly signed "ACK <ID>" webhook to a running Whistle server, the way Twilio
+ * would when an admin replies to an alert SMS.
+ *
+ * Usage: node test-sms-inbound.js <alert or report ID> [from number]
+ * Uses TWILIO_AUTH_TOKEN (the server must have the same one), TWILIO_WEBHOOK_URL or
+ * http://localhost:8080/api/sms/inbound, and ADMIN_PHONE_NUMBER as the default sender.
+ */
+
+import 'dotenv/config';
+import twilio from 'twilio';
+
+async function testInboundAck() {
+  const [code, from = process.env.ADMIN_PHONE_NUMBER] = process.argv.slice(2);
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const url = process.env.TWILIO_WEBHOOK_URL || 'http://localhost:8080/api/sms/inbound';
+
+  if (!code || !from || !authToken) {
+    console.error('❌ Usage: node test-sms-inbound.js <alert or report ID> [from number]');
+    console.error('   TWILIO_AUTH_TOKEN and a sender (argument or ADMIN_PHONE_NUMBER) are required');
+    process.exit(1);
+  }
+
+  const params = {
+    MessageSid: `SM${Date.now()}`,
+    AccountSid: process.env.TWILIO_ACCOUNT_SID || 'ACtest',
+    From: from,
+    To: process.env.TWILIO_FROM_NUMBER || '+15005550006',
+    Body: `ACK ${code}`
+  };
+
+  console.log(`📱 Sending "${params.Body}" from ${from} to ${url}`);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Twilio-Signature': twilio.getExpectedTwilioSignature(authToken, url, params)
+    },
+    body: new URLSearchParams(params).toString()
+  });
+
+  console.log(`📊 Status: ${response.status}`);
+  console.log(await response.text());
+}
+
+testInboundAck().catch((error) => {
+  console.error('❌ Inbound SMS test failed:', error);
+  process.exit(1);
+});
@@ -36,6 +36,10 @@ function expressPlugin(): Plugin {
         try {
           const connectDB = (await import("./shared/db")).default;
           await connectDB();
+
+          // Queued notifications and escalations need a worker in dev mode too
+          const { initializeBackgroundJobs } = await import("./server/utils/background-jobs");
+          initializeBackgroundJobs();
         } catch (error) {
           console.error("❌ MongoDB connection failed in dev mode:", error.message);
           console.log("⚠️  Continuing with in-memory storage for development");